@@ -15,6 +15,8 @@ import PublicDriveLog from "@/pages/public-drive-log";
 import Profile from "@/pages/profile";
 import UserPosts from "@/pages/user-posts";
 import Routes from "@/pages/routes";
+import Segments from "@/pages/segments";
+import SegmentDetail from "@/pages/segment-detail";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -48,6 +50,8 @@ function Router() {
       <Route path="/profile" component={Profile} />
       <Route path="/profile/posts" component={UserPosts} />
       <Route path="/routes" component={Routes} />
+      <Route path="/segments" component={Segments} />
+      <Route path="/segments/:id" component={SegmentDetail} />
       <Route component={NotFound} />
     </Switch>
   );
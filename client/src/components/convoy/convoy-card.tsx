@@ -39,6 +39,7 @@ interface Convoy {
   vehicleTypes?: string[];
   status: string;
   imageUrl?: string;
+  requiresInsurance?: boolean;
 }
 
 interface ConvoyCardProps {
@@ -102,6 +103,9 @@ export default function ConvoyCard({ convoy, showJoinButton = true, variant = "d
         return "bg-green-500/20 text-green-400 border-green-500/30";
       case "full":
         return "bg-yellow-500/20 text-yellow-400 border-yellow-500/30";
+      case "checking_in":
+      case "in_progress":
+        return "bg-primary/20 text-primary border-primary/30";
       case "cancelled":
         return "bg-red-500/20 text-red-400 border-red-500/30";
       case "completed":
@@ -135,7 +139,7 @@ export default function ConvoyCard({ convoy, showJoinButton = true, variant = "d
             
             <div className="flex flex-wrap items-center gap-2 mb-2">
               <Badge variant="outline" className={getStatusColor(convoy.status)}>
-                {convoy.status}
+                {convoy.status.replace("_", " ")}
               </Badge>
               <Badge variant="outline" className={getDifficultyColor(convoy.difficulty)}>
                 {convoy.difficulty}
@@ -270,26 +274,35 @@ export default function ConvoyCard({ convoy, showJoinButton = true, variant = "d
         {/* Action Buttons */}
         {showJoinButton && isUpcoming && convoy.status === "open" && (
           <div className="flex space-x-3">
-            <Button
-              onClick={handleJoinToggle}
-              disabled={joinConvoyMutation.isPending || (isFull && !isJoined)}
-              className={`flex-1 ${
-                isJoined
-                  ? "bg-red-500 hover:bg-red-600"
+            {/* Joining with an insurance requirement means picking a vehicle, which happens on the details page */}
+            {convoy.requiresInsurance && !isJoined ? (
+              <Link href={`/convoy/${convoy.id}`} className="flex-1">
+                <Button className="w-full bg-secondary hover:bg-secondary/90" disabled={isFull}>
+                  {isFull ? "Full" : "Join (insurance required)"}
+                </Button>
+              </Link>
+            ) : (
+              <Button
+                onClick={handleJoinToggle}
+                disabled={joinConvoyMutation.isPending || (isFull && !isJoined)}
+                className={`flex-1 ${
+                  isJoined
+                    ? "bg-red-500 hover:bg-red-600"
+                    : isFull
+                    ? "opacity-50 cursor-not-allowed"
+                    : "bg-secondary hover:bg-secondary/90"
+                }`}
+              >
+                {joinConvoyMutation.isPending
+                  ? "Processing..."
+                  : isJoined
+                  ? "Leave Convoy"
                   : isFull
-                  ? "opacity-50 cursor-not-allowed"
-                  : "bg-secondary hover:bg-secondary/90"
-              }`}
-            >
-              {joinConvoyMutation.isPending
-                ? "Processing..."
-                : isJoined
-                ? "Leave Convoy"
-                : isFull
-                ? "Full"
-                : "Join Convoy"
-              }
-            </Button>
+                  ? "Full"
+                  : "Join Convoy"
+                }
+              </Button>
+            )}
             
             <Link href={`/convoy/${convoy.id}`}>
               <Button variant="outline" size="default">
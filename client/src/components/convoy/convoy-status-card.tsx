@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Flag } from "lucide-react";
+import {
+  CONVOY_MANUAL_TRANSITIONS,
+  isConvoyStatus,
+  type ConvoyStatus,
+  type ConvoyStatusTransition,
+} from "@shared/schema";
+
+interface ConvoyStatusCardProps {
+  convoyId: number;
+  status: string;
+  isOrganizer: boolean;
+}
+
+// Labelled by where the organiser can move a convoy; nothing moves one back to draft, or to full by hand
+const ACTION_LABELS: Partial<Record<ConvoyStatus, string>> = {
+  open: "Publish",
+  checking_in: "Open check-in",
+  in_progress: "Start convoy",
+  completed: "Finish convoy",
+  cancelled: "Cancel convoy",
+};
+
+const REASON_LABELS: Record<string, string> = {
+  created: "created",
+  manual: "by the organiser",
+  capacity: "participant count",
+  schedule: "on schedule",
+};
+
+function formatStatus(status: string) {
+  return status.replace("_", " ");
+}
+
+export default function ConvoyStatusCard({ convoyId, status, isOrganizer }: ConvoyStatusCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: history = [] } = useQuery<ConvoyStatusTransition[]>({
+    queryKey: [`/api/convoys/${convoyId}/status-history`],
+  });
+
+  const changeStatusMutation = useMutation({
+    mutationFn: async (next: ConvoyStatus) => {
+      await apiRequest('POST', `/api/convoys/${convoyId}/status`, { status: next });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}/status-history`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change convoy status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actions = isOrganizer && isConvoyStatus(status) ? CONVOY_MANUAL_TRANSITIONS[status] : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flag className="h-5 w-5" />
+          Status
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {actions.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {actions.map((next) => (
+              <Button
+                key={next}
+                size="sm"
+                variant={next === "cancelled" ? "destructive" : "outline"}
+                onClick={() => changeStatusMutation.mutate(next)}
+                disabled={changeStatusMutation.isPending}
+              >
+                {ACTION_LABELS[next] ?? formatStatus(next)}
+              </Button>
+            ))}
+          </div>
+        )}
+        {history.length > 0 ? (
+          <div className="space-y-2">
+            {history.map((transition) => (
+              <div key={transition.id} className="flex items-center justify-between text-sm">
+                <span className="capitalize">{formatStatus(transition.toStatus)}</span>
+                <span className="text-xs text-muted-foreground">
+                  {REASON_LABELS[transition.reason] ?? transition.reason}
+                  {transition.createdAt && ` · ${new Date(transition.createdAt).toLocaleString()}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No status changes yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
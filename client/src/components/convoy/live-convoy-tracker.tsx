@@ -15,6 +15,14 @@ import {
   Phone,
   Car
 } from "lucide-react";
+import {
+  CONVOY_LIVE_STATUSES,
+  convoyServerMessageSchema,
+  isConvoyStatus,
+  type ConvoyClientMessage,
+  type ConvoyServerMessage,
+  type User,
+} from "@shared/schema";
 
 interface LiveConvoyTrackerProps {
   convoyId: number;
@@ -32,18 +40,15 @@ interface ParticipantLocation {
   timestamp: string;
 }
 
-interface ConvoyMessage {
-  type: string;
-  userId: string;
-  message?: string;
-  emergencyType?: string;
-  latitude?: number;
-  longitude?: number;
-  timestamp: string;
-}
+type ConvoyMessage = Exclude<ConvoyServerMessage, { type: "error" | "joined" | "locations" }>;
+
+// Acks are batched; the server resends anything still unacked after ten seconds
+const ACK_DELAY_MS = 1000;
 
 export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTrackerProps) {
   const { user } = useAuth();
+  const userId = (user as User | undefined)?.id;
+  const isLive = isConvoyStatus(convoy.status) && CONVOY_LIVE_STATUSES.includes(convoy.status);
   const [isConnected, setIsConnected] = useState(false);
   const [participantLocations, setParticipantLocations] = useState<Map<string, ParticipantLocation>>(new Map());
   const [messages, setMessages] = useState<ConvoyMessage[]>([]);
@@ -52,16 +57,20 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
   const [userLocation, setUserLocation] = useState<{lat: number, lng: number} | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const watchIdRef = useRef<number | null>(null);
+  // Last convoy event handled, kept across reconnects so the server can replay what was missed
+  const lastSequenceRef = useRef<number | null>(null);
+  const ackTimerRef = useRef<number | null>(null);
 
   useEffect(() => {
+    lastSequenceRef.current = null;
     connectWebSocket();
     return () => {
       disconnectWebSocket();
     };
-  }, [convoyId, user?.id]);
+  }, [convoyId, userId]);
 
   const connectWebSocket = () => {
-    if (!user?.id) return;
+    if (!userId) return;
 
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
@@ -73,18 +82,18 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
       console.log("WebSocket connected");
       setIsConnected(true);
       
-      // Join convoy room
-      ws.send(JSON.stringify({
-        type: 'join_convoy',
-        convoyId,
-        userId: user.id
-      }));
+      // Join convoy room, resuming after the last event we saw; the server knows who we are from the session
+      send({ type: 'join_convoy', convoyId, lastSequence: lastSequenceRef.current ?? undefined });
     };
 
     ws.onmessage = (event) => {
       try {
-        const data = JSON.parse(event.data);
-        handleWebSocketMessage(data);
+        const result = convoyServerMessageSchema.safeParse(JSON.parse(event.data));
+        if (!result.success) {
+          console.error("Unexpected WebSocket message:", result.error.issues);
+          return;
+        }
+        handleWebSocketMessage(result.data);
       } catch (error) {
         console.error("Error parsing WebSocket message:", error);
       }
@@ -96,7 +105,7 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
       
       // Attempt to reconnect after 3 seconds
       setTimeout(() => {
-        if (convoy.status === 'active') {
+        if (isLive) {
           connectWebSocket();
         }
       }, 3000);
@@ -109,6 +118,10 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
   };
 
   const disconnectWebSocket = () => {
+    if (ackTimerRef.current) {
+      window.clearTimeout(ackTimerRef.current);
+      ackTimerRef.current = null;
+    }
     if (watchIdRef.current) {
       navigator.geolocation.clearWatch(watchIdRef.current);
       watchIdRef.current = null;
@@ -121,17 +134,44 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
     setIsConnected(false);
   };
 
-  const handleWebSocketMessage = (data: ConvoyMessage) => {
+  const send = (message: ConvoyClientMessage) => {
+    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify(message));
+    }
+  };
+
+  const scheduleAck = () => {
+    if (ackTimerRef.current) return;
+    ackTimerRef.current = window.setTimeout(() => {
+      ackTimerRef.current = null;
+      if (lastSequenceRef.current !== null) {
+        send({ type: 'ack', convoyId, sequence: lastSequenceRef.current });
+      }
+    }, ACK_DELAY_MS);
+  };
+
+  const handleWebSocketMessage = (data: ConvoyServerMessage) => {
+    if (data.type === 'joined') {
+      lastSequenceRef.current = data.sequence;
+      return;
+    }
+
+    if ('sequence' in data) {
+      scheduleAck();
+      // Already handled: a resend whose ack crossed on the way
+      if (lastSequenceRef.current !== null && data.sequence <= lastSequenceRef.current) return;
+      lastSequenceRef.current = data.sequence;
+    }
+
     switch (data.type) {
-      case 'location_update':
-        if (data.latitude && data.longitude) {
-          setParticipantLocations(prev => new Map(prev).set(data.userId, {
-            userId: data.userId,
-            latitude: data.latitude!,
-            longitude: data.longitude!,
-            timestamp: data.timestamp
-          }));
-        }
+      case 'locations':
+        setParticipantLocations(prev => {
+          const next = new Map(prev);
+          data.locations
+            .filter(location => location.userId !== userId)
+            .forEach(location => next.set(location.userId, location));
+          return next;
+        });
         break;
       
       case 'convoy_message':
@@ -140,6 +180,10 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
       case 'user_left':
         setMessages(prev => [data, ...prev].slice(0, 100)); // Keep last 100 messages
         break;
+
+      case 'error':
+        console.error("Convoy WebSocket error:", data.message);
+        break;
     }
   };
 
@@ -155,14 +199,7 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
         setUserLocation({ lat: latitude, lng: longitude });
         
         // Send location update via WebSocket
-        if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-          wsRef.current.send(JSON.stringify({
-            type: 'location_update',
-            convoyId,
-            userId: user?.id,
-            payload: { latitude, longitude }
-          }));
-        }
+        send({ type: 'location_update', convoyId, payload: { latitude, longitude } });
       },
       (error) => {
         console.error("Error getting location:", error);
@@ -191,12 +228,7 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
   const sendMessage = () => {
     if (!newMessage.trim() || !wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
 
-    wsRef.current.send(JSON.stringify({
-      type: 'convoy_message',
-      convoyId,
-      userId: user?.id,
-      payload: { message: newMessage }
-    }));
+    send({ type: 'convoy_message', convoyId, payload: { message: newMessage } });
 
     setNewMessage("");
   };
@@ -204,17 +236,16 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
   const sendEmergencyAlert = (emergencyType: string) => {
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
 
-    wsRef.current.send(JSON.stringify({
+    send({
       type: 'emergency_alert',
       convoyId,
-      userId: user?.id,
       payload: {
         emergencyType,
         message: `Emergency: ${emergencyType}`,
         latitude: userLocation?.lat,
         longitude: userLocation?.lng
       }
-    }));
+    });
   };
 
   const formatTime = (timestamp: string) => {
@@ -224,7 +255,7 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
     });
   };
 
-  if (convoy.status !== 'active') {
+  if (!isLive) {
     return (
       <Card>
         <CardHeader>
@@ -235,7 +266,7 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
         </CardHeader>
         <CardContent>
           <p className="text-muted-foreground">
-            Live coordination is only available for active convoys.
+            Live coordination opens when check-in starts.
           </p>
         </CardContent>
       </Card>
@@ -386,11 +417,6 @@ export default function LiveConvoyTracker({ convoyId, convoy }: LiveConvoyTracke
                           User {msg.userId} left the convoy
                         </div>
                       )}
-                      {msg.type === 'location_update' && (
-                        <div className="text-blue-600">
-                          User {msg.userId} updated location
-                        </div>
-                      )}
                     </div>
                     <span className="text-xs text-muted-foreground ml-2">
                       {formatTime(msg.timestamp)}
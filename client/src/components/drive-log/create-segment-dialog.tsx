@@ -0,0 +1,148 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import type { RoutePoint } from "@shared/schema";
+
+interface CreateSegmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  driveLogId: number;
+  points: RoutePoint[];
+}
+
+// Great-circle distance in km, only used to preview the selected stretch
+function distanceBetween(a: RoutePoint, b: RoutePoint) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export default function CreateSegmentDialog({ open, onOpenChange, driveLogId, points }: CreateSegmentDialogProps) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [range, setRange] = useState<number[]>([0, Math.max(points.length - 1, 1)]);
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setDescription("");
+      setRange([0, Math.max(points.length - 1, 1)]);
+    }
+  }, [open, points.length]);
+
+  // Cumulative distance at each point, so the preview is a lookup rather than a walk
+  const cumulative = useMemo(() => {
+    const distances = [0];
+    for (let i = 1; i < points.length; i++) {
+      distances.push(distances[i - 1] + distanceBetween(points[i - 1], points[i]));
+    }
+    return distances;
+  }, [points]);
+
+  const [startIndex, endIndex] = range;
+  const selectedDistance = (cumulative[endIndex] ?? 0) - (cumulative[startIndex] ?? 0);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/segments', {
+        name,
+        description,
+        driveLogId,
+        startIndex,
+        endIndex,
+      });
+      return await response.json();
+    },
+    onSuccess: (segment) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/segments'] });
+      onOpenChange(false);
+      toast({
+        title: "Segment created",
+        description: "Existing drives through it are being timed now.",
+      });
+      setLocation(`/segments/${segment.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create segment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Create Segment</DialogTitle>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="segment-name">Name</Label>
+            <Input
+              id="segment-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Mountain pass climb"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="segment-description">Description</Label>
+            <Textarea
+              id="segment-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What makes this stretch worth timing?"
+              rows={2}
+            />
+          </div>
+          <div className="space-y-3">
+            <Label>Stretch of this drive</Label>
+            <Slider
+              min={0}
+              max={Math.max(points.length - 1, 1)}
+              step={1}
+              minStepsBetweenThumbs={1}
+              value={range}
+              onValueChange={setRange}
+            />
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>From {(cumulative[startIndex] ?? 0).toFixed(2)} km</span>
+              <span className="font-medium text-foreground">{selectedDistance.toFixed(2)} km</span>
+              <span>to {(cumulative[endIndex] ?? 0).toFixed(2)} km</span>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createMutation.isPending || !name.trim()}>
+              {createMutation.isPending ? "Creating..." : "Create Segment"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowDownRight, ArrowUpRight, Mountain } from "lucide-react";
+import type { ElevationProfilePoint } from "@shared/schema";
+
+interface ElevationProfileChartProps {
+  profile: ElevationProfilePoint[];
+  totalAscent?: string | number | null;
+  totalDescent?: string | number | null;
+  maxElevation?: string | number | null;
+  minElevation?: string | number | null;
+}
+
+const chartConfig = {
+  elevation: {
+    label: "Elevation (m)",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+function formatMeters(value?: string | number | null) {
+  return value === null || value === undefined ? "—" : `${Math.round(Number(value))} m`;
+}
+
+export default function ElevationProfileChart({
+  profile,
+  totalAscent,
+  totalDescent,
+  maxElevation,
+  minElevation,
+}: ElevationProfileChartProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div className="flex items-center gap-2">
+          <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Ascent:</span>
+          <span>{formatMeters(totalAscent)}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <ArrowDownRight className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Descent:</span>
+          <span>{formatMeters(totalDescent)}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Mountain className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Highest:</span>
+          <span>{formatMeters(maxElevation)}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Mountain className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Lowest:</span>
+          <span>{formatMeters(minElevation)}</span>
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <AreaChart data={profile} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="distance"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(value) => `${Number(value).toFixed(0)} km`}
+          />
+          <YAxis
+            dataKey="elevation"
+            tickLine={false}
+            axisLine={false}
+            width={48}
+            domain={["dataMin - 20", "dataMax + 20"]}
+            tickFormatter={(value) => `${Math.round(Number(value))}`}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `${payload?.[0]?.payload?.distance ?? 0} km`}
+              />
+            }
+          />
+          <Area
+            dataKey="elevation"
+            type="monotone"
+            stroke="var(--color-elevation)"
+            fill="var(--color-elevation)"
+            fillOpacity={0.2}
+            strokeWidth={2}
+          />
+        </AreaChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Navigation, Square, WifiOff, Clock, Route } from "lucide-react";
+import type { DriveLog, RoutePoint, Vehicle } from "@shared/schema";
+
+interface LiveTripRecorderProps {
+  vehicles?: Vehicle[];
+}
+
+interface BufferedTrack {
+  driveLogId: number;
+  points: RoutePoint[];
+}
+
+// Points are buffered in localStorage so a reload or dropped connection doesn't lose them
+const BUFFER_KEY = 'torquetrail_live_drive_buffer';
+const FLUSH_INTERVAL_MS = 15000;
+const MAX_ACCURACY_METERS = 100;
+
+function loadBuffer(driveLogId: number): RoutePoint[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUFFER_KEY) || 'null') as BufferedTrack | null;
+    return stored && stored.driveLogId === driveLogId ? stored.points : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveBuffer(driveLogId: number, points: RoutePoint[]) {
+  localStorage.setItem(BUFFER_KEY, JSON.stringify({ driveLogId, points }));
+}
+
+export default function LiveTripRecorder({ vehicles }: LiveTripRecorderProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [vehicleId, setVehicleId] = useState("");
+  const [pendingCount, setPendingCount] = useState(0);
+  const [distance, setDistance] = useState(0);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [now, setNow] = useState(Date.now());
+  const bufferRef = useRef<RoutePoint[]>([]);
+  const watchIdRef = useRef<number | null>(null);
+  const flushingRef = useRef(false);
+
+  const { data: liveDriveLog } = useQuery<DriveLog | null>({
+    queryKey: ['/api/drive-logs/live'],
+  });
+
+  const driveLogId = liveDriveLog?.id;
+
+  const flush = async () => {
+    if (!driveLogId || flushingRef.current || bufferRef.current.length === 0) return;
+
+    flushingRef.current = true;
+    const batch = bufferRef.current.slice();
+    try {
+      const response = await apiRequest('POST', `/api/drive-logs/${driveLogId}/points`, { points: batch });
+      const result = await response.json();
+      // Only drop what was sent; points recorded during the upload stay buffered
+      bufferRef.current = bufferRef.current.slice(batch.length);
+      saveBuffer(driveLogId, bufferRef.current);
+      setPendingCount(bufferRef.current.length);
+      setDistance(Number(result.distance) || 0);
+    } catch (error) {
+      console.warn("Track upload failed, keeping points buffered:", error);
+    } finally {
+      flushingRef.current = false;
+    }
+  };
+
+  // Resume an in-progress recording (including after a page reload)
+  useEffect(() => {
+    if (!driveLogId) return;
+
+    bufferRef.current = loadBuffer(driveLogId);
+    setPendingCount(bufferRef.current.length);
+    setDistance(Number(liveDriveLog?.distance) || 0);
+
+    if (navigator.geolocation && watchIdRef.current === null) {
+      watchIdRef.current = navigator.geolocation.watchPosition(
+        (position) => {
+          if (position.coords.accuracy > MAX_ACCURACY_METERS) return;
+
+          const point: RoutePoint = {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            timestamp: new Date(position.timestamp).toISOString(),
+          };
+          if (position.coords.altitude !== null) {
+            point.elevation = position.coords.altitude;
+          }
+          const last = bufferRef.current[bufferRef.current.length - 1];
+          if (last?.timestamp === point.timestamp) return;
+
+          bufferRef.current.push(point);
+          saveBuffer(driveLogId, bufferRef.current);
+          setPendingCount(bufferRef.current.length);
+        },
+        (error) => {
+          console.error("Error getting location:", error);
+        },
+        {
+          enableHighAccuracy: true,
+          timeout: 10000,
+          maximumAge: 0,
+        }
+      );
+    }
+
+    const flushTimer = setInterval(flush, FLUSH_INTERVAL_MS);
+    const clockTimer = setInterval(() => setNow(Date.now()), 1000);
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      clearInterval(flushTimer);
+      clearInterval(clockTimer);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (watchIdRef.current !== null) {
+        navigator.geolocation.clearWatch(watchIdRef.current);
+        watchIdRef.current = null;
+      }
+    };
+  }, [driveLogId]);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      if (!navigator.geolocation) {
+        throw new Error("Geolocation is not supported by this browser");
+      }
+      const response = await apiRequest('POST', '/api/drive-logs/live', {
+        title: title.trim() || undefined,
+        vehicleId: vehicleId || undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: (driveLog: DriveLog) => {
+      localStorage.removeItem(BUFFER_KEY);
+      queryClient.setQueryData(['/api/drive-logs/live'], driveLog);
+      queryClient.invalidateQueries({ queryKey: ['/api/drive-logs'] });
+      setTitle("");
+      setVehicleId("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start recording",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      if (!driveLogId) return null;
+      await flush();
+      if (bufferRef.current.length > 0) {
+        throw new Error("Some points haven't been uploaded yet. Check your connection and try again.");
+      }
+      const response = await apiRequest('POST', `/api/drive-logs/${driveLogId}/finish`, {});
+      return await response.json();
+    },
+    onSuccess: (driveLog: DriveLog | null) => {
+      localStorage.removeItem(BUFFER_KEY);
+      bufferRef.current = [];
+      setPendingCount(0);
+      queryClient.setQueryData(['/api/drive-logs/live'], null);
+      queryClient.invalidateQueries({ queryKey: ['/api/drive-logs'] });
+      if (driveLog) {
+        toast({
+          title: "Drive saved",
+          description: `${driveLog.title} - ${driveLog.distance} km`,
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't finish drive",
+        description: error.message || "Failed to finish recording",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!liveDriveLog) {
+    return (
+      <Card className="mb-6">
+        <CardContent className="p-4 flex flex-col md:flex-row gap-3 md:items-center">
+          <Input
+            placeholder="Trip title (optional)"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="md:flex-1"
+          />
+          <select
+            value={vehicleId}
+            onChange={(e) => setVehicleId(e.target.value)}
+            className="p-2 border border-input rounded-md bg-background md:w-64"
+          >
+            <option value="">Select your vehicle</option>
+            {Array.isArray(vehicles) && vehicles.map((vehicle) => (
+              <option key={vehicle.id} value={vehicle.id}>
+                {vehicle.make} {vehicle.model} ({vehicle.year})
+              </option>
+            ))}
+          </select>
+          <Button onClick={() => startMutation.mutate()} disabled={startMutation.isPending}>
+            <Navigation className="h-4 w-4 mr-2" />
+            {startMutation.isPending ? "Starting..." : "Start Drive"}
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const elapsedMinutes = Math.max(0, Math.floor((now - new Date(liveDriveLog.startTime).getTime()) / 60000));
+
+  return (
+    <Card className="mb-6 border-primary">
+      <CardContent className="p-4 flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Badge variant="destructive" className="animate-pulse">Recording</Badge>
+            <h3 className="font-semibold">{liveDriveLog.title}</h3>
+            {!isOnline && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <WifiOff className="h-3 w-3" />
+                Offline
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {Math.floor(elapsedMinutes / 60)}h {elapsedMinutes % 60}m
+            </span>
+            <span className="flex items-center gap-1">
+              <Route className="h-3 w-3" />
+              {distance.toFixed(1)} km
+            </span>
+            {pendingCount > 0 && <span>{pendingCount} points waiting to upload</span>}
+          </div>
+        </div>
+        <Button
+          variant="destructive"
+          onClick={() => stopMutation.mutate()}
+          disabled={stopMutation.isPending}
+        >
+          <Square className="h-4 w-4 mr-2" />
+          {stopMutation.isPending ? "Saving..." : "Stop Drive"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
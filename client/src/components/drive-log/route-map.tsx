@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react";
+import type { SimplifiedRoute } from "@shared/schema";
+
+interface RouteMapPitstop {
+  name: string;
+  latitude: number | string;
+  longitude: number | string;
+}
+
+interface RouteMapProps {
+  route: SimplifiedRoute;
+  pitstops?: RouteMapPitstop[];
+  className?: string;
+}
+
+// Zoom levels at which the map switches to a more detailed polyline
+const REGIONAL_ZOOM = 9;
+const DETAIL_ZOOM = 13;
+
+function levelForZoom(zoom: number): keyof SimplifiedRoute {
+  if (zoom >= DETAIL_ZOOM) return 'detail';
+  if (zoom >= REGIONAL_ZOOM) return 'regional';
+  return 'overview';
+}
+
+function toPath(points: [number, number][]) {
+  return points.map(([lat, lng]) => ({ lat, lng }));
+}
+
+export default function RouteMap({ route, pitstops = [], className }: RouteMapProps) {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<any>(null);
+  const polylineRef = useRef<any>(null);
+  const markersRef = useRef<any[]>([]);
+  const [isMapLoaded, setIsMapLoaded] = useState(false);
+
+  useEffect(() => {
+    const initializeMap = () => {
+      if (!mapRef.current || !window.google) return;
+
+      const map = new window.google.maps.Map(mapRef.current, {
+        zoom: 8,
+        center: { lat: route.overview[0]?.[0] ?? 0, lng: route.overview[0]?.[1] ?? 0 },
+        mapTypeControl: false,
+        streetViewControl: false,
+        fullscreenControl: true,
+      });
+      mapInstanceRef.current = map;
+      polylineRef.current = new window.google.maps.Polyline({
+        map,
+        strokeColor: '#ef4444',
+        strokeOpacity: 0.9,
+        strokeWeight: 4,
+      });
+
+      map.addListener('zoom_changed', () => {
+        polylineRef.current?.setPath(toPath(route[levelForZoom(map.getZoom())]));
+      });
+
+      setIsMapLoaded(true);
+    };
+
+    const loadGoogleMaps = async () => {
+      if (window.google) {
+        initializeMap();
+        return;
+      }
+
+      try {
+        const response = await fetch('/api/google-maps-config');
+        const config = await response.json();
+
+        const script = document.createElement('script');
+        script.src = config.scriptUrl;
+        script.async = true;
+        script.defer = true;
+        window.initMap = () => setTimeout(initializeMap, 100);
+        document.head.appendChild(script);
+      } catch (error) {
+        console.error('Failed to load Google Maps configuration:', error);
+      }
+    };
+
+    loadGoogleMaps();
+  }, []);
+
+  // Fit the whole route on load and whenever it changes
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!isMapLoaded || !map) return;
+
+    const bounds = new window.google.maps.LatLngBounds();
+    route.overview.forEach(([lat, lng]) => bounds.extend({ lat, lng }));
+    if (!bounds.isEmpty()) map.fitBounds(bounds);
+    polylineRef.current.setPath(toPath(route[levelForZoom(map.getZoom() ?? 8)]));
+
+    markersRef.current.forEach(marker => marker.setMap(null));
+    markersRef.current = pitstops
+      .map((pitstop, index) => ({ pitstop, index, lat: Number(pitstop.latitude), lng: Number(pitstop.longitude) }))
+      .filter(({ lat, lng }) => !isNaN(lat) && !isNaN(lng))
+      .map(({ pitstop, index, lat, lng }) => new window.google.maps.Marker({
+        map,
+        position: { lat, lng },
+        title: pitstop.name,
+        label: String(index + 1),
+      }));
+  }, [isMapLoaded, route, pitstops]);
+
+  return <div ref={mapRef} className={className ?? "w-full h-64 md:h-96 rounded-lg"} />;
+}
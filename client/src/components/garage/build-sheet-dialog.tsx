@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Gauge, Hammer, Plus, Timer, Trash2 } from "lucide-react";
+import { MODIFICATION_CATEGORIES, type BuildSheet } from "@shared/schema";
+
+interface BuildSheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: { id: number; make: string; model: string; year: number };
+}
+
+const chartConfig = {
+  horsepower: {
+    label: "Power (hp)",
+    color: "hsl(var(--primary))",
+  },
+  torque: {
+    label: "Torque (Nm)",
+    color: "hsl(var(--secondary))",
+  },
+} satisfies ChartConfig;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function formatFigure(value: number | null, unit: string) {
+  return value === null ? "—" : `${value} ${unit}`;
+}
+
+export default function BuildSheetDialog({ open, onOpenChange, vehicle }: BuildSheetDialogProps) {
+  const { toast } = useToast();
+
+  // Modification form
+  const [category, setCategory] = useState<string>(MODIFICATION_CATEGORIES[0]);
+  const [part, setPart] = useState("");
+  const [brand, setBrand] = useState("");
+  const [installedAt, setInstalledAt] = useState(today());
+  const [cost, setCost] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [installer, setInstaller] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  // Performance form
+  const [recordedAt, setRecordedAt] = useState(today());
+  const [horsepower, setHorsepower] = useState("");
+  const [torque, setTorque] = useState("");
+  const [zeroToHundred, setZeroToHundred] = useState("");
+  const [quarterMileTime, setQuarterMileTime] = useState("");
+  const [quarterMileSpeed, setQuarterMileSpeed] = useState("");
+  const [performanceNotes, setPerformanceNotes] = useState("");
+  const [timeslip, setTimeslip] = useState<File | null>(null);
+
+  const { data: buildSheet, isLoading } = useQuery<BuildSheet>({
+    queryKey: [`/api/vehicles/${vehicle.id}/build-sheet`],
+    enabled: open,
+  });
+
+  const invalidateBuildSheet = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${vehicle.id}/build-sheet`] });
+  };
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createModificationMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("category", category);
+      formData.append("part", part);
+      formData.append("currency", currency);
+      if (brand) formData.append("brand", brand);
+      if (installedAt) formData.append("installedAt", installedAt);
+      if (cost) formData.append("cost", cost);
+      if (installer) formData.append("installer", installer);
+      photos.forEach((file) => formData.append("photos", file));
+      const response = await apiRequest("POST", `/api/vehicles/${vehicle.id}/modifications`, formData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateBuildSheet();
+      setPart("");
+      setBrand("");
+      setCost("");
+      setInstaller("");
+      setPhotos([]);
+    },
+    onError: showError("Failed to add modification"),
+  });
+
+  const deleteModificationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/modifications/${id}`);
+    },
+    onSuccess: invalidateBuildSheet,
+    onError: showError("Failed to delete modification"),
+  });
+
+  const createPerformanceMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("recordedAt", recordedAt);
+      if (horsepower) formData.append("horsepower", horsepower);
+      if (torque) formData.append("torque", torque);
+      if (zeroToHundred) formData.append("zeroToHundred", zeroToHundred);
+      if (quarterMileTime) formData.append("quarterMileTime", quarterMileTime);
+      if (quarterMileSpeed) formData.append("quarterMileSpeed", quarterMileSpeed);
+      if (performanceNotes) formData.append("notes", performanceNotes);
+      if (timeslip) formData.append("timeslip", timeslip);
+      const response = await apiRequest("POST", `/api/vehicles/${vehicle.id}/performance-records`, formData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateBuildSheet();
+      setHorsepower("");
+      setTorque("");
+      setZeroToHundred("");
+      setQuarterMileTime("");
+      setQuarterMileSpeed("");
+      setPerformanceNotes("");
+      setTimeslip(null);
+    },
+    onError: showError("Failed to add performance record"),
+  });
+
+  const deletePerformanceMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/performance-records/${id}`);
+    },
+    onSuccess: invalidateBuildSheet,
+    onError: showError("Failed to delete performance record"),
+  });
+
+  const chartData = buildSheet?.powerHistory.map((point) => ({
+    ...point,
+    date: new Date(point.recordedAt).toLocaleDateString(),
+  })) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Hammer className="h-5 w-5" />
+            Build Sheet · {vehicle.year} {vehicle.make} {vehicle.model}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !buildSheet ? (
+          <div className="text-sm text-muted-foreground">Loading build sheet...</div>
+        ) : (
+          <Tabs defaultValue="build">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="build">Modifications ({buildSheet.modificationCount})</TabsTrigger>
+              <TabsTrigger value="performance">Performance</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="build" className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+                {buildSheet.stock.engine && <Badge variant="outline">{buildSheet.stock.engine}</Badge>}
+                {buildSheet.stock.horsepower && <Badge variant="outline">{buildSheet.stock.horsepower} hp stock</Badge>}
+                {buildSheet.totalCost.map((cost) => (
+                  <Badge key={cost.currency} variant="outline">{cost.total.toFixed(2)} {cost.currency} invested</Badge>
+                ))}
+              </div>
+
+              {buildSheet.modifications.length > 0 ? (
+                buildSheet.modifications.map((group) => (
+                  <div key={group.category} className="space-y-2">
+                    <h3 className="font-medium capitalize">{group.category}</h3>
+                    {group.items.map((mod) => (
+                      <div key={mod.id} className="flex items-start justify-between border rounded-lg p-3">
+                        <div className="space-y-1">
+                          <div className="font-medium">{[mod.brand, mod.part].filter(Boolean).join(" ")}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {mod.installedAt ? new Date(mod.installedAt).toLocaleDateString() : "Install date unknown"}
+                            {mod.installer && ` · ${mod.installer}`}
+                            {mod.cost !== null && ` · ${Number(mod.cost).toFixed(2)} ${mod.currency}`}
+                          </div>
+                          {mod.photoUrls && mod.photoUrls.length > 0 && (
+                            <div className="flex gap-2">
+                              {mod.photoUrls.map((url) => (
+                                <img key={url} src={url} alt={mod.part} className="w-12 h-12 object-cover rounded" />
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteModificationMutation.mutate(mod.id)}
+                          disabled={deleteModificationMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                ))
+              ) : (
+                <div className="text-sm text-muted-foreground">Still stock. Log your first modification below.</div>
+              )}
+
+              <form
+                className="space-y-3 border rounded-lg p-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  createModificationMutation.mutate();
+                }}
+              >
+                <h3 className="font-medium">Add Modification</h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="mod-category">Category</Label>
+                    <select
+                      id="mod-category"
+                      value={category}
+                      onChange={(e) => setCategory(e.target.value)}
+                      className="w-full p-2 border border-input rounded-md bg-background capitalize"
+                    >
+                      {MODIFICATION_CATEGORIES.map((option) => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="mod-part">Part *</Label>
+                    <Input id="mod-part" value={part} onChange={(e) => setPart(e.target.value)} placeholder="e.g., Cat-back exhaust" required />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="mod-brand">Brand</Label>
+                    <Input id="mod-brand" value={brand} onChange={(e) => setBrand(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="mod-date">Installed</Label>
+                    <Input id="mod-date" type="date" value={installedAt} onChange={(e) => setInstalledAt(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="mod-cost">Cost</Label>
+                    <Input id="mod-cost" type="number" step="0.01" min="0" value={cost} onChange={(e) => setCost(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="mod-currency">Currency</Label>
+                    <Input id="mod-currency" value={currency} maxLength={3} onChange={(e) => setCurrency(e.target.value.toUpperCase())} required />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="mod-installer">Installer</Label>
+                    <Input id="mod-installer" value={installer} onChange={(e) => setInstaller(e.target.value)} placeholder="Shop, or self" />
+                  </div>
+                  <div className="space-y-1 col-span-2">
+                    <Label htmlFor="mod-photos">Photos</Label>
+                    <Input
+                      id="mod-photos"
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, 5))}
+                    />
+                  </div>
+                </div>
+                <Button type="submit" disabled={createModificationMutation.isPending || !part.trim()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  {createModificationMutation.isPending ? "Saving..." : "Add Modification"}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="performance" className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="text-center p-3 bg-muted rounded-lg">
+                  <div className="text-xl font-bold">{formatFigure(buildSheet.best.horsepower, "hp")}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Best power{buildSheet.powerGain !== null && ` (${buildSheet.powerGain >= 0 ? "+" : ""}${buildSheet.powerGain})`}
+                  </div>
+                </div>
+                <div className="text-center p-3 bg-muted rounded-lg">
+                  <div className="text-xl font-bold">{formatFigure(buildSheet.best.torque, "Nm")}</div>
+                  <div className="text-xs text-muted-foreground">Best torque</div>
+                </div>
+                <div className="text-center p-3 bg-muted rounded-lg">
+                  <div className="text-xl font-bold">{formatFigure(buildSheet.best.zeroToHundred, "s")}</div>
+                  <div className="text-xs text-muted-foreground">0–100 km/h</div>
+                </div>
+                <div className="text-center p-3 bg-muted rounded-lg">
+                  <div className="text-xl font-bold">{formatFigure(buildSheet.best.quarterMileTime, "s")}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Quarter mile{buildSheet.best.quarterMileSpeed !== null && ` @ ${buildSheet.best.quarterMileSpeed} km/h`}
+                  </div>
+                </div>
+              </div>
+
+              {chartData.length > 1 && (
+                <div className="space-y-2">
+                  <h3 className="font-medium">Power Over Time</h3>
+                  <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+                    <LineChart data={chartData} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={48} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(_, payload) => {
+                              const point = payload?.[0]?.payload;
+                              return point ? `${point.date} · ${point.modificationsInstalled} mods` : "";
+                            }}
+                          />
+                        }
+                      />
+                      <Line dataKey="horsepower" type="monotone" stroke="var(--color-horsepower)" strokeWidth={2} connectNulls />
+                      <Line dataKey="torque" type="monotone" stroke="var(--color-torque)" strokeWidth={2} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              )}
+
+              {buildSheet.performance.length > 0 && (
+                <div className="space-y-2">
+                  {[...buildSheet.performance].reverse().map((record) => (
+                    <div key={record.id} className="flex items-start justify-between border rounded-lg p-3">
+                      <div className="space-y-1">
+                        <div className="text-sm font-medium flex flex-wrap items-center gap-3">
+                          {record.horsepower !== null && (
+                            <span className="flex items-center gap-1"><Gauge className="h-4 w-4" />{Number(record.horsepower)} hp</span>
+                          )}
+                          {record.torque !== null && <span>{Number(record.torque)} Nm</span>}
+                          {record.zeroToHundred !== null && (
+                            <span className="flex items-center gap-1"><Timer className="h-4 w-4" />0–100 {Number(record.zeroToHundred)} s</span>
+                          )}
+                          {record.quarterMileTime !== null && (
+                            <span>
+                              ¼ mile {Number(record.quarterMileTime)} s
+                              {record.quarterMileSpeed !== null && ` @ ${Number(record.quarterMileSpeed)} km/h`}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(record.recordedAt).toLocaleDateString()}
+                          {record.notes && ` · ${record.notes}`}
+                          {record.timeslipUrl && (
+                            <>
+                              {" · "}
+                              <a href={record.timeslipUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                                Timeslip
+                              </a>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deletePerformanceMutation.mutate(record.id)}
+                        disabled={deletePerformanceMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <form
+                className="space-y-3 border rounded-lg p-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  createPerformanceMutation.mutate();
+                }}
+              >
+                <h3 className="font-medium">Add Result</h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="perf-date">Date</Label>
+                    <Input id="perf-date" type="date" value={recordedAt} onChange={(e) => setRecordedAt(e.target.value)} required />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="perf-hp">Dyno power (hp)</Label>
+                    <Input id="perf-hp" type="number" step="0.1" min="0" value={horsepower} onChange={(e) => setHorsepower(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="perf-torque">Dyno torque (Nm)</Label>
+                    <Input id="perf-torque" type="number" step="0.1" min="0" value={torque} onChange={(e) => setTorque(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="perf-zero">0–100 km/h (s)</Label>
+                    <Input id="perf-zero" type="number" step="0.01" min="0" value={zeroToHundred} onChange={(e) => setZeroToHundred(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="perf-quarter">Quarter mile (s)</Label>
+                    <Input id="perf-quarter" type="number" step="0.01" min="0" value={quarterMileTime} onChange={(e) => setQuarterMileTime(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="perf-trap">Trap speed (km/h)</Label>
+                    <Input id="perf-trap" type="number" step="0.1" min="0" value={quarterMileSpeed} onChange={(e) => setQuarterMileSpeed(e.target.value)} />
+                  </div>
+                  <div className="space-y-1 col-span-2">
+                    <Label htmlFor="perf-notes">Notes</Label>
+                    <Input id="perf-notes" value={performanceNotes} onChange={(e) => setPerformanceNotes(e.target.value)} placeholder="Dyno type, venue, conditions" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="perf-timeslip">Timeslip</Label>
+                    <Input id="perf-timeslip" type="file" accept="image/*" onChange={(e) => setTimeslip(e.target.files?.[0] || null)} />
+                  </div>
+                </div>
+                <Button
+                  type="submit"
+                  disabled={createPerformanceMutation.isPending || (!horsepower && !torque && !zeroToHundred && !quarterMileTime)}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {createPerformanceMutation.isPending ? "Saving..." : "Add Result"}
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { FileText } from "lucide-react";
+import type { DocumentExpiry } from "@shared/schema";
+
+export default function DocumentExpiryCard() {
+  const { data: expiring = [] } = useQuery<DocumentExpiry[]>({
+    queryKey: ["/api/documents/expiring"],
+  });
+
+  if (expiring.length === 0) return null;
+
+  return (
+    <Card className="automotive-card mb-8 border-yellow-500/30">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5 text-yellow-500" />
+          Documents Expiring
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {expiring.map((item) => (
+          <div key={item.document.id} className="flex items-center justify-between border rounded-lg p-3">
+            <div>
+              <div className="font-medium capitalize">{item.document.type}</div>
+              <div className="text-xs text-muted-foreground">
+                {item.vehicle.year} {item.vehicle.make} {item.vehicle.model} ·{" "}
+                {item.status === "expired"
+                  ? `expired ${Math.abs(item.daysRemaining)} days ago`
+                  : `expires in ${item.daysRemaining} days`}
+              </div>
+            </div>
+            <Badge
+              className={item.status === "expired"
+                ? "bg-red-500/20 text-red-400 border-red-500/30"
+                : "bg-yellow-500/20 text-yellow-500 border-yellow-500/30"}
+            >
+              {item.status === "expired" ? "Expired" : "Expiring"}
+            </Badge>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { FileText, Lock, Paperclip, Plus, Trash2 } from "lucide-react";
+import { DOCUMENT_TYPES, type VehicleDocument } from "@shared/schema";
+
+interface DocumentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: { id: number; make: string; model: string; year: number };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function expiryBadge(document: VehicleDocument) {
+  if (!document.expiresAt) return null;
+  const daysRemaining = Math.ceil((new Date(document.expiresAt).getTime() - Date.now()) / DAY_MS);
+  if (daysRemaining < 0) {
+    return <Badge className="bg-red-500/20 text-red-400 border-red-500/30">Expired</Badge>;
+  }
+  if (daysRemaining <= 30) {
+    return <Badge className="bg-yellow-500/20 text-yellow-500 border-yellow-500/30">Expires in {daysRemaining} days</Badge>;
+  }
+  return <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Valid</Badge>;
+}
+
+export default function DocumentsDialog({ open, onOpenChange, vehicle }: DocumentsDialogProps) {
+  const { toast } = useToast();
+  const [type, setType] = useState<string>(DOCUMENT_TYPES[0]);
+  const [documentNumber, setDocumentNumber] = useState("");
+  const [issuer, setIssuer] = useState("");
+  const [issuedAt, setIssuedAt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data: documents = [], isLoading } = useQuery<VehicleDocument[]>({
+    queryKey: [`/api/vehicles/${vehicle.id}/documents`],
+    enabled: open,
+  });
+
+  const invalidateDocuments = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${vehicle.id}/documents`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents/expiring"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("type", type);
+      if (documentNumber) formData.append("documentNumber", documentNumber);
+      if (issuer) formData.append("issuer", issuer);
+      if (issuedAt) formData.append("issuedAt", issuedAt);
+      if (expiresAt) formData.append("expiresAt", expiresAt);
+      if (file) formData.append("file", file);
+      const response = await apiRequest("POST", `/api/vehicles/${vehicle.id}/documents`, formData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateDocuments();
+      setDocumentNumber("");
+      setIssuer("");
+      setIssuedAt("");
+      setExpiresAt("");
+      setFile(null);
+      toast({
+        title: "Document saved",
+        description: "It's stored privately and only visible to you.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/vehicle-documents/${id}`);
+    },
+    onSuccess: invalidateDocuments,
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (id: number) => {
+    if (window.confirm("Delete this document and its attached file?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Documents · {vehicle.year} {vehicle.make} {vehicle.model}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            Documents and their files are private to you.
+          </p>
+
+          {/* Documents */}
+          <div className="space-y-2">
+            {isLoading ? (
+              <div className="text-sm text-muted-foreground">Loading documents...</div>
+            ) : documents.length > 0 ? (
+              documents.map((document) => (
+                <div key={document.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div className="space-y-1">
+                    <div className="font-medium capitalize flex items-center gap-2">
+                      {document.type}
+                      {document.documentNumber && (
+                        <span className="text-sm font-normal text-muted-foreground normal-case">#{document.documentNumber}</span>
+                      )}
+                      {expiryBadge(document)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {[
+                        document.issuer,
+                        document.issuedAt && `Issued ${new Date(document.issuedAt).toLocaleDateString()}`,
+                        document.expiresAt ? `Expires ${new Date(document.expiresAt).toLocaleDateString()}` : "No expiry",
+                      ].filter(Boolean).join(" · ")}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {document.fileName && (
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/vehicle-documents/${document.id}/file`} target="_blank" rel="noopener noreferrer">
+                          <Paperclip className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(document.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="text-sm text-muted-foreground">No documents on file yet</div>
+            )}
+          </div>
+
+          {/* Add Document */}
+          <form
+            className="space-y-3 border rounded-lg p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <h3 className="font-medium">Add a Document</h3>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="document-type">Type</Label>
+                <select
+                  id="document-type"
+                  value={type}
+                  onChange={(e) => setType(e.target.value)}
+                  className="w-full p-2 border border-input rounded-md bg-background capitalize"
+                >
+                  {DOCUMENT_TYPES.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-number">Number</Label>
+                <Input id="document-number" value={documentNumber} onChange={(e) => setDocumentNumber(e.target.value)} placeholder="Policy or certificate no." />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-issuer">Issued by</Label>
+                <Input id="document-issuer" value={issuer} onChange={(e) => setIssuer(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-issued">Issue date</Label>
+                <Input id="document-issued" type="date" value={issuedAt} onChange={(e) => setIssuedAt(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-expires">Expiry date</Label>
+                <Input id="document-expires" type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-file">File (PDF or image)</Label>
+                <Input
+                  id="document-file"
+                  type="file"
+                  accept="application/pdf,image/*"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              {createMutation.isPending ? "Saving..." : "Add Document"}
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fetchAllPages } from "@/lib/pagination";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Fuel, Plus, Trash2 } from "lucide-react";
+import type { DriveLog, FuelEconomySummary, FuelEntry, Pitstop } from "@shared/schema";
+
+interface FuelLogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: { id: number; make: string; model: string; year: number };
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function FuelLogDialog({ open, onOpenChange, vehicle }: FuelLogDialogProps) {
+  const { toast } = useToast();
+  const [filledAt, setFilledAt] = useState(today());
+  const [odometer, setOdometer] = useState("");
+  const [volume, setVolume] = useState("");
+  const [totalPrice, setTotalPrice] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [isFullFill, setIsFullFill] = useState(true);
+  const [driveLogId, setDriveLogId] = useState("");
+  const [pitstopId, setPitstopId] = useState("");
+
+  const { data: entries = [], isLoading } = useQuery<FuelEntry[]>({
+    queryKey: [`/api/vehicles/${vehicle.id}/fuel-entries`],
+    enabled: open,
+  });
+
+  const { data: summary } = useQuery<FuelEconomySummary>({
+    queryKey: [`/api/vehicles/${vehicle.id}/fuel-economy`],
+    enabled: open,
+  });
+
+  const { data: driveLogs = [] } = useQuery<DriveLog[]>({
+    queryKey: ['/api/drive-logs', 'all'],
+    queryFn: () => fetchAllPages<DriveLog>('/api/drive-logs'),
+    enabled: open,
+  });
+
+  const { data: allPitstops = [] } = useQuery<Pitstop[]>({
+    queryKey: ['/api/all-pitstops'],
+    enabled: open,
+  });
+
+  const vehicleDriveLogs = driveLogs.filter(driveLog => driveLog.vehicleId === vehicle.id);
+  const stations = allPitstops.filter(pitstop =>
+    pitstop.type === 'fuel' && (!driveLogId || pitstop.driveLogId === parseInt(driveLogId))
+  );
+
+  const invalidateFuelQueries = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${vehicle.id}/fuel-entries`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${vehicle.id}/fuel-economy`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/vehicles/fuel-economy'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/vehicles/${vehicle.id}/fuel-entries`, {
+        filledAt,
+        odometer,
+        volume,
+        totalPrice: totalPrice || null,
+        currency,
+        isFullFill,
+        driveLogId: driveLogId || null,
+        pitstopId: pitstopId || null,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateFuelQueries();
+      setOdometer("");
+      setVolume("");
+      setTotalPrice("");
+      setIsFullFill(true);
+      setDriveLogId("");
+      setPitstopId("");
+      toast({
+        title: "Fill-up logged",
+        description: "Fuel economy has been updated.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to log fill-up",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/fuel-entries/${id}`);
+    },
+    onSuccess: invalidateFuelQueries,
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete fill-up",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const maxMonthlySpend = Math.max(...(summary?.monthlySpend.map(month => month.total) || [0]), 1);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Fuel className="h-5 w-5" />
+            Fuel Log · {vehicle.year} {vehicle.make} {vehicle.model}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Economy Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="text-center p-3 bg-muted rounded-lg">
+              <div className="text-xl font-bold">{summary?.litersPer100Km ?? '—'}</div>
+              <div className="text-xs text-muted-foreground">L/100km</div>
+            </div>
+            <div className="text-center p-3 bg-muted rounded-lg">
+              <div className="text-xl font-bold">{summary?.mpg ?? '—'}</div>
+              <div className="text-xs text-muted-foreground">MPG (US)</div>
+            </div>
+            <div className="text-center p-3 bg-muted rounded-lg">
+              <div className="text-xl font-bold">{summary?.recentLitersPer100Km ?? '—'}</div>
+              <div className="text-xs text-muted-foreground">Recent L/100km</div>
+            </div>
+            <div className="text-center p-3 bg-muted rounded-lg">
+              <div className="text-xl font-bold">
+                {summary?.costPerKm != null ? summary.costPerKm.toFixed(3) : '—'}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {summary?.currency ? `${summary.currency} per km` : 'Cost per km'}
+              </div>
+            </div>
+          </div>
+          {summary && summary.litersPer100Km === null && entries.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Economy is worked out between full tanks. Log at least two full fill-ups to see it.
+            </p>
+          )}
+
+          {/* Monthly Spend */}
+          {summary && summary.monthlySpend.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Monthly Spend</h3>
+              {summary.monthlySpend.slice(-6).map((month) => (
+                <div key={`${month.month}-${month.currency}`} className="flex items-center gap-3 text-sm">
+                  <span className="w-16 text-muted-foreground">{month.month}</span>
+                  <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${(month.total / maxMonthlySpend) * 100}%` }} />
+                  </div>
+                  <span className="w-24 text-right font-medium">{month.total.toFixed(2)} {month.currency}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Add Fill-up */}
+          <form
+            className="space-y-3 border rounded-lg p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <h3 className="font-medium">Log a Fill-up</h3>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="fuel-date">Date</Label>
+                <Input id="fuel-date" type="date" value={filledAt} onChange={(e) => setFilledAt(e.target.value)} required />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="fuel-odometer">Odometer (km)</Label>
+                <Input id="fuel-odometer" type="number" step="0.1" min="0" value={odometer} onChange={(e) => setOdometer(e.target.value)} required />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="fuel-volume">Volume (L)</Label>
+                <Input id="fuel-volume" type="number" step="0.01" min="0" value={volume} onChange={(e) => setVolume(e.target.value)} required />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="fuel-price">Total Price</Label>
+                <Input id="fuel-price" type="number" step="0.01" min="0" value={totalPrice} onChange={(e) => setTotalPrice(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="fuel-currency">Currency</Label>
+                <Input id="fuel-currency" value={currency} maxLength={3} onChange={(e) => setCurrency(e.target.value.toUpperCase())} required />
+              </div>
+              <div className="flex items-center gap-2 pt-6">
+                <Switch id="fuel-full" checked={isFullFill} onCheckedChange={setIsFullFill} />
+                <Label htmlFor="fuel-full">Filled to full</Label>
+              </div>
+              <div className="space-y-1 col-span-2 md:col-span-1">
+                <Label htmlFor="fuel-drive-log">Drive Log</Label>
+                <select
+                  id="fuel-drive-log"
+                  value={driveLogId}
+                  onChange={(e) => {
+                    setDriveLogId(e.target.value);
+                    setPitstopId("");
+                  }}
+                  className="w-full p-2 border border-input rounded-md bg-background"
+                >
+                  <option value="">None</option>
+                  {vehicleDriveLogs.map((driveLog) => (
+                    <option key={driveLog.id} value={driveLog.id}>{driveLog.title}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="fuel-station">Station</Label>
+                <select
+                  id="fuel-station"
+                  value={pitstopId}
+                  onChange={(e) => setPitstopId(e.target.value)}
+                  className="w-full p-2 border border-input rounded-md bg-background"
+                  disabled={stations.length === 0}
+                >
+                  <option value="">{stations.length === 0 ? "No fuel pitstops" : "None"}</option>
+                  {stations.map((pitstop) => (
+                    <option key={pitstop.id} value={pitstop.id}>{pitstop.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <Button type="submit" disabled={createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              {createMutation.isPending ? "Saving..." : "Add Fill-up"}
+            </Button>
+          </form>
+
+          {/* History */}
+          <div className="space-y-2">
+            <h3 className="font-medium">History</h3>
+            {isLoading ? (
+              <div className="text-sm text-muted-foreground">Loading fill-ups...</div>
+            ) : entries.length > 0 ? (
+              entries.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      {Number(entry.volume).toFixed(2)} L
+                      {!entry.isFullFill && <Badge variant="outline">Partial</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(entry.filledAt).toLocaleDateString()} · {Number(entry.odometer).toLocaleString()} km
+                      {entry.totalPrice !== null && ` · ${Number(entry.totalPrice).toFixed(2)} ${entry.currency}`}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(entry.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            ) : (
+              <div className="text-sm text-muted-foreground">No fill-ups logged yet</div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowRightLeft, Check, X } from "lucide-react";
+import { displayName } from "@/components/garage/transfer-dialog";
+import type { User, VehicleTransferSummary } from "@shared/schema";
+
+export default function IncomingTransfersCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: transfers = [] } = useQuery<VehicleTransferSummary[]>({
+    queryKey: ["/api/transfers"],
+  });
+
+  const userId = (user as User | undefined)?.id;
+  const incoming = transfers.filter((item) => item.transfer.toUserId === userId);
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "accept" | "decline" }) => {
+      const response = await apiRequest("POST", `/api/transfers/${id}/${action}`);
+      return await response.json();
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+      if (action === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/vehicles/photos"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/maintenance/due"] });
+        toast({
+          title: "Welcome to your new ride",
+          description: "The vehicle is now in your garage.",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to respond to transfer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (incoming.length === 0) return null;
+
+  return (
+    <Card className="automotive-card mb-8 border-primary/30">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5 text-primary" />
+          Incoming Transfers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {incoming.map((item) => (
+          <div key={item.transfer.id} className="flex items-center justify-between border rounded-lg p-3 gap-3">
+            <div>
+              <div className="font-medium">
+                {item.vehicle.year} {item.vehicle.make} {item.vehicle.model}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                From {displayName(item.fromUser)}
+                {item.transfer.includeServiceHistory && " · with service history"}
+                {item.transfer.includeBuildSheet && " · with build sheet"}
+              </div>
+              {item.transfer.message && (
+                <div className="text-sm mt-1">{item.transfer.message}</div>
+              )}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Button
+                size="sm"
+                onClick={() => respondMutation.mutate({ id: item.transfer.id, action: "accept" })}
+                disabled={respondMutation.isPending}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Accept
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => respondMutation.mutate({ id: item.transfer.id, action: "decline" })}
+                disabled={respondMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Bell, FileText, Plus, Trash2, Wrench } from "lucide-react";
+import { describeRemaining } from "@/components/garage/maintenance-due-card";
+import { SERVICE_TYPES, type MaintenanceReminderStatus, type ServiceRecord } from "@shared/schema";
+
+interface MaintenanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: { id: number; make: string; model: string; year: number };
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const statusBadgeClass = {
+  overdue: "bg-red-500/20 text-red-400 border-red-500/30",
+  due: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30",
+  ok: "bg-green-500/20 text-green-400 border-green-500/30",
+};
+
+export default function MaintenanceDialog({ open, onOpenChange, vehicle }: MaintenanceDialogProps) {
+  const { toast } = useToast();
+
+  // Service record form
+  const [serviceType, setServiceType] = useState<string>(SERVICE_TYPES[0]);
+  const [performedAt, setPerformedAt] = useState(today());
+  const [odometer, setOdometer] = useState("");
+  const [cost, setCost] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [shop, setShop] = useState("");
+  const [notes, setNotes] = useState("");
+  const [receipts, setReceipts] = useState<File[]>([]);
+
+  // Reminder form
+  const [reminderType, setReminderType] = useState<string>(SERVICE_TYPES[0]);
+  const [intervalKm, setIntervalKm] = useState("");
+  const [intervalMonths, setIntervalMonths] = useState("");
+
+  const { data: maintenance } = useQuery<{ odometer: number | null; reminders: MaintenanceReminderStatus[] }>({
+    queryKey: [`/api/vehicles/${vehicle.id}/maintenance`],
+    enabled: open,
+  });
+
+  const { data: records = [], isLoading: recordsLoading } = useQuery<ServiceRecord[]>({
+    queryKey: [`/api/vehicles/${vehicle.id}/service-records`],
+    enabled: open,
+  });
+
+  const invalidateMaintenanceQueries = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${vehicle.id}/maintenance`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${vehicle.id}/service-records`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance/due"] });
+  };
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createRecordMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("serviceType", serviceType);
+      formData.append("performedAt", performedAt);
+      formData.append("currency", currency);
+      if (odometer) formData.append("odometer", odometer);
+      if (cost) formData.append("cost", cost);
+      if (shop) formData.append("shop", shop);
+      if (notes) formData.append("notes", notes);
+      receipts.forEach((file) => formData.append("receipts", file));
+      const response = await apiRequest("POST", `/api/vehicles/${vehicle.id}/service-records`, formData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateMaintenanceQueries();
+      setOdometer("");
+      setCost("");
+      setShop("");
+      setNotes("");
+      setReceipts([]);
+      toast({
+        title: "Service recorded",
+        description: "Matching reminders now count from this service.",
+      });
+    },
+    onError: showError("Failed to save service record"),
+  });
+
+  const deleteRecordMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/service-records/${id}`);
+    },
+    onSuccess: invalidateMaintenanceQueries,
+    onError: showError("Failed to delete service record"),
+  });
+
+  const createReminderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/vehicles/${vehicle.id}/reminders`, {
+        serviceType: reminderType,
+        intervalKm: intervalKm || null,
+        intervalMonths: intervalMonths || null,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateMaintenanceQueries();
+      setIntervalKm("");
+      setIntervalMonths("");
+    },
+    onError: showError("Failed to add reminder"),
+  });
+
+  const deleteReminderMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/maintenance-reminders/${id}`);
+    },
+    onSuccess: invalidateMaintenanceQueries,
+    onError: showError("Failed to delete reminder"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5" />
+            Maintenance · {vehicle.year} {vehicle.make} {vehicle.model}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Odometer: {maintenance?.odometer != null
+            ? `${maintenance.odometer.toLocaleString()} km`
+            : "unknown. Set it on the vehicle to track distance-based reminders."}
+        </p>
+
+        <Tabs defaultValue="reminders">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="reminders">Reminders</TabsTrigger>
+            <TabsTrigger value="history">Service History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="reminders" className="space-y-4">
+            {maintenance && maintenance.reminders.length > 0 ? (
+              <div className="space-y-2">
+                {maintenance.reminders.map((item) => (
+                  <div key={item.reminder.id} className="flex items-center justify-between border rounded-lg p-3">
+                    <div>
+                      <div className="font-medium capitalize flex items-center gap-2">
+                        {item.reminder.serviceType}
+                        <Badge className={statusBadgeClass[item.status]}>
+                          {item.status === "ok" ? "OK" : item.status === "due" ? "Due soon" : "Overdue"}
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Every {[
+                          item.reminder.intervalKm && `${item.reminder.intervalKm.toLocaleString()} km`,
+                          item.reminder.intervalMonths && `${item.reminder.intervalMonths} months`,
+                        ].filter(Boolean).join(" or ")} · {describeRemaining(item) || "needs an odometer reading"}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteReminderMutation.mutate(item.reminder.id)}
+                      disabled={deleteReminderMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">No reminders set up yet</div>
+            )}
+
+            <form
+              className="space-y-3 border rounded-lg p-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createReminderMutation.mutate();
+              }}
+            >
+              <h3 className="font-medium flex items-center gap-2">
+                <Bell className="h-4 w-4" />
+                New Reminder
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="reminder-type">Service</Label>
+                  <select
+                    id="reminder-type"
+                    value={reminderType}
+                    onChange={(e) => setReminderType(e.target.value)}
+                    className="w-full p-2 border border-input rounded-md bg-background capitalize"
+                  >
+                    {SERVICE_TYPES.map((type) => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reminder-km">Every (km)</Label>
+                  <Input id="reminder-km" type="number" min="100" value={intervalKm} onChange={(e) => setIntervalKm(e.target.value)} placeholder="e.g., 8000" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="reminder-months">Every (months)</Label>
+                  <Input id="reminder-months" type="number" min="1" value={intervalMonths} onChange={(e) => setIntervalMonths(e.target.value)} placeholder="e.g., 12" />
+                </div>
+              </div>
+              <Button type="submit" disabled={createReminderMutation.isPending || (!intervalKm && !intervalMonths)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Reminder
+              </Button>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-4">
+            <form
+              className="space-y-3 border rounded-lg p-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createRecordMutation.mutate();
+              }}
+            >
+              <h3 className="font-medium">Record a Service</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="service-type">Service</Label>
+                  <select
+                    id="service-type"
+                    value={serviceType}
+                    onChange={(e) => setServiceType(e.target.value)}
+                    className="w-full p-2 border border-input rounded-md bg-background capitalize"
+                  >
+                    {SERVICE_TYPES.map((type) => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                    <option value="other">other</option>
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="service-date">Date</Label>
+                  <Input id="service-date" type="date" value={performedAt} onChange={(e) => setPerformedAt(e.target.value)} required />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="service-odometer">Odometer (km)</Label>
+                  <Input id="service-odometer" type="number" step="0.1" min="0" value={odometer} onChange={(e) => setOdometer(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="service-cost">Cost</Label>
+                  <Input id="service-cost" type="number" step="0.01" min="0" value={cost} onChange={(e) => setCost(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="service-currency">Currency</Label>
+                  <Input id="service-currency" value={currency} maxLength={3} onChange={(e) => setCurrency(e.target.value.toUpperCase())} required />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="service-shop">Shop</Label>
+                  <Input id="service-shop" value={shop} onChange={(e) => setShop(e.target.value)} placeholder="e.g., Main St Garage" />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="service-notes">Notes</Label>
+                <Textarea id="service-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="service-receipts">Receipts</Label>
+                <Input
+                  id="service-receipts"
+                  type="file"
+                  accept="image/*,application/pdf"
+                  multiple
+                  onChange={(e) => setReceipts(Array.from(e.target.files || []).slice(0, 5))}
+                />
+              </div>
+              <Button type="submit" disabled={createRecordMutation.isPending}>
+                <Plus className="h-4 w-4 mr-2" />
+                {createRecordMutation.isPending ? "Saving..." : "Add Record"}
+              </Button>
+            </form>
+
+            {recordsLoading ? (
+              <div className="text-sm text-muted-foreground">Loading service history...</div>
+            ) : records.length > 0 ? (
+              <div className="space-y-2">
+                {records.map((record) => (
+                  <div key={record.id} className="flex items-start justify-between border rounded-lg p-3">
+                    <div className="space-y-1">
+                      <div className="font-medium capitalize">{record.serviceType}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(record.performedAt).toLocaleDateString()}
+                        {record.odometer !== null && ` · ${Number(record.odometer).toLocaleString()} km`}
+                        {record.cost !== null && ` · ${Number(record.cost).toFixed(2)} ${record.currency}`}
+                        {record.shop && ` · ${record.shop}`}
+                      </div>
+                      {record.notes && <p className="text-sm text-muted-foreground">{record.notes}</p>}
+                      {record.receiptUrls && record.receiptUrls.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {record.receiptUrls.map((url, index) => (
+                            <a
+                              key={url}
+                              href={url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-primary flex items-center gap-1 hover:underline"
+                            >
+                              <FileText className="h-3 w-3" />
+                              Receipt {index + 1}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteRecordMutation.mutate(record.id)}
+                      disabled={deleteRecordMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">No service records yet</div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
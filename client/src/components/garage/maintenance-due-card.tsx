@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Wrench } from "lucide-react";
+import type { MaintenanceReminderStatus } from "@shared/schema";
+
+type DueReminder = MaintenanceReminderStatus & {
+  odometer: number | null;
+  vehicle: { id: number; make: string; model: string; year: number };
+};
+
+// "in 300 km", "1,200 km overdue", "in 12 days" ... whichever limits are set
+export function describeRemaining(status: MaintenanceReminderStatus) {
+  const parts: string[] = [];
+  if (status.remainingKm !== null) {
+    parts.push(status.remainingKm < 0
+      ? `${Math.abs(status.remainingKm).toLocaleString()} km overdue`
+      : `in ${status.remainingKm.toLocaleString()} km`);
+  }
+  if (status.remainingDays !== null) {
+    parts.push(status.remainingDays < 0
+      ? `${Math.abs(status.remainingDays)} days overdue`
+      : `in ${status.remainingDays} days`);
+  }
+  return parts.join(" or ");
+}
+
+export default function MaintenanceDueCard() {
+  const { data: due = [] } = useQuery<DueReminder[]>({
+    queryKey: ["/api/maintenance/due"],
+  });
+
+  if (due.length === 0) return null;
+
+  return (
+    <Card className="automotive-card mb-8 border-yellow-500/30">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wrench className="h-5 w-5 text-yellow-500" />
+          Maintenance Due
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {due.map((item) => (
+          <div key={item.reminder.id} className="flex items-center justify-between border rounded-lg p-3">
+            <div>
+              <div className="font-medium capitalize">{item.reminder.serviceType}</div>
+              <div className="text-xs text-muted-foreground">
+                {item.vehicle.year} {item.vehicle.make} {item.vehicle.model} · {describeRemaining(item)}
+              </div>
+            </div>
+            <Badge
+              className={item.status === "overdue"
+                ? "bg-red-500/20 text-red-400 border-red-500/30"
+                : "bg-yellow-500/20 text-yellow-500 border-yellow-500/30"}
+            >
+              {item.status === "overdue" ? "Overdue" : "Due soon"}
+            </Badge>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { GripVertical, Images, Star, Trash2, Upload } from "lucide-react";
+import type { VehiclePhoto } from "@shared/schema";
+
+interface PhotoGalleryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: { id: number; make: string; model: string; year: number; imageUrl?: string };
+}
+
+export default function PhotoGalleryDialog({ open, onOpenChange, vehicle }: PhotoGalleryDialogProps) {
+  const { toast } = useToast();
+  const [files, setFiles] = useState<File[]>([]);
+  const [captions, setCaptions] = useState<Record<number, string>>({});
+  const [order, setOrder] = useState<VehiclePhoto[]>([]);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+
+  const { data: photos, isLoading } = useQuery<VehiclePhoto[]>({
+    queryKey: [`/api/vehicles/${vehicle.id}/photos`],
+    enabled: open,
+  });
+
+  // Local copy so dragging can rearrange photos before the new order is saved
+  useEffect(() => {
+    setOrder(photos || []);
+  }, [photos]);
+
+  const invalidateGallery = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${vehicle.id}/photos`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/vehicles/photos"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+  };
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      files.forEach((file) => formData.append("photos", file));
+      const response = await apiRequest("POST", `/api/vehicles/${vehicle.id}/photos`, formData);
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateGallery();
+      setFiles([]);
+      toast({
+        title: "Photos added",
+        description: "Your gallery has been updated.",
+      });
+    },
+    onError: showError("Failed to upload photos"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (photoIds: number[]) => {
+      const response = await apiRequest("PUT", `/api/vehicles/${vehicle.id}/photos/order`, { photoIds });
+      return await response.json();
+    },
+    onSuccess: invalidateGallery,
+    onError: (error: Error) => {
+      setOrder(photos || []);
+      showError("Failed to reorder photos")(error);
+    },
+  });
+
+  const coverMutation = useMutation({
+    mutationFn: async (photoId: number) => {
+      const response = await apiRequest("PUT", `/api/vehicles/${vehicle.id}/cover`, { photoId });
+      return await response.json();
+    },
+    onSuccess: invalidateGallery,
+    onError: showError("Failed to set cover photo"),
+  });
+
+  const captionMutation = useMutation({
+    mutationFn: async ({ id, caption }: { id: number; caption: string }) => {
+      const response = await apiRequest("PATCH", `/api/vehicle-photos/${id}`, { caption: caption || null });
+      return await response.json();
+    },
+    onSuccess: (_, { id }) => {
+      invalidateGallery();
+      setCaptions(({ [id]: _saved, ...rest }) => rest);
+    },
+    onError: showError("Failed to save caption"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/vehicle-photos/${id}`);
+    },
+    onSuccess: invalidateGallery,
+    onError: showError("Failed to delete photo"),
+  });
+
+  const handleDrop = (targetId: number) => {
+    if (draggedId === null || draggedId === targetId) return;
+    const next = [...order];
+    const from = next.findIndex((photo) => photo.id === draggedId);
+    const to = next.findIndex((photo) => photo.id === targetId);
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setOrder(next);
+    reorderMutation.mutate(next.map((photo) => photo.id));
+  };
+
+  const handleDelete = (id: number) => {
+    if (window.confirm("Delete this photo? It will be removed from storage.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Images className="h-5 w-5" />
+            Gallery · {vehicle.year} {vehicle.make} {vehicle.model}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Upload */}
+          <form
+            className="flex flex-col sm:flex-row sm:items-end gap-3 border rounded-lg p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              uploadMutation.mutate();
+            }}
+          >
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="gallery-photos">Add photos</Label>
+              <Input
+                id="gallery-photos"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files || []).slice(0, 10))}
+              />
+            </div>
+            <Button type="submit" disabled={files.length === 0 || uploadMutation.isPending}>
+              <Upload className="h-4 w-4 mr-2" />
+              {uploadMutation.isPending ? "Uploading..." : `Upload${files.length > 0 ? ` (${files.length})` : ""}`}
+            </Button>
+          </form>
+
+          {/* Photos */}
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground">Loading photos...</div>
+          ) : order.length > 0 ? (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">Drag photos to change their order.</p>
+              {order.map((photo) => {
+                const isCover = photo.url === vehicle.imageUrl;
+                const caption = captions[photo.id] ?? photo.caption ?? "";
+                return (
+                  <div
+                    key={photo.id}
+                    draggable
+                    onDragStart={() => setDraggedId(photo.id)}
+                    onDragEnd={() => setDraggedId(null)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleDrop(photo.id)}
+                    className={`flex items-center gap-3 border rounded-lg p-2 bg-background ${
+                      draggedId === photo.id ? "opacity-50" : ""
+                    }`}
+                  >
+                    <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab shrink-0" />
+                    <img src={photo.url} alt={photo.caption || "Vehicle photo"} className="w-20 h-14 object-cover rounded shrink-0" />
+                    <Input
+                      value={caption}
+                      maxLength={200}
+                      placeholder="Add a caption"
+                      onChange={(e) => setCaptions({ ...captions, [photo.id]: e.target.value })}
+                      onBlur={() => {
+                        if (captions[photo.id] !== undefined && captions[photo.id] !== (photo.caption ?? "")) {
+                          captionMutation.mutate({ id: photo.id, caption: captions[photo.id] });
+                        }
+                      }}
+                    />
+                    {isCover ? (
+                      <Badge className="bg-primary/20 text-primary border-primary/30 shrink-0">Cover</Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Make cover photo"
+                        onClick={() => coverMutation.mutate(photo.id)}
+                        disabled={coverMutation.isPending}
+                      >
+                        <Star className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(photo.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">No photos yet. Upload a few to start the gallery.</div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
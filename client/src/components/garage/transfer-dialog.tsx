@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRightLeft, History, Send, X } from "lucide-react";
+import type { OwnershipPeriod, UserSummary, VehicleTransferSummary } from "@shared/schema";
+
+interface TransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: { id: number; make: string; model: string; year: number };
+}
+
+export function displayName(user: UserSummary) {
+  const fullName = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return user.username ? `@${user.username}` : fullName || "Unknown member";
+}
+
+export default function TransferDialog({ open, onOpenChange, vehicle }: TransferDialogProps) {
+  const { toast } = useToast();
+  const [recipient, setRecipient] = useState("");
+  const [includeServiceHistory, setIncludeServiceHistory] = useState(true);
+  const [includeBuildSheet, setIncludeBuildSheet] = useState(true);
+  const [message, setMessage] = useState("");
+
+  const { data: transfers = [] } = useQuery<VehicleTransferSummary[]>({
+    queryKey: ["/api/transfers"],
+    enabled: open,
+  });
+
+  const { data: history = [] } = useQuery<OwnershipPeriod[]>({
+    queryKey: [`/api/vehicles/${vehicle.id}/ownership`],
+    enabled: open,
+  });
+
+  const pending = transfers.find((item) => item.vehicle.id === vehicle.id);
+
+  const offerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/vehicles/${vehicle.id}/transfers`, {
+        recipient,
+        includeServiceHistory,
+        includeBuildSheet,
+        message: message || null,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+      setRecipient("");
+      setMessage("");
+      toast({
+        title: "Transfer offered",
+        description: "The vehicle moves to its new owner once they accept.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to offer transfer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/transfers/${id}/cancel`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel transfer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Transfer · {vehicle.year} {vehicle.make} {vehicle.model}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {pending ? (
+            <div className="flex items-center justify-between border rounded-lg p-3">
+              <div>
+                <div className="font-medium">Waiting for {displayName(pending.toUser)}</div>
+                <div className="text-xs text-muted-foreground">
+                  Offered {new Date(pending.transfer.createdAt!).toLocaleDateString()}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => cancelMutation.mutate(pending.transfer.id)}
+                disabled={cancelMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <form
+              className="space-y-3 border rounded-lg p-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                offerMutation.mutate();
+              }}
+            >
+              <h3 className="font-medium">Hand this vehicle to another member</h3>
+              <div className="space-y-1">
+                <Label htmlFor="transfer-recipient">New owner</Label>
+                <Input
+                  id="transfer-recipient"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                  placeholder="Username or email"
+                  required
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="transfer-service"
+                  checked={includeServiceHistory}
+                  onCheckedChange={(checked) => setIncludeServiceHistory(checked === true)}
+                />
+                <Label htmlFor="transfer-service">Include service history and reminders</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="transfer-build"
+                  checked={includeBuildSheet}
+                  onCheckedChange={(checked) => setIncludeBuildSheet(checked === true)}
+                />
+                <Label htmlFor="transfer-build">Include the build sheet</Label>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="transfer-message">Message</Label>
+                <Textarea
+                  id="transfer-message"
+                  value={message}
+                  maxLength={500}
+                  onChange={(e) => setMessage(e.target.value)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Your drive logs, fuel log and documents stay on your account.
+              </p>
+              <Button type="submit" disabled={!recipient || offerMutation.isPending}>
+                <Send className="h-4 w-4 mr-2" />
+                {offerMutation.isPending ? "Sending..." : "Offer Transfer"}
+              </Button>
+            </form>
+          )}
+
+          {/* Ownership timeline */}
+          <div className="space-y-2">
+            <h3 className="font-medium flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Ownership History
+            </h3>
+            {history.map((period, index) => (
+              <div key={`${period.user.id}-${period.startedAt}`} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <div className="font-medium">{displayName(period.user)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(period.startedAt).toLocaleDateString()} –{" "}
+                    {period.endedAt ? new Date(period.endedAt).toLocaleDateString() : "present"}
+                  </div>
+                </div>
+                {index === 0 ? (
+                  <Badge variant="outline">First owner</Badge>
+                ) : period.viaTransfer ? (
+                  <Badge variant="outline">Transferred</Badge>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
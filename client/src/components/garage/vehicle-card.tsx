@@ -1,11 +1,20 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Car, Edit, Trash2, Eye, EyeOff, Gauge, Fuel, Calendar, Palette } from "lucide-react";
+import { Car, Edit, Trash2, Eye, EyeOff, Gauge, Fuel, Calendar, Palette, Droplet, Wrench, Hammer, Images, FileText, ArrowRightLeft, BarChart3 } from "lucide-react";
+import FuelLogDialog from "@/components/garage/fuel-log-dialog";
+import MaintenanceDialog from "@/components/garage/maintenance-dialog";
+import BuildSheetDialog from "@/components/garage/build-sheet-dialog";
+import PhotoGalleryDialog from "@/components/garage/photo-gallery-dialog";
+import DocumentsDialog from "@/components/garage/documents-dialog";
+import TransferDialog from "@/components/garage/transfer-dialog";
+import VehicleStatsDialog from "@/components/garage/vehicle-stats-dialog";
+import type { FuelEconomySummary, VehiclePhoto } from "@shared/schema";
 
 interface Vehicle {
   id: number;
@@ -33,6 +42,25 @@ export default function VehicleCard({ vehicle, onEdit, onViewDetails, onCreatePo
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [imageError, setImageError] = useState(false);
+  const [showFuelLog, setShowFuelLog] = useState(false);
+  const [showMaintenance, setShowMaintenance] = useState(false);
+  const [showBuildSheet, setShowBuildSheet] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [showDocuments, setShowDocuments] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+
+  // Shared across every card in the garage, so this is one request per page
+  const { data: fuelEconomy } = useQuery<Record<number, FuelEconomySummary>>({
+    queryKey: ["/api/vehicles/fuel-economy"],
+  });
+  const economy = fuelEconomy?.[vehicle.id];
+
+  const { data: galleries } = useQuery<Record<number, VehiclePhoto[]>>({
+    queryKey: ["/api/vehicles/photos"],
+  });
+  const photos = galleries?.[vehicle.id] || [];
+  const coverIndex = Math.max(0, photos.findIndex((photo) => photo.url === vehicle.imageUrl));
 
   const deleteVehicleMutation = useMutation({
     mutationFn: async () => {
@@ -93,7 +121,28 @@ export default function VehicleCard({ vehicle, onEdit, onViewDetails, onCreatePo
       <CardContent className="p-0">
         {/* Vehicle Image */}
         <div className="relative aspect-car overflow-hidden rounded-t-xl">
-          {vehicle.imageUrl && !imageError ? (
+          {photos.length > 1 ? (
+            <Carousel opts={{ startIndex: coverIndex, loop: true }} className="w-full h-full">
+              <CarouselContent className="ml-0">
+                {photos.map((photo) => (
+                  <CarouselItem key={photo.id} className="pl-0 relative aspect-car">
+                    <img
+                      src={photo.url}
+                      alt={photo.caption || `${vehicle.year} ${vehicle.make} ${vehicle.model}`}
+                      className="w-full h-full object-cover"
+                    />
+                    {photo.caption && (
+                      <div className="absolute bottom-0 inset-x-0 bg-background/70 backdrop-blur-sm px-3 py-1 text-xs truncate">
+                        {photo.caption}
+                      </div>
+                    )}
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              <CarouselPrevious className="left-2 opacity-0 group-hover:opacity-100 transition-opacity" />
+              <CarouselNext className="right-2 opacity-0 group-hover:opacity-100 transition-opacity" />
+            </Carousel>
+          ) : vehicle.imageUrl && !imageError ? (
             <img
               src={vehicle.imageUrl}
               alt={`${vehicle.year} ${vehicle.make} ${vehicle.model}`}
@@ -222,6 +271,16 @@ export default function VehicleCard({ vehicle, onEdit, onViewDetails, onCreatePo
                 <span className="text-sm font-medium">{vehicle.transmission}</span>
               </div>
             )}
+
+            {economy?.litersPer100Km != null && (
+              <div className="col-span-2 flex items-center space-x-2">
+                <Droplet className="w-4 h-4 text-primary" />
+                <span className="text-sm text-muted-foreground">Economy</span>
+                <span className="text-sm font-medium">
+                  {economy.litersPer100Km} L/100km · {economy.mpg} MPG
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Action Buttons */}
@@ -242,9 +301,65 @@ export default function VehicleCard({ vehicle, onEdit, onViewDetails, onCreatePo
             >
               Create Post
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowStats(true)}
+            >
+              <BarChart3 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowFuelLog(true)}
+            >
+              <Fuel className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowMaintenance(true)}
+            >
+              <Wrench className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowBuildSheet(true)}
+            >
+              <Hammer className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowGallery(true)}
+            >
+              <Images className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowDocuments(true)}
+            >
+              <FileText className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowTransfer(true)}
+            >
+              <ArrowRightLeft className="w-4 h-4" />
+            </Button>
           </div>
         </div>
       </CardContent>
+      <VehicleStatsDialog open={showStats} onOpenChange={setShowStats} vehicle={vehicle} />
+      <FuelLogDialog open={showFuelLog} onOpenChange={setShowFuelLog} vehicle={vehicle} />
+      <MaintenanceDialog open={showMaintenance} onOpenChange={setShowMaintenance} vehicle={vehicle} />
+      <BuildSheetDialog open={showBuildSheet} onOpenChange={setShowBuildSheet} vehicle={vehicle} />
+      <PhotoGalleryDialog open={showGallery} onOpenChange={setShowGallery} vehicle={vehicle} />
+      <DocumentsDialog open={showDocuments} onOpenChange={setShowDocuments} vehicle={vehicle} />
+      <TransferDialog open={showTransfer} onOpenChange={setShowTransfer} vehicle={vehicle} />
     </Card>
   );
 }
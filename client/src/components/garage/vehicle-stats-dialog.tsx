@@ -0,0 +1,160 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { BarChart3, MapPin, Users } from "lucide-react";
+import type { VehicleStats } from "@shared/schema";
+
+interface VehicleStatsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: { id: number; make: string; model: string; year: number };
+}
+
+const distanceConfig = {
+  distance: {
+    label: "Distance (km)",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const economyConfig = {
+  litersPer100Km: {
+    label: "L/100 km",
+    color: "hsl(var(--secondary))",
+  },
+} satisfies ChartConfig;
+
+function formatDuration(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function formatMonth(month: string) {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "short", timeZone: "UTC" });
+}
+
+export default function VehicleStatsDialog({ open, onOpenChange, vehicle }: VehicleStatsDialogProps) {
+  const { data: stats, isLoading } = useQuery<VehicleStats>({
+    queryKey: [`/api/vehicles/${vehicle.id}/stats`],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Stats · {vehicle.year} {vehicle.make} {vehicle.model}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !stats ? (
+          <div className="text-sm text-muted-foreground">Loading stats...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <div className="text-center p-3 bg-muted rounded-lg">
+                <div className="text-xl font-bold">{stats.totalDistance.toLocaleString()} km</div>
+                <div className="text-xs text-muted-foreground">Total distance</div>
+              </div>
+              <div className="text-center p-3 bg-muted rounded-lg">
+                <div className="text-xl font-bold">{stats.driveCount}</div>
+                <div className="text-xs text-muted-foreground">Drives</div>
+              </div>
+              <div className="text-center p-3 bg-muted rounded-lg">
+                <div className="text-xl font-bold">{formatDuration(stats.totalDuration)}</div>
+                <div className="text-xs text-muted-foreground">Behind the wheel</div>
+              </div>
+              <div className="text-center p-3 bg-muted rounded-lg">
+                <div className="text-xl font-bold">{stats.averageSpeed !== null ? `${stats.averageSpeed} km/h` : "—"}</div>
+                <div className="text-xs text-muted-foreground">Average speed</div>
+              </div>
+              <div className="text-center p-3 bg-muted rounded-lg">
+                <div className="text-xl font-bold">{stats.maxSpeed !== null ? `${stats.maxSpeed} km/h` : "—"}</div>
+                <div className="text-xs text-muted-foreground">Top speed</div>
+              </div>
+              <div className="text-center p-3 bg-muted rounded-lg">
+                <div className="text-xl font-bold">{stats.convoysAttended}</div>
+                <div className="text-xs text-muted-foreground">Convoys attended</div>
+              </div>
+            </div>
+
+            {/* Monthly distance */}
+            <div className="space-y-2">
+              <h3 className="font-medium">Distance by Month</h3>
+              <ChartContainer config={distanceConfig} className="aspect-auto h-48 w-full">
+                <BarChart data={stats.monthlyDistance} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={formatMonth} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="distance" fill="var(--color-distance)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            {/* Fuel economy */}
+            {stats.fuelEconomyTrend.length > 1 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Fuel Economy</h3>
+                <ChartContainer config={economyConfig} className="aspect-auto h-48 w-full">
+                  <LineChart data={stats.fuelEconomyTrend} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={48} domain={["auto", "auto"]} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="litersPer100Km" type="monotone" stroke="var(--color-litersPer100Km)" strokeWidth={2} />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+            )}
+
+            <div className="grid md:grid-cols-2 gap-6">
+              {/* Top routes */}
+              <div className="space-y-2">
+                <h3 className="font-medium flex items-center gap-2">
+                  <MapPin className="h-4 w-4" />
+                  Top Routes
+                </h3>
+                {stats.topRoutes.length > 0 ? (
+                  stats.topRoutes.map((route) => (
+                    <div key={route.name} className="flex items-center justify-between border rounded-lg p-3">
+                      <div className="text-sm font-medium truncate">{route.name}</div>
+                      <div className="text-xs text-muted-foreground shrink-0 ml-2">
+                        {route.driveCount}× · {route.totalDistance} km
+                      </div>
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-sm text-muted-foreground">No drives logged with this vehicle yet</div>
+                )}
+              </div>
+
+              {/* Convoys */}
+              <div className="space-y-2">
+                <h3 className="font-medium flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Recent Convoys
+                </h3>
+                {stats.recentConvoys.length > 0 ? (
+                  stats.recentConvoys.map((convoy) => (
+                    <div key={convoy.id} className="flex items-center justify-between border rounded-lg p-3">
+                      <div className="text-sm font-medium truncate">{convoy.title}</div>
+                      <div className="text-xs text-muted-foreground shrink-0 ml-2">
+                        {new Date(convoy.startDateTime).toLocaleDateString()}
+                      </div>
+                    </div>
+                  ))
+                ) : (
+                  <div className="text-sm text-muted-foreground">Not taken on a convoy yet</div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,6 +13,7 @@ export default function Sidebar() {
     { name: "Convoys", href: "/convoys", icon: Users, current: location === "/convoys" },
     { name: "Drive Logs", href: "/drive-logs", icon: Map, current: location === "/drive-logs" },
     { name: "Routes", href: "/routes", icon: Route, current: location === "/routes" },
+    { name: "Segments", href: "/segments", icon: Trophy, current: location.startsWith("/segments") },
   ];
 
   const handleLogout = () => {
@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useCursorQuery } from "@/hooks/use-cursor-query";
 import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -13,6 +14,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Heart, MessageCircle, Share2, Bookmark, MapPin, Clock, User, Send, Twitter, Facebook, Link, Copy, MoreHorizontal, Edit, Trash } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { calculateReadTime, formatReadTime } from "@/lib/readTime";
+import FollowButton from "@/components/profile/follow-button";
 
 interface FeedPostProps {
   post: {
@@ -45,10 +47,13 @@ export default function FeedPost({ post }: FeedPostProps) {
   const [editContent, setEditContent] = useState(post.content || "");
 
   // Fetch comments for this post
-  const { data: comments = [], isLoading: commentsLoading } = useQuery<any[]>({
-    queryKey: [`/api/posts/${post.id}/comments`],
-    enabled: showComments,
-  });
+  const {
+    items: comments,
+    isLoading: commentsLoading,
+    fetchNextPage: fetchMoreComments,
+    hasNextPage: hasMoreComments,
+    isFetchingNextPage: fetchingMoreComments,
+  } = useCursorQuery<any>(`/api/posts/${post.id}/comments`, { enabled: showComments });
 
   const likeMutation = useMutation({
     mutationFn: async () => {
@@ -259,6 +264,7 @@ export default function FeedPost({ post }: FeedPostProps) {
               )}
             </div>
           </div>
+          <FollowButton userId={post.userId} />
           {user?.id === post.userId && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -506,7 +512,7 @@ export default function FeedPost({ post }: FeedPostProps) {
                     </div>
                   ))}
                 </div>
-              ) : Array.isArray(comments) && comments.length > 0 ? (
+              ) : comments.length > 0 ? (
                 comments.map((comment: any) => (
                   <div key={comment.id} className="flex items-start space-x-3">
                     <div className="w-8 h-8 rounded-full bg-gradient-to-br from-primary/50 to-secondary/50 border border-border flex items-center justify-center">
@@ -530,6 +536,17 @@ export default function FeedPost({ post }: FeedPostProps) {
                   No comments yet. Be the first to comment!
                 </p>
               )}
+              {hasMoreComments && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => fetchMoreComments()}
+                  disabled={fetchingMoreComments}
+                >
+                  {fetchingMoreComments ? "Loading..." : "Show more comments"}
+                </Button>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,100 @@
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { useCursorQuery } from "@/hooks/use-cursor-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Clock, MapPin, Route } from "lucide-react";
+import FeedPost from "@/components/post/feed-post";
+import AIBlogPost from "@/components/post/ai-blog-post";
+import ConvoyCard from "@/components/convoy/convoy-card";
+import FollowButton from "@/components/profile/follow-button";
+import type { FeedDriveLog, FollowingFeedItem } from "@shared/schema";
+
+function DriveLogItem({ driveLog, createdAt }: { driveLog: FeedDriveLog; createdAt: string }) {
+  return (
+    <Card className="automotive-card hover:border-accent/50 transition-colors">
+      <CardContent className="p-6 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Route className="w-4 h-4" />
+            <span>Driver {driveLog.userId.slice(0, 8)} logged a drive</span>
+            <span>•</span>
+            <Clock className="w-3 h-3" />
+            <span>{formatDistanceToNow(new Date(createdAt), { addSuffix: true })}</span>
+          </div>
+          <FollowButton userId={driveLog.userId} />
+        </div>
+        {driveLog.titleImageUrl && (
+          <img src={driveLog.titleImageUrl} alt={driveLog.title} className="w-full h-48 object-cover rounded-lg" />
+        )}
+        <Link href={`/public-drive-log/${driveLog.id}`}>
+          <h3 className="text-lg font-semibold hover:text-primary cursor-pointer">{driveLog.title}</h3>
+        </Link>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <MapPin className="w-3 h-3" />
+            {driveLog.startLocation} → {driveLog.endLocation}
+          </span>
+          <span>{Number(driveLog.distance).toFixed(1)} km</span>
+          {driveLog.duration !== null && <span>{driveLog.duration} min</span>}
+          {driveLog.twistinessScore !== null && <Badge variant="outline">Twistiness {driveLog.twistinessScore}</Badge>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function FollowingFeed() {
+  const { items, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useCursorQuery<FollowingFeedItem>("/api/feed/following");
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        {[...Array(2)].map((_, i) => (
+          <Card key={i} className="automotive-card">
+            <CardContent className="p-6">
+              <Skeleton className="h-4 w-48 mb-4" />
+              <Skeleton className="h-40 w-full rounded-lg" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <Card className="automotive-card text-center py-12">
+        <CardContent>
+          <p className="text-muted-foreground mb-4">Nothing here yet</p>
+          <p className="text-sm text-muted-foreground">Follow other drivers to see their posts, drives and convoys.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {items.map((item: any) => {
+        if (item.type === "drive") {
+          return <DriveLogItem key={`drive-${item.driveLog.id}`} driveLog={item.driveLog} createdAt={item.createdAt} />;
+        }
+        if (item.type === "convoy") {
+          return <ConvoyCard key={`convoy-${item.convoy.id}`} convoy={item.convoy} />;
+        }
+        if (item.post.isAiGenerated) {
+          return <AIBlogPost key={`post-${item.post.id}`} post={item.post} />;
+        }
+        return <FeedPost key={`post-${item.post.id}`} post={item.post} />;
+      })}
+      {hasNextPage && (
+        <Button variant="outline" className="w-full" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+          {isFetchingNextPage ? "Loading..." : "Load more"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { markPostSeen } from "@/lib/seen-posts";
+
+// How much of a post has to be on screen, and for how long, before it counts as seen
+const VISIBLE_RATIO = 0.5;
+const VISIBLE_MS = 1000;
+
+interface SeenTrackerProps {
+  postId: number;
+  children: ReactNode;
+}
+
+export default function SeenTracker({ postId, children }: SeenTrackerProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === "undefined") return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        // Posts taller than the screen never get to half visible, so half a screen of one counts too
+        const visible = entry.intersectionRatio >= VISIBLE_RATIO
+          || entry.intersectionRect.height >= window.innerHeight * VISIBLE_RATIO;
+        if (visible && !timer) {
+          timer = setTimeout(() => {
+            markPostSeen(postId);
+            observer.disconnect();
+          }, VISIBLE_MS);
+        } else if (!visible && timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+      },
+      { threshold: [0, 0.25, 0.5, 0.75, 1] },
+    );
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+      if (timer) clearTimeout(timer);
+    };
+  }, [postId]);
+
+  return <div ref={ref}>{children}</div>;
+}
@@ -0,0 +1,55 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { UserCheck, UserPlus } from "lucide-react";
+import type { User } from "@shared/schema";
+
+interface FollowButtonProps {
+  userId: string;
+}
+
+export default function FollowButton({ userId }: FollowButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isSelf = (user as User | undefined)?.id === userId;
+
+  const { data: status } = useQuery<{ following: boolean }>({
+    queryKey: [`/api/users/${userId}/follow`],
+    enabled: !!user && !isSelf,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(status?.following ? "DELETE" : "POST", `/api/users/${userId}/follow`);
+      return await response.json();
+    },
+    onSuccess: (data: { following: boolean }) => {
+      queryClient.setQueryData([`/api/users/${userId}/follow`], { following: data.following });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/stats"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update follow",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || isSelf || !status) return null;
+
+  return (
+    <Button
+      variant={status.following ? "outline" : "default"}
+      size="sm"
+      onClick={() => toggleMutation.mutate()}
+      disabled={toggleMutation.isPending}
+    >
+      {status.following ? <UserCheck className="w-4 h-4 mr-1" /> : <UserPlus className="w-4 h-4 mr-1" />}
+      {status.following ? "Following" : "Follow"}
+    </Button>
+  );
+}
@@ -0,0 +1,80 @@
+import { useCursorQuery } from "@/hooks/use-cursor-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Users } from "lucide-react";
+import FollowButton from "@/components/profile/follow-button";
+import type { FollowListEntry } from "@shared/schema";
+
+interface FollowListsCardProps {
+  userId: string;
+  followers?: number | null;
+  following?: number | null;
+}
+
+function FollowList({ url, empty }: { url: string; empty: string }) {
+  const { items: members, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
+    useCursorQuery<FollowListEntry>(url);
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading...</div>;
+  }
+  if (members.length === 0) {
+    return <div className="text-sm text-muted-foreground">{empty}</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {members.map((member) => (
+        <div key={member.id} className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3 min-w-0">
+            <Avatar className="h-8 w-8">
+              <AvatarImage src={member.profileImageUrl || undefined} />
+              <AvatarFallback>{(member.firstName || member.username || "U")[0].toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">
+                {[member.firstName, member.lastName].filter(Boolean).join(" ") || member.username || "Driver"}
+              </div>
+              {member.username && <div className="text-xs text-muted-foreground truncate">@{member.username}</div>}
+            </div>
+          </div>
+          <FollowButton userId={member.id} />
+        </div>
+      ))}
+      {hasNextPage && (
+        <Button variant="ghost" size="sm" className="w-full" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+          {isFetchingNextPage ? "Loading..." : "Load more"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default function FollowListsCard({ userId, followers, following }: FollowListsCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Community
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="followers" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="followers">Followers ({followers || 0})</TabsTrigger>
+            <TabsTrigger value="following">Following ({following || 0})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="followers" className="pt-2">
+            <FollowList url={`/api/users/${userId}/followers`} empty="No followers yet" />
+          </TabsContent>
+          <TabsContent value="following" className="pt-2">
+            <FollowList url={`/api/users/${userId}/following`} empty="Not following anyone yet" />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Crosshair, EyeOff, Plus, Trash2 } from "lucide-react";
+import type { PrivacyZone } from "@shared/schema";
+
+const RADIUS_OPTIONS = [200, 500, 1000, 2000];
+
+export default function PrivacyZonesCard() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [latitude, setLatitude] = useState("");
+  const [longitude, setLongitude] = useState("");
+  const [radius, setRadius] = useState("500");
+
+  const { data: zones = [], isLoading } = useQuery<PrivacyZone[]>({
+    queryKey: ['/api/privacy-zones'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/privacy-zones', {
+        name,
+        latitude,
+        longitude,
+        radius,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/privacy-zones'] });
+      setName("");
+      setLatitude("");
+      setLongitude("");
+      setRadius("500");
+      toast({
+        title: "Privacy zone added",
+        description: "Shared tracks will hide anything inside this zone.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add privacy zone",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/privacy-zones/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/privacy-zones'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete privacy zone",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "Geolocation is not supported by this browser",
+        variant: "destructive",
+      });
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLatitude(position.coords.latitude.toFixed(6));
+        setLongitude(position.coords.longitude.toFixed(6));
+      },
+      (error) => {
+        console.error("Error getting location:", error);
+        toast({
+          title: "Location unavailable",
+          description: "Couldn't get your current location",
+          variant: "destructive",
+        });
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <EyeOff className="h-5 w-5" />
+          Privacy Zones
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Track points and pitstops inside these zones are hidden from everyone else when you share a drive.
+          You'll still see your full tracks.
+        </p>
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading privacy zones...</div>
+        ) : zones.length > 0 ? (
+          <div className="space-y-2">
+            {zones.map((zone) => (
+              <div key={zone.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div>
+                  <div className="font-medium">{zone.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {Number(zone.latitude).toFixed(4)}, {Number(zone.longitude).toFixed(4)} · {zone.radius} m radius
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(zone.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">No privacy zones yet</div>
+        )}
+
+        <form
+          className="space-y-3 border-t pt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="zone-name">Name</Label>
+              <Input
+                id="zone-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Home"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="zone-radius">Radius</Label>
+              <select
+                id="zone-radius"
+                value={radius}
+                onChange={(e) => setRadius(e.target.value)}
+                className="w-full p-2 border border-input rounded-md bg-background"
+              >
+                {RADIUS_OPTIONS.map((option) => (
+                  <option key={option} value={option}>{option} m</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="zone-latitude">Latitude</Label>
+              <Input
+                id="zone-latitude"
+                value={latitude}
+                onChange={(e) => setLatitude(e.target.value)}
+                placeholder="e.g., 51.5074"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="zone-longitude">Longitude</Label>
+              <Input
+                id="zone-longitude"
+                value={longitude}
+                onChange={(e) => setLongitude(e.target.value)}
+                placeholder="e.g., -0.1278"
+                required
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleUseCurrentLocation}>
+              <Crosshair className="h-4 w-4 mr-2" />
+              Use Current Location
+            </Button>
+            <Button type="submit" disabled={createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              {createMutation.isPending ? "Adding..." : "Add Zone"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
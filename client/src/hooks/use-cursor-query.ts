@@ -0,0 +1,25 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { fetchPage, type PageParams } from "@/lib/pagination";
+
+interface CursorQueryOptions {
+  params?: PageParams;
+  limit?: number;
+  enabled?: boolean;
+}
+
+// An infinite query over one of the cursor-paginated list routes, with the loaded pages flattened.
+// Keyed by the url (plus any params), so invalidating the url refreshes every page
+export function useCursorQuery<T>(url: string, { params, limit = 20, enabled = true }: CursorQueryOptions = {}) {
+  const query = useInfiniteQuery({
+    queryKey: params ? [url, params] : [url],
+    queryFn: ({ pageParam }) => fetchPage<T>(url, { ...params, limit, cursor: pageParam ?? undefined }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+  });
+
+  return {
+    ...query,
+    items: query.data?.pages.flatMap(page => page.items) ?? [],
+  };
+}
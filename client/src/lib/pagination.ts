@@ -0,0 +1,37 @@
+import type { CursorPage } from "@shared/schema";
+
+// List routes return a page of items and an opaque cursor for the next one; these fetch them
+export type PageParams = Record<string, string | number | boolean | undefined>;
+
+const MAX_PAGE_SIZE = 50;
+
+function pageUrl(url: string, params: PageParams) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.set(key, String(value));
+  }
+  const query = search.toString();
+  return query ? `${url}?${query}` : url;
+}
+
+export async function fetchPage<T>(url: string, params: PageParams = {}): Promise<CursorPage<T>> {
+  const response = await fetch(pageUrl(url, params), {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return response.json();
+}
+
+// Follows the cursors to the end, for pickers and totals that need the whole list
+export async function fetchAllPages<T>(url: string, params: PageParams = {}): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage<T>(url, { ...params, limit: MAX_PAGE_SIZE, cursor });
+    items.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return items;
+}
@@ -0,0 +1,50 @@
+import { apiRequest } from "@/lib/queryClient";
+
+// Feed posts that have been on screen, reported in batches so scrolling doesn't fire a request per post.
+// The server hides them from later feeds
+const FLUSH_DELAY_MS = 2000;
+const MAX_BATCH = 100;
+
+const pending = new Set<number>();
+const reported = new Set<number>();
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function takeBatch() {
+  const postIds = Array.from(pending).slice(0, MAX_BATCH);
+  postIds.forEach(id => pending.delete(id));
+  return postIds;
+}
+
+async function flush() {
+  timer = null;
+  const postIds = takeBatch();
+  if (postIds.length === 0) return;
+  try {
+    await apiRequest("POST", "/api/posts/seen", { postIds });
+  } catch {
+    // Reported again the next time they scroll into view
+    postIds.forEach(id => reported.delete(id));
+  }
+  if (pending.size > 0) schedule();
+}
+
+function schedule() {
+  if (!timer) timer = setTimeout(flush, FLUSH_DELAY_MS);
+}
+
+export function markPostSeen(postId: number) {
+  if (reported.has(postId)) return;
+  reported.add(postId);
+  pending.add(postId);
+  schedule();
+}
+
+// Whatever is still queued when the tab goes away is sent with a beacon, which outlives the page
+if (typeof window !== "undefined") {
+  window.addEventListener("pagehide", () => {
+    while (pending.size > 0) {
+      const body = new Blob([JSON.stringify({ postIds: takeBatch() })], { type: "application/json" });
+      navigator.sendBeacon("/api/posts/seen", body);
+    }
+  });
+}
@@ -4,12 +4,15 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { fetchAllPages } from "@/lib/pagination";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import LiveConvoyTracker from "@/components/convoy/live-convoy-tracker";
+import ConvoyStatusCard from "@/components/convoy/convoy-status-card";
+import { CONVOY_JOINABLE_STATUSES, CONVOY_LIVE_STATUSES, isConvoyStatus, type User } from "@shared/schema";
 import { 
   ArrowLeft, 
   MapPin, 
@@ -20,7 +23,8 @@ import {
   Navigation,
   AlertTriangle,
   UserPlus,
-  UserMinus
+  UserMinus,
+  ShieldCheck
 } from "lucide-react";
 
 export default function ConvoyDetail() {
@@ -51,15 +55,24 @@ export default function ConvoyDetail() {
     enabled: !!convoyId && !!user?.id,
   });
 
+  const [vehicleId, setVehicleId] = useState("");
+
+  const { data: vehicles = [] } = useQuery<{ id: number; make: string; model: string; year: number }[]>({
+    queryKey: ['/api/vehicles', 'all'],
+    queryFn: () => fetchAllPages('/api/vehicles'),
+    enabled: !!user,
+  });
+
   const joinConvoyMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest('POST', `/api/convoys/${convoyId}/join`);
+      await apiRequest('POST', `/api/convoys/${convoyId}/join`, vehicleId ? { vehicleId } : undefined);
     },
     onSuccess: () => {
       toast({ title: "Success", description: "Joined convoy successfully!" });
       queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}/participants`] });
       queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}/is-participant`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}/status-history`] });
     },
     onError: (error) => {
       toast({
@@ -79,6 +92,7 @@ export default function ConvoyDetail() {
       queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}/participants`] });
       queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}/is-participant`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/convoys/${convoyId}/status-history`] });
     },
     onError: (error) => {
       toast({
@@ -115,6 +129,12 @@ export default function ConvoyDetail() {
     );
   }
 
+  const requiresInsurance = !!(convoy as { requiresInsurance?: boolean }).requiresInsurance;
+  const status = (convoy as { status?: string | null }).status ?? "";
+  const isJoinable = isConvoyStatus(status) && CONVOY_JOINABLE_STATUSES.includes(status);
+  const isLive = isConvoyStatus(status) && CONVOY_LIVE_STATUSES.includes(status);
+  const isOrganizer = (user as User | undefined)?.id === (convoy as { organizerId?: string }).organizerId;
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -135,8 +155,10 @@ export default function ConvoyDetail() {
 
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
-      case 'active': return 'default';
-      case 'upcoming': return 'secondary';
+      case 'checking_in':
+      case 'in_progress': return 'default';
+      case 'open':
+      case 'full': return 'secondary';
       case 'completed': return 'outline';
       case 'cancelled': return 'destructive';
       default: return 'secondary';
@@ -156,14 +178,30 @@ export default function ConvoyDetail() {
           {user?.id !== convoy.organizerId && (
             <>
               {!isParticipant ? (
-                <Button 
-                  onClick={() => joinConvoyMutation.mutate()}
-                  disabled={joinConvoyMutation.isPending || convoy.status !== 'upcoming'}
-                  className="flex items-center gap-2"
-                >
-                  <UserPlus className="h-4 w-4" />
-                  {joinConvoyMutation.isPending ? "Joining..." : "Join Convoy"}
-                </Button>
+                <>
+                  {vehicles.length > 0 && (
+                    <select
+                      value={vehicleId}
+                      onChange={(e) => setVehicleId(e.target.value)}
+                      className="p-2 border border-input rounded-md bg-background text-sm"
+                    >
+                      <option value="">{requiresInsurance ? "Choose your vehicle" : "No vehicle"}</option>
+                      {vehicles.map((vehicle) => (
+                        <option key={vehicle.id} value={vehicle.id}>
+                          {vehicle.year} {vehicle.make} {vehicle.model}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <Button 
+                    onClick={() => joinConvoyMutation.mutate()}
+                    disabled={joinConvoyMutation.isPending || !isJoinable || (requiresInsurance && !vehicleId)}
+                    className="flex items-center gap-2"
+                  >
+                    <UserPlus className="h-4 w-4" />
+                    {joinConvoyMutation.isPending ? "Joining..." : "Join Convoy"}
+                  </Button>
+                </>
               ) : (
                 <Button 
                   variant="outline"
@@ -189,7 +227,7 @@ export default function ConvoyDetail() {
                 <div>
                   <CardTitle className="text-2xl mb-2">{convoy.title}</CardTitle>
                   <Badge variant={getStatusBadgeVariant(convoy.status)}>
-                    {convoy.status.toUpperCase()}
+                    {status.replace('_', ' ').toUpperCase()}
                   </Badge>
                 </div>
                 {convoy.imageUrl && (
@@ -278,6 +316,13 @@ export default function ConvoyDetail() {
                 </div>
               )}
 
+              {requiresInsurance && (
+                <div className="flex items-center gap-2 text-sm">
+                  <ShieldCheck className="h-4 w-4 text-primary" />
+                  <span>Valid insurance on file is required to join</span>
+                </div>
+              )}
+
               {convoy.vehicleTypes && convoy.vehicleTypes.length > 0 && (
                 <div>
                   <div className="text-sm font-medium mb-2">Vehicle Types:</div>
@@ -323,6 +368,8 @@ export default function ConvoyDetail() {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          <ConvoyStatusCard convoyId={convoyId} status={status} isOrganizer={isOrganizer} />
+
           {/* Participants */}
           <Card>
             <CardHeader>
@@ -356,7 +403,7 @@ export default function ConvoyDetail() {
                           )}
                         </div>
                       </div>
-                      {convoy.status === 'active' && participant.isLocationSharing && (
+                      {isLive && participant.isLocationSharing && (
                         <Badge variant="outline" className="text-xs">
                           <MapPin className="h-3 w-3 mr-1" />
                           Live
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useCursorQuery } from "@/hooks/use-cursor-query";
 import Sidebar from "@/components/layout/sidebar";
 import MobileNav from "@/components/layout/mobile-nav";
 import ConvoyCard from "@/components/convoy/convoy-card";
@@ -14,10 +15,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { fetchAllPages } from "@/lib/pagination";
 import { Users, Plus, Calendar, MapPin, Clock, Route, Filter, Search } from "lucide-react";
-import { insertConvoySchema } from "@shared/schema";
+import { insertConvoySchema, twistinessDifficulty, type Convoy, type DriveLog } from "@shared/schema";
 import { z } from "zod";
 import { format, addDays } from "date-fns";
 
@@ -37,6 +40,7 @@ export default function Convoys() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedDifficulty, setSelectedDifficulty] = useState("all");
+  const [routeDriveLogId, setRouteDriveLogId] = useState("");
   const [activeTab, setActiveTab] = useState("upcoming");
   
   const [formData, setFormData] = useState<Partial<ConvoyFormData>>({
@@ -52,23 +56,43 @@ export default function Convoys() {
     meetingPoint: "",
     difficulty: "easy",
     vehicleTypes: ["car"],
+    requiresInsurance: false,
   });
 
   // Fetch upcoming convoys
-  const { data: upcomingConvoys = [], isLoading: upcomingLoading } = useQuery({
-    queryKey: ["/api/convoys/upcoming"],
-    enabled: !!user,
-  });
+  const upcomingList = useCursorQuery<Convoy>("/api/convoys/upcoming", { enabled: !!user });
+  const { items: upcomingConvoys, isLoading: upcomingLoading } = upcomingList;
 
   // Fetch user convoys
-  const { data: userConvoys = [], isLoading: userLoading } = useQuery({
-    queryKey: ["/api/convoys/user"],
-    enabled: !!user,
+  const userList = useCursorQuery<Convoy>("/api/convoys/user", { enabled: !!user });
+  const { items: userConvoys, isLoading: userLoading } = userList;
+
+  // The organiser's drives, offered as a starting point for the convoy route
+  const { data: driveLogs = [] } = useQuery<DriveLog[]>({
+    queryKey: ["/api/drive-logs", "all"],
+    queryFn: () => fetchAllPages<DriveLog>("/api/drive-logs"),
+    enabled: !!user && isCreateDialogOpen,
   });
 
+  const routeDriveLog = driveLogs.find(log => log.id.toString() === routeDriveLogId);
+
+  const handleRouteDriveLogChange = (value: string) => {
+    setRouteDriveLogId(value);
+    const driveLog = driveLogs.find(log => log.id.toString() === value);
+    if (!driveLog) return;
+    setFormData(prev => ({
+      ...prev,
+      startLocation: driveLog.startLocation,
+      endLocation: driveLog.endLocation,
+      routeName: driveLog.routeName || driveLog.route || prev.routeName,
+      distance: Number(driveLog.distance),
+      difficulty: driveLog.twistinessScore !== null ? twistinessDifficulty(driveLog.twistinessScore) : prev.difficulty,
+    }));
+  };
+
   // Create convoy mutation
   const createConvoyMutation = useMutation({
-    mutationFn: async (data: ConvoyFormData) => {
+    mutationFn: async (data: ConvoyFormData & { driveLogId?: number }) => {
       return await apiRequest("POST", "/api/convoys", data);
     },
     onSuccess: () => {
@@ -91,6 +115,7 @@ export default function Convoys() {
   });
 
   const resetForm = () => {
+    setRouteDriveLogId("");
     setFormData({
       title: "",
       description: "",
@@ -104,6 +129,7 @@ export default function Convoys() {
       meetingPoint: "",
       difficulty: "easy",
       vehicleTypes: ["car"],
+      requiresInsurance: false,
     });
   };
 
@@ -117,7 +143,10 @@ export default function Convoys() {
         startDateTime: formData.startDateTime?.toISOString(),
       });
 
-      createConvoyMutation.mutate(validatedData);
+      createConvoyMutation.mutate({
+        ...validatedData,
+        driveLogId: routeDriveLogId ? parseInt(routeDriveLogId) : undefined,
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         toast({
@@ -153,6 +182,17 @@ export default function Convoys() {
   const filteredUpcoming = filterConvoys(upcomingConvoys);
   const filteredUserConvoys = filterConvoys(userConvoys);
 
+  // Lists arrive a page at a time, so a count is only exact once the last page is in
+  const countOf = (list: { items: unknown[]; hasNextPage: boolean }) =>
+    `${list.items.length}${list.hasNextPage ? "+" : ""}`;
+
+  const loadMore = (list: { hasNextPage: boolean; isFetchingNextPage: boolean; fetchNextPage: () => unknown }) =>
+    list.hasNextPage && (
+      <Button variant="outline" className="w-full col-span-full" onClick={() => list.fetchNextPage()} disabled={list.isFetchingNextPage}>
+        {list.isFetchingNextPage ? "Loading..." : "Load more"}
+      </Button>
+    );
+
   return (
     <div className="min-h-screen bg-background">
       {/* Desktop Layout */}
@@ -210,6 +250,25 @@ export default function Convoys() {
                     {/* Route Details */}
                     <div className="space-y-4">
                       <h3 className="text-lg font-semibold">Route Details</h3>
+
+                      {driveLogs.length > 0 && (
+                        <div className="space-y-2">
+                          <Label htmlFor="routeDriveLog">Based on one of your drives</Label>
+                          <select
+                            id="routeDriveLog"
+                            value={routeDriveLogId}
+                            onChange={(e) => handleRouteDriveLogChange(e.target.value)}
+                            className="w-full p-2 border border-input rounded-md bg-background"
+                          >
+                            <option value="">None</option>
+                            {driveLogs.map((log) => (
+                              <option key={log.id} value={log.id}>
+                                {log.title}{log.twistinessScore !== null ? ` (twistiness ${log.twistinessScore})` : ""}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
                       
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div className="space-y-2">
@@ -324,6 +383,7 @@ export default function Convoys() {
                           <Select 
                             value={formData.difficulty} 
                             onValueChange={(value) => setFormData(prev => ({ ...prev, difficulty: value }))}
+                            disabled={routeDriveLog?.twistinessScore != null}
                           >
                             <SelectTrigger>
                               <SelectValue />
@@ -334,6 +394,11 @@ export default function Convoys() {
                               <SelectItem value="hard">Hard - Experienced drivers only</SelectItem>
                             </SelectContent>
                           </Select>
+                          {routeDriveLog?.twistinessScore != null && (
+                            <p className="text-xs text-muted-foreground">
+                              Set from the drive's twistiness score ({routeDriveLog.twistinessScore}/100)
+                            </p>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -368,6 +433,21 @@ export default function Convoys() {
                       </div>
                     </div>
 
+                    {/* Entry Requirements */}
+                    <div className="flex items-center justify-between border rounded-lg p-3">
+                      <div>
+                        <Label htmlFor="requiresInsurance">Require valid insurance</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Participants must have insurance on file for their vehicle, valid on the day of the drive
+                        </p>
+                      </div>
+                      <Switch
+                        id="requiresInsurance"
+                        checked={!!formData.requiresInsurance}
+                        onCheckedChange={(checked) => setFormData(prev => ({ ...prev, requiresInsurance: checked }))}
+                      />
+                    </div>
+
                     {/* Actions */}
                     <div className="flex space-x-3">
                       <Button
@@ -407,7 +487,7 @@ export default function Convoys() {
                         {upcomingLoading ? (
                           <Skeleton className="h-8 w-8 inline-block" />
                         ) : (
-                          upcomingConvoys.length
+                          countOf(upcomingList)
                         )}
                       </p>
                       <p className="text-muted-foreground">Upcoming Convoys</p>
@@ -441,7 +521,7 @@ export default function Convoys() {
                         {userLoading ? (
                           <Skeleton className="h-8 w-8 inline-block" />
                         ) : (
-                          userConvoys.length
+                          countOf(userList)
                         )}
                       </p>
                       <p className="text-muted-foreground">Organized</p>
@@ -513,6 +593,7 @@ export default function Convoys() {
                         variant={index === 0 ? "featured" : "default"}
                       />
                     ))}
+                    {loadMore(upcomingList)}
                   </div>
                 ) : (
                   <Card className="automotive-card text-center py-12">
@@ -565,6 +646,7 @@ export default function Convoys() {
                         showJoinButton={false}
                       />
                     ))}
+                    {loadMore(userList)}
                   </div>
                 ) : (
                   <Card className="automotive-card text-center py-12">
@@ -601,7 +683,7 @@ export default function Convoys() {
               <div>
                 <h1 className="text-2xl font-bold">Convoys</h1>
                 <p className="text-muted-foreground text-sm">
-                  {upcomingConvoys.length} upcoming
+                  {countOf(upcomingList)} upcoming
                 </p>
               </div>
               <Button size="sm" onClick={() => setIsCreateDialogOpen(true)}>
@@ -645,9 +727,10 @@ export default function Convoys() {
                   </div>
                 ) : filteredUpcoming.length > 0 ? (
                   <div className="space-y-4">
-                    {filteredUpcoming.slice(0, 5).map((convoy: any) => (
+                    {filteredUpcoming.map((convoy: any) => (
                       <ConvoyCard key={convoy.id} convoy={convoy} />
                     ))}
+                    {loadMore(upcomingList)}
                   </div>
                 ) : (
                   <Card className="automotive-card text-center py-8">
@@ -691,6 +774,7 @@ export default function Convoys() {
                         showJoinButton={false}
                       />
                     ))}
+                    {loadMore(userList)}
                   </div>
                 ) : (
                   <Card className="automotive-card text-center py-8">
@@ -2,24 +2,30 @@ import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { useAuth } from "@/hooks/useAuth";
+import { useCursorQuery } from "@/hooks/use-cursor-query";
 import { useToast } from "@/hooks/use-toast";
-import { useParams } from "wouter";
+import { Link, useParams } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fetchAllPages } from "@/lib/pagination";
 import Sidebar from "@/components/layout/sidebar";
 import MobileNav from "@/components/layout/mobile-nav";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
 import { Textarea } from "@/components/ui/textarea";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Switch } from "@/components/ui/switch";
-import { Plus, Route, Eye, Trash2, Calendar, MapPin, Car, MoreVertical, Share, Edit, Facebook, Twitter, Instagram, Copy, ChevronDown, ChevronUp, Camera, X } from "lucide-react";
-import type { DriveLog, PitstopLocation } from "@shared/schema";
+import { Plus, Route, Eye, Trash2, Calendar, MapPin, Car, MoreVertical, Share, Edit, Facebook, Twitter, Instagram, Copy, ChevronDown, ChevronUp, Camera, X, Upload, Download, Mountain, Trophy, Flag, Fuel } from "lucide-react";
+import type { DriveLog, ElevationProfilePoint, FuelEntry, PitstopLocation, RoutePoint, SegmentEffort, User, Vehicle } from "@shared/schema";
 import GoogleMapsPitstopSelector from "@/components/GoogleMapsPitstopSelector";
 import PitstopImageUpload from "@/components/PitstopImageUpload";
+import LiveTripRecorder from "@/components/drive-log/live-trip-recorder";
+import ElevationProfileChart from "@/components/drive-log/elevation-profile-chart";
+import CreateSegmentDialog from "@/components/drive-log/create-segment-dialog";
 
 interface DriveLogFormData {
   title: string;
@@ -34,6 +40,9 @@ interface DriveLogFormData {
   isPublic?: boolean;
 }
 
+// Lowest twistiness score shown by the "twisty roads only" filter
+const TWISTY_MIN_SCORE = 30;
+
 export default function DriveLogs() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -44,6 +53,7 @@ export default function DriveLogs() {
   const [pitstopImages, setPitstopImages] = useState<{[key: number]: File[]}>({});
   const [selectedDriveLog, setSelectedDriveLog] = useState<DriveLog | null>(null);
   const [showDetailDialog, setShowDetailDialog] = useState(false);
+  const [showCreateSegmentDialog, setShowCreateSegmentDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [editingDriveLog, setEditingDriveLog] = useState<DriveLog | null>(null);
   const [editTitleImage, setEditTitleImage] = useState<File | null>(null);
@@ -52,13 +62,29 @@ export default function DriveLogs() {
   const [editPitstops, setEditPitstops] = useState<PitstopLocation[]>([]);
   const [editPitstopImages, setEditPitstopImages] = useState<{[key: number]: File[]}>({});
   const [existingPitstopImages, setExistingPitstopImages] = useState<{[key: number]: string[]}>({});
+  const gpxInputRef = useRef<HTMLInputElement>(null);
+  const [sortBy, setSortBy] = useState<'date' | 'distance' | 'twistiness'>('date');
+  const [twistyOnly, setTwistyOnly] = useState(false);
+
+  const {
+    items: driveLogs,
+    isLoading: driveLogsLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useCursorQuery<DriveLog>('/api/drive-logs', {
+    params: { sort: sortBy, minTwistiness: twistyOnly ? TWISTY_MIN_SCORE : undefined },
+  });
 
-  const { data: driveLogs, isLoading: driveLogsLoading } = useQuery({
-    queryKey: ['/api/drive-logs'],
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles', 'all'],
+    queryFn: () => fetchAllPages<Vehicle>('/api/vehicles'),
   });
 
-  const { data: vehicles } = useQuery({
-    queryKey: ['/api/vehicles'],
+  // A shared link may point past the pages loaded so far, so the log is fetched on its own
+  const { data: sharedDriveLog } = useQuery<DriveLog>({
+    queryKey: [`/api/drive-logs/${params.id}`],
+    enabled: !!params.id,
   });
 
   // Fetch pitstops for all drive logs to show counts
@@ -72,6 +98,18 @@ export default function DriveLogs() {
     enabled: !!selectedDriveLog?.id,
   });
 
+  // Fetch segment efforts for selected drive log
+  const { data: selectedDriveLogEfforts = [] } = useQuery<Array<SegmentEffort & { segmentName: string }>>({
+    queryKey: [`/api/drive-logs/${selectedDriveLog?.id}/segment-efforts`],
+    enabled: !!selectedDriveLog?.id,
+  });
+
+  // Fetch fuel used and fill-ups for selected drive log
+  const { data: selectedDriveLogFuel } = useQuery<{ fuelConsumed: number | null; estimated: boolean; fillUps: FuelEntry[] }>({
+    queryKey: [`/api/drive-logs/${selectedDriveLog?.id}/fuel`],
+    enabled: !!selectedDriveLog?.id,
+  });
+
   // Fetch pitstops for editing drive log
   const { data: editingDriveLogPitstops } = useQuery({
     queryKey: ['/api/pitstops/' + editingDriveLog?.id],
@@ -113,18 +151,13 @@ export default function DriveLogs() {
     }
   }, [editingDriveLogPitstops]);
 
-  // Handle shared drive log URLs
+  // Handle shared drive log URLs; only your own logs open here
   useEffect(() => {
-    if (params.id && driveLogs && Array.isArray(driveLogs)) {
-      const driveLogId = parseInt(params.id);
-      const sharedDriveLog = driveLogs.find((log: DriveLog) => log.id === driveLogId);
-      
-      if (sharedDriveLog) {
-        setSelectedDriveLog(sharedDriveLog);
-        setShowDetailDialog(true);
-      }
+    if (sharedDriveLog && sharedDriveLog.userId === (user as User | undefined)?.id) {
+      setSelectedDriveLog(sharedDriveLog);
+      setShowDetailDialog(true);
     }
-  }, [params.id, driveLogs]);
+  }, [sharedDriveLog, user]);
 
   const form = useForm<DriveLogFormData>({
     defaultValues: {
@@ -185,6 +218,30 @@ export default function DriveLogs() {
     },
   });
 
+  const importGpxMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await apiRequest('POST', '/api/drive-logs/import/gpx', formData);
+      return await response.json();
+    },
+    onSuccess: (driveLog) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/drive-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/all-pitstops'] });
+      toast({
+        title: "GPX imported",
+        description: `Created "${driveLog.title}" with ${driveLog.totalPitstops} pitstops`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import GPX file",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteDriveLogMutation = useMutation({
     mutationFn: async (id: number) => {
       const response = await fetch(`/api/drive-logs/${id}`, {
@@ -446,6 +503,47 @@ export default function DriveLogs() {
           <div className="container mx-auto px-4 py-8">
             <div className="flex justify-between items-center mb-8">
               <h1 className="text-3xl font-bold">Drive Logs</h1>
+        <div className="flex gap-2">
+        <input
+          ref={gpxInputRef}
+          type="file"
+          accept=".gpx,application/gpx+xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              importGpxMutation.mutate(file);
+            }
+            e.target.value = '';
+          }}
+        />
+        <Button
+          variant="outline"
+          disabled={importGpxMutation.isPending}
+          onClick={() => gpxInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {importGpxMutation.isPending ? "Importing..." : "Import GPX"}
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline">
+              <Download className="h-4 w-4 mr-2" />
+              Export All
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem asChild>
+              <a href="/api/drive-logs/export?format=gpx" download>GPX (.zip)</a>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <a href="/api/drive-logs/export?format=kml" download>KML (.zip)</a>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <a href="/api/drive-logs/export?format=geojson" download>GeoJSON (.zip)</a>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         <Button onClick={() => {
           // Reset all form state when opening create dialog
           form.reset({
@@ -467,6 +565,29 @@ export default function DriveLogs() {
           <Plus className="h-4 w-4 mr-2" />
           New Drive Log
         </Button>
+        </div>
+      </div>
+
+      <LiveTripRecorder vehicles={Array.isArray(vehicles) ? vehicles : undefined} />
+
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="drive-log-sort" className="text-sm">Sort by</Label>
+          <select
+            id="drive-log-sort"
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+            className="p-2 border border-input rounded-md bg-background text-sm"
+          >
+            <option value="date">Most recent</option>
+            <option value="distance">Longest</option>
+            <option value="twistiness">Twistiest</option>
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="twisty-only" checked={twistyOnly} onCheckedChange={setTwistyOnly} />
+          <Label htmlFor="twisty-only" className="text-sm">Twisty roads only</Label>
+        </div>
       </div>
 
       {/* Enhanced Drive Log Form Modal */}
@@ -1460,10 +1581,12 @@ export default function DriveLogs() {
             Loading drive logs...
           </CardContent>
         </Card>
-      ) : !Array.isArray(driveLogs) || driveLogs.length === 0 ? (
+      ) : driveLogs.length === 0 ? (
         <Card>
           <CardContent className="p-6 text-center">
-            <p className="text-muted-foreground mb-4">No drive logs yet!</p>
+            <p className="text-muted-foreground mb-4">
+              {twistyOnly ? "No twisty drives yet - record a track to get a curvature score." : "No drive logs yet!"}
+            </p>
             <Button onClick={() => setShowCreateDialog(true)}>
               <Plus className="h-4 w-4 mr-2" />
               Create Your First Drive Log
@@ -1472,7 +1595,7 @@ export default function DriveLogs() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {Array.isArray(driveLogs) && driveLogs.map((driveLog: DriveLog) => (
+          {driveLogs.map((driveLog: DriveLog) => (
             <Card key={driveLog.id} className="overflow-hidden hover:shadow-lg transition-shadow">
               {driveLog.titleImageUrl && (
                 <div 
@@ -1546,6 +1669,18 @@ export default function DriveLogs() {
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </div>
+                {driveLog.status === 'recording' && (
+                  <Badge variant="destructive" className="mb-2">Recording</Badge>
+                )}
+                {driveLog.twistinessScore !== null && (
+                  <Badge
+                    variant="outline"
+                    className="mb-2"
+                    title={`${driveLog.bendCount ?? 0} bends, ${driveLog.curvyDistancePercent ?? 0}% of distance in curves`}
+                  >
+                    Twistiness {driveLog.twistinessScore}/100
+                  </Badge>
+                )}
                 <p className="text-sm text-muted-foreground mb-2">
                   {driveLog.startLocation} → {driveLog.endLocation}
                 </p>
@@ -1581,9 +1716,23 @@ export default function DriveLogs() {
               </CardContent>
             </Card>
           ))}
+          {hasNextPage && (
+            <Button variant="outline" className="col-span-full" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Loading..." : "Load more"}
+            </Button>
+          )}
         </div>
       )}
 
+      {selectedDriveLog && Array.isArray(selectedDriveLog.routeCoordinates) && (
+        <CreateSegmentDialog
+          open={showCreateSegmentDialog}
+          onOpenChange={setShowCreateSegmentDialog}
+          driveLogId={selectedDriveLog.id}
+          points={selectedDriveLog.routeCoordinates as RoutePoint[]}
+        />
+      )}
+
       {/* Drive Log Detail Modal */}
       <Dialog open={showDetailDialog} onOpenChange={setShowDetailDialog}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -1649,6 +1798,84 @@ export default function DriveLogs() {
                 </div>
               </div>
 
+              {/* Elevation Section */}
+              {Array.isArray(selectedDriveLog.elevationProfile) && selectedDriveLog.elevationProfile.length > 1 && (
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Mountain className="h-5 w-5 text-muted-foreground" />
+                    <h3 className="font-medium text-lg">Elevation</h3>
+                  </div>
+                  <ElevationProfileChart
+                    profile={selectedDriveLog.elevationProfile as ElevationProfilePoint[]}
+                    totalAscent={selectedDriveLog.totalAscent}
+                    totalDescent={selectedDriveLog.totalDescent}
+                    maxElevation={selectedDriveLog.maxElevation}
+                    minElevation={selectedDriveLog.minElevation}
+                  />
+                </div>
+              )}
+
+              {/* Fuel Section */}
+              {selectedDriveLogFuel && (selectedDriveLogFuel.fuelConsumed !== null || selectedDriveLogFuel.fillUps.length > 0) && (
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Fuel className="h-5 w-5 text-muted-foreground" />
+                    <h3 className="font-medium text-lg">Fuel</h3>
+                  </div>
+                  {selectedDriveLogFuel.fuelConsumed !== null && (
+                    <p className="text-sm text-muted-foreground">
+                      {selectedDriveLogFuel.estimated ? "Estimated fuel used" : "Fuel used"}:{" "}
+                      <span className="font-medium text-foreground">{selectedDriveLogFuel.fuelConsumed.toFixed(1)} L</span>
+                    </p>
+                  )}
+                  {selectedDriveLogFuel.fillUps.map((fillUp) => (
+                    <div key={fillUp.id} className="flex items-center justify-between border rounded-lg p-3 text-sm">
+                      <span>
+                        {Number(fillUp.volume).toFixed(2)} L {fillUp.isFullFill ? "(full)" : "(partial)"}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {Number(fillUp.odometer).toLocaleString()} km
+                        {fillUp.totalPrice !== null && ` · ${Number(fillUp.totalPrice).toFixed(2)} ${fillUp.currency}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Segments Section */}
+              {(selectedDriveLogEfforts.length > 0 || (Array.isArray(selectedDriveLog.routeCoordinates) && selectedDriveLog.routeCoordinates.length > 1)) && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Trophy className="h-5 w-5 text-muted-foreground" />
+                      <h3 className="font-medium text-lg">Segments</h3>
+                    </div>
+                    {Array.isArray(selectedDriveLog.routeCoordinates) && selectedDriveLog.routeCoordinates.length > 1 && (
+                      <Button variant="outline" size="sm" onClick={() => setShowCreateSegmentDialog(true)}>
+                        <Flag className="h-4 w-4 mr-2" />
+                        Create Segment
+                      </Button>
+                    )}
+                  </div>
+                  {selectedDriveLogEfforts.length > 0 ? (
+                    <div className="space-y-2">
+                      {selectedDriveLogEfforts.map((effort) => (
+                        <Link key={effort.id} href={`/segments/${effort.segmentId}`}>
+                          <div className="flex items-center justify-between border rounded-lg p-3 cursor-pointer hover:bg-accent">
+                            <span className="font-medium">{effort.segmentName}</span>
+                            <span className="text-sm text-muted-foreground">
+                              {Math.floor(effort.elapsedTime / 60)}:{(effort.elapsedTime % 60).toString().padStart(2, '0')} · {Number(effort.avgSpeed).toFixed(1)} km/h
+                            </span>
+                          </div>
+                        </Link>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">This drive doesn't pass through any segments yet.</p>
+                  )}
+                </div>
+              )}
+
               {/* Pitstops Section */}
               {selectedDriveLogPitstops && Array.isArray(selectedDriveLogPitstops) && selectedDriveLogPitstops.length > 0 && (
                 <div className="space-y-4">
@@ -1766,6 +1993,25 @@ export default function DriveLogs() {
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline">
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/drive-logs/${selectedDriveLog.id}/export?format=gpx`} download>GPX</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/drive-logs/${selectedDriveLog.id}/export?format=kml`} download>KML</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/drive-logs/${selectedDriveLog.id}/export?format=geojson`} download>GeoJSON</a>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button
                   variant="outline"
                   onClick={() => setShowDetailDialog(false)}
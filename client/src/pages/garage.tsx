@@ -4,6 +4,9 @@ import { useAuth } from "@/hooks/useAuth";
 import Sidebar from "@/components/layout/sidebar";
 import MobileNav from "@/components/layout/mobile-nav";
 import VehicleCard from "@/components/garage/vehicle-card";
+import MaintenanceDueCard from "@/components/garage/maintenance-due-card";
+import DocumentExpiryCard from "@/components/garage/document-expiry-card";
+import IncomingTransfersCard from "@/components/garage/incoming-transfers-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,8 +17,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { fetchAllPages } from "@/lib/pagination";
 import { Car, Plus, Upload, Zap, Trophy, Star, X, ImageIcon, Loader2, Wand2 } from "lucide-react";
-import { insertVehicleSchema } from "@shared/schema";
+import { insertVehicleSchema, VEHICLE_CLASSES, type Vehicle, type VinDecodeResult } from "@shared/schema";
 import { z } from "zod";
 
 const vehicleFormSchema = insertVehicleSchema.extend({
@@ -47,13 +51,17 @@ export default function Garage() {
     horsepower: undefined,
     transmission: "",
     fuelType: "",
+    vehicleClass: "car",
+    odometer: "",
+    vin: "",
     description: "",
     isPublic: true,
   });
 
   // Fetch user vehicles
   const { data: vehicles = [], isLoading: vehiclesLoading } = useQuery({
-    queryKey: ["/api/vehicles"],
+    queryKey: ["/api/vehicles", "all"],
+    queryFn: () => fetchAllPages<Vehicle>("/api/vehicles"),
     enabled: !!user,
   });
 
@@ -128,6 +136,7 @@ export default function Garage() {
       setIsAddDialogOpen(false);
       resetForm();
       queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance/due"] });
     },
     onError: (error: any) => {
       toast({
@@ -168,6 +177,42 @@ export default function Garage() {
     },
   });
 
+  // VIN decoding runs on the server from bundled tables, so it doesn't need the AI key
+  const decodeVinMutation = useMutation({
+    mutationFn: async (vin: string) => {
+      const response = await fetch(`/api/vehicles/vin/${encodeURIComponent(vin)}`, { credentials: "include" });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.details || body.message);
+      }
+      return body as VinDecodeResult;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: data.model ? "VIN decoded" : "VIN partly decoded",
+        description: data.warnings.length > 0
+          ? data.warnings.join(" ")
+          : "Vehicle details have been filled in from the VIN.",
+      });
+      setFormData(prev => ({
+        ...prev,
+        vin: data.vin,
+        make: data.make || prev.make,
+        model: data.model || prev.model,
+        year: data.year || prev.year,
+        engine: data.engine || prev.engine,
+        fuelType: data.fuelType || prev.fuelType,
+      }));
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't decode VIN",
+        description: error.message || "Please check the VIN and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const resetForm = () => {
     setFormData({
       make: "",
@@ -178,6 +223,9 @@ export default function Garage() {
       horsepower: undefined,
       transmission: "",
       fuelType: "",
+      vehicleClass: "car",
+      odometer: "",
+      vin: "",
       description: "",
       isPublic: true,
     });
@@ -195,6 +243,9 @@ export default function Garage() {
       horsepower: vehicle.horsepower || undefined,
       transmission: vehicle.transmission || "",
       fuelType: vehicle.fuelType || "",
+      vehicleClass: vehicle.vehicleClass || "car",
+      odometer: vehicle.odometer || "",
+      vin: vehicle.vin || "",
       description: vehicle.description || "",
       isPublic: vehicle.isPublic,
     });
@@ -475,6 +526,37 @@ export default function Garage() {
                       )}
                     </div>
 
+                    {/* VIN */}
+                    <div className="space-y-2">
+                      <Label htmlFor="vin">VIN</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="vin"
+                          value={formData.vin || ""}
+                          onChange={(e) => setFormData(prev => ({ ...prev, vin: e.target.value.toUpperCase() }))}
+                          placeholder="17-character vehicle identification number"
+                          maxLength={20}
+                          className="font-mono"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => formData.vin && decodeVinMutation.mutate(formData.vin)}
+                          disabled={!formData.vin || decodeVinMutation.isPending}
+                        >
+                          {decodeVinMutation.isPending ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <Wand2 className="w-4 h-4 mr-2" />
+                          )}
+                          Decode
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Fills in make, model and year, and the engine and fuel type where the VIN tells us.
+                      </p>
+                    </div>
+
                     {/* Basic Info */}
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       <div className="space-y-2">
@@ -585,6 +667,36 @@ export default function Garage() {
                           </SelectContent>
                         </Select>
                       </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="odometer">Odometer (km)</Label>
+                        <Input
+                          id="odometer"
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          value={formData.odometer || ""}
+                          onChange={(e) => setFormData(prev => ({ ...prev, odometer: e.target.value }))}
+                          placeholder="Current reading"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="vehicleClass">Class</Label>
+                        <Select
+                          value={formData.vehicleClass || "car"}
+                          onValueChange={(value) => setFormData(prev => ({ ...prev, vehicleClass: value }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select class" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {VEHICLE_CLASSES.map((option) => (
+                              <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                     </div>
 
                     {/* Description */}
@@ -677,8 +789,8 @@ export default function Garage() {
                       <Trophy className="w-6 h-6 text-yellow-500" />
                     </div>
                     <div>
-                      <p className="text-2xl font-bold">{user.garageRating || "4.8"}⭐</p>
-                      <p className="text-muted-foreground">Garage Rating</p>
+                      <p className="text-2xl font-bold">{user.garageRating || 0}⭐</p>
+                      <p className="text-muted-foreground">Garage Votes</p>
                     </div>
                   </div>
                 </CardContent>
@@ -699,6 +811,10 @@ export default function Garage() {
               </Card>
             </div>
 
+            <IncomingTransfersCard />
+            <MaintenanceDueCard />
+            <DocumentExpiryCard />
+
             {/* Vehicles Grid */}
             <div className="mb-8">
               <h2 className="text-2xl font-bold mb-6">Your Vehicles</h2>
@@ -791,14 +907,18 @@ export default function Garage() {
                     {userLoading ? (
                       <Skeleton className="h-6 w-12 inline-block" />
                     ) : (
-                      `${user?.garageRating || "4.8"}⭐`
+                      `${user?.garageRating || 0}⭐`
                     )}
                   </div>
-                  <p className="text-xs text-muted-foreground">Rating</p>
+                  <p className="text-xs text-muted-foreground">Votes</p>
                 </CardContent>
               </Card>
             </div>
 
+            <IncomingTransfersCard />
+            <MaintenanceDueCard />
+            <DocumentExpiryCard />
+
             {/* Mobile Vehicles */}
             {vehiclesLoading ? (
               <div className="space-y-4">
@@ -1,34 +1,61 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { fetchPage } from "@/lib/pagination";
 import { Helmet } from "react-helmet-async";
 import Sidebar from "@/components/layout/sidebar";
 import MobileNav from "@/components/layout/mobile-nav";
 import CreatePost from "@/components/post/create-post";
 import FeedPost from "@/components/post/feed-post";
 import AIBlogPost from "@/components/post/ai-blog-post";
+import FollowingFeed from "@/components/post/following-feed";
+import SeenTracker from "@/components/post/seen-tracker";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { Car, Users, Trophy, MapPin, AlertTriangle, Info, CloudRain, Share2, Copy } from "lucide-react";
+import type { Convoy, CursorPage, Post } from "@shared/schema";
+
+const FEED_PAGE_SIZE = 20;
 
 export default function Home() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [feedMode, setFeedMode] = useState<"everyone" | "following">("everyone");
+
+  // Posts seen before the feed was opened are hidden; ones seen since stay put when the feed refetches
+  const [seenBefore] = useState(() => new Date().toISOString());
 
-  // Fetch feed posts
-  const { data: posts = [], isLoading: postsLoading } = useQuery({
+  // Fetch the ranked feed, a page at a time
+  const {
+    data: feed,
+    isLoading: postsLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: ["/api/posts/feed"],
+    queryFn: ({ pageParam }) =>
+      fetchPage<Post>("/api/posts/feed", pageParam
+        ? { limit: FEED_PAGE_SIZE, cursor: pageParam }
+        : { limit: FEED_PAGE_SIZE, seenBefore }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!user,
   });
 
+  const posts = feed?.pages.flatMap(page => page.items) || [];
+
 
 
   // Fetch upcoming convoys
-  const { data: upcomingConvoys = [], isLoading: convoysLoading } = useQuery({
+  const { data: upcomingPage, isLoading: convoysLoading } = useQuery<CursorPage<Convoy>>({
     queryKey: ["/api/convoys/upcoming?limit=5"],
     enabled: !!user,
   });
+  const upcomingConvoys = upcomingPage?.items || [];
 
   // Fetch weather alerts
   const { data: weatherAlerts = [], isLoading: alertsLoading } = useQuery({
@@ -171,7 +198,7 @@ export default function Home() {
                 <CardContent className="p-4">
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-muted-foreground text-sm">Garage Rating</p>
+                      <p className="text-muted-foreground text-sm">Garage Votes</p>
                       <p className="text-2xl font-bold text-yellow-500">{(userStats as any)?.garageRating || 0}⭐</p>
                     </div>
                     <Trophy className="w-8 h-8 text-yellow-500/50" />
@@ -199,8 +226,17 @@ export default function Home() {
                 {/* Create Post */}
                 <CreatePost />
 
+                <Tabs value={feedMode} onValueChange={(value) => setFeedMode(value as "everyone" | "following")}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="everyone">Everyone</TabsTrigger>
+                    <TabsTrigger value="following">Following</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
                 {/* Posts Feed */}
-                {postsLoading ? (
+                {feedMode === "following" ? (
+                  <FollowingFeed />
+                ) : postsLoading ? (
                   <div className="space-y-6">
                     {[...Array(3)].map((_, i) => (
                       <Card key={i} className="automotive-card">
@@ -219,15 +255,19 @@ export default function Home() {
                       </Card>
                     ))}
                   </div>
-                ) : posts && Array.isArray(posts) && posts.length > 0 ? (
+                ) : posts.length > 0 ? (
                   <div className="space-y-6">
-                    {posts.map((post: any) => {
-                      // Show AI blog posts only if they are actually AI generated
-                      if (post.isAiGenerated) {
-                        return <AIBlogPost key={post.id} post={post} />;
-                      }
-                      return <FeedPost key={post.id} post={post} />;
-                    })}
+                    {posts.map((post: any) => (
+                      <SeenTracker key={post.id} postId={post.id}>
+                        {/* Show AI blog posts only if they are actually AI generated */}
+                        {post.isAiGenerated ? <AIBlogPost post={post} /> : <FeedPost post={post} />}
+                      </SeenTracker>
+                    ))}
+                    {hasNextPage && (
+                      <Button variant="outline" className="w-full" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                        {isFetchingNextPage ? "Loading..." : "Load more"}
+                      </Button>
+                    )}
                   </div>
                 ) : (
                   <Card className="automotive-card text-center py-12">
@@ -447,7 +487,15 @@ export default function Home() {
             {/* Mobile Feed */}
             <div className="space-y-6">
               <CreatePost />
-              {postsLoading ? (
+              <Tabs value={feedMode} onValueChange={(value) => setFeedMode(value as "everyone" | "following")}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="everyone">Everyone</TabsTrigger>
+                  <TabsTrigger value="following">Following</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {feedMode === "following" ? (
+                <FollowingFeed />
+              ) : postsLoading ? (
                 <div className="space-y-6">
                   {[...Array(2)].map((_, i) => (
                     <Card key={i} className="automotive-card">
@@ -467,12 +515,16 @@ export default function Home() {
                 </div>
               ) : (
                 <div className="space-y-6">
-                  {(posts as any)?.slice(0, 5).map((post: any, index: number) => {
-                    if (index === 0) {
-                      return <AIBlogPost key={post.id} post={post} />;
-                    }
-                    return <FeedPost key={post.id} post={post} />;
-                  })}
+                  {posts.map((post: any, index: number) => (
+                    <SeenTracker key={post.id} postId={post.id}>
+                      {index === 0 ? <AIBlogPost post={post} /> : <FeedPost post={post} />}
+                    </SeenTracker>
+                  ))}
+                  {hasNextPage && (
+                    <Button variant="outline" className="w-full" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  )}
                 </div>
               )}
             </div>
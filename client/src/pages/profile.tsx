@@ -1,5 +1,5 @@
 import { useAuth } from "@/hooks/useAuth";
-import { useQuery } from "@tanstack/react-query";
+import { useCursorQuery } from "@/hooks/use-cursor-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import Sidebar from "@/components/layout/sidebar";
 import MobileNav from "@/components/layout/mobile-nav";
 import FeedPost from "@/components/post/feed-post";
+import PrivacyZonesCard from "@/components/profile/privacy-zones-card";
+import FollowListsCard from "@/components/profile/follow-lists-card";
+import type { User as Account, Convoy, Post, Vehicle } from "@shared/schema";
 import { Link, useLocation } from "wouter";
 import { 
   User, 
@@ -28,21 +31,26 @@ export default function Profile() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
 
-  const { data: vehicles, isLoading: vehiclesLoading } = useQuery({
-    queryKey: ['/api/vehicles'],
-  });
+  const vehicleList = useCursorQuery<Vehicle>('/api/vehicles');
+  const convoyList = useCursorQuery<Convoy>('/api/convoys/user');
+  const postList = useCursorQuery<Post>('/api/posts/user');
+  const savedList = useCursorQuery<Post>('/api/posts/saved');
 
-  const { data: userConvoys, isLoading: convoysLoading } = useQuery({
-    queryKey: ['/api/convoys/user'],
-  });
+  const { items: vehicles, isLoading: vehiclesLoading } = vehicleList;
+  const { items: userConvoys, isLoading: convoysLoading } = convoyList;
+  const { items: userPosts, isLoading: postsLoading } = postList;
+  const { items: savedPosts, isLoading: savedPostsLoading } = savedList;
 
-  const { data: userPosts, isLoading: postsLoading } = useQuery({
-    queryKey: ['/api/posts/user'],
-  });
+  // Lists arrive a page at a time, so a count is only exact once the last page is in
+  const countOf = (list: { items: unknown[]; hasNextPage: boolean }) =>
+    `${list.items.length}${list.hasNextPage ? "+" : ""}`;
 
-  const { data: savedPosts, isLoading: savedPostsLoading } = useQuery({
-    queryKey: ['/api/posts/saved'],
-  });
+  const loadMore = (list: { hasNextPage: boolean; isFetchingNextPage: boolean; fetchNextPage: () => unknown }) =>
+    list.hasNextPage && (
+      <Button variant="outline" className="w-full col-span-full" onClick={() => list.fetchNextPage()} disabled={list.isFetchingNextPage}>
+        {list.isFetchingNextPage ? "Loading..." : "Load more"}
+      </Button>
+    );
 
   if (!user) {
     return (
@@ -54,6 +62,8 @@ export default function Profile() {
     );
   }
 
+  const account = user as Account;
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -128,7 +138,7 @@ export default function Profile() {
                   <Skeleton className="h-5 w-8 rounded" />
                 ) : (
                   <Badge variant="secondary">
-                    {(vehicles as any[])?.length || 0}
+                    {countOf(vehicleList)}
                   </Badge>
                 )}
               </div>
@@ -142,7 +152,7 @@ export default function Profile() {
                   <Skeleton className="h-5 w-8 rounded" />
                 ) : (
                   <Badge variant="secondary">
-                    {(userConvoys as any[])?.length || 0}
+                    {countOf(convoyList)}
                   </Badge>
                 )}
               </div>
@@ -163,13 +173,19 @@ export default function Profile() {
                       setLocation('/profile/posts');
                     }}
                   >
-                    {(userPosts as any[])?.length || 0}
+                    {countOf(postList)}
                   </Badge>
                 )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Privacy Zones */}
+          <PrivacyZonesCard />
+
+          {/* Followers and Following */}
+          <FollowListsCard userId={account.id} followers={account.followers} following={account.following} />
+
           {/* Recent Activity */}
           <Card>
             <CardHeader>
@@ -194,7 +210,7 @@ export default function Profile() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {vehicles && vehicles.length > 0 ? (
+              {vehicles.length > 0 ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {vehicles.map((vehicle: any) => (
                     <div key={vehicle.id} className="border rounded-lg p-4">
@@ -225,6 +241,7 @@ export default function Profile() {
                       </div>
                     </div>
                   ))}
+                  {loadMore(vehicleList)}
                 </div>
               ) : (
                 <div className="text-center py-8">
@@ -256,7 +273,7 @@ export default function Profile() {
                     My Posts ({postsLoading ? (
                       <Skeleton className="h-3 w-4 inline-block ml-1" />
                     ) : (
-                      Array.isArray(userPosts) ? userPosts.length : 0
+                      countOf(postList)
                     )})
                   </TabsTrigger>
                   <TabsTrigger value="saved" className="flex items-center gap-2">
@@ -264,7 +281,7 @@ export default function Profile() {
                     Saved ({savedPostsLoading ? (
                       <Skeleton className="h-3 w-4 inline-block ml-1" />
                     ) : (
-                      Array.isArray(savedPosts) ? savedPosts.length : 0
+                      countOf(savedList)
                     )})
                   </TabsTrigger>
                 </TabsList>
@@ -288,11 +305,12 @@ export default function Profile() {
                         </Card>
                       ))}
                     </div>
-                  ) : Array.isArray(userPosts) && userPosts.length > 0 ? (
+                  ) : userPosts.length > 0 ? (
                     <div className="space-y-4">
                       {userPosts.map((post: any) => (
                         <FeedPost key={post.id} post={post} />
                       ))}
+                      {loadMore(postList)}
                     </div>
                   ) : (
                     <div className="text-center py-8">
@@ -307,11 +325,12 @@ export default function Profile() {
                   )}
                 </TabsContent>
                 <TabsContent value="saved" className="space-y-4">
-                  {Array.isArray(savedPosts) && savedPosts.length > 0 ? (
+                  {savedPosts.length > 0 ? (
                     <div className="space-y-4">
                       {savedPosts.map((post: any) => (
                         <FeedPost key={post.id} post={post} />
                       ))}
+                      {loadMore(savedList)}
                     </div>
                   ) : (
                     <div className="text-center py-8">
@@ -338,7 +357,7 @@ export default function Profile() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {Array.isArray(userConvoys) && userConvoys.length > 0 ? (
+              {userConvoys.length > 0 ? (
                 <div className="space-y-4">
                   {userConvoys.map((convoy: any) => (
                     <div 
@@ -364,6 +383,7 @@ export default function Profile() {
                       </div>
                     </div>
                   ))}
+                  {loadMore(convoyList)}
                 </div>
               ) : (
                 <div className="text-center py-8">
@@ -433,7 +453,7 @@ export default function Profile() {
           <Card>
             <CardContent className="p-4 text-center">
               <Car className="h-8 w-8 mx-auto text-primary mb-2" />
-              <div className="text-2xl font-bold">{vehicles?.length || 0}</div>
+              <div className="text-2xl font-bold">{countOf(vehicleList)}</div>
               <div className="text-sm text-muted-foreground">Vehicles</div>
             </CardContent>
           </Card>
@@ -441,7 +461,7 @@ export default function Profile() {
           <Card>
             <CardContent className="p-4 text-center">
               <Users className="h-8 w-8 mx-auto text-secondary mb-2" />
-              <div className="text-2xl font-bold">{userConvoys?.length || 0}</div>
+              <div className="text-2xl font-bold">{countOf(convoyList)}</div>
               <div className="text-sm text-muted-foreground">Convoys</div>
             </CardContent>
           </Card>
@@ -449,7 +469,7 @@ export default function Profile() {
           <Card>
             <CardContent className="p-4 text-center">
               <Activity className="h-8 w-8 mx-auto text-accent mb-2" />
-              <div className="text-2xl font-bold">{userPosts?.length || 0}</div>
+              <div className="text-2xl font-bold">{countOf(postList)}</div>
               <div className="text-sm text-muted-foreground">Posts</div>
             </CardContent>
           </Card>
@@ -472,7 +492,7 @@ export default function Profile() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {vehicles && vehicles.length > 0 ? (
+            {vehicles.length > 0 ? (
               <div className="space-y-4">
                 {vehicles.map((vehicle: any) => (
                   <div key={vehicle.id} className="border rounded-lg p-4">
@@ -489,6 +509,7 @@ export default function Profile() {
                     </div>
                   </div>
                 ))}
+                {loadMore(vehicleList)}
               </div>
             ) : (
               <div className="text-center py-8">
@@ -511,7 +532,7 @@ export default function Profile() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {userConvoys && userConvoys.length > 0 ? (
+            {userConvoys.length > 0 ? (
               <div className="space-y-4">
                 {userConvoys.map((convoy: any) => (
                   <div key={convoy.id} className="border rounded-lg p-4">
@@ -527,12 +548,13 @@ export default function Profile() {
                           {formatDate(convoy.startDateTime)}
                         </div>
                       </div>
-                      <Badge variant={convoy.status === 'upcoming' ? 'default' : 'outline'}>
+                      <Badge variant={convoy.status === 'open' ? 'default' : 'outline'}>
                         {convoy.status}
                       </Badge>
                     </div>
                   </div>
                 ))}
+                {loadMore(convoyList)}
               </div>
             ) : (
               <div className="text-center py-8">
@@ -4,9 +4,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { MapPin, Calendar, Car, Route, Clock, Share2, ExternalLink, ChevronDown, ChevronRight, Heart } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { MapPin, Calendar, Car, Route, Clock, Share2, ExternalLink, ChevronDown, ChevronRight, Heart, Download, Mountain } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Helmet } from "react-helmet-async";
+import RouteMap from "@/components/drive-log/route-map";
+import ElevationProfileChart from "@/components/drive-log/elevation-profile-chart";
+import type { ElevationProfilePoint, SimplifiedRoute } from "@shared/schema";
 
 interface PublicDriveLog {
   id: number;
@@ -19,6 +23,15 @@ interface PublicDriveLog {
   startTime: string;
   endTime?: string;
   titleImageUrl?: string;
+  simplifiedRoute?: SimplifiedRoute | null;
+  totalAscent?: string | null;
+  totalDescent?: string | null;
+  maxElevation?: string | null;
+  minElevation?: string | null;
+  elevationProfile?: ElevationProfilePoint[] | null;
+  twistinessScore?: number | null;
+  bendCount?: number | null;
+  curvyDistancePercent?: string | null;
   vehicle?: {
     make: string;
     model: string;
@@ -259,6 +272,25 @@ export default function PublicDriveLog() {
                 <Share2 className="h-4 w-4 mr-2" />
                 Share
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="md:h-10">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem asChild>
+                    <a href={`/api/public/drive-logs/${driveLog.id}/export?format=gpx`} download>GPX</a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href={`/api/public/drive-logs/${driveLog.id}/export?format=kml`} download>KML</a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href={`/api/public/drive-logs/${driveLog.id}/export?format=geojson`} download>GeoJSON</a>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button onClick={() => window.location.href = '/'} size="sm" className="md:h-10">
                 <ExternalLink className="h-4 w-4 mr-2" />
                 Visit TorqueTrail
@@ -307,6 +339,15 @@ export default function PublicDriveLog() {
                   <span className="font-medium flex-shrink-0">Date:</span>
                   <span className="break-words">{formatDate(driveLog.startTime)}</span>
                 </div>
+                {driveLog.twistinessScore !== null && driveLog.twistinessScore !== undefined && (
+                  <div className="flex items-start gap-2 min-w-0">
+                    <Route className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+                    <span className="font-medium flex-shrink-0">Twistiness:</span>
+                    <span className="break-words">
+                      {driveLog.twistinessScore}/100 · {driveLog.bendCount ?? 0} bends · {driveLog.curvyDistancePercent ?? 0}% in curves
+                    </span>
+                  </div>
+                )}
                 {driveLog.route && (
                   <div className="flex items-start gap-2 min-w-0">
                     <Route className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
@@ -332,6 +373,42 @@ export default function PublicDriveLog() {
             </CardContent>
           </Card>
 
+          {/* Route Map */}
+          {driveLog.simplifiedRoute && driveLog.simplifiedRoute.overview.length > 1 && (
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Route className="h-5 w-5" />
+                  Route Map
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RouteMap route={driveLog.simplifiedRoute} pitstops={driveLog.pitstops} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Elevation Profile */}
+          {driveLog.elevationProfile && driveLog.elevationProfile.length > 1 && (
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Mountain className="h-5 w-5" />
+                  Elevation
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ElevationProfileChart
+                  profile={driveLog.elevationProfile}
+                  totalAscent={driveLog.totalAscent}
+                  totalDescent={driveLog.totalDescent}
+                  maxElevation={driveLog.maxElevation}
+                  minElevation={driveLog.minElevation}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Description */}
           {driveLog.description && (
             <Card className="mb-8">
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useLocation, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import Sidebar from "@/components/layout/sidebar";
+import MobileNav from "@/components/layout/mobile-nav";
+import { ArrowLeft, Medal, Timer, Trophy } from "lucide-react";
+import type { Segment, SegmentEffort } from "@shared/schema";
+
+type SegmentWithClasses = Segment & { vehicleClasses: string[] };
+
+interface LeaderboardEntry {
+  rank: number;
+  effort: SegmentEffort;
+  user: { id: string; firstName: string | null; lastName: string | null; profileImageUrl: string | null };
+  vehicle: { make: string; model: string; year: number } | null;
+}
+
+function formatElapsed(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const padded = `${minutes.toString().padStart(hours > 0 ? 2 : 1, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${padded}` : padded;
+}
+
+export default function SegmentDetail() {
+  const [, params] = useRoute("/segments/:id");
+  const [, setLocation] = useLocation();
+  const segmentId = params?.id ? parseInt(params.id) : 0;
+  const [vehicleClass, setVehicleClass] = useState("all");
+
+  const { data: segment, isLoading } = useQuery<SegmentWithClasses>({
+    queryKey: [`/api/segments/${segmentId}`],
+    enabled: !!segmentId,
+  });
+
+  const { data: leaderboard = [], isLoading: leaderboardLoading } = useQuery<LeaderboardEntry[]>({
+    queryKey: [`/api/segments/${segmentId}/leaderboard`, vehicleClass],
+    queryFn: async () => {
+      const params = vehicleClass === "all" ? "" : `?vehicleClass=${encodeURIComponent(vehicleClass)}`;
+      const response = await fetch(`/api/segments/${segmentId}/leaderboard${params}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled: !!segmentId,
+  });
+
+  const { data: myEfforts = [] } = useQuery<SegmentEffort[]>({
+    queryKey: [`/api/segments/${segmentId}/efforts/me`],
+    enabled: !!segmentId,
+  });
+
+  // An effort is a personal record if it beat every earlier one
+  let bestSoFar = Infinity;
+  const effortHistory = myEfforts.map(effort => {
+    const isRecord = effort.elapsedTime < bestSoFar;
+    bestSoFar = Math.min(bestSoFar, effort.elapsedTime);
+    return { effort, isRecord };
+  }).reverse();
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <div className="hidden lg:block">
+        <Sidebar />
+      </div>
+      <div className="flex-1 flex flex-col overflow-hidden lg:pl-64">
+        <div className="lg:hidden">
+          <MobileNav />
+        </div>
+        <div className="flex-1 overflow-auto">
+          <div className="container mx-auto px-4 py-8 space-y-6">
+            <Button variant="ghost" onClick={() => setLocation("/segments")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Segments
+            </Button>
+
+            {isLoading ? (
+              <div className="text-muted-foreground">Loading segment...</div>
+            ) : !segment ? (
+              <div className="text-muted-foreground">Segment not found</div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <h1 className="text-3xl font-bold">{segment.name}</h1>
+                  {segment.description && (
+                    <p className="text-muted-foreground">{segment.description}</p>
+                  )}
+                  <Badge variant="outline">{Number(segment.distance).toFixed(2)} km</Badge>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <div className="flex items-center justify-between gap-4">
+                        <CardTitle className="flex items-center gap-2">
+                          <Trophy className="h-5 w-5" />
+                          Leaderboard
+                        </CardTitle>
+                        <select
+                          value={vehicleClass}
+                          onChange={(e) => setVehicleClass(e.target.value)}
+                          className="p-2 border border-input rounded-md bg-background text-sm"
+                        >
+                          <option value="all">All vehicles</option>
+                          {segment.vehicleClasses.map((option) => (
+                            <option key={option} value={option} className="capitalize">{option}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      {leaderboardLoading ? (
+                        <div className="text-sm text-muted-foreground">Loading leaderboard...</div>
+                      ) : leaderboard.length > 0 ? (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-12">#</TableHead>
+                              <TableHead>Driver</TableHead>
+                              <TableHead>Vehicle</TableHead>
+                              <TableHead className="text-right">Avg Speed</TableHead>
+                              <TableHead className="text-right">Time</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {leaderboard.map((entry) => (
+                              <TableRow key={entry.effort.id}>
+                                <TableCell className="font-medium">
+                                  {entry.rank <= 3 ? <Medal className="h-4 w-4 text-yellow-500" /> : entry.rank}
+                                </TableCell>
+                                <TableCell>
+                                  {[entry.user.firstName, entry.user.lastName].filter(Boolean).join(' ') || 'Driver'}
+                                </TableCell>
+                                <TableCell className="text-muted-foreground">
+                                  {entry.vehicle
+                                    ? `${entry.vehicle.year} ${entry.vehicle.make} ${entry.vehicle.model}`
+                                    : <span className="capitalize">{entry.effort.vehicleClass}</span>}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {Number(entry.effort.avgSpeed).toFixed(1)} km/h
+                                </TableCell>
+                                <TableCell className="text-right font-mono">
+                                  {formatElapsed(entry.effort.elapsedTime)}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      ) : (
+                        <div className="text-sm text-muted-foreground">
+                          No public efforts on this segment yet
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Timer className="h-5 w-5" />
+                        Your Efforts
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {effortHistory.length > 0 ? (
+                        <div className="space-y-2">
+                          {effortHistory.map(({ effort, isRecord }) => (
+                            <div key={effort.id} className="flex items-center justify-between border rounded-lg p-3">
+                              <div>
+                                <div className="font-mono font-medium">{formatElapsed(effort.elapsedTime)}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {new Date(effort.startTime).toLocaleDateString()}
+                                </div>
+                              </div>
+                              {isRecord && (
+                                <Badge className="bg-yellow-500/20 text-yellow-500 border-yellow-500/30">PR</Badge>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="text-sm text-muted-foreground">
+                          You haven't driven this segment yet
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
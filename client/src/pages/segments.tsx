@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import Sidebar from "@/components/layout/sidebar";
+import MobileNav from "@/components/layout/mobile-nav";
+import { Flag, Search, Trophy } from "lucide-react";
+import type { Segment } from "@shared/schema";
+
+type SegmentListItem = Segment & { effortCount: number };
+
+export default function Segments() {
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const { data: segments = [], isLoading } = useQuery<SegmentListItem[]>({
+    queryKey: ['/api/segments'],
+  });
+
+  const filteredSegments = segments.filter(segment =>
+    segment.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    segment.description?.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <div className="hidden lg:block">
+        <Sidebar />
+      </div>
+      <div className="flex-1 flex flex-col overflow-hidden lg:pl-64">
+        <div className="lg:hidden">
+          <MobileNav />
+        </div>
+        <div className="flex-1 overflow-auto">
+          <div className="container mx-auto px-4 py-8 space-y-6">
+            {/* Header */}
+            <div>
+              <h1 className="text-3xl font-bold flex items-center gap-2">
+                <Trophy className="h-7 w-7" />
+                Segments
+              </h1>
+              <p className="text-muted-foreground">
+                Timed stretches of road. Create one from any of your drive logs and every drive through it is ranked.
+              </p>
+            </div>
+
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search segments..."
+                className="pl-9"
+              />
+            </div>
+
+            {isLoading ? (
+              <div className="text-muted-foreground">Loading segments...</div>
+            ) : filteredSegments.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {filteredSegments.map((segment) => (
+                  <Link key={segment.id} href={`/segments/${segment.id}`}>
+                    <Card className="automotive-card-interactive cursor-pointer h-full">
+                      <CardContent className="p-6 space-y-3">
+                        <div className="flex items-start justify-between gap-2">
+                          <h3 className="font-semibold text-lg">{segment.name}</h3>
+                          <Badge variant="outline">{Number(segment.distance).toFixed(2)} km</Badge>
+                        </div>
+                        {segment.description && (
+                          <p className="text-sm text-muted-foreground line-clamp-2">{segment.description}</p>
+                        )}
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Flag className="h-4 w-4" />
+                          {segment.effortCount} {segment.effortCount === 1 ? 'effort' : 'efforts'}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="p-12 text-center text-muted-foreground">
+                  {segments.length === 0
+                    ? "No segments yet. Open one of your drive logs and pick a stretch of road to create the first."
+                    : "No segments match your search"}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
-import { useInfiniteQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useCursorQuery } from "@/hooks/use-cursor-query";
 import { apiRequest } from "@/lib/queryClient";
 import Sidebar from "@/components/layout/sidebar";
 import MobileNav from "@/components/layout/mobile-nav";
@@ -9,36 +9,20 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ArrowLeft, FileText } from "lucide-react";
 import { useLocation } from "wouter";
+import type { Post } from "@shared/schema";
 
 export default function UserPosts() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
 
   const {
-    data,
+    items: allPosts,
     fetchNextPage,
     hasNextPage,
     isFetchingNextPage,
     isLoading,
     error,
-  } = useInfiniteQuery({
-    queryKey: ['/api/posts/user'],
-    queryFn: async ({ pageParam = 0 }) => {
-      const response = await fetch(`/api/posts/user?limit=10&offset=${pageParam}`, {
-        credentials: 'include',
-      });
-      if (!response.ok) {
-        throw new Error('Failed to fetch posts');
-      }
-      return response.json();
-    },
-    initialPageParam: 0,
-    getNextPageParam: (lastPage: any[], pages) => {
-      if (lastPage.length < 10) return undefined;
-      return pages.length * 10;
-    },
-    enabled: !!user,
-  });
+  } = useCursorQuery<Post>('/api/posts/user', { limit: 10, enabled: !!user });
 
   // Load more posts when user scrolls near bottom
   useEffect(() => {
@@ -57,8 +41,6 @@ export default function UserPosts() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  const allPosts = data?.pages.flatMap(page => page) || [];
-
   if (!user) {
     return (
       <div className="flex h-screen overflow-hidden">
@@ -0,0 +1,125 @@
+import {
+  users,
+  convoys,
+  driveLogs,
+  convoyParticipants,
+  garageVotes,
+  userFollows,
+} from "@shared/schema";
+import { db } from "./db";
+import { eq, sql, inArray, type SQL } from "drizzle-orm";
+
+// Cached counters on users and convoys. Every write that can move one recomputes it from its source
+// rows inside the same transaction. Under READ COMMITTED that alone isn't enough: the recompute's count
+// can't see source rows another transaction committed after the statement began, so two concurrent writes
+// could each count only their own. Writers therefore lock the owning users or convoy row (lockUsers,
+// or lockConvoy in storage) before touching any source rows, and the later writer counts after the first
+// has committed
+export type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Outer-row references for the correlated subqueries below. Drizzle leaves column names unqualified in
+// single-table selects, where a bare "id" would bind to the subquery's own table instead
+const outerUserId = sql`${users}.${sql.identifier(users.id.name)}`;
+const outerConvoyId = sql`${convoys}.${sql.identifier(convoys.id.name)}`;
+
+// users.totalMiles holds kilometres, like drive log distances, despite its name
+const USER_AGGREGATES = {
+  totalMiles: sql<number>`(select coalesce(round(sum(${driveLogs.distance})), 0) from ${driveLogs} where ${driveLogs.userId} = ${outerUserId} and ${driveLogs.status} = 'completed')`,
+  totalConvoys: sql<number>`(select count(*) from ${convoyParticipants} where ${convoyParticipants.userId} = ${outerUserId} and ${convoyParticipants.status} = 'joined')`,
+  garageRating: sql<number>`(select count(*) from ${garageVotes} where ${garageVotes.garageOwnerId} = ${outerUserId})`,
+  followers: sql<number>`(select count(*) from ${userFollows} where ${userFollows.followingId} = ${outerUserId})`,
+  following: sql<number>`(select count(*) from ${userFollows} where ${userFollows.followerId} = ${outerUserId})`,
+} satisfies Record<string, SQL<number>>;
+
+const CONVOY_AGGREGATES = {
+  currentParticipants: sql<number>`(select count(*) from ${convoyParticipants} where ${convoyParticipants.convoyId} = ${outerConvoyId} and ${convoyParticipants.status} = 'joined')`,
+} satisfies Record<string, SQL<number>>;
+
+export type UserAggregate = keyof typeof USER_AGGREGATES;
+export type ConvoyAggregate = keyof typeof CONVOY_AGGREGATES;
+
+export interface AggregateDrift {
+  table: "users" | "convoys";
+  id: string;
+  column: string;
+  cached: number | null;
+  actual: number;
+}
+
+function pick<T extends Record<string, SQL<number>>>(aggregates: T, columns: (keyof T)[]): Partial<T> {
+  return Object.fromEntries(columns.map(column => [column, aggregates[column]])) as Partial<T>;
+}
+
+// Lock users whose counters the transaction is about to move. Call it before changing their source rows;
+// ids are locked in a fixed order so two transactions locking the same pair can't deadlock
+export async function lockUsers(executor: Executor, userIds: string[]): Promise<void> {
+  const ids = Array.from(new Set(userIds)).sort();
+  if (ids.length === 0) return;
+  await executor
+    .select({ id: users.id })
+    .from(users)
+    .where(inArray(users.id, ids))
+    .orderBy(users.id)
+    .for("update");
+}
+
+export async function refreshUserAggregates(executor: Executor, userIds: string[], columns: UserAggregate[]): Promise<void> {
+  if (userIds.length === 0 || columns.length === 0) return;
+  await executor
+    .update(users)
+    .set(pick(USER_AGGREGATES, columns))
+    .where(inArray(users.id, Array.from(new Set(userIds))));
+}
+
+export async function refreshConvoyAggregates(executor: Executor, convoyId: number): Promise<void> {
+  await executor
+    .update(convoys)
+    .set(CONVOY_AGGREGATES)
+    .where(eq(convoys.id, convoyId));
+}
+
+// Recompute every counter from its source tables, reporting the ones that were wrong.
+// With dryRun the drift is only reported, nothing is written
+export async function rebuildAggregates(options: { dryRun?: boolean } = {}): Promise<AggregateDrift[]> {
+  return await db.transaction(async (tx) => {
+    const drift: AggregateDrift[] = [];
+
+    const userRows = await tx
+      .select({
+        id: users.id,
+        cached: {
+          totalMiles: users.totalMiles,
+          totalConvoys: users.totalConvoys,
+          garageRating: users.garageRating,
+          followers: users.followers,
+          following: users.following,
+        },
+        actual: USER_AGGREGATES,
+      })
+      .from(users);
+    for (const row of userRows) {
+      for (const column of Object.keys(USER_AGGREGATES) as UserAggregate[]) {
+        const actual = Number(row.actual[column]);
+        if (row.cached[column] !== actual) {
+          drift.push({ table: "users", id: row.id, column, cached: row.cached[column], actual });
+        }
+      }
+    }
+
+    const convoyRows = await tx
+      .select({ id: convoys.id, cached: convoys.currentParticipants, actual: CONVOY_AGGREGATES.currentParticipants })
+      .from(convoys);
+    for (const row of convoyRows) {
+      const actual = Number(row.actual);
+      if (row.cached !== actual) {
+        drift.push({ table: "convoys", id: String(row.id), column: "currentParticipants", cached: row.cached, actual });
+      }
+    }
+
+    if (!options.dryRun && drift.length > 0) {
+      await tx.update(users).set(USER_AGGREGATES);
+      await tx.update(convoys).set(CONVOY_AGGREGATES);
+    }
+    return drift;
+  });
+}
@@ -0,0 +1,78 @@
+import {
+  MODIFICATION_CATEGORIES,
+  type BuildSheet,
+  type PerformanceRecord,
+  type Vehicle,
+  type VehicleModification,
+} from "@shared/schema";
+
+function toNumber(value: string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+function time(date: Date | string | null): number {
+  return date ? new Date(date).getTime() : 0;
+}
+
+function best(values: Array<number | null>, pick: (a: number, b: number) => number): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? present.reduce(pick) : null;
+}
+
+// Assemble a vehicle's build sheet; public sheets leave out what the owner paid
+export function buildBuildSheet(
+  vehicle: Vehicle,
+  modifications: VehicleModification[],
+  records: PerformanceRecord[],
+  options: { isPublic?: boolean } = {},
+): BuildSheet {
+  const installed = [...modifications].sort((a, b) => time(a.installedAt) - time(b.installedAt));
+  const visibleMods = options.isPublic
+    ? installed.map(mod => ({ ...mod, cost: null }))
+    : installed;
+
+  const categories: string[] = [...MODIFICATION_CATEGORIES];
+  const grouped = categories
+    .map(category => ({ category, items: visibleMods.filter(mod => mod.category === category) }))
+    .filter(group => group.items.length > 0);
+
+  const costs = new Map<string, number>();
+  if (!options.isPublic) {
+    for (const mod of installed) {
+      if (mod.cost !== null) costs.set(mod.currency, (costs.get(mod.currency) || 0) + Number(mod.cost));
+    }
+  }
+
+  const performance = [...records].sort((a, b) => time(a.recordedAt) - time(b.recordedAt));
+
+  // Dyno pulls over time, each with how many dated mods were fitted by then
+  const powerHistory = performance
+    .filter(record => record.horsepower !== null || record.torque !== null)
+    .map(record => ({
+      recordedAt: new Date(record.recordedAt).toISOString(),
+      horsepower: toNumber(record.horsepower),
+      torque: toNumber(record.torque),
+      modificationsInstalled: installed.filter(mod => mod.installedAt && time(mod.installedAt) <= time(record.recordedAt)).length,
+    }));
+
+  const dynoPower = powerHistory.map(point => point.horsepower).filter((hp): hp is number => hp !== null);
+  const baseline = vehicle.horsepower ?? (dynoPower.length > 1 ? dynoPower[0] : null);
+  const latestPower = dynoPower.length > 0 ? dynoPower[dynoPower.length - 1] : null;
+
+  return {
+    stock: { engine: vehicle.engine, horsepower: vehicle.horsepower, transmission: vehicle.transmission },
+    modifications: grouped,
+    modificationCount: installed.length,
+    totalCost: Array.from(costs, ([currency, total]) => ({ currency, total: Math.round(total * 100) / 100 })),
+    performance,
+    powerHistory,
+    best: {
+      horsepower: best(performance.map(record => toNumber(record.horsepower)), Math.max),
+      torque: best(performance.map(record => toNumber(record.torque)), Math.max),
+      zeroToHundred: best(performance.map(record => toNumber(record.zeroToHundred)), Math.min),
+      quarterMileTime: best(performance.map(record => toNumber(record.quarterMileTime)), Math.min),
+      quarterMileSpeed: best(performance.map(record => toNumber(record.quarterMileSpeed)), Math.max),
+    },
+    powerGain: baseline !== null && latestPower !== null ? Math.round((latestPower - baseline) * 10) / 10 : null,
+  };
+}
@@ -0,0 +1,23 @@
+// Folds the old location history of completed convoys into per-participant tracks.
+// Usage: npm run convoys:compact
+import { compactConvoyLocations } from "./convoy-retention";
+import { CONVOY_LOCATION_RETENTION_DAYS } from "./convoy-locations";
+import { pool } from "./db";
+
+async function main() {
+  const compacted = await compactConvoyLocations();
+
+  for (const entry of compacted) {
+    console.log(`convoy ${entry.convoyId}: ${entry.rowsCompacted} location rows into ${entry.participants} track${entry.participants === 1 ? "" : "s"}`);
+  }
+  if (compacted.length === 0) {
+    console.log(`No completed convoys with location history older than ${CONVOY_LOCATION_RETENTION_DAYS} days`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Error compacting convoy locations:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,70 @@
+import {
+  CONVOY_MANUAL_TRANSITIONS,
+  CONVOY_STATUS_TRANSITIONS,
+  isConvoyStatus,
+  type Convoy,
+  type ConvoyStatus,
+} from "@shared/schema";
+
+export const CHECK_IN_WINDOW_MINUTES = 60; // check-in opens this long before the start
+const DEFAULT_DURATION_MINUTES = 240; // when the organiser didn't estimate one
+const COMPLETION_GRACE_MINUTES = 120; // convoys rarely finish on time
+
+export type TransitionReason = "created" | "manual" | "capacity" | "schedule";
+
+export interface StatusStep {
+  to: ConvoyStatus;
+  reason: TransitionReason;
+}
+
+type LifecycleConvoy = Pick<Convoy, "status" | "startDateTime" | "estimatedDuration" | "currentParticipants" | "maxParticipants">;
+
+export function canTransition(from: string | null, to: ConvoyStatus): boolean {
+  return isConvoyStatus(from) && CONVOY_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function canTransitionManually(from: string | null, to: ConvoyStatus): boolean {
+  return isConvoyStatus(from) && CONVOY_MANUAL_TRANSITIONS[from].includes(to);
+}
+
+// No maximum means no limit
+export function isConvoyFull(convoy: Pick<Convoy, "currentParticipants" | "maxParticipants">): boolean {
+  return convoy.maxParticipants !== null && (convoy.currentParticipants ?? 0) >= convoy.maxParticipants;
+}
+
+function minutesFrom(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+// The next move a convoy is due to make by itself, or null when its status already fits its participant
+// count and the time. Callers apply one step at a time until there are none, so each makes the history
+export function nextAutomaticStatus(convoy: LifecycleConvoy, now = new Date()): StatusStep | null {
+  if (!isConvoyStatus(convoy.status)) return null;
+
+  const startAt = new Date(convoy.startDateTime);
+  const checkInAt = minutesFrom(startAt, -CHECK_IN_WINDOW_MINUTES);
+  const finishAt = minutesFrom(startAt, (convoy.estimatedDuration ?? DEFAULT_DURATION_MINUTES) + COMPLETION_GRACE_MINUTES);
+
+  switch (convoy.status) {
+    case "draft":
+      // Never published before it was due to start
+      return now >= startAt ? { to: "cancelled", reason: "schedule" } : null;
+    case "open":
+      if (now >= checkInAt) return { to: "checking_in", reason: "schedule" };
+      return isConvoyFull(convoy) ? { to: "full", reason: "capacity" } : null;
+    case "full":
+      if (now >= checkInAt) return { to: "checking_in", reason: "schedule" };
+      return isConvoyFull(convoy) ? null : { to: "open", reason: "capacity" };
+    case "checking_in":
+      return now >= startAt ? { to: "in_progress", reason: "schedule" } : null;
+    case "in_progress":
+      return now >= finishAt ? { to: "completed", reason: "schedule" } : null;
+    default:
+      return null;
+  }
+}
+
+// Convoys starting after this can't be due a scheduled move yet
+export function scheduleHorizon(now = new Date()): Date {
+  return minutesFrom(now, CHECK_IN_WINDOW_MINUTES);
+}
@@ -0,0 +1,109 @@
+import type { RoutePoint } from "@shared/schema";
+import { haversineDistance } from "./route-stats";
+import { simplifyTrack } from "./track-processing";
+
+// One position reported by a convoy participant
+export interface LocationFix {
+  convoyId: number;
+  userId: string;
+  latitude: number;
+  longitude: number;
+  recordedAt: Date;
+}
+
+export const LOCATION_MIN_INTERVAL_MS = 1000; // fixes closer together than this are dropped
+export const LOCATION_FLUSH_INTERVAL_MS = 3000; // how often positions are written and broadcast
+const HISTORY_MIN_INTERVAL_MS = 15_000;
+const HISTORY_MIN_DISTANCE_KM = 0.05; // a participant who hasn't moved this far adds nothing to the history
+const TRACK_TOLERANCE_METERS = 10;
+
+export const CONVOY_LOCATION_RETENTION_DAYS = 7;
+
+// Broadcasts cross instances as Postgres NOTIFY payloads, which must stay under 8000 bytes, so a big
+// convoy's positions go out in several locations messages. This leaves room for the envelope around them
+const LOCATIONS_BATCH_MAX_BYTES = 6000;
+
+function participantKey(convoyId: number, userId: string): string {
+  return `${convoyId}:${userId}`;
+}
+
+// Holds participants' positions between flushes. Each participant is limited to one fix per
+// LOCATION_MIN_INTERVAL_MS, fixes within a flush collapse to the latest, and only every so often does
+// one of them go into the stored history
+export class LocationBuffer {
+  private pending = new Map<string, LocationFix>();
+  private lastAccepted = new Map<string, number>();
+  private lastStored = new Map<string, LocationFix>();
+
+  // False when the fix came too soon after the participant's previous one and was dropped
+  offer(fix: LocationFix): boolean {
+    const key = participantKey(fix.convoyId, fix.userId);
+    const now = fix.recordedAt.getTime();
+    const previous = this.lastAccepted.get(key);
+    if (previous !== undefined && now - previous < LOCATION_MIN_INTERVAL_MS) return false;
+
+    this.lastAccepted.set(key, now);
+    this.pending.set(key, fix);
+    return true;
+  }
+
+  // Everyone's latest position since the last drain, and those of them due a row in the history
+  drain(): { latest: LocationFix[]; history: LocationFix[] } {
+    const latest = Array.from(this.pending.values());
+    this.pending.clear();
+
+    const history: LocationFix[] = [];
+    for (const fix of latest) {
+      const key = participantKey(fix.convoyId, fix.userId);
+      const stored = this.lastStored.get(key);
+      if (
+        stored &&
+        (fix.recordedAt.getTime() - stored.recordedAt.getTime() < HISTORY_MIN_INTERVAL_MS ||
+          haversineDistance(stored, fix) < HISTORY_MIN_DISTANCE_KM)
+      ) {
+        continue;
+      }
+      this.lastStored.set(key, fix);
+      history.push(fix);
+    }
+    return { latest, history };
+  }
+
+  forget(convoyId: number, userId: string) {
+    const key = participantKey(convoyId, userId);
+    this.pending.delete(key);
+    this.lastAccepted.delete(key);
+    this.lastStored.delete(key);
+  }
+}
+
+// Split a convoy's positions into batches whose JSON stays within LOCATIONS_BATCH_MAX_BYTES; an entry
+// that's too big by itself still gets a batch of its own
+export function batchLocations<T>(entries: T[], maxBytes = LOCATIONS_BATCH_MAX_BYTES): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let size = 0;
+  for (const entry of entries) {
+    const entrySize = Buffer.byteLength(JSON.stringify(entry)) + 1; // and the comma between entries
+    if (batch.length > 0 && size + entrySize > maxBytes) {
+      batches.push(batch);
+      batch = [];
+      size = 0;
+    }
+    batch.push(entry);
+    size += entrySize;
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+// A participant's stored history merged into the track they already have, in time order and simplified
+export function buildConvoyTrack(existing: RoutePoint[], fixes: Pick<LocationFix, "latitude" | "longitude" | "recordedAt">[]): RoutePoint[] {
+  const points = existing.concat(fixes.map(fix => ({
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    timestamp: fix.recordedAt.toISOString(),
+  })));
+  points.sort((a, b) => new Date(a.timestamp ?? 0).getTime() - new Date(b.timestamp ?? 0).getTime());
+  return simplifyTrack(points, TRACK_TOLERANCE_METERS);
+}
@@ -0,0 +1,170 @@
+// Two convoy socket servers sharing one database, as two instances would in production: what one
+// member sends must reach a member connected to the other instance through Postgres LISTEN/NOTIFY.
+// Needs DATABASE_URL pointing at a database with the schema pushed; skipped without one.
+// Usage: npm test
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac, randomUUID } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { WebSocket } from "ws";
+import type { ConvoyClientMessage, ConvoyServerMessage } from "@shared/schema";
+
+process.env.CONVOY_PUBSUB = "postgres";
+process.env.REPLIT_DOMAINS ??= "localhost";
+process.env.SESSION_SECRET ??= "convoy-pubsub-test";
+
+const WAIT_TIMEOUT_MS = 10_000;
+
+// A socket and every message it has received so far
+interface TestClient {
+  ws: WebSocket;
+  received: ConvoyServerMessage[];
+}
+
+function send(client: TestClient, message: ConvoyClientMessage) {
+  client.ws.send(JSON.stringify(message));
+}
+
+// Resolves with the first received message that matches, including ones that arrived before the call
+async function waitFor<T extends ConvoyServerMessage>(
+  client: TestClient,
+  matches: (message: ConvoyServerMessage) => message is T,
+  onRetry?: () => void,
+): Promise<T> {
+  const deadline = Date.now() + WAIT_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const found = client.received.find(matches);
+    if (found) return found;
+    onRetry?.();
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  throw new Error("Timed out waiting for a convoy message");
+}
+
+describe("Postgres convoy pub/sub", { skip: !process.env.DATABASE_URL && "DATABASE_URL is not set" }, () => {
+  const runId = randomUUID().slice(0, 8);
+  const organizerId = `pubsub-test-${runId}-a`;
+  const participantId = `pubsub-test-${runId}-b`;
+  const sessionIds: string[] = [];
+  const servers: Server[] = [];
+  const clients: TestClient[] = [];
+  const closers: Array<() => Promise<void>> = [];
+  let convoyId: number;
+
+  let modules: {
+    storage: typeof import("./storage").storage;
+    pool: typeof import("./db").pool;
+    setupConvoySocket: typeof import("./convoy-socket").setupConvoySocket;
+    createConvoyPubSub: typeof import("./convoy-pubsub").createConvoyPubSub;
+  };
+
+  // A session row like the one signing in leaves behind, and the signed cookie that points at it
+  async function signIn(userId: string): Promise<string> {
+    const sid = randomUUID();
+    sessionIds.push(sid);
+    const expire = new Date(Date.now() + 60 * 60 * 1000);
+    const sess = {
+      cookie: { originalMaxAge: 60 * 60 * 1000, expires: expire.toISOString(), httpOnly: true, secure: true, path: "/" },
+      passport: { user: { claims: { sub: userId }, expires_at: Math.floor(expire.getTime() / 1000) } },
+    };
+    await modules.pool.query("insert into sessions (sid, sess, expire) values ($1, $2, $3)", [sid, sess, expire]);
+
+    const signature = createHmac("sha256", process.env.SESSION_SECRET!).update(sid).digest("base64").replace(/=+$/, "");
+    return `connect.sid=${encodeURIComponent(`s:${sid}.${signature}`)}`;
+  }
+
+  async function startInstance(): Promise<string> {
+    const server = createServer();
+    const pubsub = modules.createConvoyPubSub();
+    modules.setupConvoySocket(server, pubsub);
+    closers.push(() => pubsub.close());
+    servers.push(server);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    return `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+  }
+
+  async function connect(url: string, cookie: string): Promise<TestClient> {
+    const ws = new WebSocket(url, { headers: { cookie } });
+    const client: TestClient = { ws, received: [] };
+    ws.on("message", raw => client.received.push(JSON.parse(raw.toString())));
+    await new Promise<void>((resolve, reject) => {
+      ws.once("open", resolve);
+      ws.once("error", reject);
+    });
+    clients.push(client);
+    return client;
+  }
+
+  before(async () => {
+    const [{ storage }, { pool }, { setupConvoySocket }, { createConvoyPubSub }] = await Promise.all([
+      import("./storage"),
+      import("./db"),
+      import("./convoy-socket"),
+      import("./convoy-pubsub"),
+    ]);
+    modules = { storage, pool, setupConvoySocket, createConvoyPubSub };
+
+    await storage.upsertUser({ id: organizerId, email: `${organizerId}@example.com` });
+    await storage.upsertUser({ id: participantId, email: `${participantId}@example.com` });
+    // Starting within the check-in window, so the convoy is live and still takes participants
+    const convoy = await storage.createConvoy({
+      title: "Pub/sub test convoy",
+      organizerId,
+      startLocation: "Test start",
+      meetingPoint: "Test meeting point",
+      startDateTime: new Date(Date.now() + 30 * 60 * 1000),
+      maxParticipants: 10,
+    });
+    convoyId = convoy.id;
+    assert.equal(await storage.joinConvoy(convoyId, participantId), "joined");
+  });
+
+  after(async () => {
+    clients.forEach(client => client.ws.terminate());
+    await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+    await Promise.all(closers.map(close => close()));
+    if (modules) {
+      await modules.pool.query("delete from sessions where sid = any($1)", [sessionIds]);
+      // Convoys, participants and updates go with their users
+      await modules.pool.query("delete from users where id = any($1)", [[organizerId, participantId]]);
+      await modules.pool.end();
+    }
+  });
+
+  test("messages and locations reach a member connected to another instance", async () => {
+    const [firstUrl, secondUrl] = [await startInstance(), await startInstance()];
+    const sender = await connect(firstUrl, await signIn(organizerId));
+    const receiver = await connect(secondUrl, await signIn(participantId));
+
+    send(receiver, { type: "join_convoy", convoyId });
+    await waitFor(receiver, (m): m is Extract<ConvoyServerMessage, { type: "joined" }> => m.type === "joined");
+
+    // Both instances' listeners connect in the background; once the sender's join gets across, they're up
+    send(sender, { type: "join_convoy", convoyId });
+    await waitFor(
+      receiver,
+      (m): m is Extract<ConvoyServerMessage, { type: "user_joined" }> => m.type === "user_joined" && m.userId === organizerId,
+      () => send(sender, { type: "join_convoy", convoyId }),
+    );
+
+    send(sender, { type: "convoy_message", convoyId, payload: { message: "Fuel stop at the next exit" } });
+    const message = await waitFor(
+      receiver,
+      (m): m is Extract<ConvoyServerMessage, { type: "convoy_message" }> => m.type === "convoy_message",
+    );
+    assert.equal(message.userId, organizerId);
+    assert.equal(message.message, "Fuel stop at the next exit");
+    assert.equal(message.convoyId, convoyId);
+
+    send(sender, { type: "location_update", convoyId, payload: { latitude: 51.5, longitude: -0.12 } });
+    const locations = await waitFor(
+      receiver,
+      (m): m is Extract<ConvoyServerMessage, { type: "locations" }> =>
+        m.type === "locations" && m.locations.some(location => location.userId === organizerId),
+    );
+    const location = locations.locations.find(entry => entry.userId === organizerId)!;
+    assert.equal(location.latitude, 51.5);
+    assert.equal(location.longitude, -0.12);
+  });
+});
@@ -0,0 +1,176 @@
+import { Client, type Notification } from "@neondatabase/serverless";
+import { z } from "zod";
+import { convoyServerMessageSchema, type ConvoyServerMessage } from "@shared/schema";
+import { pool } from "./db";
+
+// A message for every member of a convoy, whichever server instance their socket is connected to
+export interface ConvoyBroadcast {
+  convoyId: number;
+  message: ConvoyServerMessage;
+  excludeUserId?: string;
+}
+
+export type ConvoyBroadcastHandler = (broadcast: ConvoyBroadcast) => void;
+
+export interface ConvoyPubSub {
+  publish(broadcast: ConvoyBroadcast): Promise<void>;
+  // Returns a function that removes the handler again
+  subscribe(handler: ConvoyBroadcastHandler): () => void;
+  close(): Promise<void>;
+}
+
+const broadcastSchema = z.object({
+  convoyId: z.number().int().positive(),
+  message: convoyServerMessageSchema,
+  excludeUserId: z.string().optional(),
+});
+
+// In-process fan-out, for a single instance or development. Handlers run on a later turn of the event
+// loop, as they would after a round trip through Postgres, so callers can't come to rely on synchronous
+// delivery
+class InMemoryConvoyPubSub implements ConvoyPubSub {
+  private handlers = new Set<ConvoyBroadcastHandler>();
+
+  async publish(broadcast: ConvoyBroadcast): Promise<void> {
+    const handlers = Array.from(this.handlers);
+    setImmediate(() => handlers.forEach(handler => handler(broadcast)));
+  }
+
+  subscribe(handler: ConvoyBroadcastHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
+
+const CHANNEL = "convoy_events";
+const MIN_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 30_000;
+
+// Fan-out through Postgres LISTEN/NOTIFY, so every instance sharing the database sees every broadcast,
+// its own included. Listening needs a session of its own, so this takes a dedicated connection rather
+// than one from the pool (and a direct endpoint: transaction-mode poolers don't support LISTEN).
+// NOTIFY payloads are capped just under 8000 bytes. A chat message or alert fits comfortably, but a big
+// convoy's positions don't, so the socket server splits those across several locations messages.
+// Broadcasts published while the listener is reconnecting are missed; members fill any sequence gap from
+// convoyUpdates on the next event
+class PostgresConvoyPubSub implements ConvoyPubSub {
+  private handlers = new Set<ConvoyBroadcastHandler>();
+  private listener: Client | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectDelay = MIN_RECONNECT_MS;
+  private closed = false;
+
+  constructor(private connectionString: string) {}
+
+  async publish(broadcast: ConvoyBroadcast): Promise<void> {
+    await pool.query("select pg_notify($1, $2)", [CHANNEL, JSON.stringify(broadcast)]);
+  }
+
+  subscribe(handler: ConvoyBroadcastHandler): () => void {
+    this.handlers.add(handler);
+    void this.listen();
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.handlers.clear();
+    const listener = this.listener;
+    this.listener = null;
+    await listener?.end();
+  }
+
+  private listen(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.connect().catch((error) => {
+        console.error("Convoy pub/sub connection error:", error);
+        this.connecting = null;
+        this.scheduleReconnect();
+      });
+    }
+    return this.connecting;
+  }
+
+  private async connect(): Promise<void> {
+    const client = new Client({ connectionString: this.connectionString });
+    client.on("notification", (notification: Notification) => this.receive(notification));
+    client.on("error", (error) => {
+      console.error("Convoy pub/sub listener error:", error);
+      this.drop(client);
+    });
+    client.on("end", () => this.drop(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      client.end().catch(() => {});
+      throw error;
+    }
+
+    if (this.closed) {
+      await client.end();
+      return;
+    }
+    this.listener = client;
+    this.reconnectDelay = MIN_RECONNECT_MS;
+  }
+
+  private receive(notification: Notification) {
+    if (notification.channel !== CHANNEL || !notification.payload) return;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(notification.payload);
+    } catch {
+      payload = null;
+    }
+    const result = broadcastSchema.safeParse(payload);
+    if (!result.success) {
+      console.error("Ignoring malformed convoy broadcast");
+      return;
+    }
+    this.handlers.forEach(handler => handler(result.data));
+  }
+
+  private drop(client: Client) {
+    if (this.listener !== client) return;
+    this.listener = null;
+    this.connecting = null;
+    client.end().catch(() => {});
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) return;
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(delay * 2, MAX_RECONNECT_MS);
+    setTimeout(() => {
+      if (!this.closed) void this.listen();
+    }, delay);
+  }
+}
+
+// CONVOY_PUBSUB picks the backend: "postgres" for more than one instance, "memory" for one.
+// Unset, development runs in memory and everything else goes through Postgres
+export function createConvoyPubSub(): ConvoyPubSub {
+  const backend = process.env.CONVOY_PUBSUB ?? (process.env.NODE_ENV === "development" ? "memory" : "postgres");
+
+  if (backend === "memory") {
+    console.log("Using in-memory convoy pub/sub");
+    return new InMemoryConvoyPubSub();
+  }
+  if (backend !== "postgres") {
+    throw new Error(`Unknown CONVOY_PUBSUB backend: ${backend}`);
+  }
+  console.log("Using Postgres convoy pub/sub");
+  return new PostgresConvoyPubSub(process.env.DATABASE_URL!);
+}
@@ -0,0 +1,81 @@
+import { convoys, convoyUpdates, convoyTracks, type RoutePoint } from "@shared/schema";
+import { db } from "./db";
+import { and, eq, lt } from "drizzle-orm";
+import { buildConvoyTrack, CONVOY_LOCATION_RETENTION_DAYS } from "./convoy-locations";
+
+export interface CompactedConvoy {
+  convoyId: number;
+  participants: number;
+  rowsCompacted: number;
+}
+
+// Location history of a completed convoy is kept row by row for CONVOY_LOCATION_RETENTION_DAYS, then
+// folded into one convoyTracks row per participant and deleted. Messages and alerts stay as they are
+export async function compactConvoyLocations(now = new Date()): Promise<CompactedConvoy[]> {
+  const cutoff = new Date(now.getTime() - CONVOY_LOCATION_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const due = await db
+    .selectDistinct({ convoyId: convoyUpdates.convoyId })
+    .from(convoyUpdates)
+    .innerJoin(convoys, eq(convoys.id, convoyUpdates.convoyId))
+    .where(and(
+      eq(convoys.status, "completed"),
+      eq(convoyUpdates.updateType, "location"),
+      lt(convoyUpdates.createdAt, cutoff)
+    ));
+
+  const compacted: CompactedConvoy[] = [];
+  for (const { convoyId } of due) {
+    compacted.push(await compactConvoy(convoyId, cutoff));
+  }
+  return compacted;
+}
+
+async function compactConvoy(convoyId: number, cutoff: Date): Promise<CompactedConvoy> {
+  return await db.transaction(async (tx) => {
+    // Locking the convoy serialises overlapping runs, so no row is folded into a track twice
+    await tx.select({ id: convoys.id }).from(convoys).where(eq(convoys.id, convoyId)).for("update");
+
+    const stale = and(
+      eq(convoyUpdates.convoyId, convoyId),
+      eq(convoyUpdates.updateType, "location"),
+      lt(convoyUpdates.createdAt, cutoff)
+    );
+    const rows = await tx
+      .select({
+        userId: convoyUpdates.userId,
+        latitude: convoyUpdates.latitude,
+        longitude: convoyUpdates.longitude,
+        createdAt: convoyUpdates.createdAt,
+      })
+      .from(convoyUpdates)
+      .where(stale);
+
+    const fixesByUser = new Map<string, { latitude: number; longitude: number; recordedAt: Date }[]>();
+    for (const row of rows) {
+      if (row.latitude === null || row.longitude === null || !row.createdAt) continue;
+      const fixes = fixesByUser.get(row.userId) || [];
+      fixes.push({ latitude: Number(row.latitude), longitude: Number(row.longitude), recordedAt: row.createdAt });
+      fixesByUser.set(row.userId, fixes);
+    }
+
+    const existing = await tx.select().from(convoyTracks).where(eq(convoyTracks.convoyId, convoyId));
+    const existingPoints = new Map(existing.map(track => [track.userId, track.points as RoutePoint[]]));
+
+    for (const [userId, fixes] of Array.from(fixesByUser.entries())) {
+      const points = buildConvoyTrack(existingPoints.get(userId) ?? [], fixes);
+      const startedAt = new Date(points[0].timestamp!);
+      const endedAt = new Date(points[points.length - 1].timestamp!);
+      await tx
+        .insert(convoyTracks)
+        .values({ convoyId, userId, points, startedAt, endedAt })
+        .onConflictDoUpdate({
+          target: [convoyTracks.convoyId, convoyTracks.userId],
+          set: { points, startedAt, endedAt, updatedAt: new Date() },
+        });
+    }
+
+    await tx.delete(convoyUpdates).where(stale);
+    return { convoyId, participants: fixesByUser.size, rowsCompacted: rows.length };
+  });
+}
@@ -0,0 +1,27 @@
+import type { Server } from "http";
+import { storage } from "./storage";
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+// Convoys move to checking in, in progress and completed as time passes, whether or not anyone touches
+// them, so every instance sweeps for due convoys once a minute
+export function scheduleConvoyLifecycle(httpServer: Server): void {
+  let running = false;
+
+  async function sweep(): Promise<void> {
+    if (running) return;
+    running = true;
+    try {
+      const moved = await storage.advanceConvoyLifecycles();
+      if (moved > 0) console.log(`Advanced ${moved} convoy${moved === 1 ? "" : "s"} along their schedule`);
+    } catch (error) {
+      console.error("Error advancing convoy lifecycles:", error);
+    } finally {
+      running = false;
+    }
+  }
+
+  void sweep();
+  const timer = setInterval(() => void sweep(), SWEEP_INTERVAL_MS);
+  httpServer.on("close", () => clearInterval(timer));
+}
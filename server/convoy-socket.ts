@@ -0,0 +1,369 @@
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import {
+  convoyClientMessageSchema,
+  type ConvoyClientMessage,
+  type ConvoyEventMessage,
+  type ConvoyServerMessage,
+  type ConvoyUpdate,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getRequestUserId } from "./replitAuth";
+import { createConvoyPubSub, type ConvoyBroadcast, type ConvoyPubSub } from "./convoy-pubsub";
+import { batchLocations, LocationBuffer, LOCATION_FLUSH_INTERVAL_MS, type LocationFix } from "./convoy-locations";
+
+const SOCKET_PATH = "/ws";
+const HEARTBEAT_INTERVAL_MS = 30_000; // a socket that misses a whole interval's ping is dropped
+const ACK_TIMEOUT_MS = 10_000; // events still unacked after this are sent again
+const REPLAY_BATCH = 200;
+
+// One user's socket in a convoy room, and how far through the convoy's events it has got
+interface ConvoyMember {
+  ws: WebSocket;
+  delivered: number; // highest sequence sent on this socket
+  acked: number; // highest sequence the client has confirmed
+  sentAt: number; // when delivered last moved
+  replaying: boolean;
+  behind: boolean; // an event arrived out of order while replaying
+}
+
+function isConvoyEvent(message: ConvoyServerMessage): message is ConvoyEventMessage {
+  return "sequence" in message && "userId" in message;
+}
+
+// The event clients see for a stored update; null for update types they don't display
+function toConvoyEvent(update: ConvoyUpdate): ConvoyEventMessage | null {
+  if (update.sequence === null) return null;
+  const data = (update.data ?? {}) as Record<string, any>;
+  const base = {
+    convoyId: update.convoyId,
+    sequence: update.sequence,
+    userId: update.userId,
+    timestamp: (update.createdAt ?? new Date()).toISOString(),
+  };
+
+  switch (update.updateType) {
+    case "message":
+      return { ...base, type: "convoy_message", message: String(data.message ?? "") };
+    case "emergency":
+      return {
+        ...base,
+        type: "emergency_alert",
+        emergencyType: String(data.type ?? ""),
+        message: String(data.message ?? ""),
+        latitude: update.latitude === null ? undefined : Number(update.latitude),
+        longitude: update.longitude === null ? undefined : Number(update.longitude),
+      };
+    default:
+      return null;
+  }
+}
+
+// WebSocket server for real-time convoy coordination. The upgrade is only accepted for a signed-in
+// session, and every convoy message is checked against the sender's participation before it's acted on.
+// Each member gets the convoy's events strictly in sequence order: an event that would skip ahead sends
+// the member back to convoyUpdates to fill the gap, so nothing is lost to a dropped connection or a race.
+// convoyConnections only holds this instance's sockets; broadcasts go out through the pub/sub so
+// members connected to other instances get them too
+export function setupConvoySocket(httpServer: Server, pubsub: ConvoyPubSub = createConvoyPubSub()): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Active convoy connections on this instance: convoyId -> userId -> member
+  const convoyConnections = new Map<number, Map<string, ConvoyMember>>();
+  const unsubscribe = pubsub.subscribe(fanOut);
+
+  // Positions reported by this instance's members, written and broadcast in batches
+  const locations = new LocationBuffer();
+
+  // Sockets that have answered since the last heartbeat
+  const alive = new WeakSet<WebSocket>();
+
+  httpServer.on("upgrade", async (request: IncomingMessage, socket, head) => {
+    // Other upgrades on this server (Vite's HMR socket in development) aren't ours to answer
+    if (new URL(request.url ?? "/", "http://localhost").pathname !== SOCKET_PATH) return;
+
+    let userId: string | null = null;
+    try {
+      userId = await getRequestUserId(request);
+    } catch (error) {
+      console.error("WebSocket authentication error:", error);
+    }
+    if (!userId) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      wss.emit("connection", ws, request, userId);
+    });
+  });
+
+  wss.on("connection", (ws: WebSocket, _request: IncomingMessage, userId: string) => {
+    console.log("WebSocket connection established");
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+
+    ws.on("message", async (raw: RawData) => {
+      alive.add(ws);
+
+      let data: unknown;
+      try {
+        data = JSON.parse(raw.toString());
+      } catch {
+        return send(ws, { type: "error", message: "Invalid message format" });
+      }
+
+      const result = convoyClientMessageSchema.safeParse(data);
+      if (!result.success) {
+        return send(ws, { type: "error", message: "Invalid message format" });
+      }
+
+      try {
+        // Locations and acks are only taken from a socket that has joined the room, and joining was
+        // checked, so they skip the per-message lookup; location writes recheck participation in bulk
+        const checked = result.data.type === "location_update" || result.data.type === "ack";
+        if (!checked && !(await storage.isJoinedConvoyParticipant(result.data.convoyId, userId))) {
+          return send(ws, { type: "error", message: "You are not a participant in this convoy" });
+        }
+        await handleMessage(ws, userId, result.data);
+      } catch (error) {
+        console.error("WebSocket message error:", error);
+        send(ws, { type: "error", message: "Failed to process message" });
+      }
+    });
+
+    ws.on("close", () => leaveAll(ws));
+  });
+
+  // Drop sockets that stopped answering pings, and resend events whose acks never came
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        leaveAll(ws);
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+
+    const now = Date.now();
+    convoyConnections.forEach((members, convoyId) => {
+      members.forEach((member) => {
+        if (member.replaying || member.acked >= member.delivered || now - member.sentAt < ACK_TIMEOUT_MS) return;
+        member.delivered = member.acked;
+        void replay(convoyId, member);
+      });
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  const locationFlush = setInterval(() => void flushLocations(), LOCATION_FLUSH_INTERVAL_MS);
+
+  httpServer.on("close", () => {
+    clearInterval(heartbeat);
+    clearInterval(locationFlush);
+    unsubscribe();
+    wss.close();
+  });
+
+  async function handleMessage(ws: WebSocket, userId: string, message: ConvoyClientMessage): Promise<void> {
+    const { convoyId } = message;
+
+    switch (message.type) {
+      case "join_convoy": {
+        const latest = (await storage.getConvoyEventSequence(convoyId)) ?? 0;
+        // A client resuming from a sequence gets everything after it; a fresh one starts from now
+        const from = Math.min(message.lastSequence ?? latest, latest);
+
+        // Add user to convoy room
+        if (!convoyConnections.has(convoyId)) {
+          convoyConnections.set(convoyId, new Map());
+        }
+        const member: ConvoyMember = { ws, delivered: from, acked: from, sentAt: Date.now(), replaying: false, behind: false };
+        convoyConnections.get(convoyId)!.set(userId, member);
+        send(ws, { type: "joined", convoyId, sequence: from });
+
+        // Broadcast join notification
+        broadcastToConvoy(convoyId, {
+          type: "user_joined",
+          userId,
+          timestamp: new Date().toISOString(),
+        }, userId);
+
+        // Also picks up anything recorded while the latest sequence was being read
+        await replay(convoyId, member);
+        break;
+      }
+
+      case "ack": {
+        const member = convoyConnections.get(convoyId)?.get(userId);
+        if (member?.ws === ws) {
+          member.acked = Math.max(member.acked, Math.min(message.sequence, member.delivered));
+        }
+        break;
+      }
+
+      case "location_update": {
+        if (convoyConnections.get(convoyId)?.get(userId)?.ws !== ws) {
+          send(ws, { type: "error", message: "Join the convoy before sharing your location" });
+          break;
+        }
+        // Fixes over the rate limit are dropped quietly; the next one will do
+        locations.offer({ convoyId, userId, ...message.payload, recordedAt: new Date() });
+        break;
+      }
+
+      case "convoy_message": {
+        const update = await storage.createConvoyUpdate({
+          convoyId,
+          userId,
+          updateType: "message",
+          data: { message: message.payload.message },
+        });
+        publish(update);
+        break;
+      }
+
+      case "emergency_alert": {
+        const { emergencyType, latitude, longitude } = message.payload;
+        const update = await storage.createConvoyUpdate({
+          convoyId,
+          userId,
+          updateType: "emergency",
+          latitude: latitude?.toString(),
+          longitude: longitude?.toString(),
+          data: { type: emergencyType, message: message.payload.message },
+        });
+        publish(update);
+        break;
+      }
+    }
+  }
+
+  // Send a newly recorded event to every member of its convoy, the sender included, so each socket's
+  // sequence stays unbroken
+  function publish(update: ConvoyUpdate) {
+    const event = toConvoyEvent(update);
+    if (event) broadcastToConvoy(update.convoyId, event);
+  }
+
+  function deliver(convoyId: number, member: ConvoyMember, event: ConvoyEventMessage) {
+    if (member.replaying || event.sequence > member.delivered + 1) {
+      void replay(convoyId, member);
+      return;
+    }
+    if (event.sequence <= member.delivered) return;
+    send(member.ws, event);
+    member.delivered = event.sequence;
+    member.sentAt = Date.now();
+  }
+
+  // Send a member everything after its delivered sequence from convoyUpdates, in order
+  async function replay(convoyId: number, member: ConvoyMember): Promise<void> {
+    if (member.replaying) {
+      member.behind = true;
+      return;
+    }
+    member.replaying = true;
+    try {
+      while (member.ws.readyState === WebSocket.OPEN) {
+        member.behind = false;
+        const updates = await storage.getConvoyUpdatesAfter(convoyId, member.delivered, REPLAY_BATCH);
+        for (const update of updates) {
+          const event = toConvoyEvent(update);
+          if (event) {
+            send(member.ws, event);
+          } else if (member.acked === member.delivered) {
+            // Nothing the client will ack, so don't wait for one
+            member.acked = update.sequence!;
+          }
+          member.delivered = update.sequence!;
+          member.sentAt = Date.now();
+        }
+        if (updates.length < REPLAY_BATCH && !member.behind) break;
+      }
+    } catch (error) {
+      console.error("Convoy replay error:", error);
+    } finally {
+      member.replaying = false;
+    }
+  }
+
+  // Write everyone's latest position, then send each convoy the positions of its members, in as many
+  // messages as it takes to keep each one within the pub/sub's payload limit
+  async function flushLocations() {
+    const { latest, history } = locations.drain();
+    if (latest.length === 0) return;
+
+    let recorded: LocationFix[];
+    try {
+      recorded = await storage.recordParticipantLocations(latest, history);
+    } catch (error) {
+      console.error("Error recording convoy locations:", error);
+      return;
+    }
+
+    const byConvoy = new Map<number, LocationFix[]>();
+    for (const fix of recorded) {
+      byConvoy.set(fix.convoyId, (byConvoy.get(fix.convoyId) || []).concat(fix));
+    }
+    byConvoy.forEach((fixes, convoyId) => {
+      const entries = fixes.map(fix => ({
+        userId: fix.userId,
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        timestamp: fix.recordedAt.toISOString(),
+      }));
+      for (const batch of batchLocations(entries)) {
+        broadcastToConvoy(convoyId, { type: "locations", convoyId, locations: batch });
+      }
+    });
+  }
+
+  // Remove a socket from all convoy rooms
+  function leaveAll(ws: WebSocket) {
+    convoyConnections.forEach((convoyUsers, convoyId) => {
+      convoyUsers.forEach((member, memberId) => {
+        if (member.ws === ws) {
+          convoyUsers.delete(memberId);
+          locations.forget(convoyId, memberId);
+          // Notify convoy of user disconnect
+          broadcastToConvoy(convoyId, {
+            type: "user_left",
+            userId: memberId,
+            timestamp: new Date().toISOString(),
+          }, memberId);
+        }
+      });
+      if (convoyUsers.size === 0) convoyConnections.delete(convoyId);
+    });
+  }
+
+  function broadcastToConvoy(convoyId: number, message: ConvoyServerMessage, excludeUserId?: string) {
+    pubsub.publish({ convoyId, message, excludeUserId }).catch((error) => {
+      console.error("Convoy broadcast error:", error);
+    });
+  }
+
+  // A broadcast from any instance, this one included, to the members connected here. Presence notices
+  // aren't convoy events: they carry no sequence and aren't replayed
+  function fanOut({ convoyId, message, excludeUserId }: ConvoyBroadcast) {
+    const convoyUsers = convoyConnections.get(convoyId);
+    if (convoyUsers) {
+      convoyUsers.forEach((member, userId) => {
+        if (userId === excludeUserId) return;
+        if (isConvoyEvent(message)) {
+          deliver(convoyId, member, message);
+        } else {
+          send(member.ws, message);
+        }
+      });
+    }
+  }
+}
+
+function send(ws: WebSocket, message: ConvoyServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,118 @@
+import type { RoutePoint } from "@shared/schema";
+import { smoothTrack } from "./track-processing";
+
+// Spacing (in metres) the track is resampled to, so point density doesn't skew the analysis
+const RESAMPLE_METERS = 25;
+
+// Sections tighter than this radius (in metres) count as being in a curve
+const CURVE_RADIUS_METERS = 300;
+
+// Accumulated heading change (in degrees) for a curve to count as a bend
+const SIGNIFICANT_BEND_DEGREES = 45;
+
+// Degrees of cornering per km that maps to the top of the 0-100 score
+const MAX_SCORE_DEGREES_PER_KM = 1000;
+
+// Tracks shorter than this (in metres) don't give a meaningful score
+const MIN_TRACK_METERS = 500;
+
+export interface CurvatureStats {
+  twistinessScore: number;
+  bendCount: number;
+  curvyDistancePercent: number;
+}
+
+interface PlanePoint {
+  x: number;
+  y: number;
+}
+
+function project(points: RoutePoint[]): PlanePoint[] {
+  const originLat = (points[0].latitude * Math.PI) / 180;
+  const metersPerDegree = 111320;
+  return points.map(p => ({
+    x: p.longitude * metersPerDegree * Math.cos(originLat),
+    y: p.latitude * metersPerDegree,
+  }));
+}
+
+// Walk the track and emit a point every `spacing` metres
+function resample(points: PlanePoint[], spacing: number): PlanePoint[] {
+  const resampled: PlanePoint[] = [points[0]];
+  let carry = 0;
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    let offset = spacing - carry;
+    while (offset <= length) {
+      const t = offset / length;
+      resampled.push({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+      offset += spacing;
+    }
+    carry = length - (offset - spacing);
+  }
+  return resampled;
+}
+
+// Signed heading change in degrees between consecutive segments, normalised to -180..180
+function headingChanges(points: PlanePoint[]): number[] {
+  const changes: number[] = [];
+  for (let i = 1; i < points.length - 1; i++) {
+    const before = Math.atan2(points[i].y - points[i - 1].y, points[i].x - points[i - 1].x);
+    const after = Math.atan2(points[i + 1].y - points[i].y, points[i + 1].x - points[i].x);
+    let change = ((after - before) * 180) / Math.PI;
+    if (change > 180) change -= 360;
+    if (change < -180) change += 360;
+    changes.push(change);
+  }
+  return changes;
+}
+
+// Twistiness of a cleaned track; null when it is too short to judge
+export function computeCurvature(points: RoutePoint[]): CurvatureStats | null {
+  if (points.length < 3) return null;
+
+  const resampled = resample(project(smoothTrack(points)), RESAMPLE_METERS);
+  const totalMeters = (resampled.length - 1) * RESAMPLE_METERS;
+  if (totalMeters < MIN_TRACK_METERS) return null;
+
+  // A turn of θ over one resample step implies a radius of spacing / θ
+  const minTurnDegrees = (RESAMPLE_METERS / CURVE_RADIUS_METERS) * (180 / Math.PI);
+
+  let curvySamples = 0;
+  let curvyDegrees = 0;
+  let bendCount = 0;
+  let bendDegrees = 0;
+  let bendDirection = 0;
+
+  const closeBend = () => {
+    if (bendDegrees >= SIGNIFICANT_BEND_DEGREES) bendCount++;
+    bendDegrees = 0;
+    bendDirection = 0;
+  };
+
+  for (const change of headingChanges(resampled)) {
+    if (Math.abs(change) < minTurnDegrees) {
+      closeBend();
+      continue;
+    }
+
+    curvySamples++;
+    curvyDegrees += Math.abs(change);
+
+    // A change of direction (left into right) starts a new bend
+    const direction = Math.sign(change);
+    if (bendDirection !== 0 && direction !== bendDirection) closeBend();
+    bendDirection = direction;
+    bendDegrees += Math.abs(change);
+  }
+  closeBend();
+
+  const degreesPerKm = curvyDegrees / (totalMeters / 1000);
+  return {
+    twistinessScore: Math.min(100, Math.round((degreesPerKm / MAX_SCORE_DEGREES_PER_KM) * 100)),
+    bendCount,
+    curvyDistancePercent: Math.min(100, ((curvySamples * RESAMPLE_METERS) / totalMeters) * 100),
+  };
+}
@@ -0,0 +1,40 @@
+import type { DocumentExpiry, VehicleDocument } from "@shared/schema";
+import { storage } from "./storage";
+
+// How far ahead (in days) expiring documents show up by default
+export const DOCUMENT_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Renewing a document supersedes the old one, so only the latest of each type per vehicle counts.
+// "other" documents are unrelated to each other and each count on their own.
+function currentDocuments<T extends { document: VehicleDocument }>(items: T[]): T[] {
+  const latest = new Map<string, T>();
+  for (const item of items) {
+    const { document } = item;
+    const key = document.type === "other" ? `doc-${document.id}` : `${document.vehicleId}-${document.type}`;
+    const existing = latest.get(key);
+    if (!existing || new Date(document.expiresAt!) > new Date(existing.document.expiresAt!)) {
+      latest.set(key, item);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+// The user's documents that have expired or will within the window, soonest first
+export async function getExpiringDocuments(
+  userId: string,
+  withinDays: number = DOCUMENT_WARNING_DAYS,
+  now: Date = new Date(),
+): Promise<DocumentExpiry[]> {
+  const dated = await storage.getUserDatedDocuments(userId);
+
+  return currentDocuments(dated)
+    .map(({ document, vehicle }) => {
+      const daysRemaining = Math.ceil((new Date(document.expiresAt!).getTime() - now.getTime()) / DAY_MS);
+      const status: DocumentExpiry["status"] = daysRemaining < 0 ? "expired" : "expiring";
+      return { document, vehicle, daysRemaining, status };
+    })
+    .filter(expiry => expiry.daysRemaining <= withinDays)
+    .sort((a, b) => a.daysRemaining - b.daysRemaining);
+}
@@ -0,0 +1,88 @@
+import type { ElevationProfilePoint, RoutePoint } from "@shared/schema";
+import { haversineDistance } from "./route-stats";
+
+// Changes smaller than this (in metres) are treated as barometer/GPS noise when summing climbs
+const ASCENT_THRESHOLD_METERS = 3;
+
+// Moving-average window (in points) applied to altitude before computing stats
+const ELEVATION_SMOOTHING_WINDOW = 5;
+
+// Upper bound on samples returned for charting
+const MAX_PROFILE_SAMPLES = 200;
+
+export interface ElevationStats {
+  totalAscent: number;
+  totalDescent: number;
+  maxElevation: number;
+  minElevation: number;
+  profile: ElevationProfilePoint[];
+}
+
+function smoothElevations(elevations: number[], window = ELEVATION_SMOOTHING_WINDOW): number[] {
+  const half = Math.floor(window / 2);
+  return elevations.map((_, index) => {
+    const from = Math.max(0, index - half);
+    const to = Math.min(elevations.length - 1, index + half);
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += elevations[i];
+    return sum / (to - from + 1);
+  });
+}
+
+// Sum climbs and drops, only counting a change once it clears the noise threshold
+function ascentAndDescent(elevations: number[]): { totalAscent: number; totalDescent: number } {
+  let totalAscent = 0;
+  let totalDescent = 0;
+  let reference = elevations[0];
+  for (const elevation of elevations) {
+    const change = elevation - reference;
+    if (change >= ASCENT_THRESHOLD_METERS) {
+      totalAscent += change;
+      reference = elevation;
+    } else if (change <= -ASCENT_THRESHOLD_METERS) {
+      totalDescent -= change;
+      reference = elevation;
+    }
+  }
+  return { totalAscent, totalDescent };
+}
+
+// Evenly thin the profile so charts stay light regardless of track length; the last sample is always kept
+function downsampleProfile(profile: ElevationProfilePoint[], maxSamples = MAX_PROFILE_SAMPLES): ElevationProfilePoint[] {
+  if (profile.length <= maxSamples) return profile;
+  const step = (profile.length - 1) / (maxSamples - 1);
+  const samples: ElevationProfilePoint[] = [];
+  for (let i = 0; i < maxSamples; i++) {
+    samples.push(profile[Math.round(i * step)]);
+  }
+  return samples;
+}
+
+// Climb statistics and a chartable profile; null when the track carries fewer than two altitude readings
+export function computeElevationStats(points: RoutePoint[]): ElevationStats | null {
+  const samples: Array<{ distance: number; elevation: number }> = [];
+  let distance = 0;
+  points.forEach((point, index) => {
+    if (index > 0) distance += haversineDistance(points[index - 1], point);
+    if (typeof point.elevation === 'number') {
+      samples.push({ distance, elevation: point.elevation });
+    }
+  });
+  if (samples.length < 2) return null;
+
+  const smoothed = smoothElevations(samples.map(s => s.elevation));
+  const { totalAscent, totalDescent } = ascentAndDescent(smoothed);
+  const profile = samples.map((sample, index) => ({
+    distance: Number(sample.distance.toFixed(2)),
+    elevation: Number(smoothed[index].toFixed(1)),
+  }));
+
+  return {
+    totalAscent,
+    totalDescent,
+    // Reduced rather than spread: a long track has more points than a call can take arguments
+    maxElevation: smoothed.reduce((max, elevation) => Math.max(max, elevation), -Infinity),
+    minElevation: smoothed.reduce((min, elevation) => Math.min(min, elevation), Infinity),
+    profile: downsampleProfile(profile),
+  };
+}
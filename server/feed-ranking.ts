@@ -0,0 +1,105 @@
+import { z } from "zod";
+import type { CursorPage, Post } from "@shared/schema";
+
+// What the ranking knows about one candidate post, everything counted as of the feed snapshot
+export interface FeedCandidate {
+  post: Post;
+  likes: number;
+  comments: number;
+  followsAuthor: boolean;
+  sharedConvoys: number; // convoys the viewer and the author have both attended
+  sharedMakes: number; // makes found in both garages
+}
+
+// Every page of one scroll is ranked against the same moment, so new posts, likes and comments
+// arriving mid-scroll can't reorder what's already been shown. Posts seen before seenBefore stay
+// hidden; ones seen while scrolling this feed don't drop out from under it
+export interface FeedSnapshot {
+  asOf: Date;
+  seenBefore: Date;
+}
+
+export const FEED_WINDOW_DAYS = 30;
+export const FEED_CANDIDATES = 500;
+
+const HALF_LIFE_HOURS = 24;
+const COMMENT_WEIGHT = 2; // a comment counts as much as two likes
+const WARMUP_HOURS = 2; // so the first like on a brand-new post doesn't read as a huge velocity
+const VELOCITY_SCALE = 10;
+const FOLLOW_BOOST = 1;
+const CONVOY_BOOST = 0.25; // per shared convoy
+const MAX_SHARED_CONVOYS = 4;
+const MAKE_BOOST = 0.5;
+
+const cursorSchema = z.object({
+  asOf: z.number().int(),
+  seenBefore: z.number().int(),
+  score: z.number().nonnegative(),
+  id: z.number().int(),
+});
+
+type FeedCursor = z.infer<typeof cursorSchema>;
+
+// Recency halves every day; engagement rewards likes and comments per hour of the post's life;
+// affinity favours authors the viewer follows, has driven with, or shares a make with
+export function scoreFeedPost(candidate: FeedCandidate, asOf: Date): number {
+  const createdAt = candidate.post.createdAt ?? asOf;
+  const ageHours = Math.max(0, (asOf.getTime() - createdAt.getTime()) / 3_600_000);
+
+  const recency = Math.pow(0.5, ageHours / HALF_LIFE_HOURS);
+  const velocity = (candidate.likes + COMMENT_WEIGHT * candidate.comments) / (ageHours + WARMUP_HOURS);
+  const engagement = 1 + Math.log1p(velocity * VELOCITY_SCALE);
+  const affinity = 1
+    + (candidate.followsAuthor ? FOLLOW_BOOST : 0)
+    + CONVOY_BOOST * Math.min(candidate.sharedConvoys, MAX_SHARED_CONVOYS)
+    + (candidate.sharedMakes > 0 ? MAKE_BOOST : 0);
+
+  return recency * engagement * affinity;
+}
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeFeedCursor(value: string): { snapshot: FeedSnapshot; after: { score: number; id: number } } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid feed cursor");
+  }
+  const result = cursorSchema.safeParse(parsed);
+  if (!result.success || result.data.seenBefore > result.data.asOf) {
+    throw new Error("Invalid feed cursor");
+  }
+  const { asOf, seenBefore, score, id } = result.data;
+  return { snapshot: { asOf: new Date(asOf), seenBefore: new Date(seenBefore) }, after: { score, id } };
+}
+
+// Order candidates by score, ties broken by newest id, and return the page after the given position.
+// The cursor carries the snapshot forward, so the next page is ranked exactly as this one was
+export function rankFeedPage(
+  candidates: FeedCandidate[],
+  snapshot: FeedSnapshot,
+  after: { score: number; id: number } | null,
+  limit: number,
+): CursorPage<Post> {
+  const ranked = candidates
+    .map(candidate => ({ post: candidate.post, score: scoreFeedPost(candidate, snapshot.asOf) }))
+    .filter(({ post, score }) => !after || score < after.score || (score === after.score && post.id < after.id))
+    .sort((a, b) => b.score - a.score || b.post.id - a.post.id);
+
+  const page = ranked.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    items: page.map(({ post }) => post),
+    nextCursor: ranked.length > limit
+      ? encodeFeedCursor({
+          asOf: snapshot.asOf.getTime(),
+          seenBefore: snapshot.seenBefore.getTime(),
+          score: last.score,
+          id: last.post.id,
+        })
+      : null,
+  };
+}
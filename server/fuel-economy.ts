@@ -0,0 +1,127 @@
+import type { FuelEconomySummary, FuelEntry } from "@shared/schema";
+
+// Litres per 100 km to US miles per gallon
+const MPG_FACTOR = 235.215;
+
+// Number of most recent full-to-full intervals behind the "recent" economy figure
+const RECENT_INTERVALS = 3;
+
+interface EconomyInterval {
+  distance: number; // km
+  volume: number; // litres
+  cost: number | null; // null when any fill-up in the interval is unpriced or in another currency
+  endedAt: Date; // when the closing full tank was bought
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function litersPer100Km(intervals: EconomyInterval[]): number | null {
+  const distance = intervals.reduce((sum, interval) => sum + interval.distance, 0);
+  const volume = intervals.reduce((sum, interval) => sum + interval.volume, 0);
+  return distance > 0 ? round((volume / distance) * 100, 2) : null;
+}
+
+// Fill-ups in odometer order; the date breaks ties for entries logged at the same reading
+function sortEntries(entries: FuelEntry[]): FuelEntry[] {
+  return [...entries].sort((a, b) =>
+    Number(a.odometer) - Number(b.odometer) || new Date(a.filledAt).getTime() - new Date(b.filledAt).getTime()
+  );
+}
+
+// Full-to-full intervals: fuel bought since the previous full tank, over the distance driven since then.
+// Fill-ups before the first full tank can't be attributed to any distance and are skipped.
+function economyIntervals(sorted: FuelEntry[], currency: string | null): EconomyInterval[] {
+  const intervals: EconomyInterval[] = [];
+  let lastFull: FuelEntry | null = null;
+  let volume = 0;
+  let cost: number | null = 0;
+
+  for (const entry of sorted) {
+    if (lastFull) {
+      volume += Number(entry.volume);
+      if (cost !== null && entry.totalPrice !== null && entry.currency === currency) {
+        cost += Number(entry.totalPrice);
+      } else {
+        cost = null;
+      }
+    }
+
+    if (!entry.isFullFill) continue;
+
+    if (lastFull) {
+      const distance = Number(entry.odometer) - Number(lastFull.odometer);
+      if (distance > 0) {
+        intervals.push({ distance, volume, cost, endedAt: new Date(entry.filledAt) });
+      }
+    }
+    lastFull = entry;
+    volume = 0;
+    cost = 0;
+  }
+  return intervals;
+}
+
+function monthlySpend(entries: FuelEntry[]): FuelEconomySummary["monthlySpend"] {
+  const totals = new Map<string, { month: string; currency: string; total: number }>();
+  for (const entry of entries) {
+    if (entry.totalPrice === null) continue;
+    const month = new Date(entry.filledAt).toISOString().slice(0, 7);
+    const key = `${month}:${entry.currency}`;
+    const bucket = totals.get(key) || { month, currency: entry.currency, total: 0 };
+    bucket.total += Number(entry.totalPrice);
+    totals.set(key, bucket);
+  }
+  return Array.from(totals.values())
+    .map(bucket => ({ ...bucket, total: round(bucket.total, 2) }))
+    .sort((a, b) => a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency));
+}
+
+export function computeFuelEconomy(entries: FuelEntry[]): FuelEconomySummary {
+  const sorted = sortEntries(entries);
+
+  // Costs are reported in whatever currency the owner paid in most recently
+  const latestPriced = [...entries]
+    .filter(entry => entry.totalPrice !== null)
+    .sort((a, b) => new Date(b.filledAt).getTime() - new Date(a.filledAt).getTime())[0];
+  const currency = latestPriced?.currency ?? null;
+
+  const intervals = economyIntervals(sorted, currency);
+  const overall = litersPer100Km(intervals);
+
+  const pricedIntervals = intervals.filter(interval => interval.cost !== null);
+  const pricedDistance = pricedIntervals.reduce((sum, interval) => sum + interval.distance, 0);
+  const pricedCost = pricedIntervals.reduce((sum, interval) => sum + interval.cost!, 0);
+
+  return {
+    litersPer100Km: overall,
+    mpg: overall ? round(MPG_FACTOR / overall, 1) : null,
+    recentLitersPer100Km: litersPer100Km(intervals.slice(-RECENT_INTERVALS)),
+    costPerKm: pricedDistance > 0 ? round(pricedCost / pricedDistance, 3) : null,
+    currency,
+    totalDistance: round(intervals.reduce((sum, interval) => sum + interval.distance, 0), 1),
+    totalVolume: round(entries.reduce((sum, entry) => sum + Number(entry.volume), 0), 2),
+    monthlySpend: monthlySpend(entries),
+  };
+}
+
+// Economy per calendar month, over the full-to-full intervals that closed in that month
+export function fuelEconomyTrend(entries: FuelEntry[]): { month: string; litersPer100Km: number }[] {
+  const byMonth = new Map<string, EconomyInterval[]>();
+  for (const interval of economyIntervals(sortEntries(entries), null)) {
+    const month = interval.endedAt.toISOString().slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) || []), interval]);
+  }
+  return Array.from(byMonth.entries())
+    .map(([month, intervals]) => ({ month, litersPer100Km: litersPer100Km(intervals)! }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+}
+
+// Fuel a drive would have used at the vehicle's current economy, in litres
+export function estimateFuelUsed(distanceKm: number, summary: FuelEconomySummary): number | null {
+  const economy = summary.recentLitersPer100Km ?? summary.litersPer100Km;
+  if (!economy || !(distanceKm > 0)) return null;
+  return round((distanceKm * economy) / 100, 2);
+}
@@ -0,0 +1,161 @@
+import { XMLParser } from "fast-xml-parser";
+import type { InsertPitstop, PitstopLocation, RoutePoint } from "@shared/schema";
+import { haversineDistance } from "./route-stats";
+
+export interface GpxWaypoint {
+  name: string;
+  description?: string;
+  notes?: string;
+  latitude: number;
+  longitude: number;
+  type: PitstopLocation['type'];
+}
+
+export interface ParsedGpx {
+  name?: string;
+  description?: string;
+  points: RoutePoint[];
+  waypoints: GpxWaypoint[];
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: (name) => ["wpt", "rte", "rtept", "trk", "trkseg", "trkpt"].includes(name),
+});
+
+// Keyword lookup used to turn GPX <type>/<sym> values into pitstop types
+const WAYPOINT_TYPE_KEYWORDS: Array<[PitstopLocation['type'], RegExp]> = [
+  ['fuel', /fuel|gas|petrol|diesel|charg/i],
+  ['food', /food|restaurant|cafe|coffee|dining|diner|bar|pub|pizza/i],
+  ['scenic', /scenic|view|vista|summit|photo|lookout|overlook/i],
+  ['rest', /rest|parking|toilet|restroom|lodging|hotel|motel|camp/i],
+  ['attraction', /attraction|museum|landmark|monument|castle|historic/i],
+];
+
+function textValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (value && typeof value === 'object' && '#text' in value) {
+    return textValue((value as Record<string, unknown>)['#text']);
+  }
+  return undefined;
+}
+
+function toRoutePoint(node: any): RoutePoint | null {
+  const latitude = parseFloat(node?.lat);
+  const longitude = parseFloat(node?.lon);
+  if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+
+  const point: RoutePoint = { latitude, longitude };
+  const time = textValue(node.time);
+  if (time && !isNaN(new Date(time).getTime())) {
+    point.timestamp = new Date(time).toISOString();
+  }
+  const elevation = parseFloat(textValue(node.ele) ?? '');
+  if (!isNaN(elevation)) {
+    point.elevation = elevation;
+  }
+  return point;
+}
+
+function waypointType(node: any): PitstopLocation['type'] {
+  const hint = [textValue(node.type), textValue(node.sym)].filter(Boolean).join(' ');
+  const match = WAYPOINT_TYPE_KEYWORDS.find(([, pattern]) => pattern.test(hint));
+  return match ? match[0] : 'other';
+}
+
+// Parse a GPX 1.1 document into a single track (tracks preferred, routes as fallback) plus waypoints
+export function parseGpx(xml: string): ParsedGpx {
+  let document: any;
+  try {
+    document = parser.parse(xml);
+  } catch (error) {
+    throw new Error('File is not valid XML');
+  }
+
+  const gpx = document?.gpx;
+  if (!gpx) {
+    throw new Error('File is not a GPX document');
+  }
+
+  const trackPoints: RoutePoint[] = [];
+  for (const track of gpx.trk || []) {
+    for (const segment of track.trkseg || []) {
+      for (const node of segment.trkpt || []) {
+        const point = toRoutePoint(node);
+        if (point) trackPoints.push(point);
+      }
+    }
+  }
+
+  const routePoints: RoutePoint[] = [];
+  for (const route of gpx.rte || []) {
+    for (const node of route.rtept || []) {
+      const point = toRoutePoint(node);
+      if (point) routePoints.push(point);
+    }
+  }
+
+  const points = trackPoints.length > 0 ? trackPoints : routePoints;
+  if (points.length < 2) {
+    throw new Error('GPX file does not contain a track or route with at least two points');
+  }
+
+  const waypoints: GpxWaypoint[] = [];
+  for (const node of gpx.wpt || []) {
+    const point = toRoutePoint(node);
+    if (!point) continue;
+    waypoints.push({
+      name: textValue(node.name) || `Waypoint ${waypoints.length + 1}`,
+      description: textValue(node.desc),
+      notes: textValue(node.cmt),
+      latitude: point.latitude,
+      longitude: point.longitude,
+      type: waypointType(node),
+    });
+  }
+
+  const source = trackPoints.length > 0 ? gpx.trk?.[0] : gpx.rte?.[0];
+  return {
+    name: textValue(source?.name) || textValue(gpx.metadata?.name),
+    description: textValue(source?.desc) || textValue(gpx.metadata?.desc),
+    points,
+    waypoints,
+  };
+}
+
+// Turn waypoints into pitstops ordered by where they fall along the track
+export function waypointsToPitstops(
+  waypoints: GpxWaypoint[],
+  points: RoutePoint[],
+): Omit<InsertPitstop, 'driveLogId'>[] {
+  const nearestIndex = (waypoint: GpxWaypoint) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    points.forEach((point, index) => {
+      const distance = haversineDistance(point, waypoint);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    });
+    return best;
+  };
+
+  return waypoints
+    .map((waypoint, fileOrder) => ({ waypoint, fileOrder, trackIndex: nearestIndex(waypoint) }))
+    .sort((a, b) => a.trackIndex - b.trackIndex || a.fileOrder - b.fileOrder)
+    .map(({ waypoint }, orderIndex) => ({
+      name: waypoint.name,
+      description: waypoint.description,
+      notes: waypoint.notes,
+      latitude: waypoint.latitude.toFixed(8),
+      longitude: waypoint.longitude.toFixed(8),
+      type: waypoint.type,
+      orderIndex,
+    }));
+}
@@ -0,0 +1,79 @@
+import type { MaintenanceReminder, MaintenanceReminderStatus, ServiceRecord } from "@shared/schema";
+import { storage } from "./storage";
+
+// How close (in days) a time-based reminder gets before it shows as due
+const DUE_SOON_DAYS = 30;
+
+// How close a distance-based reminder gets before it shows as due: a share of the interval, but at least this many km
+const DUE_SOON_SHARE = 0.1;
+const DUE_SOON_MIN_KM = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+// Where a reminder stands: counted from the last matching service, or from when the reminder was set up
+export function reminderStatus(
+  reminder: MaintenanceReminder,
+  lastService: ServiceRecord | undefined,
+  odometer: number | null,
+  now: Date = new Date(),
+): MaintenanceReminderStatus {
+  const baseOdometer = lastService?.odometer != null
+    ? Number(lastService.odometer)
+    : reminder.startOdometer != null ? Number(reminder.startOdometer) : null;
+  const baseDate = lastService ? new Date(lastService.performedAt) : new Date(reminder.createdAt ?? now);
+
+  const dueOdometer = reminder.intervalKm && baseOdometer !== null ? baseOdometer + reminder.intervalKm : null;
+  const dueDate = reminder.intervalMonths ? addMonths(baseDate, reminder.intervalMonths) : null;
+
+  const remainingKm = dueOdometer !== null && odometer !== null ? Math.round(dueOdometer - odometer) : null;
+  const remainingDays = dueDate ? Math.ceil((dueDate.getTime() - now.getTime()) / DAY_MS) : null;
+
+  const dueSoonKm = Math.max(DUE_SOON_MIN_KM, (reminder.intervalKm ?? 0) * DUE_SOON_SHARE);
+  let status: MaintenanceReminderStatus["status"] = "ok";
+  if ((remainingKm !== null && remainingKm < 0) || (remainingDays !== null && remainingDays < 0)) {
+    status = "overdue";
+  } else if ((remainingKm !== null && remainingKm <= dueSoonKm) || (remainingDays !== null && remainingDays <= DUE_SOON_DAYS)) {
+    status = "due";
+  }
+
+  return {
+    reminder,
+    lastServiceAt: lastService ? new Date(lastService.performedAt).toISOString() : null,
+    dueOdometer,
+    dueDate: dueDate ? dueDate.toISOString() : null,
+    remainingKm,
+    remainingDays,
+    status,
+  };
+}
+
+// Every reminder on a vehicle with its current status, most urgent first
+export async function getVehicleMaintenance(vehicleId: number): Promise<{
+  odometer: number | null;
+  reminders: MaintenanceReminderStatus[];
+}> {
+  const [odometer, reminders, records] = await Promise.all([
+    storage.getVehicleOdometer(vehicleId),
+    storage.getVehicleMaintenanceReminders(vehicleId),
+    storage.getVehicleServiceRecords(vehicleId),
+  ]);
+
+  // Records come newest first, so the first match is the last time the work was done
+  const statuses = reminders.map(reminder =>
+    reminderStatus(reminder, records.find(record => record.serviceType === reminder.serviceType), odometer)
+  );
+
+  const urgency = { overdue: 0, due: 1, ok: 2 };
+  statuses.sort((a, b) =>
+    urgency[a.status] - urgency[b.status] ||
+    (a.remainingKm ?? Infinity) - (b.remainingKm ?? Infinity) ||
+    (a.remainingDays ?? Infinity) - (b.remainingDays ?? Infinity)
+  );
+  return { odometer, reminders: statuses };
+}
@@ -178,6 +178,13 @@ export async function generateRouteRecommendations(location: string, preferences
   difficulty?: "easy" | "moderate" | "challenging";
   scenery?: "mountain" | "coastal" | "desert" | "urban";
   vehicleType?: string;
+  favouriteDrives?: Array<{
+    title: string;
+    route: string;
+    distance: number;
+    twistinessScore: number;
+    bendCount: number;
+  }>;
 }): Promise<{
   routes: Array<{
     name: string;
@@ -188,6 +195,11 @@ export async function generateRouteRecommendations(location: string, preferences
     highlights: string[];
   }>;
 }> {
+  // Measured curvature of roads the user has driven, on a 0-100 twistiness scale
+  const favouriteDrives = (preferences.favouriteDrives || [])
+    .map(drive => `- ${drive.title} (${drive.route}): ${drive.distance.toFixed(0)} km, twistiness ${drive.twistinessScore}/100, ${drive.bendCount} significant bends`)
+    .join("\n");
+
   try {
     const response = await openai.chat.completions.create({
       model: "gpt-4o",
@@ -219,7 +231,11 @@ export async function generateRouteRecommendations(location: string, preferences
           Difficulty: ${preferences.difficulty || "any"}
           Scenery type: ${preferences.scenery || "any"}
           Vehicle type: ${preferences.vehicleType || "car"}
-          
+          ${favouriteDrives ? `
+          Roads this driver has recorded, with measured twistiness (0 = straight, 100 = continuous hairpins):
+          ${favouriteDrives}
+          Use these as a reference for how twisty the recommended roads should be, and rate difficulty relative to them.
+          ` : ""}
           Focus on routes that are popular with car enthusiasts and offer great driving experiences.`
         }
       ],
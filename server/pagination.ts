@@ -0,0 +1,100 @@
+import { sql, type AnyColumn, type SQL } from "drizzle-orm";
+import type { CursorPage } from "@shared/schema";
+
+// Keyset pagination shared by the list routes. A cursor is the sort key values of the last item on a
+// page, so the next page starts right after it however many rows were added or removed in the meantime.
+// Clients treat cursors as opaque strings and hand back whatever nextCursor they were given
+export type CursorValue = string | number;
+
+export interface PageRequest {
+  limit: number;
+  after: CursorValue[] | null;
+}
+
+// One ordering column. The last key of a list must be unique (an id) so every row has a distinct position
+export interface SortKey {
+  expression: SQL;
+  direction: "asc" | "desc";
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+// Timestamps are compared at millisecond precision, the most a cursor value can carry through a JS Date
+export function timestampKey(column: AnyColumn, direction: SortKey["direction"] = "desc"): SortKey {
+  return { expression: sql`date_trunc('milliseconds', ${column})`, direction };
+}
+
+export function columnKey(column: AnyColumn | SQL, direction: SortKey["direction"] = "desc"): SortKey {
+  return { expression: sql`${column}`, direction };
+}
+
+export function encodeCursor(values: CursorValue[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+// Null when the cursor isn't one of ours
+export function decodeCursor(value: string): CursorValue[] | null {
+  try {
+    const values = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Array.isArray(values) || values.length === 0) return null;
+    if (!values.every(item => typeof item === "string" || (typeof item === "number" && Number.isFinite(item)))) {
+      return null;
+    }
+    return values;
+  } catch {
+    return null;
+  }
+}
+
+// Page size from a list route's query string, capped so one request can't pull a whole table
+export function pageLimit(query: any): number {
+  return Math.max(Math.min(parseInt(query.limit as string) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE), 1);
+}
+
+// Limit and cursor from a list route's query string; null when the cursor can't be read
+export function pageRequest(query: any): PageRequest | null {
+  const limit = pageLimit(query);
+  if (!query.cursor) return { limit, after: null };
+  const after = decodeCursor(String(query.cursor));
+  return after ? { limit, after } : null;
+}
+
+// Rows strictly after the cursor in the keys' order: (k1, k2, ...) past (c1, c2, ...) lexicographically.
+// A cursor from a differently sorted list matches nothing rather than an arbitrary slice
+export function afterCursor(keys: SortKey[], after: CursorValue[] | null): SQL | undefined {
+  if (!after) return undefined;
+  if (after.length !== keys.length) return sql`false`;
+
+  const past = (index: number): SQL => {
+    const key = keys[index];
+    const beyond = key.direction === "desc"
+      ? sql`${key.expression} < ${after[index]}`
+      : sql`${key.expression} > ${after[index]}`;
+    if (index === keys.length - 1) return beyond;
+    return sql`(${beyond} or (${key.expression} = ${after[index]} and ${past(index + 1)}))`;
+  };
+  return past(0);
+}
+
+export function orderByKeys(keys: SortKey[]): SQL[] {
+  return keys.map(key => (key.direction === "desc" ? sql`${key.expression} desc` : sql`${key.expression} asc`));
+}
+
+export function cursorTimestamp(value: Date | null): string {
+  return (value ?? new Date(0)).toISOString();
+}
+
+// Turn rows fetched with a limit of page.limit + 1 into a page, the extra row only signalling there's more
+export function toPage<Row, Item = Row>(
+  rows: Row[],
+  page: PageRequest,
+  cursorOf: (row: Row) => CursorValue[],
+  toItem: (row: Row) => Item = row => row as unknown as Item,
+): CursorPage<Item> {
+  const pageRows = rows.slice(0, page.limit);
+  return {
+    items: pageRows.map(toItem),
+    nextCursor: rows.length > page.limit ? encodeCursor(cursorOf(pageRows[pageRows.length - 1])) : null,
+  };
+}
@@ -0,0 +1,120 @@
+// Brings existing rows in line with constraints the schema has gained, so `npm run db:push` can apply
+// them. Each step checks whether it's needed, so running this again (or on a fresh database) is harmless.
+// Usage: npm run db:prepare, then npm run db:push
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import type { Executor } from "./aggregates";
+
+interface PreparationStep {
+  description: string;
+  // Rows changed
+  run: (tx: Executor) => Promise<number>;
+}
+
+async function tableExists(tx: Executor, table: string): Promise<boolean> {
+  const result = await tx.execute(sql`select to_regclass(${table}) is not null as "exists"`);
+  return Boolean(result.rows[0]?.exists);
+}
+
+async function columnType(tx: Executor, table: string, column: string): Promise<string | null> {
+  const result = await tx.execute(sql`
+    select data_type from information_schema.columns
+    where table_schema = current_schema() and table_name = ${table} and column_name = ${column}
+  `);
+  return (result.rows[0]?.data_type as string | undefined) ?? null;
+}
+
+const steps: PreparationStep[] = [
+  {
+    // UQ_garage_votes_monthly: votes were never unique, so keep each voter's first vote per garage per month
+    description: "duplicate garage votes removed",
+    run: async (tx) => {
+      if (!(await tableExists(tx, "garage_votes"))) return 0;
+      const result = await tx.execute(sql`
+        delete from garage_votes
+        where id in (
+          select id from (
+            select id, row_number() over (partition by voter_id, garage_owner_id, month, year order by id) as position
+            from garage_votes
+          ) ranked
+          where position > 1
+        )
+      `);
+      return result.rowCount ?? 0;
+    },
+  },
+  {
+    // users.garage_rating was a decimal rating nothing ever wrote; it's now the count of votes received,
+    // so the old values are replaced rather than carried over
+    description: "garage ratings converted to vote counts",
+    run: async (tx) => {
+      if ((await columnType(tx, "users", "garage_rating")) !== "numeric") return 0;
+      await tx.execute(sql`
+        alter table users
+          alter column garage_rating drop default,
+          alter column garage_rating type integer using 0,
+          alter column garage_rating set default 0
+      `);
+      if (!(await tableExists(tx, "garage_votes"))) return 0;
+      const result = await tx.execute(sql`
+        update users set garage_rating = votes.received
+        from (select garage_owner_id, count(*)::integer as received from garage_votes group by garage_owner_id) votes
+        where users.id = votes.garage_owner_id
+      `);
+      return result.rowCount ?? 0;
+    },
+  },
+  {
+    // UQ_vehicle_transfers_pending: of several offers pending on one vehicle, the latest stands
+    description: "superseded pending vehicle transfers cancelled",
+    run: async (tx) => {
+      if (!(await tableExists(tx, "vehicle_transfers"))) return 0;
+      const result = await tx.execute(sql`
+        update vehicle_transfers set status = 'cancelled', responded_at = now()
+        where id in (
+          select id from (
+            select id, row_number() over (partition by vehicle_id order by created_at desc, id desc) as position
+            from vehicle_transfers
+            where status = 'pending'
+          ) ranked
+          where position > 1
+        )
+      `);
+      return result.rowCount ?? 0;
+    },
+  },
+  {
+    // UQ_convoy_participants_pair: joining wasn't checked for duplicates, so keep each person's first join
+    description: "duplicate convoy participants removed",
+    run: async (tx) => {
+      if (!(await tableExists(tx, "convoy_participants"))) return 0;
+      const result = await tx.execute(sql`
+        delete from convoy_participants
+        where id in (
+          select id from (
+            select id, row_number() over (partition by convoy_id, user_id order by id) as position
+            from convoy_participants
+          ) ranked
+          where position > 1
+        )
+      `);
+      return result.rowCount ?? 0;
+    },
+  },
+];
+
+async function main() {
+  await db.transaction(async (tx) => {
+    for (const step of steps) {
+      const changed = await step.run(tx);
+      console.log(`${step.description}: ${changed}`);
+    }
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error("Error preparing the database schema:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,128 @@
+import type { CursorPage, DriveLog, FollowingFeedItem, Pitstop, PrivacyZone, RoutePoint, SimplifiedRoute } from "@shared/schema";
+import { storage } from "./storage";
+import { haversineDistance } from "./route-stats";
+import { buildSimplifiedRoute } from "./track-processing";
+
+// Decimal places kept on a start/end coordinate that had to be moved out of a zone (~100 m)
+const BLURRED_COORDINATE_DECIMALS = 3;
+
+// Locations recorded as raw "lat, lon" text (live recording, GPX import) would give the zone away
+const COORDINATE_TEXT = /^\s*-?\d+(\.\d+)?\s*,\s*-?\d+(\.\d+)?\s*$/;
+
+type DriveLogWithPitstops = DriveLog & { pitstops: Pitstop[] };
+
+export function isInPrivacyZone(point: RoutePoint, zones: PrivacyZone[]): boolean {
+  return zones.some(zone =>
+    haversineDistance(point, { latitude: Number(zone.latitude), longitude: Number(zone.longitude) }) * 1000 <= zone.radius
+  );
+}
+
+function toPoint(latitude: string | null, longitude: string | null): RoutePoint | null {
+  if (latitude === null || longitude === null) return null;
+  return { latitude: Number(latitude), longitude: Number(longitude) };
+}
+
+// A start or end location given as coordinates, when that's all the text is
+function coordinatesIn(location: string): RoutePoint | null {
+  if (!COORDINATE_TEXT.test(location)) return null;
+  const [latitude, longitude] = location.split(',').map(Number);
+  return { latitude, longitude };
+}
+
+function blur(value: number): string {
+  return value.toFixed(BLURRED_COORDINATE_DECIMALS);
+}
+
+// Strip everything inside the owner's zones: track points, pitstops, and precise start/end positions
+export function applyPrivacyZones<T extends DriveLogWithPitstops>(driveLog: T, zones: PrivacyZone[]): T {
+  if (zones.length === 0) return driveLog;
+
+  const track = Array.isArray(driveLog.routeCoordinates) ? driveLog.routeCoordinates as RoutePoint[] : null;
+  const visibleTrack = track ? track.filter(point => !isInPrivacyZone(point, zones)) : null;
+  const trimmed = !!track && !!visibleTrack && visibleTrack.length < track.length;
+
+  let simplifiedRoute = driveLog.simplifiedRoute as SimplifiedRoute | null;
+  if (trimmed) {
+    simplifiedRoute = visibleTrack!.length >= 2 ? buildSimplifiedRoute(visibleTrack!) : null;
+  }
+
+  // A hidden endpoint moves to where the visible track begins or ends, at reduced precision
+  const endpoint = (latitude: string | null, longitude: string | null, location: string, fallback?: RoutePoint) => {
+    const point = toPoint(latitude, longitude);
+    if (!point || !isInPrivacyZone(point, zones)) {
+      return { latitude, longitude, location };
+    }
+    return {
+      latitude: fallback ? blur(fallback.latitude) : null,
+      longitude: fallback ? blur(fallback.longitude) : null,
+      location: COORDINATE_TEXT.test(location) ? 'Private location' : location,
+    };
+  };
+
+  const start = endpoint(driveLog.startLatitude, driveLog.startLongitude, driveLog.startLocation, visibleTrack?.[0]);
+  const end = endpoint(driveLog.endLatitude, driveLog.endLongitude, driveLog.endLocation, visibleTrack?.[visibleTrack.length - 1]);
+
+  return {
+    ...driveLog,
+    routeCoordinates: visibleTrack,
+    simplifiedRoute,
+    startLatitude: start.latitude,
+    startLongitude: start.longitude,
+    startLocation: start.location,
+    endLatitude: end.latitude,
+    endLongitude: end.longitude,
+    endLocation: end.location,
+    pitstops: driveLog.pitstops.filter(pitstop => {
+      const point = toPoint(pitstop.latitude, pitstop.longitude);
+      return !point || !isInPrivacyZone(point, zones);
+    }),
+  };
+}
+
+// Drives in the following feed show their start and end, which mustn't give a zone away either.
+// Only coordinate text can, so a named place stays as the owner wrote it
+export async function applyFeedPrivacy(page: CursorPage<FollowingFeedItem>): Promise<CursorPage<FollowingFeedItem>> {
+  const ownerIds = new Set<string>();
+  for (const item of page.items) {
+    if (item.type === "drive") ownerIds.add(item.driveLog.userId);
+  }
+  const zonesByOwner = new Map<string, PrivacyZone[]>();
+  for (const ownerId of Array.from(ownerIds)) {
+    zonesByOwner.set(ownerId, await storage.getUserPrivacyZones(ownerId));
+  }
+
+  const visible = (location: string, zones: PrivacyZone[]) => {
+    const point = coordinatesIn(location);
+    return point && isInPrivacyZone(point, zones) ? 'Private location' : location;
+  };
+
+  return {
+    ...page,
+    items: page.items.map(item => {
+      if (item.type !== "drive") return item;
+      const zones = zonesByOwner.get(item.driveLog.userId) ?? [];
+      if (zones.length === 0) return item;
+      return {
+        ...item,
+        driveLog: {
+          ...item.driveLog,
+          startLocation: visible(item.driveLog.startLocation, zones),
+          endLocation: visible(item.driveLog.endLocation, zones),
+        },
+      };
+    }),
+  };
+}
+
+// A public drive log as anyone other than its owner may see it; undefined when missing or not public
+export async function getPublicDriveLog(
+  driveLogId: number,
+  options: { fullTrack?: boolean } = {},
+): Promise<DriveLogWithPitstops | undefined> {
+  const driveLog = await storage.getDriveLogWithPitstops(driveLogId, { fullTrack: true });
+  if (!driveLog || !driveLog.isPublic) return undefined;
+
+  const zones = await storage.getUserPrivacyZones(driveLog.userId);
+  const publicDriveLog = applyPrivacyZones(driveLog, zones);
+  return options.fullTrack ? publicDriveLog : { ...publicDriveLog, routeCoordinates: null };
+}
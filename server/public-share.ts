@@ -1,21 +1,15 @@
 import { storage } from "./storage";
+import { getPublicDriveLog } from "./privacy";
 import * as fs from 'fs';
 import * as path from 'path';
 
 export async function generatePublicShareHTML(driveLogId: number, baseUrl: string): Promise<string> {
   try {
     console.log(`Attempting to fetch drive log with ID: ${driveLogId}`);
-    const driveLog = await storage.getDriveLogWithPitstops(driveLogId);
+    const driveLog = await getPublicDriveLog(driveLogId);
     
     if (!driveLog) {
-      console.log(`Drive log ${driveLogId} not found in database`);
-      return generateNotFoundHTML();
-    }
-    
-    console.log(`Drive log ${driveLogId} found. isPublic: ${driveLog.isPublic}`);
-    
-    if (!driveLog.isPublic) {
-      console.log(`Drive log ${driveLogId} is not public`);
+      console.log(`Drive log ${driveLogId} not found or not public`);
       return generateNotFoundHTML();
     }
 
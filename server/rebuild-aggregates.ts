@@ -0,0 +1,25 @@
+// Recomputes the cached user and convoy counters from their source tables.
+// Usage: npm run aggregates:rebuild [-- --dry-run]
+import { rebuildAggregates } from "./aggregates";
+import { pool } from "./db";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const drift = await rebuildAggregates({ dryRun });
+
+  for (const entry of drift) {
+    console.log(`${entry.table} ${entry.id} ${entry.column}: cached ${entry.cached ?? "null"}, actual ${entry.actual}`);
+  }
+  if (drift.length === 0) {
+    console.log("All aggregates are up to date");
+  } else {
+    console.log(`${drift.length} aggregate${drift.length === 1 ? "" : "s"} drifted${dryRun ? " (dry run, nothing written)" : ", now corrected"}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Error rebuilding aggregates:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
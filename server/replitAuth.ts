@@ -5,7 +5,8 @@ import { Strategy as FacebookStrategy } from "passport-facebook";
 
 import passport from "passport";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
@@ -24,7 +25,8 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
+// One session middleware (and one store) for the app, shared with the WebSocket upgrade handler
+export const getSession = memoize(() => {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
@@ -44,7 +46,7 @@ export function getSession() {
       maxAge: sessionTtl,
     },
   });
-}
+});
 
 function updateUserSession(
   user: any,
@@ -250,3 +252,29 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     return res.redirect("/api/login");
   }
 };
+
+// The signed-in user behind a raw HTTP request, such as a WebSocket upgrade that never reaches
+// express. Reads the same session isAuthenticated does, refreshing an expired token the same way
+export async function getRequestUserId(request: IncomingMessage): Promise<string | null> {
+  const req = request as Request;
+  await new Promise<void>((resolve, reject) => {
+    getSession()(req, {} as Response, (error?: unknown) => (error ? reject(error) : resolve()));
+  });
+
+  const user = (req.session as any)?.passport?.user;
+  if (!user?.claims?.sub || !user.expires_at) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now <= user.expires_at) return user.claims.sub;
+  if (!user.refresh_token) return null;
+
+  try {
+    const config = await getOidcConfig();
+    const tokenResponse = await client.refreshTokenGrant(config, user.refresh_token);
+    updateUserSession(user, tokenResponse);
+    await new Promise<void>((resolve, reject) => req.session.save(error => (error ? reject(error) : resolve())));
+    return user.claims.sub;
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,248 @@
+import JSZip from "jszip";
+import type { DriveLog, Pitstop, RoutePoint } from "@shared/schema";
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['gpx', 'kml', 'geojson'];
+
+export type ExportableDriveLog = DriveLog & { pitstops: Pitstop[] };
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function absoluteUrl(url: string, baseUrl: string): string {
+  return /^https?:\/\//.test(url) ? url : `${baseUrl}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+function toPoint(latitude: string | null, longitude: string | null): RoutePoint | null {
+  if (latitude === null || longitude === null) return null;
+  const point = { latitude: Number(latitude), longitude: Number(longitude) };
+  return isNaN(point.latitude) || isNaN(point.longitude) ? null : point;
+}
+
+// The recorded track, or a straight-line sketch through start, pitstops and end when none was recorded
+export function getExportTrack(driveLog: ExportableDriveLog): RoutePoint[] {
+  const recorded = Array.isArray(driveLog.routeCoordinates) ? driveLog.routeCoordinates as RoutePoint[] : [];
+  if (recorded.length > 0) return recorded;
+
+  return [
+    toPoint(driveLog.startLatitude, driveLog.startLongitude),
+    ...driveLog.pitstops.map(p => toPoint(p.latitude, p.longitude)),
+    toPoint(driveLog.endLatitude, driveLog.endLongitude),
+  ].filter((p): p is RoutePoint => p !== null);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'drive';
+}
+
+export function exportFilename(driveLog: DriveLog, format: ExportFormat): string {
+  return `${driveLog.id}-${slugify(driveLog.title)}.${format}`;
+}
+
+function buildGpx(driveLog: ExportableDriveLog, baseUrl: string): string {
+  const track = getExportTrack(driveLog);
+  const start = toPoint(driveLog.startLatitude, driveLog.startLongitude);
+  const end = toPoint(driveLog.endLatitude, driveLog.endLongitude);
+
+  const waypoint = (point: RoutePoint, name: string, type: string, extra = '') =>
+    `  <wpt lat="${point.latitude}" lon="${point.longitude}">\n` +
+    `    <name>${escapeXml(name)}</name>\n${extra}` +
+    `    <type>${escapeXml(type)}</type>\n` +
+    `  </wpt>\n`;
+
+  let waypoints = '';
+  if (start) waypoints += waypoint(start, `Start: ${driveLog.startLocation}`, 'start');
+  for (const pitstop of driveLog.pitstops) {
+    const point = toPoint(pitstop.latitude, pitstop.longitude);
+    if (!point) continue;
+    let extra = '';
+    if (pitstop.notes) extra += `    <cmt>${escapeXml(pitstop.notes)}</cmt>\n`;
+    if (pitstop.description) extra += `    <desc>${escapeXml(pitstop.description)}</desc>\n`;
+    for (const imageUrl of pitstop.imageUrls || []) {
+      extra += `    <link href="${escapeXml(absoluteUrl(imageUrl, baseUrl))}"><type>image</type></link>\n`;
+    }
+    waypoints += waypoint(point, pitstop.name, pitstop.type, extra);
+  }
+  if (end) waypoints += waypoint(end, `End: ${driveLog.endLocation}`, 'end');
+
+  const trackPoints = track.map(point => {
+    const children =
+      (typeof point.elevation === 'number' ? `<ele>${point.elevation}</ele>` : '') +
+      (point.timestamp ? `<time>${point.timestamp}</time>` : '');
+    return children
+      ? `      <trkpt lat="${point.latitude}" lon="${point.longitude}">${children}</trkpt>`
+      : `      <trkpt lat="${point.latitude}" lon="${point.longitude}"/>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="TorqueTrail" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${escapeXml(driveLog.title)}</name>
+${driveLog.description ? `    <desc>${escapeXml(driveLog.description)}</desc>\n` : ''}    <time>${new Date(driveLog.startTime).toISOString()}</time>
+  </metadata>
+${waypoints}  <trk>
+    <name>${escapeXml(driveLog.routeName || driveLog.title)}</name>
+    <trkseg>
+${trackPoints}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
+
+function buildKml(driveLog: ExportableDriveLog, baseUrl: string): string {
+  const track = getExportTrack(driveLog);
+  const start = toPoint(driveLog.startLatitude, driveLog.startLongitude);
+  const end = toPoint(driveLog.endLatitude, driveLog.endLongitude);
+
+  const extendedData = (data: Record<string, string | number | null | undefined>) => {
+    const entries = Object.entries(data)
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([name, value]) => `        <Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`);
+    return entries.length > 0 ? `      <ExtendedData>\n${entries.join('\n')}\n      </ExtendedData>\n` : '';
+  };
+
+  const placemark = (point: RoutePoint, name: string, body = '') =>
+    `    <Placemark>\n      <name>${escapeXml(name)}</name>\n${body}` +
+    `      <Point><coordinates>${point.longitude},${point.latitude}</coordinates></Point>\n    </Placemark>\n`;
+
+  let placemarks = '';
+  if (start) placemarks += placemark(start, `Start: ${driveLog.startLocation}`, extendedData({ type: 'start' }));
+  for (const pitstop of driveLog.pitstops) {
+    const point = toPoint(pitstop.latitude, pitstop.longitude);
+    if (!point) continue;
+    const body =
+      (pitstop.description ? `      <description>${escapeXml(pitstop.description)}</description>\n` : '') +
+      extendedData({
+        type: pitstop.type,
+        orderIndex: pitstop.orderIndex,
+        address: pitstop.address,
+        notes: pitstop.notes,
+        imageUrls: (pitstop.imageUrls || []).map(url => absoluteUrl(url, baseUrl)).join(' '),
+      });
+    placemarks += placemark(point, pitstop.name, body);
+  }
+  if (end) placemarks += placemark(end, `End: ${driveLog.endLocation}`, extendedData({ type: 'end' }));
+
+  const coordinates = track
+    .map(point => typeof point.elevation === 'number'
+      ? `${point.longitude},${point.latitude},${point.elevation}`
+      : `${point.longitude},${point.latitude}`)
+    .join(' ');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(driveLog.title)}</name>
+${driveLog.description ? `    <description>${escapeXml(driveLog.description)}</description>\n` : ''}    <Placemark>
+      <name>${escapeXml(driveLog.routeName || driveLog.title)}</name>
+${extendedData({ distance: driveLog.distance, startTime: new Date(driveLog.startTime).toISOString() })}      <LineString>
+        <tessellate>1</tessellate>
+        <coordinates>${coordinates}</coordinates>
+      </LineString>
+    </Placemark>
+${placemarks}  </Document>
+</kml>
+`;
+}
+
+function buildGeoJson(driveLog: ExportableDriveLog, baseUrl: string): string {
+  const track = getExportTrack(driveLog);
+  const start = toPoint(driveLog.startLatitude, driveLog.startLongitude);
+  const end = toPoint(driveLog.endLatitude, driveLog.endLongitude);
+  const pointFeature = (point: RoutePoint, properties: Record<string, unknown>) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [point.longitude, point.latitude] },
+    properties,
+  });
+
+  const features: unknown[] = [{
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: track.map(point =>
+        typeof point.elevation === 'number'
+          ? [point.longitude, point.latitude, point.elevation]
+          : [point.longitude, point.latitude]),
+    },
+    properties: {
+      kind: 'route',
+      title: driveLog.title,
+      description: driveLog.description,
+      routeName: driveLog.routeName,
+      distance: Number(driveLog.distance),
+      totalAscent: driveLog.totalAscent !== null ? Number(driveLog.totalAscent) : undefined,
+      totalDescent: driveLog.totalDescent !== null ? Number(driveLog.totalDescent) : undefined,
+      startTime: driveLog.startTime,
+      endTime: driveLog.endTime,
+      timestamps: track.some(point => point.timestamp) ? track.map(point => point.timestamp ?? null) : undefined,
+    },
+  }];
+
+  if (start) features.push(pointFeature(start, { kind: 'start', name: driveLog.startLocation }));
+  for (const pitstop of driveLog.pitstops) {
+    const point = toPoint(pitstop.latitude, pitstop.longitude);
+    if (!point) continue;
+    features.push(pointFeature(point, {
+      kind: 'pitstop',
+      name: pitstop.name,
+      type: pitstop.type,
+      orderIndex: pitstop.orderIndex,
+      description: pitstop.description,
+      address: pitstop.address,
+      notes: pitstop.notes,
+      imageUrls: (pitstop.imageUrls || []).map(url => absoluteUrl(url, baseUrl)),
+    }));
+  }
+  if (end) features.push(pointFeature(end, { kind: 'end', name: driveLog.endLocation }));
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+// Serialise a drive log and its ordered pitstops in the requested format
+export function buildDriveLogExport(driveLog: ExportableDriveLog, format: ExportFormat, baseUrl: string): ExportFile {
+  const builders: Record<ExportFormat, (log: ExportableDriveLog, url: string) => string> = {
+    gpx: buildGpx,
+    kml: buildKml,
+    geojson: buildGeoJson,
+  };
+
+  return {
+    filename: exportFilename(driveLog, format),
+    contentType: CONTENT_TYPES[format],
+    content: builders[format](driveLog, baseUrl),
+  };
+}
+
+// Bundle several drive logs into a single zip archive, one file per log
+export async function buildDriveLogArchive(driveLogs: ExportableDriveLog[], format: ExportFormat, baseUrl: string): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const driveLog of driveLogs) {
+    const file = buildDriveLogExport(driveLog, format, baseUrl);
+    zip.file(file.filename, file.content);
+  }
+  return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
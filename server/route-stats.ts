@@ -0,0 +1,80 @@
+import type { RoutePoint } from "@shared/schema";
+
+const EARTH_RADIUS_KM = 6371;
+
+// Minimum time window used when measuring top speed, so single-fix GPS jitter doesn't register as a spike
+const MAX_SPEED_WINDOW_SECONDS = 10;
+
+export interface RouteStats {
+  distance: number; // km
+  duration: number | null; // minutes
+  startTime: Date | null;
+  endTime: Date | null;
+  avgSpeed: number | null; // km/h
+  maxSpeed: number | null; // km/h
+}
+
+// Great-circle distance between two points in kilometres
+export function haversineDistance(a: RoutePoint, b: RoutePoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function pointTime(point: RoutePoint): number | null {
+  if (!point.timestamp) return null;
+  const time = new Date(point.timestamp).getTime();
+  return isNaN(time) ? null : time;
+}
+
+// Derive distance, timing and speed figures from an ordered list of track points
+export function computeRouteStats(points: RoutePoint[]): RouteStats {
+  // Cumulative distance at each point, reused for the max speed windows
+  const cumulative: number[] = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineDistance(points[i - 1], points[i]));
+  }
+  const distance = cumulative[cumulative.length - 1] || 0;
+
+  const timed = points
+    .map((point, index) => ({ index, time: pointTime(point) }))
+    .filter((p): p is { index: number; time: number } => p.time !== null);
+
+  if (timed.length < 2) {
+    return { distance, duration: null, startTime: null, endTime: null, avgSpeed: null, maxSpeed: null };
+  }
+
+  const startMs = timed[0].time;
+  const endMs = timed[timed.length - 1].time;
+  const elapsedHours = (endMs - startMs) / 3600000;
+
+  let maxSpeed = 0;
+  let windowEnd = 0;
+  for (let i = 0; i < timed.length; i++) {
+    windowEnd = Math.max(windowEnd, i + 1);
+    while (windowEnd < timed.length && (timed[windowEnd].time - timed[i].time) / 1000 < MAX_SPEED_WINDOW_SECONDS) {
+      windowEnd++;
+    }
+    if (windowEnd >= timed.length) break;
+
+    const hours = (timed[windowEnd].time - timed[i].time) / 3600000;
+    const km = cumulative[timed[windowEnd].index] - cumulative[timed[i].index];
+    if (hours > 0) {
+      maxSpeed = Math.max(maxSpeed, km / hours);
+    }
+  }
+
+  return {
+    distance,
+    duration: Math.round((endMs - startMs) / 60000),
+    startTime: new Date(startMs),
+    endTime: new Date(endMs),
+    avgSpeed: elapsedHours > 0 ? distance / elapsedHours : null,
+    // Short tracks may never span a full window; fall back to the average
+    maxSpeed: maxSpeed > 0 ? maxSpeed : elapsedHours > 0 ? distance / elapsedHours : null,
+  };
+}
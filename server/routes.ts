@@ -1,24 +1,58 @@
 import type { Express } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import { existsSync, mkdirSync } from "fs";
 import * as path from "path";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupConvoySocket } from "./convoy-socket";
+import { scheduleConvoyLifecycle } from "./convoy-schedule";
+import { canTransitionManually } from "./convoy-lifecycle";
 import {
   insertVehicleSchema,
   insertPostSchema,
   insertDriveLogSchema,
   insertConvoySchema,
+  convoyStatusChangeSchema,
   insertPostCommentSchema,
+  insertPrivacyZoneSchema,
+  insertFuelEntrySchema,
+  insertServiceRecordSchema,
+  insertMaintenanceReminderSchema,
+  insertVehicleModificationSchema,
+  insertPerformanceRecordSchema,
+  updateVehiclePhotoSchema,
+  reorderVehiclePhotosSchema,
+  insertVehicleDocumentSchema,
+  createVehicleTransferSchema,
+  markPostsSeenSchema,
+  routePointSchema,
+  twistinessDifficulty,
+  type RoutePoint,
+  type FuelEntry,
+  type FuelEconomySummary,
+  type VehiclePhoto,
 } from "@shared/schema";
 import { generateDriveBlog, analyzeVehicleImage, generateRouteRecommendations } from "./openai";
 import { calculateReadTime } from "./readTime";
 import { generatePublicShareHTML } from "./public-share";
-import { getUploadMiddleware, getImageUrl, isS3Configured, deleteImage, imageExists, migrateImagesToPersistent } from "./storage-service";
+import { getPublicDriveLog, applyFeedPrivacy } from "./privacy";
+import { getUploadMiddleware, getTrackUploadMiddleware, getReceiptUploadMiddleware, getDocumentUploadMiddleware, getPrivateFilePath, deletePrivateFile, getImageUrl, isS3Configured, deleteImage, imageExists, migrateImagesToPersistent } from "./storage-service";
 import { imageStorage } from "./image-manager";
 import { replitStorage } from "./replit-storage";
+import { parseGpx, waypointsToPitstops } from "./gpx";
+import { computeRouteStats } from "./route-stats";
+import { parseRouteCoordinates, rejectOutliers } from "./track-processing";
+import { extractSegment } from "./segments";
+import { computeFuelEconomy, estimateFuelUsed } from "./fuel-economy";
+import { getVehicleMaintenance } from "./maintenance";
+import { buildBuildSheet } from "./build-sheet";
+import { decodeVin } from "./vin";
+import { getExpiringDocuments, DOCUMENT_WARNING_DAYS } from "./documents";
+import { computeVehicleStats } from "./vehicle-stats";
+import { decodeFeedCursor, rankFeedPage, type FeedSnapshot } from "./feed-ranking";
+import { pageLimit, pageRequest } from "./pagination";
+import { buildDriveLogExport, buildDriveLogArchive, isExportFormat, EXPORT_FORMATS } from "./route-export";
 import { z } from "zod";
 import { fileURLToPath } from "url";
 import * as fs from "fs";
@@ -34,6 +68,16 @@ if (!existsSync(uploadsDir)) {
 
 // Get upload middleware (S3 or local based on configuration)
 const upload = getUploadMiddleware();
+const trackUpload = getTrackUploadMiddleware();
+const receiptUpload = getReceiptUploadMiddleware();
+const documentUpload = getDocumentUploadMiddleware();
+
+// Gallery photos uploaded here live in persistent storage; adopted images from elsewhere are left alone
+async function deleteVehiclePhotoFile(photo: VehiclePhoto) {
+  if (photo.url.startsWith('/persistent-uploads/')) {
+    await deleteImage(path.basename(photo.url));
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Serve uploaded files statically
@@ -88,17 +132,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/user/stats', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
       
       // Get user's drive logs to calculate total kilometers
       const driveLogs = await storage.getUserDriveLogs(userId);
       const totalKilometers = driveLogs.reduce((sum, log) => sum + Number(log.distance), 0);
       
-      // Get convoys user has organized or joined
+      // Get convoys user has organized or joined; organizers are signed up to their own convoys
       const userConvoys = await storage.getUserConvoys(userId);
-      const convoyParticipations = await storage.getConvoyParticipants(0); // Get all to filter by user
-      const joinedConvoys = convoyParticipations.filter(p => p.userId === userId).length;
+      const organizedConvoys = userConvoys.filter(convoy => convoy.organizerId === userId).length;
+      const joinedConvoys = userConvoys.length - organizedConvoys;
       
-      // Get garage votes for rating
+      // Get this month's garage votes; the all-time total is cached on the user
       const currentMonth = new Date().getMonth() + 1;
       const currentYear = new Date().getFullYear();
       const garageVotes = await storage.getMonthlyGarageVotes(currentMonth, currentYear);
@@ -106,10 +151,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const stats = {
         totalKilometers: Math.round(totalKilometers * 10) / 10, // Round to 1 decimal
-        convoysOrganized: userConvoys.length,
+        convoysOrganized: organizedConvoys,
         convoysJoined: joinedConvoys,
-        totalConvoys: userConvoys.length + joinedConvoys,
-        garageRating: userVotes ? userVotes.votes : 0,
+        totalConvoys: user?.totalConvoys ?? 0,
+        garageRating: user?.garageRating ?? 0,
+        garageVotesThisMonth: userVotes ? userVotes.votes : 0,
+        followers: user?.followers ?? 0,
+        following: user?.following ?? 0,
         driveLogs: driveLogs.length,
       };
       
@@ -136,9 +184,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (vehicleData.year) vehicleData.year = parseInt(vehicleData.year);
       if (vehicleData.horsepower) vehicleData.horsepower = parseInt(vehicleData.horsepower);
       if (vehicleData.isPublic !== undefined) vehicleData.isPublic = vehicleData.isPublic === 'true';
+      if (vehicleData.odometer) vehicleData.odometerRecordedAt = new Date();
+      else delete vehicleData.odometer;
       
       const validatedData = insertVehicleSchema.parse(vehicleData);
       const vehicle = await storage.createVehicle(validatedData);
+      if (vehicle.imageUrl) {
+        await storage.addVehiclePhotos(vehicle, [{ url: vehicle.imageUrl }]);
+      }
       res.json(vehicle);
     } catch (error) {
       console.error("Error creating vehicle:", error);
@@ -149,14 +202,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/vehicles', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const vehicles = await storage.getUserVehicles(userId);
-      res.json(vehicles);
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await storage.getUserVehiclesPage(userId, page));
     } catch (error) {
       console.error("Error fetching vehicles:", error);
       res.status(500).json({ message: "Failed to fetch vehicles" });
     }
   });
 
+  app.get('/api/vehicles/fuel-economy', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const entries = await storage.getUserFuelEntries(userId);
+      const byVehicle = new Map<number, FuelEntry[]>();
+      for (const entry of entries) {
+        byVehicle.set(entry.vehicleId, [...(byVehicle.get(entry.vehicleId) || []), entry]);
+      }
+      const summaries: Record<number, FuelEconomySummary> = {};
+      byVehicle.forEach((vehicleEntries, vehicleId) => {
+        summaries[vehicleId] = computeFuelEconomy(vehicleEntries);
+      });
+      res.json(summaries);
+    } catch (error) {
+      console.error("Error fetching fuel economy:", error);
+      res.status(500).json({ message: "Failed to fetch fuel economy" });
+    }
+  });
+
+  app.get('/api/vehicles/photos', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const photos = await storage.getUserVehiclePhotos(userId);
+      const galleries: Record<number, VehiclePhoto[]> = {};
+      for (const photo of photos) {
+        (galleries[photo.vehicleId] ||= []).push(photo);
+      }
+      res.json(galleries);
+    } catch (error) {
+      console.error("Error fetching vehicle photos:", error);
+      res.status(500).json({ message: "Failed to fetch vehicle photos" });
+    }
+  });
+
+  // Decoded from bundled tables, so this works offline and without an AI key
+  app.get('/api/vehicles/vin/:vin', isAuthenticated, async (req, res) => {
+    try {
+      let decoded;
+      try {
+        decoded = decodeVin(req.params.vin);
+      } catch (decodeError) {
+        return res.status(400).json({
+          message: "Invalid VIN",
+          details: decodeError instanceof Error ? decodeError.message : 'Unknown decode error'
+        });
+      }
+      res.json(decoded);
+    } catch (error) {
+      console.error("Error decoding VIN:", error);
+      res.status(500).json({ message: "Failed to decode VIN" });
+    }
+  });
+
   app.get('/api/vehicles/:id', isAuthenticated, async (req, res) => {
     try {
       const vehicleId = parseInt(req.params.id);
@@ -173,33 +282,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/vehicles/:id', isAuthenticated, upload.single('image'), async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        if (req.file) await deleteImage(req.file.filename);
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
       
       // Handle image upload if present
       let updates = { ...req.body };
       if (req.file) {
         const imagePath = `/persistent-uploads/${req.file.filename}`;
         updates.imageUrl = imagePath;
+
+        // A replacement image joins the gallery as the new cover rather than discarding the old one
+        await storage.addVehiclePhotos(vehicle, [{ url: imagePath }]);
       }
       
       // Convert FormData string values to proper types
       if (updates.year) updates.year = parseInt(updates.year);
       if (updates.horsepower) updates.horsepower = parseInt(updates.horsepower);
       if (updates.isPublic !== undefined) updates.isPublic = updates.isPublic === 'true';
+
+      // A new odometer reading restarts the count of distance driven since it was taken
+      delete updates.odometerRecordedAt;
+      if (updates.odometer === '') {
+        delete updates.odometer;
+      } else if (updates.odometer !== undefined) {
+        if (Number(vehicle.odometer) !== Number(updates.odometer) || vehicle.odometer === null) {
+          updates.odometerRecordedAt = new Date();
+        }
+      }
       
-      const validatedUpdates = insertVehicleSchema.partial().parse(updates);
-      const vehicle = await storage.updateVehicle(vehicleId, validatedUpdates);
-      res.json(vehicle);
+      // Ownership only changes hands through a transfer, so userId isn't accepted here
+      const validatedUpdates = insertVehicleSchema.omit({ userId: true }).partial().parse(updates);
+      const updatedVehicle = await storage.updateVehicle(vehicleId, validatedUpdates);
+      res.json(updatedVehicle);
     } catch (error) {
       console.error("Error updating vehicle:", error);
       res.status(500).json({ message: "Failed to update vehicle" });
     }
   });
 
-  app.delete('/api/vehicles/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/vehicles/:id', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const [photos, documents] = await Promise.all([
+        storage.getVehiclePhotos(vehicleId),
+        storage.getVehicleDocuments(vehicleId),
+      ]);
       await storage.deleteVehicle(vehicleId);
+      await Promise.all(photos.map(deleteVehiclePhotoFile));
+      await Promise.all(documents.filter(document => document.fileName).map(document => deletePrivateFile(document.fileName!)));
       res.json({ message: "Vehicle deleted successfully" });
     } catch (error) {
       console.error("Error deleting vehicle:", error);
@@ -231,209 +371,1079 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Post routes
-  app.post('/api/posts', isAuthenticated, upload.array('media', 5), async (req: any, res) => {
+  // Fuel log routes
+  // Drive logs and station pitstops linked to a fill-up must belong to the same owner
+  const validateFuelEntryLinks = async (userId: string, driveLogId?: number | null, pitstopId?: number | null) => {
+    if (driveLogId) {
+      const driveLog = await storage.getDriveLog(driveLogId);
+      if (!driveLog || driveLog.userId !== userId) return "Linked drive log not found";
+    }
+    if (pitstopId) {
+      const pitstop = await storage.getPitstop(pitstopId);
+      const pitstopDriveLog = pitstop ? await storage.getDriveLog(pitstop.driveLogId) : undefined;
+      if (!pitstopDriveLog || pitstopDriveLog.userId !== userId) return "Linked pitstop not found";
+    }
+    return null;
+  };
+
+  app.get('/api/vehicles/:id/stats', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      
-      // Handle file uploads
-      const imageUrls: string[] = [];
-      const videoUrls: string[] = [];
-      
-      if (req.files) {
-        for (const file of req.files) {
-          // In a real app, you'd upload to cloud storage and get URLs
-          // For now, we'll use base64 data URLs
-          const base64 = file.buffer.toString('base64');
-          const dataUrl = `data:${file.mimetype};base64,${base64}`;
-          
-          if (file.mimetype.startsWith('image/')) {
-            imageUrls.push(dataUrl);
-          } else if (file.mimetype.startsWith('video/')) {
-            videoUrls.push(dataUrl);
-          }
-        }
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
       }
+      const [drives, fuelEntries, convoys] = await Promise.all([
+        storage.getVehicleDrives(vehicleId),
+        storage.getVehicleFuelEntries(vehicleId),
+        storage.getVehicleConvoys(vehicleId),
+      ]);
+      res.json(computeVehicleStats(drives, fuelEntries, convoys));
+    } catch (error) {
+      console.error("Error fetching vehicle stats:", error);
+      res.status(500).json({ message: "Failed to fetch vehicle stats" });
+    }
+  });
 
-      // Process tags if provided
-      let tagsArray: string[] | undefined;
-      if (req.body.tags && req.body.tags.trim()) {
-        tagsArray = req.body.tags.split(',').map((tag: string) => tag.trim()).filter(Boolean);
+  app.get('/api/vehicles/:id/fuel-entries', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
       }
+      const entries = await storage.getVehicleFuelEntries(vehicleId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching fuel entries:", error);
+      res.status(500).json({ message: "Failed to fetch fuel entries" });
+    }
+  });
 
-      // Calculate estimated read time
-      const estimatedReadTime = req.body.content ? calculateReadTime(req.body.content, req.body.title) : undefined;
+  app.get('/api/vehicles/:id/fuel-economy', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const entries = await storage.getVehicleFuelEntries(vehicleId);
+      res.json(computeFuelEconomy(entries));
+    } catch (error) {
+      console.error("Error fetching fuel economy:", error);
+      res.status(500).json({ message: "Failed to fetch fuel economy" });
+    }
+  });
 
-      const postData = insertPostSchema.parse({
-        ...req.body,
-        userId,
-        imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
-        videoUrls: videoUrls.length > 0 ? videoUrls : undefined,
-        vehicleId: req.body.vehicleId ? parseInt(req.body.vehicleId) : undefined,
-        isAiGenerated: req.body.isAiGenerated === 'true',
-        estimatedReadTime,
-        tags: tagsArray,
-      });
+  app.post('/api/vehicles/:id/fuel-entries', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
 
-      const post = await storage.createPost(postData);
-      res.json(post);
+      const result = insertFuelEntrySchema.safeParse({ ...req.body, vehicleId, userId });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid fuel entry", details: result.error.issues });
+      }
+      const linkError = await validateFuelEntryLinks(userId, result.data.driveLogId, result.data.pitstopId);
+      if (linkError) {
+        return res.status(400).json({ message: linkError });
+      }
+
+      const entry = await storage.createFuelEntry(result.data);
+      res.json(entry);
     } catch (error) {
-      console.error("Error creating post:", error);
-      res.status(500).json({ message: "Failed to create post" });
+      console.error("Error creating fuel entry:", error);
+      res.status(500).json({ message: "Failed to create fuel entry" });
     }
   });
 
-  app.get('/api/posts/feed', isAuthenticated, async (req, res) => {
+  app.patch('/api/fuel-entries/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
-      const posts = await storage.getFeedPosts(limit, offset);
-      res.json(posts);
+      const userId = req.user.claims.sub;
+      const entryId = parseInt(req.params.id);
+      const entry = await storage.getFuelEntry(entryId);
+      if (!entry || entry.userId !== userId) {
+        return res.status(404).json({ message: "Fuel entry not found" });
+      }
+
+      const result = insertFuelEntrySchema.omit({ vehicleId: true, userId: true }).partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid fuel entry", details: result.error.issues });
+      }
+      const linkError = await validateFuelEntryLinks(userId, result.data.driveLogId, result.data.pitstopId);
+      if (linkError) {
+        return res.status(400).json({ message: linkError });
+      }
+
+      const updatedEntry = await storage.updateFuelEntry(entryId, result.data);
+      res.json(updatedEntry);
     } catch (error) {
-      console.error("Error fetching feed:", error);
-      res.status(500).json({ message: "Failed to fetch feed" });
+      console.error("Error updating fuel entry:", error);
+      res.status(500).json({ message: "Failed to update fuel entry" });
     }
   });
 
-  app.get('/api/posts/user/:userId', isAuthenticated, async (req, res) => {
+  app.delete('/api/fuel-entries/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.params.userId;
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
-      const posts = await storage.getUserPosts(userId, limit, offset);
-      res.json(posts);
+      const userId = req.user.claims.sub;
+      const entryId = parseInt(req.params.id);
+      const entry = await storage.getFuelEntry(entryId);
+      if (!entry || entry.userId !== userId) {
+        return res.status(404).json({ message: "Fuel entry not found" });
+      }
+      await storage.deleteFuelEntry(entryId);
+      res.json({ message: "Fuel entry deleted successfully" });
     } catch (error) {
-      console.error("Error fetching user posts:", error);
-      res.status(500).json({ message: "Failed to fetch user posts" });
+      console.error("Error deleting fuel entry:", error);
+      res.status(500).json({ message: "Failed to delete fuel entry" });
     }
   });
 
-  app.get('/api/posts/user', isAuthenticated, async (req: any, res) => {
+  // Maintenance routes
+  app.get('/api/maintenance/due', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
-      const posts = await storage.getUserPosts(userId, limit, offset);
-      res.json(posts);
+      const vehicles = await storage.getUserVehicles(userId);
+      const due = [];
+      for (const vehicle of vehicles) {
+        const { odometer, reminders } = await getVehicleMaintenance(vehicle.id);
+        for (const reminder of reminders) {
+          if (reminder.status !== 'ok') {
+            due.push({ ...reminder, odometer, vehicle: { id: vehicle.id, make: vehicle.make, model: vehicle.model, year: vehicle.year } });
+          }
+        }
+      }
+      res.json(due);
     } catch (error) {
-      console.error("Error fetching current user posts:", error);
-      res.status(500).json({ message: "Failed to fetch user posts" });
+      console.error("Error fetching due maintenance:", error);
+      res.status(500).json({ message: "Failed to fetch due maintenance" });
     }
   });
 
-  app.post('/api/posts/:id/like', isAuthenticated, async (req: any, res) => {
+  app.get('/api/vehicles/:id/maintenance', isAuthenticated, async (req: any, res) => {
     try {
-      const postId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
-      
-      const isLiked = await storage.isPostLikedByUser(postId, userId);
-      if (isLiked) {
-        await storage.unlikePost(postId, userId);
-        res.json({ liked: false });
-      } else {
-        await storage.likePost(postId, userId);
-        res.json({ liked: true });
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
       }
+      res.json(await getVehicleMaintenance(vehicleId));
     } catch (error) {
-      console.error("Error toggling post like:", error);
-      res.status(500).json({ message: "Failed to toggle post like" });
+      console.error("Error fetching maintenance:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance" });
     }
   });
 
-  app.post('/api/posts/:id/save', isAuthenticated, async (req: any, res) => {
+  app.get('/api/vehicles/:id/service-records', isAuthenticated, async (req: any, res) => {
     try {
-      const postId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
-      
-      const isSaved = await storage.isPostSavedByUser(postId, userId);
-      if (isSaved) {
-        await storage.unsavePost(postId, userId);
-        res.json({ saved: false });
-      } else {
-        await storage.savePost(postId, userId);
-        res.json({ saved: true });
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
       }
+      const records = await storage.getVehicleServiceRecords(vehicleId);
+      res.json(records);
     } catch (error) {
-      console.error("Error toggling post save:", error);
-      res.status(500).json({ message: "Failed to toggle post save" });
+      console.error("Error fetching service records:", error);
+      res.status(500).json({ message: "Failed to fetch service records" });
     }
   });
 
-  app.get('/api/posts/saved', isAuthenticated, async (req: any, res) => {
+  app.post('/api/vehicles/:id/service-records', isAuthenticated, receiptUpload.array('receipts', 5), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
-      const savedPosts = await storage.getUserSavedPosts(userId, limit, offset);
-      res.json(savedPosts);
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      const receiptUrls = files.map(file => `/persistent-uploads/${file.filename}`);
+
+      const result = insertServiceRecordSchema.safeParse({ ...req.body, vehicleId, userId, receiptUrls });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid service record", details: result.error.issues });
+      }
+      const record = await storage.createServiceRecord(result.data);
+      res.json(record);
     } catch (error) {
-      console.error("Error fetching saved posts:", error);
-      res.status(500).json({ message: "Failed to fetch saved posts" });
+      console.error("Error creating service record:", error);
+      res.status(500).json({ message: "Failed to create service record" });
     }
   });
 
-  app.put('/api/posts/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/service-records/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const postId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
+      const recordId = parseInt(req.params.id);
+      const record = await storage.getServiceRecord(recordId);
+      if (!record || record.userId !== userId) {
+        return res.status(404).json({ message: "Service record not found" });
+      }
+      await storage.deleteServiceRecord(recordId);
+      res.json({ message: "Service record deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting service record:", error);
+      res.status(500).json({ message: "Failed to delete service record" });
+    }
+  });
 
-      // First check if the post exists and belongs to the user
-      const existingPost = await storage.getPost(postId);
-      if (!existingPost) {
-        return res.status(404).json({ message: "Post not found" });
+  app.post('/api/vehicles/:id/reminders', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
       }
-      
-      if (existingPost.userId !== userId) {
-        return res.status(403).json({ message: "You can only edit your own posts" });
+
+      // Distance intervals count from today's odometer unless the owner says otherwise
+      const startOdometer = req.body.startOdometer ?? await storage.getVehicleOdometer(vehicleId);
+      const result = insertMaintenanceReminderSchema.safeParse({ ...req.body, vehicleId, userId, startOdometer });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid reminder", details: result.error.issues });
       }
+      const reminder = await storage.createMaintenanceReminder(result.data);
+      res.json(reminder);
+    } catch (error) {
+      console.error("Error creating reminder:", error);
+      res.status(500).json({ message: "Failed to create reminder" });
+    }
+  });
 
-      // Update the post
-      const updates: Partial<any> = {};
-      if (req.body.title !== undefined) updates.title = req.body.title || null;
-      if (req.body.content !== undefined) updates.content = req.body.content;
+  app.delete('/api/maintenance-reminders/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const reminderId = parseInt(req.params.id);
+      const reminder = await storage.getMaintenanceReminder(reminderId);
+      if (!reminder || reminder.userId !== userId) {
+        return res.status(404).json({ message: "Reminder not found" });
+      }
+      await storage.deleteMaintenanceReminder(reminderId);
+      res.json({ message: "Reminder deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting reminder:", error);
+      res.status(500).json({ message: "Failed to delete reminder" });
+    }
+  });
 
-      const updatedPost = await storage.updatePost(postId, updates);
-      res.json(updatedPost);
+  // Build sheet routes
+  app.get('/api/vehicles/:id/build-sheet', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const [modifications, records] = await Promise.all([
+        storage.getVehicleModifications(vehicleId),
+        storage.getVehiclePerformanceRecords(vehicleId),
+      ]);
+      res.json(buildBuildSheet(vehicle, modifications, records));
     } catch (error) {
-      console.error("Error updating post:", error);
-      res.status(500).json({ message: "Failed to update post" });
+      console.error("Error fetching build sheet:", error);
+      res.status(500).json({ message: "Failed to fetch build sheet" });
     }
   });
 
-  // Drive log routes
-  app.post('/api/drive-logs', isAuthenticated, upload.any(), async (req: any, res) => {
+  app.post('/api/vehicles/:id/modifications', isAuthenticated, upload.array('photos', 5), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      
-      console.log('Drive log creation - Request body:', JSON.stringify(req.body, null, 2));
-      console.log('Drive log creation - Files:', req.files?.map(f => ({ fieldname: f.fieldname, filename: f.filename })));
-      
-      // Prepare data for schema validation - let schema handle type conversion
-      const cleanData = {
-        ...req.body,
-        userId,
-        startTime: req.body.startTime ? new Date(req.body.startTime) : new Date(),
-        endTime: req.body.endTime && req.body.endTime !== '' ? new Date(req.body.endTime) : null,
-        isPublic: req.body.isPublic === 'true' || req.body.isPublic === true,
-      };
-      
-      console.log('Drive log creation - Cleaned data:', JSON.stringify(cleanData, null, 2));
-      
-      let driveLogData;
-      try {
-        driveLogData = insertDriveLogSchema.parse(cleanData);
-        console.log('Drive log creation - Schema validation passed');
-      } catch (validationError) {
-        console.error('Drive log creation - Schema validation failed:', validationError);
-        return res.status(400).json({ 
-          message: "Invalid data provided", 
-          details: validationError.issues || validationError.message 
-        });
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
       }
-      
-      // Handle title image upload if present
-      const titleImageFile = req.files?.find((file: any) => file.fieldname === 'titleImage');
-      if (titleImageFile) {
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      const photoUrls = files.map(file => `/persistent-uploads/${file.filename}`);
+
+      const result = insertVehicleModificationSchema.safeParse({ ...req.body, vehicleId, userId, photoUrls });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid modification", details: result.error.issues });
+      }
+      const modification = await storage.createVehicleModification(result.data);
+      res.json(modification);
+    } catch (error) {
+      console.error("Error creating modification:", error);
+      res.status(500).json({ message: "Failed to create modification" });
+    }
+  });
+
+  app.delete('/api/modifications/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const modificationId = parseInt(req.params.id);
+      const modification = await storage.getVehicleModification(modificationId);
+      if (!modification || modification.userId !== userId) {
+        return res.status(404).json({ message: "Modification not found" });
+      }
+      await storage.deleteVehicleModification(modificationId);
+      res.json({ message: "Modification deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting modification:", error);
+      res.status(500).json({ message: "Failed to delete modification" });
+    }
+  });
+
+  app.post('/api/vehicles/:id/performance-records', isAuthenticated, upload.single('timeslip'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const timeslipUrl = req.file ? `/persistent-uploads/${req.file.filename}` : null;
+      const result = insertPerformanceRecordSchema.safeParse({ ...req.body, vehicleId, userId, timeslipUrl });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid performance record", details: result.error.issues });
+      }
+      const record = await storage.createPerformanceRecord(result.data);
+      res.json(record);
+    } catch (error) {
+      console.error("Error creating performance record:", error);
+      res.status(500).json({ message: "Failed to create performance record" });
+    }
+  });
+
+  app.delete('/api/performance-records/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const recordId = parseInt(req.params.id);
+      const record = await storage.getPerformanceRecord(recordId);
+      if (!record || record.userId !== userId) {
+        return res.status(404).json({ message: "Performance record not found" });
+      }
+      await storage.deletePerformanceRecord(recordId);
+      res.json({ message: "Performance record deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting performance record:", error);
+      res.status(500).json({ message: "Failed to delete performance record" });
+    }
+  });
+
+  // Vehicle gallery routes
+  app.get('/api/vehicles/:id/photos', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || (vehicle.userId !== userId && !vehicle.isPublic)) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const photos = await storage.getVehiclePhotos(vehicleId);
+      res.json(photos);
+    } catch (error) {
+      console.error("Error fetching vehicle photos:", error);
+      res.status(500).json({ message: "Failed to fetch vehicle photos" });
+    }
+  });
+
+  app.post('/api/vehicles/:id/photos', isAuthenticated, upload.array('photos', 10), async (req: any, res) => {
+    const files = (req.files as Express.Multer.File[]) || [];
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        await Promise.all(files.map(file => deleteImage(file.filename)));
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No photos provided" });
+      }
+      if (files.some(file => !file.mimetype.startsWith('image/'))) {
+        await Promise.all(files.map(file => deleteImage(file.filename)));
+        return res.status(400).json({ message: "Only images can be added to the gallery" });
+      }
+
+      // Captions arrive as a repeated form field, one per photo in upload order
+      const captions: string[] = [].concat(req.body.captions ?? []);
+      const photos = await storage.addVehiclePhotos(vehicle, files.map((file, index) => ({
+        url: `/persistent-uploads/${file.filename}`,
+        caption: captions[index]?.trim().slice(0, 200) || null,
+      })));
+      res.status(201).json(photos);
+    } catch (error) {
+      console.error("Error adding vehicle photos:", error);
+      res.status(500).json({ message: "Failed to add vehicle photos" });
+    }
+  });
+
+  app.put('/api/vehicles/:id/photos/order', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const result = reorderVehiclePhotosSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid photo order", details: result.error.issues });
+      }
+      const photos = await storage.getVehiclePhotos(vehicleId);
+      const { photoIds } = result.data;
+      if (photoIds.length !== photos.length || new Set(photoIds).size !== photoIds.length ||
+          !photos.every(photo => photoIds.includes(photo.id))) {
+        return res.status(400).json({ message: "Photo order must list every photo of the vehicle once" });
+      }
+
+      const reordered = await storage.reorderVehiclePhotos(vehicleId, photoIds);
+      res.json(reordered);
+    } catch (error) {
+      console.error("Error reordering vehicle photos:", error);
+      res.status(500).json({ message: "Failed to reorder vehicle photos" });
+    }
+  });
+
+  app.put('/api/vehicles/:id/cover', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const photo = await storage.getVehiclePhoto(parseInt(req.body.photoId));
+      if (!photo || photo.vehicleId !== vehicleId) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      const updated = await storage.updateVehicle(vehicleId, { imageUrl: photo.url });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error setting cover photo:", error);
+      res.status(500).json({ message: "Failed to set cover photo" });
+    }
+  });
+
+  app.patch('/api/vehicle-photos/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const photoId = parseInt(req.params.id);
+      const photo = await storage.getVehiclePhoto(photoId);
+      if (!photo || photo.userId !== userId) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+
+      const result = updateVehiclePhotoSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid photo", details: result.error.issues });
+      }
+      const updated = await storage.updateVehiclePhoto(photoId, { caption: result.data.caption || null });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating vehicle photo:", error);
+      res.status(500).json({ message: "Failed to update vehicle photo" });
+    }
+  });
+
+  app.delete('/api/vehicle-photos/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const photoId = parseInt(req.params.id);
+      const photo = await storage.getVehiclePhoto(photoId);
+      if (!photo || photo.userId !== userId) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      await storage.deleteVehiclePhoto(photo);
+      await deleteVehiclePhotoFile(photo);
+      res.json({ message: "Photo deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting vehicle photo:", error);
+      res.status(500).json({ message: "Failed to delete vehicle photo" });
+    }
+  });
+
+  // Vehicle document routes; documents are only ever visible to the vehicle's owner
+  app.get('/api/documents/expiring', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const days = req.query.days !== undefined ? parseInt(req.query.days as string) : DOCUMENT_WARNING_DAYS;
+      if (isNaN(days) || days < 0 || days > 365) {
+        return res.status(400).json({ message: "days must be between 0 and 365" });
+      }
+      const expiring = await getExpiringDocuments(userId, days);
+      res.json(expiring);
+    } catch (error) {
+      console.error("Error fetching expiring documents:", error);
+      res.status(500).json({ message: "Failed to fetch expiring documents" });
+    }
+  });
+
+  app.get('/api/vehicles/:id/documents', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const documents = await storage.getVehicleDocuments(vehicleId);
+      res.json(documents);
+    } catch (error) {
+      console.error("Error fetching vehicle documents:", error);
+      res.status(500).json({ message: "Failed to fetch vehicle documents" });
+    }
+  });
+
+  app.post('/api/vehicles/:id/documents', isAuthenticated, documentUpload.single('file'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        if (req.file) await deletePrivateFile(req.file.filename);
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const result = insertVehicleDocumentSchema.safeParse({
+        ...req.body,
+        documentNumber: req.body.documentNumber || null,
+        issuer: req.body.issuer || null,
+        issuedAt: req.body.issuedAt || null,
+        expiresAt: req.body.expiresAt || null,
+        notes: req.body.notes || null,
+        fileName: req.file?.filename ?? null,
+        originalName: req.file?.originalname ?? null,
+        mimeType: req.file?.mimetype ?? null,
+        vehicleId,
+        userId,
+      });
+      if (!result.success) {
+        if (req.file) await deletePrivateFile(req.file.filename);
+        return res.status(400).json({ message: "Invalid document", details: result.error.issues });
+      }
+
+      const document = await storage.createVehicleDocument(result.data);
+      res.status(201).json(document);
+    } catch (error) {
+      console.error("Error creating vehicle document:", error);
+      res.status(500).json({ message: "Failed to create vehicle document" });
+    }
+  });
+
+  app.get('/api/vehicle-documents/:id/file', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const document = await storage.getVehicleDocument(parseInt(req.params.id));
+      if (!document || document.userId !== userId || !document.fileName) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      const filePath = getPrivateFilePath(document.fileName);
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ message: "Document file not found" });
+      }
+
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.setHeader('Content-Type', document.mimeType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `inline; filename="${(document.originalName || document.fileName).replace(/"/g, '')}"`);
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error("Error sending vehicle document:", error);
+      res.status(500).json({ message: "Failed to fetch vehicle document" });
+    }
+  });
+
+  app.delete('/api/vehicle-documents/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const documentId = parseInt(req.params.id);
+      const document = await storage.getVehicleDocument(documentId);
+      if (!document || document.userId !== userId) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      await storage.deleteVehicleDocument(documentId);
+      if (document.fileName) {
+        await deletePrivateFile(document.fileName);
+      }
+      res.json({ message: "Document deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting vehicle document:", error);
+      res.status(500).json({ message: "Failed to delete vehicle document" });
+    }
+  });
+
+  // Vehicle transfer routes; the seller offers, the buyer accepts or declines
+  app.post('/api/vehicles/:id/transfers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || vehicle.userId !== userId) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const result = createVehicleTransferSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid transfer", details: result.error.issues });
+      }
+
+      const recipient = await storage.getUserByUsernameOrEmail(result.data.recipient);
+      if (!recipient) {
+        return res.status(404).json({ message: "No member found with that username or email" });
+      }
+      if (recipient.id === userId) {
+        return res.status(400).json({ message: "You already own this vehicle" });
+      }
+      if (await storage.getPendingVehicleTransfer(vehicleId)) {
+        return res.status(409).json({ message: "This vehicle already has a pending transfer" });
+      }
+
+      const transfer = await storage.createVehicleTransfer({
+        vehicleId,
+        fromUserId: userId,
+        toUserId: recipient.id,
+        includeServiceHistory: result.data.includeServiceHistory,
+        includeBuildSheet: result.data.includeBuildSheet,
+        message: result.data.message ?? null,
+      });
+      // Another offer got in between the check above and the insert
+      if (!transfer) {
+        return res.status(409).json({ message: "This vehicle already has a pending transfer" });
+      }
+      res.status(201).json(transfer);
+    } catch (error) {
+      console.error("Error creating vehicle transfer:", error);
+      res.status(500).json({ message: "Failed to create vehicle transfer" });
+    }
+  });
+
+  app.get('/api/transfers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const transfers = await storage.getUserVehicleTransfers(userId);
+      res.json(transfers);
+    } catch (error) {
+      console.error("Error fetching vehicle transfers:", error);
+      res.status(500).json({ message: "Failed to fetch vehicle transfers" });
+    }
+  });
+
+  app.post('/api/transfers/:id/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const transfer = await storage.getVehicleTransfer(parseInt(req.params.id));
+      if (!transfer || transfer.toUserId !== userId) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      if (transfer.status !== 'pending') {
+        return res.status(409).json({ message: `This transfer was already ${transfer.status}` });
+      }
+
+      // Checked again under lock, in case of a cancel or a second accept in the meantime
+      const result = await storage.completeVehicleTransfer(transfer.id);
+      if (result.outcome === "not_pending") {
+        return res.status(409).json({ message: `This transfer was already ${result.status}` });
+      }
+      if (result.outcome === "not_owned") {
+        return res.status(409).json({ message: "The vehicle is no longer owned by the sender" });
+      }
+      res.json(result.vehicle);
+    } catch (error) {
+      console.error("Error accepting vehicle transfer:", error);
+      res.status(500).json({ message: "Failed to accept vehicle transfer" });
+    }
+  });
+
+  app.post('/api/transfers/:id/decline', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const transfer = await storage.getVehicleTransfer(parseInt(req.params.id));
+      if (!transfer || transfer.toUserId !== userId) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      if (transfer.status !== 'pending') {
+        return res.status(409).json({ message: `This transfer was already ${transfer.status}` });
+      }
+      const updatedTransfer = await storage.respondToVehicleTransfer(transfer.id, 'declined');
+      if (!updatedTransfer) {
+        return res.status(409).json({ message: "This transfer is no longer pending" });
+      }
+      res.json(updatedTransfer);
+    } catch (error) {
+      console.error("Error declining vehicle transfer:", error);
+      res.status(500).json({ message: "Failed to decline vehicle transfer" });
+    }
+  });
+
+  app.post('/api/transfers/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const transfer = await storage.getVehicleTransfer(parseInt(req.params.id));
+      if (!transfer || transfer.fromUserId !== userId) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      if (transfer.status !== 'pending') {
+        return res.status(409).json({ message: `This transfer was already ${transfer.status}` });
+      }
+      const updatedTransfer = await storage.respondToVehicleTransfer(transfer.id, 'cancelled');
+      if (!updatedTransfer) {
+        return res.status(409).json({ message: "This transfer is no longer pending" });
+      }
+      res.json(updatedTransfer);
+    } catch (error) {
+      console.error("Error cancelling vehicle transfer:", error);
+      res.status(500).json({ message: "Failed to cancel vehicle transfer" });
+    }
+  });
+
+  app.get('/api/vehicles/:id/ownership', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicleId = parseInt(req.params.id);
+      const vehicle = await storage.getVehicle(vehicleId);
+      if (!vehicle || (vehicle.userId !== userId && !vehicle.isPublic)) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      const history = await storage.getVehicleOwnershipHistory(vehicleId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching ownership history:", error);
+      res.status(500).json({ message: "Failed to fetch ownership history" });
+    }
+  });
+
+  // Follow routes
+  app.get('/api/users/:id/follow', isAuthenticated, async (req: any, res) => {
+    try {
+      const following = await storage.isFollowing(req.user.claims.sub, req.params.id);
+      res.json({ following });
+    } catch (error) {
+      console.error("Error fetching follow status:", error);
+      res.status(500).json({ message: "Failed to fetch follow status" });
+    }
+  });
+
+  app.post('/api/users/:id/follow', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const targetId = req.params.id;
+      if (targetId === userId) {
+        return res.status(400).json({ message: "You can't follow yourself" });
+      }
+      const target = await storage.getUser(targetId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await storage.followUser(userId, targetId);
+      const updated = await storage.getUser(targetId);
+      res.json({ following: true, followers: updated?.followers ?? 0 });
+    } catch (error) {
+      console.error("Error following user:", error);
+      res.status(500).json({ message: "Failed to follow user" });
+    }
+  });
+
+  app.delete('/api/users/:id/follow', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const targetId = req.params.id;
+      await storage.unfollowUser(userId, targetId);
+      const updated = await storage.getUser(targetId);
+      res.json({ following: false, followers: updated?.followers ?? 0 });
+    } catch (error) {
+      console.error("Error unfollowing user:", error);
+      res.status(500).json({ message: "Failed to unfollow user" });
+    }
+  });
+
+  app.get('/api/users/:id/followers', isAuthenticated, async (req, res) => {
+    try {
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await storage.getFollowers(req.params.id, page));
+    } catch (error) {
+      console.error("Error fetching followers:", error);
+      res.status(500).json({ message: "Failed to fetch followers" });
+    }
+  });
+
+  app.get('/api/users/:id/following', isAuthenticated, async (req, res) => {
+    try {
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await storage.getFollowing(req.params.id, page));
+    } catch (error) {
+      console.error("Error fetching following:", error);
+      res.status(500).json({ message: "Failed to fetch following" });
+    }
+  });
+
+  app.get('/api/feed/following', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await applyFeedPrivacy(await storage.getFollowingFeed(userId, page)));
+    } catch (error) {
+      console.error("Error fetching following feed:", error);
+      res.status(500).json({ message: "Failed to fetch following feed" });
+    }
+  });
+
+  // Post routes
+  app.post('/api/posts', isAuthenticated, upload.array('media', 5), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      // Handle file uploads
+      const imageUrls: string[] = [];
+      const videoUrls: string[] = [];
+      
+      if (req.files) {
+        for (const file of req.files) {
+          // In a real app, you'd upload to cloud storage and get URLs
+          // For now, we'll use base64 data URLs
+          const base64 = file.buffer.toString('base64');
+          const dataUrl = `data:${file.mimetype};base64,${base64}`;
+          
+          if (file.mimetype.startsWith('image/')) {
+            imageUrls.push(dataUrl);
+          } else if (file.mimetype.startsWith('video/')) {
+            videoUrls.push(dataUrl);
+          }
+        }
+      }
+
+      // Process tags if provided
+      let tagsArray: string[] | undefined;
+      if (req.body.tags && req.body.tags.trim()) {
+        tagsArray = req.body.tags.split(',').map((tag: string) => tag.trim()).filter(Boolean);
+      }
+
+      // Calculate estimated read time
+      const estimatedReadTime = req.body.content ? calculateReadTime(req.body.content, req.body.title) : undefined;
+
+      const postData = insertPostSchema.parse({
+        ...req.body,
+        userId,
+        imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
+        videoUrls: videoUrls.length > 0 ? videoUrls : undefined,
+        vehicleId: req.body.vehicleId ? parseInt(req.body.vehicleId) : undefined,
+        isAiGenerated: req.body.isAiGenerated === 'true',
+        estimatedReadTime,
+        tags: tagsArray,
+      });
+
+      const post = await storage.createPost(postData);
+      res.json(post);
+    } catch (error) {
+      console.error("Error creating post:", error);
+      res.status(500).json({ message: "Failed to create post" });
+    }
+  });
+
+  // Ranked feed. The first page starts a snapshot at the current time; seenBefore (when the client
+  // opened the feed) keeps posts seen during this visit from vanishing when the first page is refetched.
+  // Later pages pass the cursor from the page before, which carries the snapshot along
+  app.get('/api/posts/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const limit = pageLimit(req.query);
+
+      let snapshot: FeedSnapshot;
+      let after: { score: number; id: number } | null = null;
+      if (req.query.cursor) {
+        try {
+          ({ snapshot, after } = decodeFeedCursor(String(req.query.cursor)));
+        } catch (error) {
+          return res.status(400).json({ message: (error as Error).message });
+        }
+      } else {
+        const asOf = new Date();
+        const seenBefore = req.query.seenBefore ? new Date(String(req.query.seenBefore)) : asOf;
+        if (isNaN(seenBefore.getTime())) {
+          return res.status(400).json({ message: "Invalid seenBefore" });
+        }
+        snapshot = { asOf, seenBefore: seenBefore > asOf ? asOf : seenBefore };
+      }
+
+      const candidates = await storage.getFeedCandidates(userId, snapshot);
+      res.json(rankFeedPage(candidates, snapshot, after, limit));
+    } catch (error) {
+      console.error("Error fetching feed:", error);
+      res.status(500).json({ message: "Failed to fetch feed" });
+    }
+  });
+
+  app.post('/api/posts/seen', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = markPostsSeenSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid post ids", details: result.error.issues });
+      }
+      await storage.markPostsSeen(userId, result.data.postIds);
+      res.json({ message: "Posts marked as seen" });
+    } catch (error) {
+      console.error("Error marking posts seen:", error);
+      res.status(500).json({ message: "Failed to mark posts seen" });
+    }
+  });
+
+  app.get('/api/posts/user/:userId', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.params.userId;
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await storage.getUserPosts(userId, page));
+    } catch (error) {
+      console.error("Error fetching user posts:", error);
+      res.status(500).json({ message: "Failed to fetch user posts" });
+    }
+  });
+
+  app.get('/api/posts/user', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await storage.getUserPosts(userId, page));
+    } catch (error) {
+      console.error("Error fetching current user posts:", error);
+      res.status(500).json({ message: "Failed to fetch user posts" });
+    }
+  });
+
+  app.post('/api/posts/:id/like', isAuthenticated, async (req: any, res) => {
+    try {
+      const postId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const isLiked = await storage.isPostLikedByUser(postId, userId);
+      if (isLiked) {
+        await storage.unlikePost(postId, userId);
+        res.json({ liked: false });
+      } else {
+        await storage.likePost(postId, userId);
+        res.json({ liked: true });
+      }
+    } catch (error) {
+      console.error("Error toggling post like:", error);
+      res.status(500).json({ message: "Failed to toggle post like" });
+    }
+  });
+
+  app.post('/api/posts/:id/save', isAuthenticated, async (req: any, res) => {
+    try {
+      const postId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      
+      const isSaved = await storage.isPostSavedByUser(postId, userId);
+      if (isSaved) {
+        await storage.unsavePost(postId, userId);
+        res.json({ saved: false });
+      } else {
+        await storage.savePost(postId, userId);
+        res.json({ saved: true });
+      }
+    } catch (error) {
+      console.error("Error toggling post save:", error);
+      res.status(500).json({ message: "Failed to toggle post save" });
+    }
+  });
+
+  app.get('/api/posts/saved', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await storage.getUserSavedPosts(userId, page));
+    } catch (error) {
+      console.error("Error fetching saved posts:", error);
+      res.status(500).json({ message: "Failed to fetch saved posts" });
+    }
+  });
+
+  app.put('/api/posts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const postId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      // First check if the post exists and belongs to the user
+      const existingPost = await storage.getPost(postId);
+      if (!existingPost) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      
+      if (existingPost.userId !== userId) {
+        return res.status(403).json({ message: "You can only edit your own posts" });
+      }
+
+      // Update the post
+      const updates: Partial<any> = {};
+      if (req.body.title !== undefined) updates.title = req.body.title || null;
+      if (req.body.content !== undefined) updates.content = req.body.content;
+
+      const updatedPost = await storage.updatePost(postId, updates);
+      res.json(updatedPost);
+    } catch (error) {
+      console.error("Error updating post:", error);
+      res.status(500).json({ message: "Failed to update post" });
+    }
+  });
+
+  // Drive log routes
+  app.post('/api/drive-logs', isAuthenticated, upload.any(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      console.log('Drive log creation - Request body:', JSON.stringify(req.body, null, 2));
+      console.log('Drive log creation - Files:', req.files?.map(f => ({ fieldname: f.fieldname, filename: f.filename })));
+      
+      // Prepare data for schema validation - let schema handle type conversion
+      const cleanData = {
+        ...req.body,
+        userId,
+        startTime: req.body.startTime ? new Date(req.body.startTime) : new Date(),
+        endTime: req.body.endTime && req.body.endTime !== '' ? new Date(req.body.endTime) : null,
+        isPublic: req.body.isPublic === 'true' || req.body.isPublic === true,
+      };
+      
+      console.log('Drive log creation - Cleaned data:', JSON.stringify(cleanData, null, 2));
+      
+      let driveLogData;
+      try {
+        driveLogData = insertDriveLogSchema.parse(cleanData);
+        console.log('Drive log creation - Schema validation passed');
+      } catch (validationError) {
+        console.error('Drive log creation - Schema validation failed:', validationError);
+        return res.status(400).json({ 
+          message: "Invalid data provided", 
+          details: validationError.issues || validationError.message 
+        });
+      }
+      
+      // Handle title image upload if present
+      const titleImageFile = req.files?.find((file: any) => file.fieldname === 'titleImage');
+      if (titleImageFile) {
         // Use persistent storage path directly since multer is configured for it
         driveLogData.titleImageUrl = `/persistent-uploads/${titleImageFile.filename}`;
         console.log('Drive log creation - Title image saved to persistent storage:', driveLogData.titleImageUrl);
@@ -452,67 +1462,385 @@ export async function registerRoutes(app: Express): Promise<Server> {
           details: dbError.message || 'Unknown database error' 
         });
       }
-      
-      // Handle pitstops if provided
-      if (req.body.pitstops) {
-        try {
-          const pitstopsData = JSON.parse(req.body.pitstops);
-          
-          for (let i = 0; i < pitstopsData.length; i++) {
-            const pitstopData = pitstopsData[i];
-            
-            // Process pitstop images
-            const pitstopImageFiles = req.files?.filter((file: any) => 
-              file.fieldname.startsWith(`pitstop_${i}_image_`)
-            ) || [];
-            
-            const imageUrls = pitstopImageFiles.map((file: any) => `/persistent-uploads/${file.filename}`);
-            
-            // Create pitstop
-            await storage.createPitstop({
-              driveLogId: driveLog.id,
-              name: pitstopData.name,
-              description: pitstopData.description,
-              latitude: pitstopData.latitude,
-              longitude: pitstopData.longitude,
-              address: pitstopData.address,
-              placeId: pitstopData.placeId,
-              type: pitstopData.type,
-              orderIndex: pitstopData.orderIndex,
-              imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
-              notes: pitstopData.notes,
-            });
-          }
-        } catch (pitstopError) {
-          console.error("Error processing pitstops:", pitstopError);
-        }
+      
+      // Handle pitstops if provided
+      if (req.body.pitstops) {
+        try {
+          const pitstopsData = JSON.parse(req.body.pitstops);
+          
+          for (let i = 0; i < pitstopsData.length; i++) {
+            const pitstopData = pitstopsData[i];
+            
+            // Process pitstop images
+            const pitstopImageFiles = req.files?.filter((file: any) => 
+              file.fieldname.startsWith(`pitstop_${i}_image_`)
+            ) || [];
+            
+            const imageUrls = pitstopImageFiles.map((file: any) => `/persistent-uploads/${file.filename}`);
+            
+            // Create pitstop
+            await storage.createPitstop({
+              driveLogId: driveLog.id,
+              name: pitstopData.name,
+              description: pitstopData.description,
+              latitude: pitstopData.latitude,
+              longitude: pitstopData.longitude,
+              address: pitstopData.address,
+              placeId: pitstopData.placeId,
+              type: pitstopData.type,
+              orderIndex: pitstopData.orderIndex,
+              imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
+              notes: pitstopData.notes,
+            });
+          }
+        } catch (pitstopError) {
+          console.error("Error processing pitstops:", pitstopError);
+        }
+      }
+      
+      res.json(driveLog);
+    } catch (error) {
+      console.error("Error creating drive log:", error);
+      res.status(500).json({ message: "Failed to create drive log" });
+    }
+  });
+
+  // Import a drive log from a GPX file, deriving distance, timing and speeds from the track
+  app.post('/api/drive-logs/import/gpx', isAuthenticated, trackUpload.single('file'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No GPX file provided" });
+      }
+
+      let gpx;
+      try {
+        gpx = parseGpx(req.file.buffer.toString('utf-8'));
+      } catch (parseError) {
+        return res.status(400).json({
+          message: "Invalid GPX file",
+          details: parseError instanceof Error ? parseError.message : 'Unknown parse error'
+        });
+      }
+
+      // Work from the cleaned track so GPS jumps don't inflate distance or top speed
+      const points = rejectOutliers(gpx.points);
+      const stats = computeRouteStats(points);
+      const firstPoint = points[0];
+      const lastPoint = points[points.length - 1];
+      const formatPoint = (point: typeof firstPoint) => `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`;
+      const startTime = stats.startTime
+        || (req.body.startTime ? new Date(req.body.startTime) : new Date());
+
+      const result = insertDriveLogSchema.safeParse({
+        userId,
+        title: req.body.title || gpx.name || `Drive on ${startTime.toLocaleDateString()}`,
+        description: req.body.description || gpx.description,
+        startLocation: req.body.startLocation || formatPoint(firstPoint),
+        endLocation: req.body.endLocation || formatPoint(lastPoint),
+        startLatitude: firstPoint.latitude.toFixed(8),
+        startLongitude: firstPoint.longitude.toFixed(8),
+        endLatitude: lastPoint.latitude.toFixed(8),
+        endLongitude: lastPoint.longitude.toFixed(8),
+        route: req.body.route || undefined,
+        routeName: req.body.routeName || gpx.name,
+        vehicleId: req.body.vehicleId,
+        distance: stats.distance.toFixed(2),
+        duration: stats.duration,
+        startTime,
+        endTime: stats.endTime,
+        avgSpeed: stats.avgSpeed !== null ? stats.avgSpeed.toFixed(2) : null,
+        maxSpeed: stats.maxSpeed !== null ? stats.maxSpeed.toFixed(2) : null,
+        routeCoordinates: points,
+        isPublic: req.body.isPublic === undefined ? true : req.body.isPublic === 'true' || req.body.isPublic === true,
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid drive log", details: result.error.issues });
+      }
+      const driveLogData = result.data;
+      if (driveLogData.vehicleId) {
+        const vehicle = await storage.getVehicle(driveLogData.vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(403).json({ message: "You can only log drives for your own vehicles" });
+        }
+      }
+
+      const driveLog = await storage.createDriveLog(driveLogData);
+
+      const pitstops = [];
+      for (const pitstop of waypointsToPitstops(gpx.waypoints, points)) {
+        pitstops.push(await storage.createPitstop({ ...pitstop, driveLogId: driveLog.id }));
+      }
+
+      res.json({ ...driveLog, totalPitstops: pitstops.length, pitstops });
+    } catch (error) {
+      console.error("Error importing GPX drive log:", error);
+      res.status(500).json({ message: "Failed to import GPX file" });
+    }
+  });
+
+  app.get('/api/drive-logs', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const sort = ['date', 'distance', 'twistiness'].includes(req.query.sort) ? req.query.sort : 'date';
+      const minTwistiness = parseInt(req.query.minTwistiness as string);
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      const driveLogs = await storage.getUserDriveLogsPage(userId, {
+        sort,
+        minTwistiness: isNaN(minTwistiness) ? undefined : minTwistiness,
+      }, page);
+      res.json(driveLogs);
+    } catch (error) {
+      console.error("Error fetching drive logs:", error);
+      res.status(500).json({ message: "Failed to fetch drive logs" });
+    }
+  });
+
+  // Live trip recording: the in-progress drive log for the current user, if any
+  app.get('/api/drive-logs/live', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const driveLog = await storage.getRecordingDriveLog(userId);
+      res.json(driveLog || null);
+    } catch (error) {
+      console.error("Error fetching live drive log:", error);
+      res.status(500).json({ message: "Failed to fetch live drive log" });
+    }
+  });
+
+  app.post('/api/drive-logs/live', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      // Resume rather than start a second recording if one is already in progress
+      const existing = await storage.getRecordingDriveLog(userId);
+      if (existing) {
+        return res.json(existing);
+      }
+
+      const startTime = new Date();
+      const result = insertDriveLogSchema.safeParse({
+        userId,
+        title: req.body.title || `Drive on ${startTime.toLocaleDateString()}`,
+        description: req.body.description,
+        startLocation: req.body.startLocation || 'Live recording',
+        endLocation: req.body.endLocation || 'Live recording',
+        vehicleId: req.body.vehicleId,
+        distance: "0",
+        startTime,
+        routeCoordinates: [],
+        isPublic: req.body.isPublic === undefined ? true : req.body.isPublic === true || req.body.isPublic === 'true',
+        status: "recording",
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid drive log", details: result.error.issues });
+      }
+      const driveLogData = result.data;
+      if (driveLogData.vehicleId) {
+        const vehicle = await storage.getVehicle(driveLogData.vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(403).json({ message: "You can only log drives for your own vehicles" });
+        }
+      }
+
+      const driveLog = await storage.createDriveLog(driveLogData);
+      res.json(driveLog);
+    } catch (error) {
+      console.error("Error starting live drive log:", error);
+      res.status(500).json({ message: "Failed to start live drive log" });
+    }
+  });
+
+  app.post('/api/drive-logs/:id/points', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const driveLogId = parseInt(req.params.id);
+
+      const driveLog = await storage.getDriveLog(driveLogId);
+      if (!driveLog || driveLog.userId !== userId) {
+        return res.status(404).json({ message: 'Drive log not found' });
+      }
+      if (driveLog.status !== 'recording') {
+        return res.status(409).json({ message: 'Drive log is not being recorded' });
+      }
+
+      const parsed = z.array(routePointSchema).max(5000).safeParse(req.body.points);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid track points", details: parsed.error.issues });
+      }
+
+      const updatedDriveLog = await storage.appendRoutePoints(driveLogId, parsed.data);
+      const routeCoordinates = (updatedDriveLog.routeCoordinates as RoutePoint[] | null) || [];
+      res.json({
+        id: updatedDriveLog.id,
+        distance: updatedDriveLog.distance,
+        pointCount: routeCoordinates.length,
+        lastTimestamp: routeCoordinates[routeCoordinates.length - 1]?.timestamp ?? null,
+      });
+    } catch (error) {
+      console.error("Error appending track points:", error);
+      res.status(500).json({ message: "Failed to append track points" });
+    }
+  });
+
+  app.post('/api/drive-logs/:id/finish', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const driveLogId = parseInt(req.params.id);
+
+      const driveLog = await storage.getDriveLog(driveLogId);
+      if (!driveLog || driveLog.userId !== userId) {
+        return res.status(404).json({ message: 'Drive log not found' });
+      }
+      if (driveLog.status !== 'recording') {
+        return res.status(409).json({ message: 'Drive log is not being recorded' });
+      }
+
+      const points = rejectOutliers((driveLog.routeCoordinates as RoutePoint[] | null) || []);
+      const stats = computeRouteStats(points);
+      const lastPoint = points[points.length - 1];
+      const endTime = stats.endTime || new Date();
+
+      const completedDriveLog = await storage.completeRecordingDriveLog(driveLogId, {
+        title: req.body.title || driveLog.title,
+        description: req.body.description ?? driveLog.description,
+        endLocation: req.body.endLocation
+          || (lastPoint ? `${lastPoint.latitude.toFixed(5)}, ${lastPoint.longitude.toFixed(5)}` : driveLog.endLocation),
+        startLocation: req.body.startLocation || driveLog.startLocation,
+        distance: stats.distance.toFixed(2),
+        duration: Math.round((endTime.getTime() - new Date(driveLog.startTime).getTime()) / 60000),
+        endTime,
+        avgSpeed: stats.avgSpeed !== null ? stats.avgSpeed.toFixed(2) : null,
+        maxSpeed: stats.maxSpeed !== null ? stats.maxSpeed.toFixed(2) : null,
+        routeCoordinates: points,
+      });
+
+      res.json(completedDriveLog);
+    } catch (error) {
+      console.error("Error finishing live drive log:", error);
+      res.status(500).json({ message: "Failed to finish live drive log" });
+    }
+  });
+
+  // Export all of the user's drive logs as a zip archive (registered before /:id so "export" isn't taken as an id)
+  app.get('/api/drive-logs/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const format = req.query.format || 'gpx';
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      }
+
+      const userDriveLogs = await storage.getUserDriveLogs(userId);
+      const exportable = [];
+      for (const driveLog of userDriveLogs) {
+        const pitstops = await storage.getPitstopsByDriveLog(driveLog.id);
+        exportable.push({ ...driveLog, pitstops });
+      }
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const archive = await buildDriveLogArchive(exportable, format, baseUrl);
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="torquetrail-drive-logs-${format}.zip"`);
+      res.send(archive);
+    } catch (error) {
+      console.error("Error exporting drive logs:", error);
+      res.status(500).json({ message: "Failed to export drive logs" });
+    }
+  });
+
+  app.get('/api/drive-logs/:id/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const driveLogId = parseInt(req.params.id);
+      const format = req.query.format || 'gpx';
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      }
+
+      const driveLog = await storage.getDriveLogWithPitstops(driveLogId, { fullTrack: true });
+      if (!driveLog || driveLog.userId !== userId) {
+        return res.status(404).json({ message: 'Drive log not found' });
       }
-      
-      res.json(driveLog);
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const file = buildDriveLogExport(driveLog, format, baseUrl);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
     } catch (error) {
-      console.error("Error creating drive log:", error);
-      res.status(500).json({ message: "Failed to create drive log" });
+      console.error("Error exporting drive log:", error);
+      res.status(500).json({ message: "Failed to export drive log" });
     }
   });
 
-  app.get('/api/drive-logs', isAuthenticated, async (req: any, res) => {
+  app.get('/api/drive-logs/:id/fuel', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const driveLogs = await storage.getUserDriveLogs(userId);
-      res.json(driveLogs);
+      const driveLogId = parseInt(req.params.id);
+      const driveLog = await storage.getDriveLog(driveLogId);
+      if (!driveLog || driveLog.userId !== userId) {
+        return res.status(404).json({ message: 'Drive log not found' });
+      }
+
+      const fillUps = await storage.getDriveLogFuelEntries(driveLogId);
+
+      // Without a recorded figure, estimate from the vehicle's fuel economy
+      let fuelConsumed = driveLog.fuelConsumed !== null ? Number(driveLog.fuelConsumed) : null;
+      let estimated = false;
+      if (fuelConsumed === null && driveLog.vehicleId) {
+        const summary = computeFuelEconomy(await storage.getVehicleFuelEntries(driveLog.vehicleId));
+        fuelConsumed = estimateFuelUsed(Number(driveLog.distance), summary);
+        estimated = fuelConsumed !== null;
+      }
+
+      res.json({ fuelConsumed, estimated, fillUps });
     } catch (error) {
-      console.error("Error fetching drive logs:", error);
-      res.status(500).json({ message: "Failed to fetch drive logs" });
+      console.error("Error fetching drive log fuel:", error);
+      res.status(500).json({ message: "Failed to fetch drive log fuel" });
     }
   });
 
-  app.get('/api/drive-logs/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/drive-logs/:id/segment-efforts', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
+      const driveLogId = parseInt(req.params.id);
+      const driveLog = await storage.getDriveLog(driveLogId);
+      if (!driveLog || driveLog.userId !== userId) {
+        return res.status(404).json({ message: 'Drive log not found' });
+      }
+      const efforts = await storage.getDriveLogSegmentEfforts(driveLogId);
+      res.json(efforts);
+    } catch (error) {
+      console.error("Error fetching segment efforts:", error);
+      res.status(500).json({ message: "Failed to fetch segment efforts" });
+    }
+  });
+
+  app.get('/api/drive-logs/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
       const driveLogId = parseInt(req.params.id);
       const driveLog = await storage.getDriveLog(driveLogId);
       if (!driveLog) {
         return res.status(404).json({ message: "Drive log not found" });
       }
+
+      // Other users only get the public, privacy-zone-trimmed version
+      if (driveLog.userId !== userId) {
+        const publicDriveLog = await getPublicDriveLog(driveLogId, { fullTrack: true });
+        if (!publicDriveLog) {
+          return res.status(404).json({ message: "Drive log not found" });
+        }
+        return res.json(publicDriveLog);
+      }
+
       res.json(driveLog);
     } catch (error) {
       console.error("Error fetching drive log:", error);
@@ -628,6 +1956,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updateData.vehicleId = parseInt(updateData.vehicleId);
       }
 
+      // Validate a replacement track before it reaches storage
+      if (updateData.routeCoordinates !== undefined && updateData.routeCoordinates !== '') {
+        const routeCoordinates = parseRouteCoordinates(updateData.routeCoordinates);
+        if (!routeCoordinates) {
+          return res.status(400).json({ message: 'Invalid route coordinates' });
+        }
+        updateData.routeCoordinates = routeCoordinates;
+      }
+      delete updateData.simplifiedRoute;
+
       // Remove undefined values and empty strings
       Object.keys(updateData).forEach(key => {
         if (updateData[key] === undefined || updateData[key] === '') {
@@ -674,6 +2012,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updateData.endTime = new Date(updateData.endTime);
       }
 
+      // Validate a replacement track before it reaches storage
+      if (updateData.routeCoordinates !== undefined && updateData.routeCoordinates !== '') {
+        const routeCoordinates = parseRouteCoordinates(updateData.routeCoordinates);
+        if (!routeCoordinates) {
+          return res.status(400).json({ message: 'Invalid route coordinates' });
+        }
+        updateData.routeCoordinates = routeCoordinates;
+      }
+      delete updateData.simplifiedRoute;
+
       // Remove undefined values and empty strings
       Object.keys(updateData).forEach(key => {
         if (updateData[key] === undefined || updateData[key] === '') {
@@ -729,9 +2077,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get pitstops for a drive log
-  app.get('/api/pitstops/:driveLogId', isAuthenticated, async (req, res) => {
+  app.get('/api/pitstops/:driveLogId', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const driveLogId = parseInt(req.params.driveLogId);
+      const driveLog = await storage.getDriveLog(driveLogId);
+
+      // Pitstops inside the owner's privacy zones are only visible to the owner
+      if (driveLog && driveLog.userId !== userId) {
+        const publicDriveLog = await getPublicDriveLog(driveLogId);
+        return res.json(publicDriveLog ? publicDriveLog.pitstops : []);
+      }
+
       const pitstops = await storage.getPitstopsByDriveLog(driveLogId);
       res.json(pitstops);
     } catch (error) {
@@ -859,6 +2216,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Privacy zone routes
+  app.get('/api/privacy-zones', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const zones = await storage.getUserPrivacyZones(userId);
+      res.json(zones);
+    } catch (error) {
+      console.error("Error fetching privacy zones:", error);
+      res.status(500).json({ message: "Failed to fetch privacy zones" });
+    }
+  });
+
+  app.post('/api/privacy-zones', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = insertPrivacyZoneSchema.safeParse({ ...req.body, userId });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid privacy zone", details: result.error.issues });
+      }
+      const zone = await storage.createPrivacyZone(result.data);
+      res.json(zone);
+    } catch (error) {
+      console.error("Error creating privacy zone:", error);
+      res.status(500).json({ message: "Failed to create privacy zone" });
+    }
+  });
+
+  app.delete('/api/privacy-zones/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const zoneId = parseInt(req.params.id);
+      const zone = await storage.getPrivacyZone(zoneId);
+      if (!zone || zone.userId !== userId) {
+        return res.status(404).json({ message: "Privacy zone not found" });
+      }
+      await storage.deletePrivacyZone(zoneId);
+      res.json({ message: "Privacy zone deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting privacy zone:", error);
+      res.status(500).json({ message: "Failed to delete privacy zone" });
+    }
+  });
+
+  // Segment routes
+  app.get('/api/segments', isAuthenticated, async (req, res) => {
+    try {
+      const segments = await storage.getSegments();
+      res.json(segments);
+    } catch (error) {
+      console.error("Error fetching segments:", error);
+      res.status(500).json({ message: "Failed to fetch segments" });
+    }
+  });
+
+  app.post('/api/segments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = z.object({
+        name: z.string().trim().min(1).max(100),
+        description: z.string().trim().max(500).optional(),
+        driveLogId: z.coerce.number().int(),
+        startIndex: z.coerce.number().int().min(0),
+        endIndex: z.coerce.number().int().min(1),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid segment", details: parsed.error.issues });
+      }
+
+      const { name, description, driveLogId, startIndex, endIndex } = parsed.data;
+      const driveLog = await storage.getDriveLog(driveLogId);
+      if (!driveLog || driveLog.userId !== userId) {
+        return res.status(404).json({ message: 'Drive log not found' });
+      }
+
+      const points = (driveLog.routeCoordinates as RoutePoint[] | null) || [];
+      if (endIndex <= startIndex || endIndex >= points.length) {
+        return res.status(400).json({ message: "Segment must start before it ends and lie within the drive's track" });
+      }
+
+      const segment = await storage.createSegment({
+        ...extractSegment(points, startIndex, endIndex),
+        creatorId: userId,
+        name,
+        description: description || null,
+      });
+
+      // Existing drives are matched in the background; their efforts appear on the leaderboard as they land
+      storage.backfillSegmentEfforts(segment).catch(error => {
+        console.error("Error matching existing drives to segment:", error);
+      });
+
+      res.json(segment);
+    } catch (error) {
+      console.error("Error creating segment:", error);
+      res.status(500).json({ message: "Failed to create segment" });
+    }
+  });
+
+  app.get('/api/segments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const segmentId = parseInt(req.params.id);
+      const segment = await storage.getSegment(segmentId);
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+      const vehicleClasses = await storage.getSegmentVehicleClasses(segmentId);
+      res.json({ ...segment, vehicleClasses });
+    } catch (error) {
+      console.error("Error fetching segment:", error);
+      res.status(500).json({ message: "Failed to fetch segment" });
+    }
+  });
+
+  app.get('/api/segments/:id/leaderboard', isAuthenticated, async (req, res) => {
+    try {
+      const segmentId = parseInt(req.params.id);
+      const vehicleClass = typeof req.query.vehicleClass === 'string' && req.query.vehicleClass
+        ? req.query.vehicleClass
+        : undefined;
+      const leaderboard = await storage.getSegmentLeaderboard(segmentId, vehicleClass);
+      res.json(leaderboard);
+    } catch (error) {
+      console.error("Error fetching segment leaderboard:", error);
+      res.status(500).json({ message: "Failed to fetch segment leaderboard" });
+    }
+  });
+
+  app.get('/api/segments/:id/efforts/me', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const segmentId = parseInt(req.params.id);
+      const efforts = await storage.getUserSegmentEfforts(segmentId, userId);
+      res.json(efforts);
+    } catch (error) {
+      console.error("Error fetching segment efforts:", error);
+      res.status(500).json({ message: "Failed to fetch segment efforts" });
+    }
+  });
+
   // AI blog generation route
   app.post('/api/drive-logs/:id/generate-blog', isAuthenticated, async (req, res) => {
     try {
@@ -900,8 +2396,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/convoys', isAuthenticated, async (req: any, res) => {
     try {
       const organizerId = req.user.claims.sub;
-      const convoyData = insertConvoySchema.parse({ ...req.body, organizerId });
-      const convoy = await storage.createConvoy(convoyData);
+      const { driveLogId, ...body } = req.body;
+
+      // When the convoy follows one of the organiser's recorded drives, its curvature sets the difficulty
+      if (driveLogId) {
+        const driveLog = await storage.getDriveLog(parseInt(driveLogId));
+        if (!driveLog || driveLog.userId !== organizerId) {
+          return res.status(404).json({ message: "Drive log not found" });
+        }
+        if (driveLog.twistinessScore !== null) {
+          body.difficulty = twistinessDifficulty(driveLog.twistinessScore);
+        }
+      }
+
+      // A new convoy starts as a draft or open; the lifecycle takes it from there
+      const result = insertConvoySchema.safeParse({ ...body, organizerId });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid convoy", details: result.error.issues });
+      }
+      const convoy = await storage.createConvoy(result.data);
       res.json(convoy);
     } catch (error) {
       console.error("Error creating convoy:", error);
@@ -911,9 +2424,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/convoys/upcoming', isAuthenticated, async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 20;
-      const convoys = await storage.getUpcomingConvoys(limit);
-      res.json(convoys);
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await storage.getUpcomingConvoys(page));
     } catch (error) {
       console.error("Error fetching upcoming convoys:", error);
       res.status(500).json({ message: "Failed to fetch upcoming convoys" });
@@ -923,8 +2438,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/convoys/user', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const convoys = await storage.getUserConvoys(userId);
-      res.json(convoys);
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await storage.getUserConvoysPage(userId, page));
     } catch (error) {
       console.error("Error fetching user convoys:", error);
       res.status(500).json({ message: "Failed to fetch user convoys" });
@@ -950,9 +2468,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const convoyId = parseInt(req.params.id);
       const userId = req.user.claims.sub;
       const vehicleId = req.body.vehicleId ? parseInt(req.body.vehicleId) : undefined;
+
+      const convoy = await storage.getConvoy(convoyId);
+      if (!convoy) {
+        return res.status(404).json({ message: "Convoy not found" });
+      }
+      if (vehicleId) {
+        const vehicle = await storage.getVehicle(vehicleId);
+        if (!vehicle || vehicle.userId !== userId) {
+          return res.status(404).json({ message: "Vehicle not found" });
+        }
+      }
+
+      // Insurance has to cover the day of the drive, not just the day of joining
+      if (convoy.requiresInsurance) {
+        if (!vehicleId) {
+          return res.status(400).json({ message: "This convoy requires you to choose the vehicle you're bringing" });
+        }
+        const insured = await storage.hasValidVehicleDocument(vehicleId, "insurance", new Date(convoy.startDateTime));
+        if (!insured) {
+          return res.status(400).json({ message: "This convoy requires valid insurance on file for your vehicle on the day of the drive" });
+        }
+      }
       
-      await storage.joinConvoy(convoyId, userId, vehicleId);
-      res.json({ message: "Successfully joined convoy" });
+      const result = await storage.joinConvoy(convoyId, userId, vehicleId);
+      switch (result) {
+        case "joined":
+          return res.json({ message: "Successfully joined convoy" });
+        case "not_found":
+          return res.status(404).json({ message: "Convoy not found" });
+        case "not_accepting":
+          return res.status(409).json({ message: "This convoy isn't taking new participants" });
+        case "full":
+          return res.status(409).json({ message: "This convoy is full" });
+        case "already_joined":
+          return res.status(409).json({ message: "You've already joined this convoy" });
+        case "banned":
+          return res.status(403).json({ message: "You can't join this convoy" });
+      }
     } catch (error) {
       console.error("Error joining convoy:", error);
       res.status(500).json({ message: "Failed to join convoy" });
@@ -972,6 +2525,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Only the organiser moves a convoy by hand, and only along CONVOY_MANUAL_TRANSITIONS; filling up and
+  // the schedule move it the rest of the way
+  app.post('/api/convoys/:id/status', isAuthenticated, async (req: any, res) => {
+    try {
+      const convoyId = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+
+      const convoy = await storage.getConvoy(convoyId);
+      if (!convoy) {
+        return res.status(404).json({ message: "Convoy not found" });
+      }
+      if (convoy.organizerId !== userId) {
+        return res.status(403).json({ message: "Only the organiser can change a convoy's status" });
+      }
+
+      const result = convoyStatusChangeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid status change", details: result.error.issues });
+      }
+      const { status } = result.data;
+      if (!canTransitionManually(convoy.status, status)) {
+        return res.status(409).json({ message: `Can't move a convoy from ${convoy.status} to ${status}` });
+      }
+
+      const updated = await storage.changeConvoyStatus(convoyId, status, userId);
+      if (!updated) {
+        return res.status(409).json({ message: "The convoy's status changed in the meantime" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error changing convoy status:", error);
+      res.status(500).json({ message: "Failed to change convoy status" });
+    }
+  });
+
+  app.get('/api/convoys/:id/status-history', isAuthenticated, async (req, res) => {
+    try {
+      const convoyId = parseInt(req.params.id);
+      const history = await storage.getConvoyStatusHistory(convoyId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching convoy status history:", error);
+      res.status(500).json({ message: "Failed to fetch convoy status history" });
+    }
+  });
+
   app.get('/api/convoys/:id/participants', isAuthenticated, async (req, res) => {
     try {
       const convoyId = parseInt(req.params.id);
@@ -1190,9 +2789,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/public/drive-logs/:id', async (req, res) => {
     try {
       const driveLogId = parseInt(req.params.id);
-      const driveLog = await storage.getDriveLogWithPitstops(driveLogId);
+      const driveLog = await getPublicDriveLog(driveLogId);
       
-      if (!driveLog || !driveLog.isPublic) {
+      if (!driveLog) {
         return res.status(404).json({ message: 'Drive log not found or not public' });
       }
 
@@ -1238,6 +2837,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         startTime: driveLog.startTime,
         endTime: driveLog.endTime,
         titleImageUrl: titleImageUrl,
+        simplifiedRoute: driveLog.simplifiedRoute,
+        totalAscent: driveLog.totalAscent,
+        totalDescent: driveLog.totalDescent,
+        maxElevation: driveLog.maxElevation,
+        minElevation: driveLog.minElevation,
+        elevationProfile: driveLog.elevationProfile,
+        twistinessScore: driveLog.twistinessScore,
+        bendCount: driveLog.bendCount,
+        curvyDistancePercent: driveLog.curvyDistancePercent,
         user: {
           firstName: user.firstName,
           lastName: user.lastName,
@@ -1267,11 +2875,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/public/drive-logs/:id/export', async (req, res) => {
+    try {
+      const driveLogId = parseInt(req.params.id);
+      const format = req.query.format || 'gpx';
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+      }
+
+      const driveLog = await getPublicDriveLog(driveLogId, { fullTrack: true });
+      if (!driveLog) {
+        return res.status(404).json({ message: 'Drive log not found or not public' });
+      }
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const file = buildDriveLogExport(driveLog, format, baseUrl);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error) {
+      console.error('Error exporting public drive log:', error);
+      res.status(500).json({ message: 'Failed to export drive log' });
+    }
+  });
+
   app.get('/api/public/pitstops/:driveLogId', async (req, res) => {
     try {
       const driveLogId = parseInt(req.params.driveLogId);
-      const pitstops = await storage.getPitstopsByDriveLog(driveLogId);
-      res.json(pitstops);
+      const driveLog = await getPublicDriveLog(driveLogId);
+      if (!driveLog) {
+        return res.status(404).json({ message: 'Drive log not found or not public' });
+      }
+      res.json(driveLog.pitstops);
     } catch (error) {
       console.error('Error fetching public pitstops:', error);
       res.status(500).json({ message: 'Failed to fetch pitstops' });
@@ -1296,8 +2932,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         color: vehicle.color,
         type: vehicle.type,
       };
+
+      // Only vehicles their owners have made public show what's been done to them
+      let buildSheet = null;
+      let gallery: { id: number; url: string; caption: string | null; isCover: boolean }[] = [];
+      if (vehicle.isPublic) {
+        const [modifications, records, photos] = await Promise.all([
+          storage.getVehicleModifications(vehicleId),
+          storage.getVehiclePerformanceRecords(vehicleId),
+          storage.getVehiclePhotos(vehicleId),
+        ]);
+        buildSheet = buildBuildSheet(vehicle, modifications, records, { isPublic: true });
+        gallery = photos.map(photo => ({
+          id: photo.id,
+          url: photo.url,
+          caption: photo.caption,
+          isCover: photo.url === vehicle.imageUrl,
+        }));
+      }
       
-      res.json(publicVehicle);
+      res.json({ ...publicVehicle, gallery, buildSheet });
     } catch (error) {
       console.error('Error fetching public vehicle:', error);
       res.status(500).json({ message: 'Failed to fetch vehicle' });
@@ -1401,8 +3055,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/posts/:id/comments', isAuthenticated, async (req, res) => {
     try {
       const postId = parseInt(req.params.id);
-      const comments = await storage.getPostComments(postId);
-      res.json(comments);
+      const page = pageRequest(req.query);
+      if (!page) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.json(await storage.getPostComments(postId, page));
     } catch (error) {
       console.error("Error fetching comments:", error);
       res.status(500).json({ message: "Failed to fetch comments" });
@@ -1523,15 +3180,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Route recommendations route
-  app.post('/api/routes/recommend', isAuthenticated, async (req, res) => {
+  app.post('/api/routes/recommend', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const { location, preferences } = req.body;
       
       if (!location) {
         return res.status(400).json({ message: "Location is required" });
       }
-      
-      const recommendations = await generateRouteRecommendations(location, preferences || {});
+
+      // The user's twistiest recorded drives show what kind of road they actually enjoy
+      const favouriteDrives = (await storage.getUserDriveLogs(userId, { sort: 'twistiness', minTwistiness: 1 }))
+        .slice(0, 5)
+        .map(log => ({
+          title: log.title,
+          route: log.routeName || log.route || `${log.startLocation} to ${log.endLocation}`,
+          distance: Number(log.distance),
+          twistinessScore: log.twistinessScore as number,
+          bendCount: log.bendCount ?? 0,
+        }));
+
+      const recommendations = await generateRouteRecommendations(location, { ...(preferences || {}), favouriteDrives });
       res.json(recommendations);
     } catch (error) {
       console.error("Error generating route recommendations:", error);
@@ -1604,136 +3273,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
-  
-  // WebSocket server for real-time convoy coordination
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  // Store active convoy connections
-  const convoyConnections = new Map<number, Map<string, WebSocket>>();
-  
-  wss.on('connection', (ws: WebSocket, request) => {
-    console.log('WebSocket connection established');
-    
-    ws.on('message', async (message: string) => {
-      try {
-        const data = JSON.parse(message);
-        const { type, convoyId, userId, payload } = data;
-        
-        switch (type) {
-          case 'join_convoy':
-            // Add user to convoy room
-            if (!convoyConnections.has(convoyId)) {
-              convoyConnections.set(convoyId, new Map());
-            }
-            convoyConnections.get(convoyId)!.set(userId, ws);
-            
-            // Broadcast join notification
-            broadcastToConvoy(convoyId, {
-              type: 'user_joined',
-              userId,
-              timestamp: new Date().toISOString()
-            }, userId);
-            break;
-            
-          case 'location_update':
-            // Update user location in database
-            await storage.updateParticipantLocation(convoyId, userId, payload.latitude, payload.longitude);
-            
-            // Store convoy update
-            await storage.createConvoyUpdate({
-              convoyId,
-              userId,
-              updateType: 'location',
-              latitude: payload.latitude,
-              longitude: payload.longitude,
-              data: payload
-            });
-            
-            // Broadcast location to other convoy members
-            broadcastToConvoy(convoyId, {
-              type: 'location_update',
-              userId,
-              latitude: payload.latitude,
-              longitude: payload.longitude,
-              timestamp: new Date().toISOString()
-            }, userId);
-            break;
-            
-          case 'convoy_message':
-            // Store message
-            await storage.createConvoyUpdate({
-              convoyId,
-              userId,
-              updateType: 'message',
-              data: { message: payload.message }
-            });
-            
-            // Broadcast message to convoy
-            broadcastToConvoy(convoyId, {
-              type: 'convoy_message',
-              userId,
-              message: payload.message,
-              timestamp: new Date().toISOString()
-            });
-            break;
-            
-          case 'emergency_alert':
-            // Store emergency alert
-            await storage.createConvoyUpdate({
-              convoyId,
-              userId,
-              updateType: 'emergency',
-              latitude: payload.latitude,
-              longitude: payload.longitude,
-              data: { type: payload.emergencyType, message: payload.message }
-            });
-            
-            // Broadcast emergency to convoy with high priority
-            broadcastToConvoy(convoyId, {
-              type: 'emergency_alert',
-              userId,
-              emergencyType: payload.emergencyType,
-              message: payload.message,
-              latitude: payload.latitude,
-              longitude: payload.longitude,
-              timestamp: new Date().toISOString()
-            });
-            break;
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-        ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
-      }
-    });
-    
-    ws.on('close', () => {
-      // Remove user from all convoy rooms
-      convoyConnections.forEach((convoyUsers, convoyId) => {
-        convoyUsers.forEach((userWs, userId) => {
-          if (userWs === ws) {
-            convoyUsers.delete(userId);
-            // Notify convoy of user disconnect
-            broadcastToConvoy(convoyId, {
-              type: 'user_left',
-              userId,
-              timestamp: new Date().toISOString()
-            }, userId);
-          }
-        });
-      });
-    });
-  });
-  
-  function broadcastToConvoy(convoyId: number, message: any, excludeUserId?: string) {
-    const convoyUsers = convoyConnections.get(convoyId);
-    if (convoyUsers) {
-      convoyUsers.forEach((ws, userId) => {
-        if (userId !== excludeUserId && ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify(message));
-        }
-      });
-    }
-  }
+  setupConvoySocket(httpServer);
+  scheduleConvoyLifecycle(httpServer);
 
   return httpServer;
 }
@@ -0,0 +1,175 @@
+import type { RoutePoint, Segment } from "@shared/schema";
+import { haversineDistance } from "./route-stats";
+
+// Gate radius (in metres) used when a segment doesn't specify one
+export const DEFAULT_GATE_RADIUS = 30;
+
+// Largest gate radius a segment may have; candidate lookups pad track bounds by this much
+export const MAX_GATE_RADIUS = 100;
+
+// An effort's distance between the gates must stay within this ratio of the segment's, so detours don't count
+const MIN_DISTANCE_RATIO = 0.8;
+const MAX_DISTANCE_RATIO = 1.25;
+
+export interface SegmentGates {
+  startLatitude: number;
+  startLongitude: number;
+  endLatitude: number;
+  endLongitude: number;
+  gateRadius: number;
+  distance: number; // km
+}
+
+export interface SegmentMatch {
+  startTime: Date;
+  endTime: Date;
+  elapsedTime: number; // seconds
+  avgSpeed: number; // km/h
+  distance: number; // km
+}
+
+interface GatePass {
+  index: number; // segment of the track (points[index] -> points[index + 1]) that crosses the gate
+  fraction: number; // position of the closest approach along that segment
+  offset: number; // closest approach to the gate centre, in metres
+}
+
+export function segmentGates(segment: Segment): SegmentGates {
+  return {
+    startLatitude: Number(segment.startLatitude),
+    startLongitude: Number(segment.startLongitude),
+    endLatitude: Number(segment.endLatitude),
+    endLongitude: Number(segment.endLongitude),
+    gateRadius: Math.min(segment.gateRadius || DEFAULT_GATE_RADIUS, MAX_GATE_RADIUS),
+    distance: Number(segment.distance),
+  };
+}
+
+// Closest approach of the line a -> b to the gate, on a local plane in metres
+function closestApproach(a: RoutePoint, b: RoutePoint, gate: RoutePoint): { fraction: number; offset: number } {
+  const metersPerDegree = 111320;
+  const scale = Math.cos((gate.latitude * Math.PI) / 180);
+  const ax = (a.longitude - gate.longitude) * metersPerDegree * scale;
+  const ay = (a.latitude - gate.latitude) * metersPerDegree;
+  const bx = (b.longitude - gate.longitude) * metersPerDegree * scale;
+  const by = (b.latitude - gate.latitude) * metersPerDegree;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const fraction = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return { fraction, offset: Math.hypot(ax + fraction * dx, ay + fraction * dy) };
+}
+
+// Every separate pass through a gate; consecutive track segments inside it collapse to the closest one
+function findGatePasses(points: RoutePoint[], gate: RoutePoint, radius: number): GatePass[] {
+  const passes: GatePass[] = [];
+  let current: GatePass | null = null;
+  for (let i = 0; i < points.length - 1; i++) {
+    const { fraction, offset } = closestApproach(points[i], points[i + 1], gate);
+    if (offset <= radius) {
+      if (!current || offset < current.offset) current = { index: i, fraction, offset };
+    } else if (current) {
+      passes.push(current);
+      current = null;
+    }
+  }
+  if (current) passes.push(current);
+  return passes;
+}
+
+function timeAt(points: RoutePoint[], pass: GatePass): number | null {
+  const from = points[pass.index].timestamp;
+  const to = points[pass.index + 1].timestamp;
+  if (!from || !to) return null;
+  const start = new Date(from).getTime();
+  return start + (new Date(to).getTime() - start) * pass.fraction;
+}
+
+// Distance along the track to a gate pass, given cumulative distances per point
+function distanceAt(points: RoutePoint[], cumulative: number[], pass: GatePass): number {
+  return cumulative[pass.index] + haversineDistance(points[pass.index], points[pass.index + 1]) * pass.fraction;
+}
+
+// Find every timed effort through a segment in a track; tracks without timestamps yield nothing
+export function matchSegment(points: RoutePoint[], gates: SegmentGates): SegmentMatch[] {
+  if (points.length < 2) return [];
+
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineDistance(points[i - 1], points[i]));
+  }
+
+  const start = { latitude: gates.startLatitude, longitude: gates.startLongitude };
+  const end = { latitude: gates.endLatitude, longitude: gates.endLongitude };
+  const endPasses = findGatePasses(points, end, gates.gateRadius);
+
+  const matches: SegmentMatch[] = [];
+  let searchFrom = 0;
+  for (const startPass of findGatePasses(points, start, gates.gateRadius)) {
+    if (startPass.index < searchFrom) continue;
+
+    const startDistance = distanceAt(points, cumulative, startPass);
+    const endPass = endPasses.find(pass =>
+      (pass.index > startPass.index || (pass.index === startPass.index && pass.fraction > startPass.fraction)) &&
+      distanceAt(points, cumulative, pass) - startDistance >= gates.distance * MIN_DISTANCE_RATIO
+    );
+    if (!endPass) continue;
+
+    const distance = distanceAt(points, cumulative, endPass) - startDistance;
+    if (distance > gates.distance * MAX_DISTANCE_RATIO) continue;
+
+    const startTime = timeAt(points, startPass);
+    const endTime = timeAt(points, endPass);
+    if (startTime === null || endTime === null || endTime <= startTime) continue;
+
+    const elapsedSeconds = (endTime - startTime) / 1000;
+    matches.push({
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+      elapsedTime: Math.round(elapsedSeconds),
+      avgSpeed: gates.distance / (elapsedSeconds / 3600),
+      distance,
+    });
+    searchFrom = endPass.index + 1;
+  }
+  return matches;
+}
+
+// Cut the reference stretch for a new segment out of a drive's track
+export function extractSegment(points: RoutePoint[], startIndex: number, endIndex: number) {
+  const track = points.slice(startIndex, endIndex + 1);
+  let distance = 0;
+  for (let i = 1; i < track.length; i++) {
+    distance += haversineDistance(track[i - 1], track[i]);
+  }
+  const first = track[0];
+  const last = track[track.length - 1];
+  return {
+    startLatitude: first.latitude.toFixed(8),
+    startLongitude: first.longitude.toFixed(8),
+    endLatitude: last.latitude.toFixed(8),
+    endLongitude: last.longitude.toFixed(8),
+    distance: distance.toFixed(3),
+    routeCoordinates: track.map(({ latitude, longitude }) => ({ latitude, longitude })),
+  };
+}
+
+// Rough bounding box of a track, padded by `marginMeters`, used to skip segments that can't possibly match
+export function trackBounds(points: RoutePoint[], marginMeters = 0) {
+  const bounds = { minLatitude: 90, maxLatitude: -90, minLongitude: 180, maxLongitude: -180 };
+  for (const point of points) {
+    bounds.minLatitude = Math.min(bounds.minLatitude, point.latitude);
+    bounds.maxLatitude = Math.max(bounds.maxLatitude, point.latitude);
+    bounds.minLongitude = Math.min(bounds.minLongitude, point.longitude);
+    bounds.maxLongitude = Math.max(bounds.maxLongitude, point.longitude);
+  }
+
+  const latitudeMargin = marginMeters / 111320;
+  const widestLatitude = Math.max(Math.abs(bounds.minLatitude), Math.abs(bounds.maxLatitude));
+  const longitudeMargin = latitudeMargin / Math.max(Math.cos((widestLatitude * Math.PI) / 180), 0.01);
+  bounds.minLatitude -= latitudeMargin;
+  bounds.maxLatitude += latitudeMargin;
+  bounds.minLongitude -= longitudeMargin;
+  bounds.maxLongitude += longitudeMargin;
+  return bounds;
+}
@@ -4,23 +4,25 @@ import path from 'path';
 import * as fs from 'fs';
 
 // Enhanced persistent storage using Replit workspace directory
-export const upload = multer({
-  storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      // Store in Replit's persistent workspace directory
-      const persistentDir = path.join('/home/runner/workspace', 'persistent-uploads');
-      if (!fs.existsSync(persistentDir)) {
-        fs.mkdirSync(persistentDir, { recursive: true });
-      }
-      cb(null, persistentDir);
-    },
-    filename: (req, file, cb) => {
-      // Generate UUID-based filename for better uniqueness
-      const extension = path.extname(file.originalname);
-      const filename = `${file.fieldname}-${uuidv4()}${extension}`;
-      cb(null, filename);
+const persistentDiskStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    // Store in Replit's persistent workspace directory
+    const persistentDir = path.join('/home/runner/workspace', 'persistent-uploads');
+    if (!fs.existsSync(persistentDir)) {
+      fs.mkdirSync(persistentDir, { recursive: true });
     }
-  }),
+    cb(null, persistentDir);
+  },
+  filename: (req, file, cb) => {
+    // Generate UUID-based filename for better uniqueness
+    const extension = path.extname(file.originalname);
+    const filename = `${file.fieldname}-${uuidv4()}${extension}`;
+    cb(null, filename);
+  }
+});
+
+export const upload = multer({
+  storage: persistentDiskStorage,
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
@@ -38,6 +40,97 @@ export function getUploadMiddleware() {
   return upload;
 }
 
+// Receipts and paperwork: photos or scanned PDFs, kept alongside other uploads
+export const receiptUpload = multer({
+  storage: persistentDiskStorage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/') || file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only images and PDFs are allowed'));
+    }
+  },
+});
+
+export function getReceiptUploadMiddleware() {
+  return receiptUpload;
+}
+
+// Vehicle paperwork goes outside the statically served uploads, so it's only reachable through
+// routes that check ownership
+const PRIVATE_UPLOADS_DIR = path.join('/home/runner/workspace', 'private-uploads');
+
+const privateDiskStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    if (!fs.existsSync(PRIVATE_UPLOADS_DIR)) {
+      fs.mkdirSync(PRIVATE_UPLOADS_DIR, { recursive: true });
+    }
+    cb(null, PRIVATE_UPLOADS_DIR);
+  },
+  filename: (req, file, cb) => {
+    const extension = path.extname(file.originalname);
+    cb(null, `${file.fieldname}-${uuidv4()}${extension}`);
+  }
+});
+
+export const documentUpload = multer({
+  storage: privateDiskStorage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/') || file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only images and PDFs are allowed'));
+    }
+  },
+});
+
+export function getDocumentUploadMiddleware() {
+  return documentUpload;
+}
+
+// Absolute path of a privately stored file; the name is reduced to its base so it can't escape the directory
+export function getPrivateFilePath(filename: string): string {
+  return path.join(PRIVATE_UPLOADS_DIR, path.basename(filename));
+}
+
+export async function deletePrivateFile(filename: string): Promise<void> {
+  try {
+    const filePath = getPrivateFilePath(filename);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  } catch (error) {
+    console.error('Error deleting private file:', error);
+  }
+}
+
+// GPS track files are parsed in memory rather than written to persistent storage
+export const trackUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (extension === '.gpx' || file.mimetype.includes('gpx') || file.mimetype.includes('xml')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only GPX files are allowed'));
+    }
+  },
+});
+
+// Get the track file upload middleware
+export function getTrackUploadMiddleware() {
+  return trackUpload;
+}
+
 // Get public URL for an image
 export function getImageUrl(filename: string, baseUrl?: string): string {
   return `${baseUrl || ''}/persistent-uploads/${filename}`;
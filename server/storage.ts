@@ -6,6 +6,7 @@ import {
   pitstops,
   convoys,
   convoyParticipants,
+  convoyStatusTransitions,
   postLikes,
   postComments,
   savedPosts,
@@ -25,32 +26,171 @@ import {
   type Convoy,
   type InsertConvoy,
   type ConvoyParticipant,
+  type ConvoyStatus,
+  type ConvoyStatusTransition,
+  CONVOY_JOINABLE_STATUSES,
+  isConvoyStatus,
   type PostComment,
   type InsertPostComment,
   type WeatherAlert,
   type ConvoyUpdate,
   type InsertConvoyUpdate,
+  type RoutePoint,
+  type PrivacyZone,
+  type InsertPrivacyZone,
+  type Segment,
+  type InsertSegment,
+  type SegmentEffort,
+  type InsertSegmentEffort,
+  type FuelEntry,
+  type InsertFuelEntry,
+  type ServiceRecord,
+  type InsertServiceRecord,
+  type MaintenanceReminder,
+  type InsertMaintenanceReminder,
+  type VehicleModification,
+  type InsertVehicleModification,
+  type PerformanceRecord,
+  type InsertPerformanceRecord,
+  type VehiclePhoto,
+  type VehicleDocument,
+  type InsertVehicleDocument,
+  type VehicleTransfer,
+  type InsertVehicleTransfer,
+  type VehicleTransferSummary,
+  type OwnershipPeriod,
+  type UserSummary,
+  type FollowListEntry,
+  type FollowingFeedItem,
+  type CursorPage,
   convoyUpdates,
+  privacyZones,
+  segments,
+  segmentEfforts,
+  fuelEntries,
+  serviceRecords,
+  maintenanceReminders,
+  vehicleModifications,
+  performanceRecords,
+  vehiclePhotos,
+  vehicleDocuments,
+  vehicleTransfers,
+  vehicleOwnerships,
+  postImpressions,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, gte, lte, inArray, count } from "drizzle-orm";
+import { haversineDistance } from "./route-stats";
+import { processTrack } from "./track-processing";
+import { computeElevationStats } from "./elevation";
+import { computeCurvature } from "./curvature";
+import { matchSegment, segmentGates, trackBounds, MAX_GATE_RADIUS } from "./segments";
+import type { StatsDrive } from "./vehicle-stats";
+import { lockUsers, refreshUserAggregates, refreshConvoyAggregates, type Executor } from "./aggregates";
+import { canTransitionManually, isConvoyFull, nextAutomaticStatus, scheduleHorizon, type TransitionReason } from "./convoy-lifecycle";
+import { FEED_CANDIDATES, FEED_WINDOW_DAYS, type FeedCandidate, type FeedSnapshot } from "./feed-ranking";
+import type { LocationFix } from "./convoy-locations";
+import { afterCursor, columnKey, cursorTimestamp, orderByKeys, timestampKey, toPage, type CursorValue, type PageRequest } from "./pagination";
+import { eq, desc, and, or, sql, gt, gte, lt, lte, inArray, notInArray, count, countDistinct, isNull, type AnyColumn } from "drizzle-orm";
+
+export interface DriveLogListOptions {
+  sort?: 'date' | 'distance' | 'twistiness';
+  minTwistiness?: number;
+}
+
+export interface SegmentLeaderboardEntry {
+  rank: number;
+  effort: SegmentEffort;
+  user: { id: string; firstName: string | null; lastName: string | null; profileImageUrl: string | null };
+  vehicle: { make: string; model: string; year: number } | null;
+}
+
+// How accepting a transfer went; a transfer that was no longer pending is left as it was
+export type CompleteVehicleTransferResult =
+  | { outcome: "accepted"; vehicle: Vehicle }
+  | { outcome: "not_pending"; status: string }
+  | { outcome: "not_owned" };
+
+// How a join attempt went; anything but "joined" left the convoy's participants as they were
+export type JoinConvoyResult = "joined" | "not_found" | "not_accepting" | "full" | "already_joined" | "banned";
+
+// Records stay with whoever created them when a vehicle changes hands, so vehicle-scoped
+// lists only show the rows that belong to the vehicle's current owner
+function belongsToCurrentOwner(vehicleId: AnyColumn, userId: AnyColumn) {
+  return sql`exists (select 1 from ${vehicles} where ${vehicles.id} = ${vehicleId} and ${vehicles.userId} = ${userId})`;
+}
+
+const userSummaryColumns = {
+  id: users.id,
+  username: users.username,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  profileImageUrl: users.profileImageUrl,
+};
+
+const vehicleSortKeys = [timestampKey(vehicles.createdAt), columnKey(vehicles.id)];
+
+function driveLogListFilter(userId: string, options: DriveLogListOptions) {
+  return and(
+    eq(driveLogs.userId, userId),
+    options.minTwistiness !== undefined ? gte(driveLogs.twistinessScore, options.minTwistiness) : undefined,
+  );
+}
+
+// Logs without a recorded track have no score, so they sort after scored ones
+function driveLogSortKeys(sort: DriveLogListOptions['sort'] = 'date') {
+  const tail = [timestampKey(driveLogs.startTime), columnKey(driveLogs.id)];
+  if (sort === 'distance') return [columnKey(driveLogs.distance), ...tail];
+  if (sort === 'twistiness') return [columnKey(sql`coalesce(${driveLogs.twistinessScore}, -1)`), ...tail];
+  return tail;
+}
+
+const followSortKeys = [timestampKey(userFollows.createdAt), columnKey(userFollows.id)];
+
+function followCursor(row: { followedAt: Date | null; followId: number }) {
+  return [cursorTimestamp(row.followedAt), row.followId];
+}
+
+function toFollowListEntry(row: { user: UserSummary; followedAt: Date | null }): FollowListEntry {
+  return { ...row.user, followedAt: cursorTimestamp(row.followedAt) };
+}
+
+const FOLLOWING_FEED_KINDS: FollowingFeedItem["type"][] = ["post", "drive", "convoy"];
+
+// Where one source of the following feed resumes after the cursor's (created at, kind, id). Kinds that
+// sort before the cursor's have shown everything from that millisecond, kinds after it nothing yet
+function followingFeedCutoff(createdAt: AnyColumn, id: AnyColumn, kind: FollowingFeedItem["type"], after: CursorValue[] | null) {
+  if (!after) return undefined;
+  const [at, afterKind, afterId] = after;
+  if (after.length !== 3 || typeof afterKind !== "number") return sql`false`;
+  const created = timestampKey(createdAt).expression;
+  const rank = FOLLOWING_FEED_KINDS.indexOf(kind);
+  if (rank < afterKind) return sql`${created} < ${at}`;
+  if (rank > afterKind) return sql`${created} <= ${at}`;
+  return sql`(${created} < ${at} or (${created} = ${at} and ${id} < ${afterId}))`;
+}
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
+  getUserByUsernameOrEmail(identifier: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   
   // Vehicle operations
   createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
   getUserVehicles(userId: string): Promise<Vehicle[]>;
+  getUserVehiclesPage(userId: string, page: PageRequest): Promise<CursorPage<Vehicle>>;
   getVehicle(id: number): Promise<Vehicle | undefined>;
   updateVehicle(id: number, updates: Partial<InsertVehicle>): Promise<Vehicle>;
   deleteVehicle(id: number): Promise<void>;
+  getVehicleOdometer(vehicleId: number): Promise<number | null>;
+  getVehicleDrives(vehicleId: number): Promise<StatsDrive[]>;
+  getVehicleConvoys(vehicleId: number): Promise<Pick<Convoy, 'id' | 'title' | 'startDateTime'>[]>;
   
   // Post operations
   createPost(post: InsertPost): Promise<Post>;
-  getFeedPosts(limit?: number, offset?: number): Promise<Post[]>;
-  getUserPosts(userId: string, limit?: number, offset?: number): Promise<Post[]>;
+  getFeedCandidates(viewerId: string, snapshot: FeedSnapshot): Promise<FeedCandidate[]>;
+  markPostsSeen(userId: string, postIds: number[]): Promise<void>;
+  getUserPosts(userId: string, page: PageRequest): Promise<CursorPage<Post>>;
   getPost(id: number): Promise<Post | undefined>;
   updatePost(id: number, updates: Partial<InsertPost>): Promise<Post>;
   likePost(postId: number, userId: string): Promise<void>;
@@ -59,15 +199,19 @@ export interface IStorage {
   savePost(postId: number, userId: string): Promise<void>;
   unsavePost(postId: number, userId: string): Promise<void>;
   isPostSavedByUser(postId: number, userId: string): Promise<boolean>;
-  getUserSavedPosts(userId: string, limit?: number, offset?: number): Promise<Post[]>;
+  getUserSavedPosts(userId: string, page: PageRequest): Promise<CursorPage<Post>>;
   
   // Drive log operations
   createDriveLog(driveLog: InsertDriveLog): Promise<DriveLog>;
-  getUserDriveLogs(userId: string): Promise<DriveLog[]>;
+  getUserDriveLogs(userId: string, options?: DriveLogListOptions): Promise<DriveLog[]>;
+  getUserDriveLogsPage(userId: string, options: DriveLogListOptions, page: PageRequest): Promise<CursorPage<DriveLog>>;
   getDriveLog(id: number): Promise<DriveLog | undefined>;
-  getDriveLogWithPitstops(id: number): Promise<(DriveLog & { pitstops: Pitstop[] }) | undefined>;
+  getDriveLogWithPitstops(id: number, options?: { fullTrack?: boolean }): Promise<(DriveLog & { pitstops: Pitstop[] }) | undefined>;
   updateDriveLog(id: number, updates: Partial<InsertDriveLog>): Promise<DriveLog>;
   deleteDriveLog(id: number): Promise<void>;
+  getRecordingDriveLog(userId: string): Promise<DriveLog | undefined>;
+  appendRoutePoints(id: number, points: RoutePoint[]): Promise<DriveLog>;
+  completeRecordingDriveLog(id: number, updates: Partial<InsertDriveLog>): Promise<DriveLog>;
   
   // Pitstop operations
   createPitstop(pitstop: InsertPitstop): Promise<Pitstop>;
@@ -75,19 +219,102 @@ export interface IStorage {
   getPitstop(id: number): Promise<Pitstop | undefined>;
   updatePitstop(id: number, updates: Partial<InsertPitstop>): Promise<Pitstop>;
   deletePitstop(id: number): Promise<void>;
+
+  // Privacy zone operations
+  getUserPrivacyZones(userId: string): Promise<PrivacyZone[]>;
+  getPrivacyZone(id: number): Promise<PrivacyZone | undefined>;
+  createPrivacyZone(zone: InsertPrivacyZone): Promise<PrivacyZone>;
+  deletePrivacyZone(id: number): Promise<void>;
+
+  // Segment operations
+  createSegment(segment: InsertSegment): Promise<Segment>;
+  getSegments(): Promise<Array<Segment & { effortCount: number }>>;
+  getSegment(id: number): Promise<Segment | undefined>;
+  getSegmentVehicleClasses(segmentId: number): Promise<string[]>;
+  getSegmentLeaderboard(segmentId: number, vehicleClass?: string, limit?: number): Promise<SegmentLeaderboardEntry[]>;
+  getUserSegmentEfforts(segmentId: number, userId: string): Promise<SegmentEffort[]>;
+  getDriveLogSegmentEfforts(driveLogId: number): Promise<Array<SegmentEffort & { segmentName: string }>>;
+  backfillSegmentEfforts(segment: Segment): Promise<number>;
+
+  // Fuel log operations
+  createFuelEntry(entry: InsertFuelEntry): Promise<FuelEntry>;
+  getVehicleFuelEntries(vehicleId: number): Promise<FuelEntry[]>;
+  getUserFuelEntries(userId: string): Promise<FuelEntry[]>;
+  getDriveLogFuelEntries(driveLogId: number): Promise<FuelEntry[]>;
+  getFuelEntry(id: number): Promise<FuelEntry | undefined>;
+  updateFuelEntry(id: number, updates: Partial<InsertFuelEntry>): Promise<FuelEntry>;
+  deleteFuelEntry(id: number): Promise<void>;
+
+  // Maintenance operations
+  createServiceRecord(record: InsertServiceRecord): Promise<ServiceRecord>;
+  getVehicleServiceRecords(vehicleId: number): Promise<ServiceRecord[]>;
+  getServiceRecord(id: number): Promise<ServiceRecord | undefined>;
+  deleteServiceRecord(id: number): Promise<void>;
+  createMaintenanceReminder(reminder: InsertMaintenanceReminder): Promise<MaintenanceReminder>;
+  getVehicleMaintenanceReminders(vehicleId: number): Promise<MaintenanceReminder[]>;
+  getMaintenanceReminder(id: number): Promise<MaintenanceReminder | undefined>;
+  deleteMaintenanceReminder(id: number): Promise<void>;
+
+  // Build sheet operations
+  createVehicleModification(modification: InsertVehicleModification): Promise<VehicleModification>;
+  getVehicleModifications(vehicleId: number): Promise<VehicleModification[]>;
+  getVehicleModification(id: number): Promise<VehicleModification | undefined>;
+  deleteVehicleModification(id: number): Promise<void>;
+  createPerformanceRecord(record: InsertPerformanceRecord): Promise<PerformanceRecord>;
+  getVehiclePerformanceRecords(vehicleId: number): Promise<PerformanceRecord[]>;
+  getPerformanceRecord(id: number): Promise<PerformanceRecord | undefined>;
+  deletePerformanceRecord(id: number): Promise<void>;
+
+  // Vehicle photo operations
+  getVehiclePhotos(vehicleId: number): Promise<VehiclePhoto[]>;
+  getUserVehiclePhotos(userId: string): Promise<VehiclePhoto[]>;
+  getVehiclePhoto(id: number): Promise<VehiclePhoto | undefined>;
+  addVehiclePhotos(vehicle: Vehicle, photos: { url: string; caption?: string | null }[]): Promise<VehiclePhoto[]>;
+  updateVehiclePhoto(id: number, updates: { caption: string | null }): Promise<VehiclePhoto>;
+  reorderVehiclePhotos(vehicleId: number, photoIds: number[]): Promise<VehiclePhoto[]>;
+  deleteVehiclePhoto(photo: VehiclePhoto): Promise<void>;
+
+  // Vehicle document operations
+  createVehicleDocument(document: InsertVehicleDocument): Promise<VehicleDocument>;
+  getVehicleDocuments(vehicleId: number): Promise<VehicleDocument[]>;
+  getVehicleDocument(id: number): Promise<VehicleDocument | undefined>;
+  getUserDatedDocuments(userId: string): Promise<{ document: VehicleDocument; vehicle: { id: number; make: string; model: string; year: number } }[]>;
+  hasValidVehicleDocument(vehicleId: number, type: string, at: Date): Promise<boolean>;
+  deleteVehicleDocument(id: number): Promise<void>;
+
+  // Vehicle transfer operations
+  createVehicleTransfer(transfer: InsertVehicleTransfer): Promise<VehicleTransfer | undefined>;
+  getVehicleTransfer(id: number): Promise<VehicleTransfer | undefined>;
+  getPendingVehicleTransfer(vehicleId: number): Promise<VehicleTransfer | undefined>;
+  getUserVehicleTransfers(userId: string): Promise<VehicleTransferSummary[]>;
+  respondToVehicleTransfer(id: number, status: 'declined' | 'cancelled'): Promise<VehicleTransfer | undefined>;
+  completeVehicleTransfer(id: number): Promise<CompleteVehicleTransferResult>;
+  getVehicleOwnershipHistory(vehicleId: number): Promise<OwnershipPeriod[]>;
+
+  // Follow operations
+  followUser(followerId: string, followingId: string): Promise<boolean>;
+  unfollowUser(followerId: string, followingId: string): Promise<boolean>;
+  isFollowing(followerId: string, followingId: string): Promise<boolean>;
+  getFollowers(userId: string, page: PageRequest): Promise<CursorPage<FollowListEntry>>;
+  getFollowing(userId: string, page: PageRequest): Promise<CursorPage<FollowListEntry>>;
+  getFollowingFeed(userId: string, page: PageRequest): Promise<CursorPage<FollowingFeedItem>>;
   
   // Convoy operations
   createConvoy(convoy: InsertConvoy): Promise<Convoy>;
-  getUpcomingConvoys(limit?: number): Promise<Convoy[]>;
+  getUpcomingConvoys(page: PageRequest): Promise<CursorPage<Convoy>>;
   getUserConvoys(userId: string): Promise<Convoy[]>;
+  getUserConvoysPage(userId: string, page: PageRequest): Promise<CursorPage<Convoy>>;
   getConvoy(id: number): Promise<Convoy | undefined>;
-  joinConvoy(convoyId: number, userId: string, vehicleId?: number): Promise<void>;
+  joinConvoy(convoyId: number, userId: string, vehicleId?: number): Promise<JoinConvoyResult>;
   leaveConvoy(convoyId: number, userId: string): Promise<void>;
   getConvoyParticipants(convoyId: number): Promise<ConvoyParticipant[]>;
+  changeConvoyStatus(convoyId: number, status: ConvoyStatus, actorId: string): Promise<Convoy | null>;
+  getConvoyStatusHistory(convoyId: number): Promise<ConvoyStatusTransition[]>;
+  advanceConvoyLifecycles(now?: Date): Promise<number>;
   
   // Comment operations
   createComment(comment: InsertPostComment): Promise<PostComment>;
-  getPostComments(postId: number): Promise<PostComment[]>;
+  getPostComments(postId: number, page: PageRequest): Promise<CursorPage<PostComment>>;
   
   // Garage voting operations
   voteForGarage(voterId: string, garageOwnerId: string, month: number, year: number): Promise<void>;
@@ -100,10 +327,13 @@ export interface IStorage {
   getTopContributors(limit?: number): Promise<{user: User, points: number}[]>;
   
   // Real-time convoy operations
-  updateParticipantLocation(convoyId: number, userId: string, latitude: number, longitude: number): Promise<void>;
+  recordParticipantLocations(latest: LocationFix[], history: LocationFix[]): Promise<LocationFix[]>;
   createConvoyUpdate(update: InsertConvoyUpdate): Promise<ConvoyUpdate>;
   getConvoyUpdates(convoyId: number, limit?: number): Promise<ConvoyUpdate[]>;
+  getConvoyUpdatesAfter(convoyId: number, sequence: number, limit: number): Promise<ConvoyUpdate[]>;
+  getConvoyEventSequence(convoyId: number): Promise<number | undefined>;
   getActiveConvoyParticipants(convoyId: number): Promise<ConvoyParticipant[]>;
+  isJoinedConvoyParticipant(convoyId: number, userId: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -113,6 +343,18 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByUsernameOrEmail(identifier: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(or(
+        sql`lower(${users.username}) = lower(${identifier})`,
+        sql`lower(${users.email}) = lower(${identifier})`,
+      ))
+      .limit(1);
+    return user;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -130,8 +372,15 @@ export class DatabaseStorage implements IStorage {
 
   // Vehicle operations
   async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
-    const [newVehicle] = await db.insert(vehicles).values(vehicle).returning();
-    return newVehicle;
+    return await db.transaction(async (tx) => {
+      const [newVehicle] = await tx.insert(vehicles).values(vehicle).returning();
+      await tx.insert(vehicleOwnerships).values({
+        vehicleId: newVehicle.id,
+        userId: newVehicle.userId,
+        startedAt: newVehicle.createdAt ?? new Date(),
+      });
+      return newVehicle;
+    });
   }
 
   async getUserVehicles(userId: string): Promise<Vehicle[]> {
@@ -139,7 +388,17 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(vehicles)
       .where(eq(vehicles.userId, userId))
-      .orderBy(desc(vehicles.createdAt));
+      .orderBy(...orderByKeys(vehicleSortKeys));
+  }
+
+  async getUserVehiclesPage(userId: string, page: PageRequest): Promise<CursorPage<Vehicle>> {
+    const rows = await db
+      .select()
+      .from(vehicles)
+      .where(and(eq(vehicles.userId, userId), afterCursor(vehicleSortKeys, page.after)))
+      .orderBy(...orderByKeys(vehicleSortKeys))
+      .limit(page.limit + 1);
+    return toPage(rows, page, vehicle => [cursorTimestamp(vehicle.createdAt), vehicle.id]);
   }
 
   async getVehicle(id: number): Promise<Vehicle | undefined> {
@@ -147,6 +406,84 @@ export class DatabaseStorage implements IStorage {
     return vehicle;
   }
 
+  // Latest known reading (owner's entry, a service or a fill-up) plus everything driven since
+  async getVehicleOdometer(vehicleId: number): Promise<number | null> {
+    const vehicle = await this.getVehicle(vehicleId);
+    if (!vehicle) return null;
+
+    const [lastService] = await db
+      .select({ odometer: serviceRecords.odometer, at: serviceRecords.performedAt })
+      .from(serviceRecords)
+      .where(and(eq(serviceRecords.vehicleId, vehicleId), sql`${serviceRecords.odometer} is not null`))
+      .orderBy(desc(serviceRecords.performedAt))
+      .limit(1);
+    const [lastFillUp] = await db
+      .select({ odometer: fuelEntries.odometer, at: fuelEntries.filledAt })
+      .from(fuelEntries)
+      .where(eq(fuelEntries.vehicleId, vehicleId))
+      .orderBy(desc(fuelEntries.filledAt))
+      .limit(1);
+
+    const readings = [
+      vehicle.odometer !== null ? { odometer: vehicle.odometer, at: vehicle.odometerRecordedAt ?? vehicle.updatedAt } : null,
+      lastService ?? null,
+      lastFillUp ?? null,
+    ];
+    let latest: { odometer: string; at: Date } | null = null;
+    for (const reading of readings) {
+      if (reading?.odometer && reading.at && (!latest || reading.at.getTime() > latest.at.getTime())) {
+        latest = { odometer: reading.odometer, at: reading.at };
+      }
+    }
+    if (!latest) return null;
+
+    const [driven] = await db
+      .select({ distance: sql<string>`coalesce(sum(${driveLogs.distance}), 0)` })
+      .from(driveLogs)
+      .where(and(
+        eq(driveLogs.vehicleId, vehicleId),
+        eq(driveLogs.status, "completed"),
+        sql`${driveLogs.startTime} > ${latest.at}`,
+      ));
+    return Math.round((Number(latest.odometer) + Number(driven.distance)) * 10) / 10;
+  }
+
+  // Completed drives the current owner has taken the vehicle on
+  async getVehicleDrives(vehicleId: number): Promise<StatsDrive[]> {
+    return await db
+      .select({
+        distance: driveLogs.distance,
+        duration: driveLogs.duration,
+        startTime: driveLogs.startTime,
+        endTime: driveLogs.endTime,
+        avgSpeed: driveLogs.avgSpeed,
+        maxSpeed: driveLogs.maxSpeed,
+        routeName: driveLogs.routeName,
+        startLocation: driveLogs.startLocation,
+        endLocation: driveLogs.endLocation,
+      })
+      .from(driveLogs)
+      .where(and(
+        eq(driveLogs.vehicleId, vehicleId),
+        eq(driveLogs.status, "completed"),
+        belongsToCurrentOwner(driveLogs.vehicleId, driveLogs.userId),
+      ))
+      .orderBy(driveLogs.startTime);
+  }
+
+  // Convoys the current owner has signed up to with this vehicle
+  async getVehicleConvoys(vehicleId: number): Promise<Pick<Convoy, 'id' | 'title' | 'startDateTime'>[]> {
+    return await db
+      .select({ id: convoys.id, title: convoys.title, startDateTime: convoys.startDateTime })
+      .from(convoyParticipants)
+      .innerJoin(convoys, eq(convoyParticipants.convoyId, convoys.id))
+      .where(and(
+        eq(convoyParticipants.vehicleId, vehicleId),
+        belongsToCurrentOwner(convoyParticipants.vehicleId, convoyParticipants.userId),
+      ))
+      .orderBy(desc(convoys.startDateTime));
+  }
+
   async updateVehicle(id: number, updates: Partial<InsertVehicle>): Promise<Vehicle> {
     const [updatedVehicle] = await db
       .update(vehicles)
@@ -166,23 +503,107 @@ export class DatabaseStorage implements IStorage {
     return newPost;
   }
 
-  async getFeedPosts(limit = 20, offset = 0): Promise<Post[]> {
-    return await db
+  // The newest unseen posts from the feed window, with the engagement and affinity signals the ranking
+  // needs. Likes, comments, follows and convoys after the snapshot are left out so every page scores alike
+  async getFeedCandidates(viewerId: string, snapshot: FeedSnapshot): Promise<FeedCandidate[]> {
+    const { asOf, seenBefore } = snapshot;
+    const windowStart = new Date(asOf.getTime() - FEED_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const seen = db
+      .select({ id: postImpressions.postId })
+      .from(postImpressions)
+      .where(and(eq(postImpressions.userId, viewerId), lt(postImpressions.seenAt, seenBefore)));
+
+    const candidates = await db
       .select()
       .from(posts)
+      .where(and(gte(posts.createdAt, windowStart), lte(posts.createdAt, asOf), notInArray(posts.id, seen)))
       .orderBy(desc(posts.createdAt))
-      .limit(limit)
-      .offset(offset);
+      .limit(FEED_CANDIDATES);
+    if (candidates.length === 0) return [];
+
+    const postIds = candidates.map(post => post.id);
+    const authorIds = Array.from(new Set(candidates.map(post => post.userId))).filter(id => id !== viewerId);
+    const attended = db
+      .select({ id: convoyParticipants.convoyId })
+      .from(convoyParticipants)
+      .innerJoin(convoys, eq(convoyParticipants.convoyId, convoys.id))
+      .where(and(
+        eq(convoyParticipants.userId, viewerId),
+        eq(convoyParticipants.status, "joined"),
+        lte(convoys.startDateTime, asOf),
+      ));
+    const make = sql<string>`lower(${vehicles.make})`;
+
+    const [likeCounts, commentCounts, followed, companions, viewerMakes, authorMakes] = await Promise.all([
+      db
+        .select({ postId: postLikes.postId, count: count() })
+        .from(postLikes)
+        .where(and(inArray(postLikes.postId, postIds), lte(postLikes.createdAt, asOf)))
+        .groupBy(postLikes.postId),
+      db
+        .select({ postId: postComments.postId, count: count() })
+        .from(postComments)
+        .where(and(inArray(postComments.postId, postIds), lte(postComments.createdAt, asOf)))
+        .groupBy(postComments.postId),
+      db
+        .select({ userId: userFollows.followingId })
+        .from(userFollows)
+        .where(and(
+          eq(userFollows.followerId, viewerId),
+          inArray(userFollows.followingId, authorIds),
+          lte(userFollows.createdAt, asOf),
+        )),
+      db
+        .select({ userId: convoyParticipants.userId, convoys: countDistinct(convoyParticipants.convoyId) })
+        .from(convoyParticipants)
+        .where(and(
+          inArray(convoyParticipants.convoyId, attended),
+          inArray(convoyParticipants.userId, authorIds),
+          eq(convoyParticipants.status, "joined"),
+        ))
+        .groupBy(convoyParticipants.userId),
+      db.selectDistinct({ make }).from(vehicles).where(eq(vehicles.userId, viewerId)),
+      db.selectDistinct({ userId: vehicles.userId, make }).from(vehicles).where(inArray(vehicles.userId, authorIds)),
+    ]);
+
+    const likes = new Map(likeCounts.map(row => [row.postId, row.count]));
+    const comments = new Map(commentCounts.map(row => [row.postId, row.count]));
+    const follows = new Set(followed.map(row => row.userId));
+    const sharedConvoys = new Map(companions.map(row => [row.userId, row.convoys]));
+    const garageMakes = new Set(viewerMakes.map(row => row.make));
+    const sharedMakes = new Map<string, number>();
+    for (const row of authorMakes) {
+      if (garageMakes.has(row.make)) sharedMakes.set(row.userId, (sharedMakes.get(row.userId) ?? 0) + 1);
+    }
+
+    return candidates.map(post => ({
+      post,
+      likes: likes.get(post.id) ?? 0,
+      comments: comments.get(post.id) ?? 0,
+      followsAuthor: follows.has(post.userId),
+      sharedConvoys: sharedConvoys.get(post.userId) ?? 0,
+      sharedMakes: sharedMakes.get(post.userId) ?? 0,
+    }));
   }
 
-  async getUserPosts(userId: string, limit = 20, offset = 0): Promise<Post[]> {
-    return await db
+  // Only the first sighting is kept, so a post counts as seen from when it was first shown
+  async markPostsSeen(userId: string, postIds: number[]): Promise<void> {
+    if (postIds.length === 0) return;
+    await db
+      .insert(postImpressions)
+      .values(Array.from(new Set(postIds)).map(postId => ({ userId, postId })))
+      .onConflictDoNothing();
+  }
+
+  async getUserPosts(userId: string, page: PageRequest): Promise<CursorPage<Post>> {
+    const keys = [timestampKey(posts.createdAt), columnKey(posts.id)];
+    const rows = await db
       .select()
       .from(posts)
-      .where(eq(posts.userId, userId))
-      .orderBy(desc(posts.createdAt))
-      .limit(limit)
-      .offset(offset);
+      .where(and(eq(posts.userId, userId), afterCursor(keys, page.after)))
+      .orderBy(...orderByKeys(keys))
+      .limit(page.limit + 1);
+    return toPage(rows, page, post => [cursorTimestamp(post.createdAt), post.id]);
   }
 
   async getPost(id: number): Promise<Post | undefined> {
@@ -245,16 +666,22 @@ export class DatabaseStorage implements IStorage {
     return !!saved;
   }
 
-  async getUserSavedPosts(userId: string, limit = 20, offset = 0): Promise<Post[]> {
-    return await db
+  // Most recently saved first
+  async getUserSavedPosts(userId: string, page: PageRequest): Promise<CursorPage<Post>> {
+    const keys = [timestampKey(savedPosts.createdAt), columnKey(savedPosts.id)];
+    const rows = await db
       .select()
       .from(posts)
       .innerJoin(savedPosts, eq(posts.id, savedPosts.postId))
-      .where(eq(savedPosts.userId, userId))
-      .orderBy(desc(savedPosts.createdAt))
-      .limit(limit)
-      .offset(offset)
-      .then(results => results.map(result => result.posts));
+      .where(and(eq(savedPosts.userId, userId), afterCursor(keys, page.after)))
+      .orderBy(...orderByKeys(keys))
+      .limit(page.limit + 1);
+    return toPage(
+      rows,
+      page,
+      row => [cursorTimestamp(row.saved_posts.createdAt), row.saved_posts.id],
+      row => row.posts,
+    );
   }
 
   async updatePost(id: number, updates: Partial<InsertPost>): Promise<Post> {
@@ -270,26 +697,68 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Drive log operations
+  // Any incoming track is cleaned and gets its display polylines, climb and curvature stats rebuilt alongside it
+  private withProcessedTrack<T extends Partial<InsertDriveLog>>(driveLog: T): T & Partial<DriveLog> {
+    if (driveLog.routeCoordinates === undefined || driveLog.routeCoordinates === null) {
+      return driveLog;
+    }
+    const { points, simplifiedRoute } = processTrack(driveLog.routeCoordinates);
+    const elevation = computeElevationStats(points);
+    const curvature = computeCurvature(points);
+    return {
+      ...driveLog,
+      routeCoordinates: points,
+      simplifiedRoute,
+      totalAscent: elevation ? elevation.totalAscent.toFixed(1) : null,
+      totalDescent: elevation ? elevation.totalDescent.toFixed(1) : null,
+      maxElevation: elevation ? elevation.maxElevation.toFixed(1) : null,
+      minElevation: elevation ? elevation.minElevation.toFixed(1) : null,
+      elevationProfile: elevation ? elevation.profile : null,
+      twistinessScore: curvature ? curvature.twistinessScore : null,
+      bendCount: curvature ? curvature.bendCount : null,
+      curvyDistancePercent: curvature ? curvature.curvyDistancePercent.toFixed(1) : null,
+    };
+  }
+
   async createDriveLog(driveLog: InsertDriveLog): Promise<DriveLog> {
-    const [newDriveLog] = await db.insert(driveLogs).values(driveLog).returning();
-    
-    // Update user's total miles
-    await db
-      .update(users)
-      .set({
-        totalMiles: sql`${users.totalMiles} + ${driveLog.distance}`,
-      })
-      .where(eq(users.id, driveLog.userId));
-    
+    const newDriveLog = await db.transaction(async (tx) => {
+      await lockUsers(tx, [driveLog.userId]);
+      const [inserted] = await tx.insert(driveLogs).values(this.withProcessedTrack(driveLog)).returning();
+      await refreshUserAggregates(tx, [inserted.userId], ['totalMiles']);
+      return inserted;
+    });
+    await this.matchSegmentEfforts(newDriveLog);
     return newDriveLog;
   }
 
-  async getUserDriveLogs(userId: string): Promise<DriveLog[]> {
+  // Drive logs never change owner, so their owner can be read before it's locked
+  private async lockDriveLogOwner(tx: Executor, id: number): Promise<void> {
+    const [driveLog] = await tx.select({ userId: driveLogs.userId }).from(driveLogs).where(eq(driveLogs.id, id));
+    if (driveLog) await lockUsers(tx, [driveLog.userId]);
+  }
+
+  async getUserDriveLogs(userId: string, options: DriveLogListOptions = {}): Promise<DriveLog[]> {
     return await db
       .select()
       .from(driveLogs)
-      .where(eq(driveLogs.userId, userId))
-      .orderBy(desc(driveLogs.startTime));
+      .where(driveLogListFilter(userId, options))
+      .orderBy(...orderByKeys(driveLogSortKeys(options.sort)));
+  }
+
+  async getUserDriveLogsPage(userId: string, options: DriveLogListOptions, page: PageRequest): Promise<CursorPage<DriveLog>> {
+    const keys = driveLogSortKeys(options.sort);
+    const rows = await db
+      .select()
+      .from(driveLogs)
+      .where(and(driveLogListFilter(userId, options), afterCursor(keys, page.after)))
+      .orderBy(...orderByKeys(keys))
+      .limit(page.limit + 1);
+    return toPage(rows, page, driveLog => {
+      const tail = [cursorTimestamp(driveLog.startTime), driveLog.id];
+      if (options.sort === 'distance') return [driveLog.distance, ...tail];
+      if (options.sort === 'twistiness') return [driveLog.twistinessScore ?? -1, ...tail];
+      return tail;
+    });
   }
 
   async getDriveLog(id: number): Promise<DriveLog | undefined> {
@@ -297,28 +766,115 @@ export class DatabaseStorage implements IStorage {
     return driveLog;
   }
 
-  async getDriveLogWithPitstops(id: number): Promise<(DriveLog & { pitstops: Pitstop[] }) | undefined> {
+  // Serves the simplified display polylines only, unless the full raw track is asked for (e.g. exports)
+  async getDriveLogWithPitstops(id: number, options: { fullTrack?: boolean } = {}): Promise<(DriveLog & { pitstops: Pitstop[] }) | undefined> {
     const [driveLog] = await db.select().from(driveLogs).where(eq(driveLogs.id, id));
     if (!driveLog) return undefined;
 
     const pitstopsData = await this.getPitstopsByDriveLog(id);
-    return { ...driveLog, pitstops: pitstopsData };
+    return {
+      ...driveLog,
+      routeCoordinates: options.fullTrack ? driveLog.routeCoordinates : null,
+      pitstops: pitstopsData,
+    };
   }
 
   async updateDriveLog(id: number, updates: Partial<InsertDriveLog>): Promise<DriveLog> {
-    const [updatedDriveLog] = await db
-      .update(driveLogs)
-      .set(updates)
-      .where(eq(driveLogs.id, id))
-      .returning();
+    const updatedDriveLog = await db.transaction(async (tx) => {
+      await this.lockDriveLogOwner(tx, id);
+      const [updated] = await tx
+        .update(driveLogs)
+        .set(this.withProcessedTrack(updates))
+        .where(eq(driveLogs.id, id))
+        .returning();
+      await refreshUserAggregates(tx, [updated.userId], ['totalMiles']);
+      return updated;
+    });
+    if (updates.routeCoordinates !== undefined || updates.vehicleId !== undefined) {
+      await this.matchSegmentEfforts(updatedDriveLog);
+    }
     return updatedDriveLog;
   }
 
   async deleteDriveLog(id: number): Promise<void> {
-    // First delete associated pitstops
-    await db.delete(pitstops).where(eq(pitstops.driveLogId, id));
-    // Then delete the drive log
-    await db.delete(driveLogs).where(eq(driveLogs.id, id));
+    await db.transaction(async (tx) => {
+      await this.lockDriveLogOwner(tx, id);
+      // First delete associated pitstops
+      await tx.delete(pitstops).where(eq(pitstops.driveLogId, id));
+      // Then delete the drive log
+      const deleted = await tx.delete(driveLogs).where(eq(driveLogs.id, id)).returning({ userId: driveLogs.userId });
+      await refreshUserAggregates(tx, deleted.map(row => row.userId), ['totalMiles']);
+    });
+  }
+
+  async getRecordingDriveLog(userId: string): Promise<DriveLog | undefined> {
+    const [driveLog] = await db
+      .select()
+      .from(driveLogs)
+      .where(and(eq(driveLogs.userId, userId), eq(driveLogs.status, "recording")))
+      .orderBy(desc(driveLogs.startTime))
+      .limit(1);
+    return driveLog;
+  }
+
+  async appendRoutePoints(id: number, points: RoutePoint[]): Promise<DriveLog> {
+    return await db.transaction(async (tx) => {
+      // Lock the row so concurrent uploads from a flaky connection append in order
+      const [driveLog] = await tx
+        .select()
+        .from(driveLogs)
+        .where(eq(driveLogs.id, id))
+        .for("update");
+
+      const existing = Array.isArray(driveLog.routeCoordinates) ? driveLog.routeCoordinates as RoutePoint[] : [];
+      const last = existing[existing.length - 1];
+      const lastTime = last?.timestamp ? new Date(last.timestamp).getTime() : -Infinity;
+
+      // Drop points already stored, so a retried batch is not appended twice
+      const fresh = points.filter(p => !p.timestamp || new Date(p.timestamp).getTime() > lastTime);
+
+      if (fresh.length === 0) return driveLog;
+
+      let distance = Number(driveLog.distance) || 0;
+      let previous = last;
+      for (const point of fresh) {
+        if (previous) distance += haversineDistance(previous, point);
+        previous = point;
+      }
+
+      const first = existing[0] || fresh[0];
+      const end = fresh[fresh.length - 1];
+      const [updatedDriveLog] = await tx
+        .update(driveLogs)
+        .set({
+          routeCoordinates: [...existing, ...fresh],
+          distance: distance.toFixed(2),
+          startLatitude: first.latitude.toFixed(8),
+          startLongitude: first.longitude.toFixed(8),
+          endLatitude: end.latitude.toFixed(8),
+          endLongitude: end.longitude.toFixed(8),
+        })
+        .where(eq(driveLogs.id, id))
+        .returning();
+      return updatedDriveLog;
+    });
+  }
+
+  async completeRecordingDriveLog(id: number, updates: Partial<InsertDriveLog>): Promise<DriveLog> {
+    // Recordings don't count towards the user's distance until they are completed
+    const completedDriveLog = await db.transaction(async (tx) => {
+      await this.lockDriveLogOwner(tx, id);
+      const [completed] = await tx
+        .update(driveLogs)
+        .set({ ...this.withProcessedTrack(updates), status: "completed" })
+        .where(eq(driveLogs.id, id))
+        .returning();
+      await refreshUserAggregates(tx, [completed.userId], ['totalMiles']);
+      return completed;
+    });
+
+    await this.matchSegmentEfforts(completedDriveLog);
+    return completedDriveLog;
   }
 
   // Pitstop operations
@@ -373,29 +929,896 @@ export class DatabaseStorage implements IStorage {
       .where(eq(driveLogs.id, pitstop.driveLogId));
   }
 
+  // Privacy zone operations
+  async getUserPrivacyZones(userId: string): Promise<PrivacyZone[]> {
+    return await db
+      .select()
+      .from(privacyZones)
+      .where(eq(privacyZones.userId, userId))
+      .orderBy(privacyZones.createdAt);
+  }
+
+  async getPrivacyZone(id: number): Promise<PrivacyZone | undefined> {
+    const [zone] = await db.select().from(privacyZones).where(eq(privacyZones.id, id));
+    return zone;
+  }
+
+  async createPrivacyZone(zone: InsertPrivacyZone): Promise<PrivacyZone> {
+    const [newZone] = await db.insert(privacyZones).values(zone).returning();
+    return newZone;
+  }
+
+  async deletePrivacyZone(id: number): Promise<void> {
+    await db.delete(privacyZones).where(eq(privacyZones.id, id));
+  }
+
+  // Segment operations
+  // Time every pass of a drive's track through nearby segments, replacing any earlier efforts for it
+  private async matchSegmentEfforts(driveLog: DriveLog): Promise<void> {
+    const points = Array.isArray(driveLog.routeCoordinates) ? driveLog.routeCoordinates as RoutePoint[] : [];
+    const efforts: InsertSegmentEffort[] = [];
+
+    if (points.length >= 2 && driveLog.status !== "recording") {
+      const bounds = trackBounds(points, MAX_GATE_RADIUS);
+      const candidates = await db
+        .select()
+        .from(segments)
+        .where(and(
+          gte(segments.startLatitude, bounds.minLatitude.toString()),
+          lte(segments.startLatitude, bounds.maxLatitude.toString()),
+          gte(segments.startLongitude, bounds.minLongitude.toString()),
+          lte(segments.startLongitude, bounds.maxLongitude.toString()),
+          gte(segments.endLatitude, bounds.minLatitude.toString()),
+          lte(segments.endLatitude, bounds.maxLatitude.toString()),
+          gte(segments.endLongitude, bounds.minLongitude.toString()),
+          lte(segments.endLongitude, bounds.maxLongitude.toString()),
+        ));
+
+      if (candidates.length > 0) {
+        const vehicle = driveLog.vehicleId ? await this.getVehicle(driveLog.vehicleId) : undefined;
+        for (const segment of candidates) {
+          for (const match of matchSegment(points, segmentGates(segment))) {
+            efforts.push({
+              segmentId: segment.id,
+              driveLogId: driveLog.id,
+              userId: driveLog.userId,
+              vehicleId: driveLog.vehicleId,
+              vehicleClass: vehicle?.vehicleClass || "other",
+              startTime: match.startTime,
+              endTime: match.endTime,
+              elapsedTime: match.elapsedTime,
+              avgSpeed: match.avgSpeed.toFixed(2),
+            });
+          }
+        }
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(segmentEfforts).where(eq(segmentEfforts.driveLogId, driveLog.id));
+      if (efforts.length > 0) {
+        await tx.insert(segmentEfforts).values(efforts);
+      }
+    });
+  }
+
+  async createSegment(segment: InsertSegment): Promise<Segment> {
+    const [newSegment] = await db.insert(segments).values(segment).returning();
+    return newSegment;
+  }
+
+  async getSegments(): Promise<Array<Segment & { effortCount: number }>> {
+    const rows = await db
+      .select({ segment: segments, effortCount: count(segmentEfforts.id) })
+      .from(segments)
+      .leftJoin(segmentEfforts, eq(segmentEfforts.segmentId, segments.id))
+      .groupBy(segments.id)
+      .orderBy(segments.name);
+    return rows.map(row => ({ ...row.segment, effortCount: Number(row.effortCount) }));
+  }
+
+  async getSegment(id: number): Promise<Segment | undefined> {
+    const [segment] = await db.select().from(segments).where(eq(segments.id, id));
+    return segment;
+  }
+
+  async getSegmentVehicleClasses(segmentId: number): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ vehicleClass: segmentEfforts.vehicleClass })
+      .from(segmentEfforts)
+      .where(eq(segmentEfforts.segmentId, segmentId))
+      .orderBy(segmentEfforts.vehicleClass);
+    return rows.map(row => row.vehicleClass);
+  }
+
+  // Each user's best effort on public drives, fastest first
+  async getSegmentLeaderboard(segmentId: number, vehicleClass?: string, limit = 50): Promise<SegmentLeaderboardEntry[]> {
+    const conditions = [eq(segmentEfforts.segmentId, segmentId), eq(driveLogs.isPublic, true)];
+    if (vehicleClass) {
+      conditions.push(eq(segmentEfforts.vehicleClass, vehicleClass));
+    }
+
+    const rows = await db
+      .selectDistinctOn([segmentEfforts.userId], {
+        effort: segmentEfforts,
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        },
+        vehicle: {
+          make: vehicles.make,
+          model: vehicles.model,
+          year: vehicles.year,
+        },
+      })
+      .from(segmentEfforts)
+      .innerJoin(driveLogs, eq(segmentEfforts.driveLogId, driveLogs.id))
+      .innerJoin(users, eq(segmentEfforts.userId, users.id))
+      .leftJoin(vehicles, eq(segmentEfforts.vehicleId, vehicles.id))
+      .where(and(...conditions))
+      .orderBy(segmentEfforts.userId, segmentEfforts.elapsedTime);
+
+    return rows
+      .sort((a, b) => a.effort.elapsedTime - b.effort.elapsedTime)
+      .slice(0, limit)
+      .map((row, index) => ({ rank: index + 1, ...row }));
+  }
+
+  async getUserSegmentEfforts(segmentId: number, userId: string): Promise<SegmentEffort[]> {
+    return await db
+      .select()
+      .from(segmentEfforts)
+      .where(and(eq(segmentEfforts.segmentId, segmentId), eq(segmentEfforts.userId, userId)))
+      .orderBy(segmentEfforts.startTime);
+  }
+
+  async getDriveLogSegmentEfforts(driveLogId: number): Promise<Array<SegmentEffort & { segmentName: string }>> {
+    const rows = await db
+      .select({ effort: segmentEfforts, segmentName: segments.name })
+      .from(segmentEfforts)
+      .innerJoin(segments, eq(segmentEfforts.segmentId, segments.id))
+      .where(eq(segmentEfforts.driveLogId, driveLogId))
+      .orderBy(segmentEfforts.startTime);
+    return rows.map(row => ({ ...row.effort, segmentName: row.segmentName }));
+  }
+
+  // Match a new segment against every existing track, a page of drive logs at a time
+  async backfillSegmentEfforts(segment: Segment): Promise<number> {
+    const gates = segmentGates(segment);
+    const batchSize = 100;
+    let lastId = 0;
+    let matched = 0;
+
+    while (true) {
+      const batch = await db
+        .select()
+        .from(driveLogs)
+        .where(and(
+          sql`${driveLogs.id} > ${lastId}`,
+          sql`${driveLogs.routeCoordinates} is not null`,
+          eq(driveLogs.status, "completed"),
+        ))
+        .orderBy(driveLogs.id)
+        .limit(batchSize);
+      if (batch.length === 0) break;
+      lastId = batch[batch.length - 1].id;
+
+      const efforts: InsertSegmentEffort[] = [];
+      for (const driveLog of batch) {
+        const points = Array.isArray(driveLog.routeCoordinates) ? driveLog.routeCoordinates as RoutePoint[] : [];
+        const matches = matchSegment(points, gates);
+        if (matches.length === 0) continue;
+
+        const vehicle = driveLog.vehicleId ? await this.getVehicle(driveLog.vehicleId) : undefined;
+        for (const match of matches) {
+          efforts.push({
+            segmentId: segment.id,
+            driveLogId: driveLog.id,
+            userId: driveLog.userId,
+            vehicleId: driveLog.vehicleId,
+            vehicleClass: vehicle?.vehicleClass || "other",
+            startTime: match.startTime,
+            endTime: match.endTime,
+            elapsedTime: match.elapsedTime,
+            avgSpeed: match.avgSpeed.toFixed(2),
+          });
+        }
+      }
+
+      if (efforts.length > 0) {
+        await db.insert(segmentEfforts).values(efforts);
+        matched += efforts.length;
+      }
+    }
+
+    return matched;
+  }
+
+  // Fuel log operations
+  async createFuelEntry(entry: InsertFuelEntry): Promise<FuelEntry> {
+    const [newEntry] = await db.insert(fuelEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async getVehicleFuelEntries(vehicleId: number): Promise<FuelEntry[]> {
+    return await db
+      .select()
+      .from(fuelEntries)
+      .where(and(eq(fuelEntries.vehicleId, vehicleId), belongsToCurrentOwner(fuelEntries.vehicleId, fuelEntries.userId)))
+      .orderBy(desc(fuelEntries.odometer), desc(fuelEntries.filledAt));
+  }
+
+  async getUserFuelEntries(userId: string): Promise<FuelEntry[]> {
+    return await db
+      .select()
+      .from(fuelEntries)
+      .where(eq(fuelEntries.userId, userId))
+      .orderBy(desc(fuelEntries.odometer), desc(fuelEntries.filledAt));
+  }
+
+  async getDriveLogFuelEntries(driveLogId: number): Promise<FuelEntry[]> {
+    return await db
+      .select()
+      .from(fuelEntries)
+      .where(eq(fuelEntries.driveLogId, driveLogId))
+      .orderBy(fuelEntries.filledAt);
+  }
+
+  async getFuelEntry(id: number): Promise<FuelEntry | undefined> {
+    const [entry] = await db.select().from(fuelEntries).where(eq(fuelEntries.id, id));
+    return entry;
+  }
+
+  async updateFuelEntry(id: number, updates: Partial<InsertFuelEntry>): Promise<FuelEntry> {
+    const [updatedEntry] = await db
+      .update(fuelEntries)
+      .set(updates)
+      .where(eq(fuelEntries.id, id))
+      .returning();
+    return updatedEntry;
+  }
+
+  async deleteFuelEntry(id: number): Promise<void> {
+    await db.delete(fuelEntries).where(eq(fuelEntries.id, id));
+  }
+
+  // Maintenance operations
+  async createServiceRecord(record: InsertServiceRecord): Promise<ServiceRecord> {
+    const [newRecord] = await db.insert(serviceRecords).values(record).returning();
+    return newRecord;
+  }
+
+  async getVehicleServiceRecords(vehicleId: number): Promise<ServiceRecord[]> {
+    return await db
+      .select()
+      .from(serviceRecords)
+      .where(and(eq(serviceRecords.vehicleId, vehicleId), belongsToCurrentOwner(serviceRecords.vehicleId, serviceRecords.userId)))
+      .orderBy(desc(serviceRecords.performedAt));
+  }
+
+  async getServiceRecord(id: number): Promise<ServiceRecord | undefined> {
+    const [record] = await db.select().from(serviceRecords).where(eq(serviceRecords.id, id));
+    return record;
+  }
+
+  async deleteServiceRecord(id: number): Promise<void> {
+    await db.delete(serviceRecords).where(eq(serviceRecords.id, id));
+  }
+
+  async createMaintenanceReminder(reminder: InsertMaintenanceReminder): Promise<MaintenanceReminder> {
+    const [newReminder] = await db.insert(maintenanceReminders).values(reminder).returning();
+    return newReminder;
+  }
+
+  async getVehicleMaintenanceReminders(vehicleId: number): Promise<MaintenanceReminder[]> {
+    return await db
+      .select()
+      .from(maintenanceReminders)
+      .where(and(eq(maintenanceReminders.vehicleId, vehicleId), belongsToCurrentOwner(maintenanceReminders.vehicleId, maintenanceReminders.userId)))
+      .orderBy(maintenanceReminders.serviceType);
+  }
+
+  async getMaintenanceReminder(id: number): Promise<MaintenanceReminder | undefined> {
+    const [reminder] = await db.select().from(maintenanceReminders).where(eq(maintenanceReminders.id, id));
+    return reminder;
+  }
+
+  async deleteMaintenanceReminder(id: number): Promise<void> {
+    await db.delete(maintenanceReminders).where(eq(maintenanceReminders.id, id));
+  }
+
+  // Build sheet operations
+  async createVehicleModification(modification: InsertVehicleModification): Promise<VehicleModification> {
+    const [newModification] = await db.insert(vehicleModifications).values(modification).returning();
+    return newModification;
+  }
+
+  async getVehicleModifications(vehicleId: number): Promise<VehicleModification[]> {
+    return await db
+      .select()
+      .from(vehicleModifications)
+      .where(and(eq(vehicleModifications.vehicleId, vehicleId), belongsToCurrentOwner(vehicleModifications.vehicleId, vehicleModifications.userId)))
+      .orderBy(vehicleModifications.installedAt);
+  }
+
+  async getVehicleModification(id: number): Promise<VehicleModification | undefined> {
+    const [modification] = await db.select().from(vehicleModifications).where(eq(vehicleModifications.id, id));
+    return modification;
+  }
+
+  async deleteVehicleModification(id: number): Promise<void> {
+    await db.delete(vehicleModifications).where(eq(vehicleModifications.id, id));
+  }
+
+  async createPerformanceRecord(record: InsertPerformanceRecord): Promise<PerformanceRecord> {
+    const [newRecord] = await db.insert(performanceRecords).values(record).returning();
+    return newRecord;
+  }
+
+  async getVehiclePerformanceRecords(vehicleId: number): Promise<PerformanceRecord[]> {
+    return await db
+      .select()
+      .from(performanceRecords)
+      .where(and(eq(performanceRecords.vehicleId, vehicleId), belongsToCurrentOwner(performanceRecords.vehicleId, performanceRecords.userId)))
+      .orderBy(performanceRecords.recordedAt);
+  }
+
+  async getPerformanceRecord(id: number): Promise<PerformanceRecord | undefined> {
+    const [record] = await db.select().from(performanceRecords).where(eq(performanceRecords.id, id));
+    return record;
+  }
+
+  async deletePerformanceRecord(id: number): Promise<void> {
+    await db.delete(performanceRecords).where(eq(performanceRecords.id, id));
+  }
+
+  // Vehicle photo operations
+  async getVehiclePhotos(vehicleId: number): Promise<VehiclePhoto[]> {
+    return await db
+      .select()
+      .from(vehiclePhotos)
+      .where(eq(vehiclePhotos.vehicleId, vehicleId))
+      .orderBy(vehiclePhotos.position, vehiclePhotos.id);
+  }
+
+  async getUserVehiclePhotos(userId: string): Promise<VehiclePhoto[]> {
+    return await db
+      .select()
+      .from(vehiclePhotos)
+      .where(eq(vehiclePhotos.userId, userId))
+      .orderBy(vehiclePhotos.vehicleId, vehiclePhotos.position, vehiclePhotos.id);
+  }
+
+  async getVehiclePhoto(id: number): Promise<VehiclePhoto | undefined> {
+    const [photo] = await db.select().from(vehiclePhotos).where(eq(vehiclePhotos.id, id));
+    return photo;
+  }
+
+  // Appends to the end of the gallery. A vehicle that only has its original single image gets that
+  // adopted as the first photo, and a vehicle without a cover takes the first new photo as one.
+  async addVehiclePhotos(vehicle: Vehicle, photos: { url: string; caption?: string | null }[]): Promise<VehiclePhoto[]> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ url: vehiclePhotos.url, position: vehiclePhotos.position })
+        .from(vehiclePhotos)
+        .where(eq(vehiclePhotos.vehicleId, vehicle.id));
+
+      const adoptsImage = existing.length === 0 && !!vehicle.imageUrl && !photos.some(photo => photo.url === vehicle.imageUrl);
+      const rows = adoptsImage ? [{ url: vehicle.imageUrl!, caption: null }, ...photos] : photos;
+
+      let position = Math.max(-1, ...existing.map(photo => photo.position)) + 1;
+      const inserted = await tx
+        .insert(vehiclePhotos)
+        .values(rows.map(row => ({
+          vehicleId: vehicle.id,
+          userId: vehicle.userId,
+          url: row.url,
+          caption: row.caption || null,
+          position: position++,
+        })))
+        .returning();
+
+      if (!vehicle.imageUrl) {
+        await tx
+          .update(vehicles)
+          .set({ imageUrl: inserted[0].url, updatedAt: new Date() })
+          .where(eq(vehicles.id, vehicle.id));
+      }
+      return adoptsImage ? inserted.slice(1) : inserted;
+    });
+  }
+
+  async updateVehiclePhoto(id: number, updates: { caption: string | null }): Promise<VehiclePhoto> {
+    const [photo] = await db
+      .update(vehiclePhotos)
+      .set(updates)
+      .where(eq(vehiclePhotos.id, id))
+      .returning();
+    return photo;
+  }
+
+  // photoIds must list every photo of the vehicle, in the new order
+  async reorderVehiclePhotos(vehicleId: number, photoIds: number[]): Promise<VehiclePhoto[]> {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < photoIds.length; position++) {
+        await tx
+          .update(vehiclePhotos)
+          .set({ position })
+          .where(and(eq(vehiclePhotos.id, photoIds[position]), eq(vehiclePhotos.vehicleId, vehicleId)));
+      }
+    });
+    return await this.getVehiclePhotos(vehicleId);
+  }
+
+  // Removing the cover hands it to the next photo in the gallery, or clears it if none are left
+  async deleteVehiclePhoto(photo: VehiclePhoto): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(vehiclePhotos).where(eq(vehiclePhotos.id, photo.id));
+
+      const [vehicle] = await tx.select().from(vehicles).where(eq(vehicles.id, photo.vehicleId));
+      if (vehicle?.imageUrl !== photo.url) return;
+
+      const [next] = await tx
+        .select()
+        .from(vehiclePhotos)
+        .where(eq(vehiclePhotos.vehicleId, photo.vehicleId))
+        .orderBy(vehiclePhotos.position, vehiclePhotos.id)
+        .limit(1);
+      await tx
+        .update(vehicles)
+        .set({ imageUrl: next?.url ?? null, updatedAt: new Date() })
+        .where(eq(vehicles.id, photo.vehicleId));
+    });
+  }
+
+  // Vehicle document operations
+  async createVehicleDocument(document: InsertVehicleDocument): Promise<VehicleDocument> {
+    const [newDocument] = await db.insert(vehicleDocuments).values(document).returning();
+    return newDocument;
+  }
+
+  async getVehicleDocuments(vehicleId: number): Promise<VehicleDocument[]> {
+    return await db
+      .select()
+      .from(vehicleDocuments)
+      .where(and(eq(vehicleDocuments.vehicleId, vehicleId), belongsToCurrentOwner(vehicleDocuments.vehicleId, vehicleDocuments.userId)))
+      .orderBy(vehicleDocuments.type, sql`${vehicleDocuments.expiresAt} desc nulls last`);
+  }
+
+  async getVehicleDocument(id: number): Promise<VehicleDocument | undefined> {
+    const [document] = await db.select().from(vehicleDocuments).where(eq(vehicleDocuments.id, id));
+    return document;
+  }
+
+  // Every document of the user's that has an expiry date, with the vehicle it belongs to
+  async getUserDatedDocuments(userId: string): Promise<{ document: VehicleDocument; vehicle: { id: number; make: string; model: string; year: number } }[]> {
+    return await db
+      .select({
+        document: vehicleDocuments,
+        vehicle: { id: vehicles.id, make: vehicles.make, model: vehicles.model, year: vehicles.year },
+      })
+      .from(vehicleDocuments)
+      .innerJoin(vehicles, eq(vehicleDocuments.vehicleId, vehicles.id))
+      .where(and(
+        eq(vehicleDocuments.userId, userId),
+        eq(vehicles.userId, userId),
+        sql`${vehicleDocuments.expiresAt} is not null`,
+      ))
+      .orderBy(vehicleDocuments.expiresAt);
+  }
+
+  // Whether a document of this type covers the given moment; one without an expiry date never runs out
+  async hasValidVehicleDocument(vehicleId: number, type: string, at: Date): Promise<boolean> {
+    const [match] = await db
+      .select({ id: vehicleDocuments.id })
+      .from(vehicleDocuments)
+      .where(and(
+        eq(vehicleDocuments.vehicleId, vehicleId),
+        belongsToCurrentOwner(vehicleDocuments.vehicleId, vehicleDocuments.userId),
+        eq(vehicleDocuments.type, type),
+        sql`(${vehicleDocuments.issuedAt} is null or ${vehicleDocuments.issuedAt} <= ${at})`,
+        sql`(${vehicleDocuments.expiresAt} is null or ${vehicleDocuments.expiresAt} >= ${at})`,
+      ))
+      .limit(1);
+    return !!match;
+  }
+
+  async deleteVehicleDocument(id: number): Promise<void> {
+    await db.delete(vehicleDocuments).where(eq(vehicleDocuments.id, id));
+  }
+
+  // Vehicle transfer operations
+  // Undefined when the vehicle already has a pending transfer
+  async createVehicleTransfer(transfer: InsertVehicleTransfer): Promise<VehicleTransfer | undefined> {
+    const [newTransfer] = await db.insert(vehicleTransfers).values(transfer).onConflictDoNothing().returning();
+    return newTransfer;
+  }
+
+  async getVehicleTransfer(id: number): Promise<VehicleTransfer | undefined> {
+    const [transfer] = await db.select().from(vehicleTransfers).where(eq(vehicleTransfers.id, id));
+    return transfer;
+  }
+
+  async getPendingVehicleTransfer(vehicleId: number): Promise<VehicleTransfer | undefined> {
+    const [transfer] = await db
+      .select()
+      .from(vehicleTransfers)
+      .where(and(eq(vehicleTransfers.vehicleId, vehicleId), eq(vehicleTransfers.status, 'pending')))
+      .limit(1);
+    return transfer;
+  }
+
+  // Pending transfers the user has offered or been offered, newest first
+  async getUserVehicleTransfers(userId: string): Promise<VehicleTransferSummary[]> {
+    const rows = await db
+      .select({
+        transfer: vehicleTransfers,
+        vehicle: {
+          id: vehicles.id,
+          make: vehicles.make,
+          model: vehicles.model,
+          year: vehicles.year,
+          imageUrl: vehicles.imageUrl,
+        },
+      })
+      .from(vehicleTransfers)
+      .innerJoin(vehicles, eq(vehicleTransfers.vehicleId, vehicles.id))
+      .where(and(
+        eq(vehicleTransfers.status, 'pending'),
+        or(eq(vehicleTransfers.fromUserId, userId), eq(vehicleTransfers.toUserId, userId)),
+      ))
+      .orderBy(desc(vehicleTransfers.createdAt));
+
+    if (rows.length === 0) return [];
+
+    const userIds = Array.from(new Set(rows.flatMap((row) => [row.transfer.fromUserId, row.transfer.toUserId])));
+    const people = await db.select(userSummaryColumns).from(users).where(inArray(users.id, userIds));
+    const byId = new Map(people.map((person) => [person.id, person]));
+
+    return rows.map((row) => ({
+      ...row,
+      fromUser: byId.get(row.transfer.fromUserId) as UserSummary,
+      toUser: byId.get(row.transfer.toUserId) as UserSummary,
+    }));
+  }
+
+  // Undefined when the transfer was no longer pending, e.g. accepted or cancelled in the meantime
+  async respondToVehicleTransfer(id: number, status: 'declined' | 'cancelled'): Promise<VehicleTransfer | undefined> {
+    const [updatedTransfer] = await db
+      .update(vehicleTransfers)
+      .set({ status, respondedAt: new Date() })
+      .where(and(eq(vehicleTransfers.id, id), eq(vehicleTransfers.status, 'pending')))
+      .returning();
+    return updatedTransfer;
+  }
+
+  // Hands the vehicle to the recipient. Drive logs, fuel entries and documents stay with the
+  // people who made them; service history and the build sheet follow the car if the seller chose to.
+  // The transfer and vehicle rows stay locked throughout, so a concurrent cancel or a second accept waits
+  // and then finds the transfer no longer pending
+  async completeVehicleTransfer(id: number): Promise<CompleteVehicleTransferResult> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [transfer] = await tx.select().from(vehicleTransfers).where(eq(vehicleTransfers.id, id)).for("update");
+      if (transfer.status !== 'pending') {
+        return { outcome: "not_pending" as const, status: transfer.status };
+      }
+
+      // The seller may have passed the car on some other way since making the offer
+      const [vehicle] = await tx.select().from(vehicles).where(eq(vehicles.id, transfer.vehicleId)).for("update");
+      if (!vehicle || vehicle.userId !== transfer.fromUserId) {
+        await tx
+          .update(vehicleTransfers)
+          .set({ status: 'cancelled', respondedAt: now })
+          .where(eq(vehicleTransfers.id, transfer.id));
+        return { outcome: "not_owned" as const };
+      }
+
+      // Vehicles added before ownership was tracked get their first owner's stint backfilled
+      const [current] = await tx
+        .select({ id: vehicleOwnerships.id })
+        .from(vehicleOwnerships)
+        .where(and(eq(vehicleOwnerships.vehicleId, vehicle.id), isNull(vehicleOwnerships.endedAt)))
+        .limit(1);
+      if (current) {
+        await tx.update(vehicleOwnerships).set({ endedAt: now }).where(eq(vehicleOwnerships.id, current.id));
+      } else {
+        await tx.insert(vehicleOwnerships).values({
+          vehicleId: vehicle.id,
+          userId: vehicle.userId,
+          startedAt: vehicle.createdAt ?? now,
+          endedAt: now,
+        });
+      }
+      await tx.insert(vehicleOwnerships).values({
+        vehicleId: vehicle.id,
+        userId: transfer.toUserId,
+        startedAt: now,
+        transferId: transfer.id,
+      });
+
+      const [updatedVehicle] = await tx
+        .update(vehicles)
+        .set({ userId: transfer.toUserId, updatedAt: now })
+        .where(eq(vehicles.id, vehicle.id))
+        .returning();
+
+      await tx
+        .update(vehiclePhotos)
+        .set({ userId: transfer.toUserId })
+        .where(eq(vehiclePhotos.vehicleId, vehicle.id));
+
+      if (transfer.includeServiceHistory) {
+        await tx
+          .update(serviceRecords)
+          .set({ userId: transfer.toUserId })
+          .where(and(eq(serviceRecords.vehicleId, vehicle.id), eq(serviceRecords.userId, transfer.fromUserId)));
+        await tx
+          .update(maintenanceReminders)
+          .set({ userId: transfer.toUserId })
+          .where(and(eq(maintenanceReminders.vehicleId, vehicle.id), eq(maintenanceReminders.userId, transfer.fromUserId)));
+      }
+
+      if (transfer.includeBuildSheet) {
+        await tx
+          .update(vehicleModifications)
+          .set({ userId: transfer.toUserId })
+          .where(and(eq(vehicleModifications.vehicleId, vehicle.id), eq(vehicleModifications.userId, transfer.fromUserId)));
+        await tx
+          .update(performanceRecords)
+          .set({ userId: transfer.toUserId })
+          .where(and(eq(performanceRecords.vehicleId, vehicle.id), eq(performanceRecords.userId, transfer.fromUserId)));
+      }
+
+      await tx
+        .update(vehicleTransfers)
+        .set({ status: 'accepted', respondedAt: now })
+        .where(eq(vehicleTransfers.id, transfer.id));
+
+      return { outcome: "accepted" as const, vehicle: updatedVehicle };
+    });
+  }
+
+  async getVehicleOwnershipHistory(vehicleId: number): Promise<OwnershipPeriod[]> {
+    const rows = await db
+      .select({ ownership: vehicleOwnerships, user: userSummaryColumns })
+      .from(vehicleOwnerships)
+      .innerJoin(users, eq(vehicleOwnerships.userId, users.id))
+      .where(eq(vehicleOwnerships.vehicleId, vehicleId))
+      .orderBy(vehicleOwnerships.startedAt, vehicleOwnerships.id);
+
+    if (rows.length > 0) {
+      return rows.map(({ ownership, user }) => ({
+        user,
+        startedAt: ownership.startedAt.toISOString(),
+        endedAt: ownership.endedAt ? ownership.endedAt.toISOString() : null,
+        viaTransfer: ownership.transferId !== null,
+      }));
+    }
+
+    // Untracked vehicles have only ever had the owner they were added by
+    const [row] = await db
+      .select({ createdAt: vehicles.createdAt, user: userSummaryColumns })
+      .from(vehicles)
+      .innerJoin(users, eq(vehicles.userId, users.id))
+      .where(eq(vehicles.id, vehicleId));
+    if (!row) return [];
+    return [{
+      user: row.user,
+      startedAt: (row.createdAt ?? new Date()).toISOString(),
+      endedAt: null,
+      viaTransfer: false,
+    }];
+  }
+
+  // Follow operations; both return whether anything changed
+  async followUser(followerId: string, followingId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await lockUsers(tx, [followerId, followingId]);
+      const inserted = await tx
+        .insert(userFollows)
+        .values({ followerId, followingId })
+        .onConflictDoNothing()
+        .returning({ id: userFollows.id });
+      await refreshUserAggregates(tx, [followerId, followingId], ['followers', 'following']);
+      return inserted.length > 0;
+    });
+  }
+
+  async unfollowUser(followerId: string, followingId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await lockUsers(tx, [followerId, followingId]);
+      const deleted = await tx
+        .delete(userFollows)
+        .where(and(eq(userFollows.followerId, followerId), eq(userFollows.followingId, followingId)))
+        .returning({ id: userFollows.id });
+      await refreshUserAggregates(tx, [followerId, followingId], ['followers', 'following']);
+      return deleted.length > 0;
+    });
+  }
+
+  async isFollowing(followerId: string, followingId: string): Promise<boolean> {
+    const [follow] = await db
+      .select({ id: userFollows.id })
+      .from(userFollows)
+      .where(and(eq(userFollows.followerId, followerId), eq(userFollows.followingId, followingId)))
+      .limit(1);
+    return !!follow;
+  }
+
+  async getFollowers(userId: string, page: PageRequest): Promise<CursorPage<FollowListEntry>> {
+    const rows = await db
+      .select({ user: userSummaryColumns, followedAt: userFollows.createdAt, followId: userFollows.id })
+      .from(userFollows)
+      .innerJoin(users, eq(userFollows.followerId, users.id))
+      .where(and(eq(userFollows.followingId, userId), afterCursor(followSortKeys, page.after)))
+      .orderBy(...orderByKeys(followSortKeys))
+      .limit(page.limit + 1);
+    return toPage(rows, page, followCursor, toFollowListEntry);
+  }
+
+  async getFollowing(userId: string, page: PageRequest): Promise<CursorPage<FollowListEntry>> {
+    const rows = await db
+      .select({ user: userSummaryColumns, followedAt: userFollows.createdAt, followId: userFollows.id })
+      .from(userFollows)
+      .innerJoin(users, eq(userFollows.followingId, users.id))
+      .where(and(eq(userFollows.followerId, userId), afterCursor(followSortKeys, page.after)))
+      .orderBy(...orderByKeys(followSortKeys))
+      .limit(page.limit + 1);
+    return toPage(rows, page, followCursor, toFollowListEntry);
+  }
+
+  // Posts, public drive logs and convoys from the people the user follows, merged newest first.
+  // Items created in the same millisecond go posts, then drives, then convoys, so the cursor
+  // (created at, kind, id) tells each source exactly where to pick up
+  async getFollowingFeed(userId: string, page: PageRequest): Promise<CursorPage<FollowingFeedItem>> {
+    const followed = db
+      .select({ id: userFollows.followingId })
+      .from(userFollows)
+      .where(eq(userFollows.followerId, userId));
+    const depth = page.limit + 1;
+
+    const [followedPosts, followedDrives, followedConvoys] = await Promise.all([
+      db
+        .select()
+        .from(posts)
+        .where(and(
+          inArray(posts.userId, followed),
+          followingFeedCutoff(posts.createdAt, posts.id, "post", page.after),
+        ))
+        .orderBy(...orderByKeys([timestampKey(posts.createdAt), columnKey(posts.id)]))
+        .limit(depth),
+      db
+        .select({
+          id: driveLogs.id,
+          userId: driveLogs.userId,
+          title: driveLogs.title,
+          startLocation: driveLogs.startLocation,
+          endLocation: driveLogs.endLocation,
+          distance: driveLogs.distance,
+          duration: driveLogs.duration,
+          twistinessScore: driveLogs.twistinessScore,
+          titleImageUrl: driveLogs.titleImageUrl,
+          startTime: driveLogs.startTime,
+          createdAt: driveLogs.createdAt,
+        })
+        .from(driveLogs)
+        .where(and(
+          inArray(driveLogs.userId, followed),
+          eq(driveLogs.isPublic, true),
+          eq(driveLogs.status, "completed"),
+          followingFeedCutoff(driveLogs.createdAt, driveLogs.id, "drive", page.after),
+        ))
+        .orderBy(...orderByKeys([timestampKey(driveLogs.createdAt), columnKey(driveLogs.id)]))
+        .limit(depth),
+      db
+        .select()
+        .from(convoys)
+        .where(and(
+          inArray(convoys.organizerId, followed),
+          // Drafts aren't published yet
+          notInArray(convoys.status, ["draft", "cancelled"]),
+          followingFeedCutoff(convoys.createdAt, convoys.id, "convoy", page.after),
+        ))
+        .orderBy(...orderByKeys([timestampKey(convoys.createdAt), columnKey(convoys.id)]))
+        .limit(depth),
+    ]);
+
+    const items: FollowingFeedItem[] = [
+      ...followedPosts.map(post => ({ type: "post" as const, createdAt: cursorTimestamp(post.createdAt), post })),
+      ...followedDrives.map(({ createdAt, ...driveLog }) => ({
+        type: "drive" as const,
+        createdAt: cursorTimestamp(createdAt),
+        driveLog: { ...driveLog, startTime: driveLog.startTime.toISOString() },
+      })),
+      ...followedConvoys.map(convoy => ({ type: "convoy" as const, createdAt: cursorTimestamp(convoy.createdAt), convoy })),
+    ];
+    const itemId = (item: FollowingFeedItem) =>
+      item.type === "post" ? item.post.id : item.type === "drive" ? item.driveLog.id : item.convoy.id;
+    const sorted = items.sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt)
+      || FOLLOWING_FEED_KINDS.indexOf(a.type) - FOLLOWING_FEED_KINDS.indexOf(b.type)
+      || itemId(b) - itemId(a));
+    return toPage(sorted, page, item => [item.createdAt, FOLLOWING_FEED_KINDS.indexOf(item.type), itemId(item)]);
+  }
+
   // Convoy operations
   async createConvoy(convoy: InsertConvoy): Promise<Convoy> {
-    const [newConvoy] = await db.insert(convoys).values(convoy).returning();
-    
-    // Auto-join the organizer
-    await db.insert(convoyParticipants).values({
-      convoyId: newConvoy.id,
-      userId: convoy.organizerId,
+    return await db.transaction(async (tx) => {
+      await lockUsers(tx, [convoy.organizerId]);
+      const [newConvoy] = await tx.insert(convoys).values(convoy).returning();
+      await tx.insert(convoyStatusTransitions).values({
+        convoyId: newConvoy.id,
+        toStatus: newConvoy.status ?? "open",
+        actorId: convoy.organizerId,
+        reason: "created",
+      });
+
+      // Auto-join the organizer
+      await tx.insert(convoyParticipants).values({
+        convoyId: newConvoy.id,
+        userId: convoy.organizerId,
+      });
+      await refreshUserAggregates(tx, [convoy.organizerId], ['totalConvoys']);
+
+      return await this.settleConvoyStatus(tx, newConvoy);
     });
-    
-    return newConvoy;
   }
 
-  async getUpcomingConvoys(limit = 20): Promise<Convoy[]> {
-    return await db
+  // Lock a convoy until the transaction ends, so checks on its status and capacity still hold at commit
+  private async lockConvoy(tx: Executor, convoyId: number): Promise<Convoy | undefined> {
+    const [convoy] = await tx.select().from(convoys).where(eq(convoys.id, convoyId)).for("update");
+    return convoy;
+  }
+
+  private async recordConvoyTransition(
+    tx: Executor,
+    convoy: Convoy,
+    status: ConvoyStatus,
+    reason: TransitionReason,
+    actorId: string | null,
+  ): Promise<Convoy> {
+    const [updated] = await tx
+      .update(convoys)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(convoys.id, convoy.id))
+      .returning();
+    await tx.insert(convoyStatusTransitions).values({
+      convoyId: convoy.id,
+      fromStatus: convoy.status,
+      toStatus: status,
+      actorId,
+      reason,
+    });
+    return updated;
+  }
+
+  // Make every automatic move a locked convoy is due, one history entry each
+  private async settleConvoyStatus(tx: Executor, convoy: Convoy, now = new Date()): Promise<Convoy> {
+    let step = nextAutomaticStatus(convoy, now);
+    while (step) {
+      convoy = await this.recordConvoyTransition(tx, convoy, step.to, step.reason, null);
+      step = nextAutomaticStatus(convoy, now);
+    }
+    return convoy;
+  }
+
+  // Soonest first
+  async getUpcomingConvoys(page: PageRequest): Promise<CursorPage<Convoy>> {
+    const keys = [timestampKey(convoys.startDateTime, "asc"), columnKey(convoys.id, "asc")];
+    const rows = await db
       .select()
       .from(convoys)
       .where(and(
         gte(convoys.startDateTime, new Date()),
-        eq(convoys.status, "open")
+        inArray(convoys.status, ["open", "full"]),
+        afterCursor(keys, page.after),
       ))
-      .orderBy(convoys.startDateTime)
-      .limit(limit);
+      .orderBy(...orderByKeys(keys))
+      .limit(page.limit + 1);
+    return toPage(rows, page, convoy => [cursorTimestamp(convoy.startDateTime), convoy.id]);
   }
 
   async getUserConvoys(userId: string): Promise<Convoy[]> {
@@ -413,50 +1836,77 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(convoys.startDateTime));
   }
 
+  async getUserConvoysPage(userId: string, page: PageRequest): Promise<CursorPage<Convoy>> {
+    const keys = [timestampKey(convoys.startDateTime), columnKey(convoys.id)];
+    const userConvoyIds = db
+      .select({ convoyId: convoyParticipants.convoyId })
+      .from(convoyParticipants)
+      .where(eq(convoyParticipants.userId, userId));
+    const rows = await db
+      .select()
+      .from(convoys)
+      .where(and(inArray(convoys.id, userConvoyIds), afterCursor(keys, page.after)))
+      .orderBy(...orderByKeys(keys))
+      .limit(page.limit + 1);
+    return toPage(rows, page, convoy => [cursorTimestamp(convoy.startDateTime), convoy.id]);
+  }
+
   async getConvoy(id: number): Promise<Convoy | undefined> {
     const [convoy] = await db.select().from(convoys).where(eq(convoys.id, id));
     return convoy;
   }
 
-  async joinConvoy(convoyId: number, userId: string, vehicleId?: number): Promise<void> {
-    await db.insert(convoyParticipants).values({
-      convoyId,
-      userId,
-      vehicleId,
+  // Joins to the same convoy queue behind its row lock, so two people can't both take the last place
+  // and nobody can join twice
+  async joinConvoy(convoyId: number, userId: string, vehicleId?: number): Promise<JoinConvoyResult> {
+    return await db.transaction(async (tx) => {
+      const locked = await this.lockConvoy(tx, convoyId);
+      if (!locked) return "not_found";
+      const convoy = await this.settleConvoyStatus(tx, locked);
+
+      const [existing] = await tx
+        .select({ status: convoyParticipants.status })
+        .from(convoyParticipants)
+        .where(and(
+          eq(convoyParticipants.convoyId, convoyId),
+          eq(convoyParticipants.userId, userId)
+        ));
+      if (existing) return existing.status === "banned" ? "banned" : "already_joined";
+      if (!isConvoyStatus(convoy.status) || !CONVOY_JOINABLE_STATUSES.includes(convoy.status)) return "not_accepting";
+      if (isConvoyFull(convoy)) return "full";
+
+      await lockUsers(tx, [userId]);
+      await tx.insert(convoyParticipants).values({
+        convoyId,
+        userId,
+        vehicleId,
+      });
+
+      // Update participant count and the user's total convoys, then fill the convoy if that was the last place
+      await refreshConvoyAggregates(tx, convoyId);
+      await refreshUserAggregates(tx, [userId], ['totalConvoys']);
+      await this.settleConvoyStatus(tx, (await this.lockConvoy(tx, convoyId))!);
+      return "joined";
     });
-    
-    // Update participant count
-    await db
-      .update(convoys)
-      .set({
-        currentParticipants: sql`${convoys.currentParticipants} + 1`,
-      })
-      .where(eq(convoys.id, convoyId));
-      
-    // Update user's total convoys
-    await db
-      .update(users)
-      .set({
-        totalConvoys: sql`${users.totalConvoys} + 1`,
-      })
-      .where(eq(users.id, userId));
   }
 
   async leaveConvoy(convoyId: number, userId: string): Promise<void> {
-    await db
-      .delete(convoyParticipants)
-      .where(and(
-        eq(convoyParticipants.convoyId, convoyId),
-        eq(convoyParticipants.userId, userId)
-      ));
-    
-    // Update participant count
-    await db
-      .update(convoys)
-      .set({
-        currentParticipants: sql`GREATEST(${convoys.currentParticipants} - 1, 0)`,
-      })
-      .where(eq(convoys.id, convoyId));
+    await db.transaction(async (tx) => {
+      await this.lockConvoy(tx, convoyId);
+      await lockUsers(tx, [userId]);
+      await tx
+        .delete(convoyParticipants)
+        .where(and(
+          eq(convoyParticipants.convoyId, convoyId),
+          eq(convoyParticipants.userId, userId)
+        ));
+
+      // Update participant count and the user's total convoys, reopening the convoy if it was full
+      await refreshConvoyAggregates(tx, convoyId);
+      await refreshUserAggregates(tx, [userId], ['totalConvoys']);
+      const convoy = await this.lockConvoy(tx, convoyId);
+      if (convoy) await this.settleConvoyStatus(tx, convoy);
+    });
   }
 
   async getConvoyParticipants(convoyId: number): Promise<ConvoyParticipant[]> {
@@ -467,6 +1917,48 @@ export class DatabaseStorage implements IStorage {
       .orderBy(convoyParticipants.joinedAt);
   }
 
+  // An organiser's move; null when the convoy has meanwhile reached a status it can't be made from
+  async changeConvoyStatus(convoyId: number, status: ConvoyStatus, actorId: string): Promise<Convoy | null> {
+    return await db.transaction(async (tx) => {
+      const convoy = await this.lockConvoy(tx, convoyId);
+      if (!convoy || !canTransitionManually(convoy.status, status)) return null;
+      const moved = await this.recordConvoyTransition(tx, convoy, status, "manual", actorId);
+      return await this.settleConvoyStatus(tx, moved);
+    });
+  }
+
+  async getConvoyStatusHistory(convoyId: number): Promise<ConvoyStatusTransition[]> {
+    return await db
+      .select()
+      .from(convoyStatusTransitions)
+      .where(eq(convoyStatusTransitions.convoyId, convoyId))
+      .orderBy(convoyStatusTransitions.createdAt, convoyStatusTransitions.id);
+  }
+
+  // Move every convoy that's due along its schedule, returning how many moved. Each is rechecked under
+  // its lock, so instances sweeping at the same time don't move anything twice
+  async advanceConvoyLifecycles(now = new Date()): Promise<number> {
+    const candidates = await db
+      .select()
+      .from(convoys)
+      .where(and(
+        inArray(convoys.status, ["draft", "open", "full", "checking_in", "in_progress"]),
+        lte(convoys.startDateTime, scheduleHorizon(now))
+      ));
+
+    let moved = 0;
+    for (const candidate of candidates) {
+      if (!nextAutomaticStatus(candidate, now)) continue;
+      await db.transaction(async (tx) => {
+        const convoy = await this.lockConvoy(tx, candidate.id);
+        if (!convoy) return;
+        const settled = await this.settleConvoyStatus(tx, convoy, now);
+        if (settled.status !== convoy.status) moved++;
+      });
+    }
+    return moved;
+  }
+
   // Comment operations
   async createComment(comment: InsertPostComment): Promise<PostComment> {
     const [newComment] = await db.insert(postComments).values(comment).returning();
@@ -482,22 +1974,30 @@ export class DatabaseStorage implements IStorage {
     return newComment;
   }
 
-  async getPostComments(postId: number): Promise<PostComment[]> {
-    return await db
+  // Oldest first, so a conversation reads top to bottom
+  async getPostComments(postId: number, page: PageRequest): Promise<CursorPage<PostComment>> {
+    const keys = [timestampKey(postComments.createdAt, "asc"), columnKey(postComments.id, "asc")];
+    const rows = await db
       .select()
       .from(postComments)
-      .where(eq(postComments.postId, postId))
-      .orderBy(postComments.createdAt);
+      .where(and(eq(postComments.postId, postId), afterCursor(keys, page.after)))
+      .orderBy(...orderByKeys(keys))
+      .limit(page.limit + 1);
+    return toPage(rows, page, comment => [cursorTimestamp(comment.createdAt), comment.id]);
   }
 
   // Garage voting operations
   async voteForGarage(voterId: string, garageOwnerId: string, month: number, year: number): Promise<void> {
-    await db.insert(garageVotes).values({
-      voterId,
-      garageOwnerId,
-      month,
-      year,
-    }).onConflictDoNothing();
+    await db.transaction(async (tx) => {
+      await lockUsers(tx, [garageOwnerId]);
+      await tx.insert(garageVotes).values({
+        voterId,
+        garageOwnerId,
+        month,
+        year,
+      }).onConflictDoNothing();
+      await refreshUserAggregates(tx, [garageOwnerId], ['garageRating']);
+    });
   }
 
   async getMonthlyGarageVotes(month: number, year: number): Promise<{userId: string, votes: number}[]> {
@@ -552,24 +2052,67 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Real-time convoy operations
-  async updateParticipantLocation(convoyId: number, userId: string, latitude: number, longitude: number): Promise<void> {
-    await db
-      .update(convoyParticipants)
-      .set({
-        currentLatitude: latitude.toString(),
-        currentLongitude: longitude.toString(),
-        lastLocationUpdate: new Date(),
-        isLocationSharing: true,
-      })
-      .where(and(eq(convoyParticipants.convoyId, convoyId), eq(convoyParticipants.userId, userId)));
+  // Write a batch of positions in two statements: every participant's current location, then the
+  // downsampled history rows. Participants who have since left are skipped, and only the fixes that
+  // were written come back
+  async recordParticipantLocations(latest: LocationFix[], history: LocationFix[]): Promise<LocationFix[]> {
+    if (latest.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const fixes = sql`(values ${sql.join(latest.map(fix => sql`(${fix.convoyId}::integer, ${fix.userId}::varchar, ${fix.latitude}::numeric, ${fix.longitude}::numeric, ${fix.recordedAt.toISOString()}::timestamp)`), sql`, `)}) as fix(convoy_id, user_id, latitude, longitude, recorded_at)`;
+      const updated = await tx
+        .update(convoyParticipants)
+        .set({
+          currentLatitude: sql`fix.latitude`,
+          currentLongitude: sql`fix.longitude`,
+          lastLocationUpdate: sql`fix.recorded_at`,
+          isLocationSharing: true,
+        })
+        .from(fixes)
+        .where(and(
+          sql`${convoyParticipants.convoyId} = fix.convoy_id`,
+          sql`${convoyParticipants.userId} = fix.user_id`,
+          eq(convoyParticipants.status, "joined")
+        ))
+        .returning({ convoyId: convoyParticipants.convoyId, userId: convoyParticipants.userId });
+
+      const joined = new Set(updated.map(participant => `${participant.convoyId}:${participant.userId}`));
+      const isJoined = (fix: LocationFix) => joined.has(`${fix.convoyId}:${fix.userId}`);
+
+      const rows = history.filter(isJoined).map(fix => ({
+        convoyId: fix.convoyId,
+        userId: fix.userId,
+        updateType: "location",
+        latitude: fix.latitude.toString(),
+        longitude: fix.longitude.toString(),
+        createdAt: fix.recordedAt,
+      }));
+      if (rows.length > 0) {
+        await tx.insert(convoyUpdates).values(rows);
+      }
+      return latest.filter(isJoined);
+    });
   }
 
+  // Each update takes the convoy's next sequence number. Bumping the counter locks the convoy row until
+  // the insert commits, so a convoy's updates become visible in sequence order with no gaps
   async createConvoyUpdate(update: InsertConvoyUpdate): Promise<ConvoyUpdate> {
-    const [newUpdate] = await db
-      .insert(convoyUpdates)
-      .values(update)
-      .returning();
-    return newUpdate;
+    return await db.transaction(async (tx) => {
+      const [convoy] = await tx
+        .update(convoys)
+        .set({ lastEventSequence: sql`${convoys.lastEventSequence} + 1` })
+        .where(eq(convoys.id, update.convoyId))
+        .returning({ sequence: convoys.lastEventSequence });
+      if (!convoy) {
+        throw new Error("Convoy not found");
+      }
+
+      const [newUpdate] = await tx
+        .insert(convoyUpdates)
+        .values({ ...update, sequence: convoy.sequence })
+        .returning();
+      return newUpdate;
+    });
   }
 
   async getConvoyUpdates(convoyId: number, limit = 50): Promise<ConvoyUpdate[]> {
@@ -581,6 +2124,23 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getConvoyUpdatesAfter(convoyId: number, sequence: number, limit: number): Promise<ConvoyUpdate[]> {
+    return await db
+      .select()
+      .from(convoyUpdates)
+      .where(and(eq(convoyUpdates.convoyId, convoyId), gt(convoyUpdates.sequence, sequence)))
+      .orderBy(convoyUpdates.sequence)
+      .limit(limit);
+  }
+
+  async getConvoyEventSequence(convoyId: number): Promise<number | undefined> {
+    const [convoy] = await db
+      .select({ sequence: convoys.lastEventSequence })
+      .from(convoys)
+      .where(eq(convoys.id, convoyId));
+    return convoy?.sequence;
+  }
+
   async getActiveConvoyParticipants(convoyId: number): Promise<ConvoyParticipant[]> {
     return await db
       .select()
@@ -591,6 +2151,19 @@ export class DatabaseStorage implements IStorage {
         eq(convoyParticipants.isLocationSharing, true)
       ));
   }
+
+  async isJoinedConvoyParticipant(convoyId: number, userId: string): Promise<boolean> {
+    const [participant] = await db
+      .select({ id: convoyParticipants.id })
+      .from(convoyParticipants)
+      .where(and(
+        eq(convoyParticipants.convoyId, convoyId),
+        eq(convoyParticipants.userId, userId),
+        eq(convoyParticipants.status, "joined")
+      ))
+      .limit(1);
+    return !!participant;
+  }
 }
 
 export const storage = new DatabaseStorage();
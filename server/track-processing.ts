@@ -0,0 +1,165 @@
+import { routeCoordinatesSchema, type RoutePoint, type SimplifiedRoute } from "@shared/schema";
+import { haversineDistance } from "./route-stats";
+
+// Anything faster than this between consecutive fixes is a GPS jump, not driving
+const MAX_PLAUSIBLE_SPEED_KMH = 350;
+
+// Moving-average window (in points) used to take the jitter out of display polylines
+const SMOOTHING_WINDOW = 5;
+
+// Douglas–Peucker tolerance in metres for each display zoom level
+export const SIMPLIFICATION_TOLERANCES: Record<keyof SimplifiedRoute, number> = {
+  overview: 100,
+  regional: 25,
+  detail: 5,
+};
+
+export interface ProcessedTrack {
+  points: RoutePoint[];
+  simplifiedRoute: SimplifiedRoute;
+}
+
+// Accept coordinates as an array or a JSON string (FormData); returns null when they don't match the schema
+export function parseRouteCoordinates(raw: unknown): RoutePoint[] | null {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  const parsed = routeCoordinatesSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+// Whether getting from one fix to the next is physically plausible; null for a duplicate or out-of-order fix
+function isPlausibleStep(from: RoutePoint, to: RoutePoint): boolean | null {
+  if (!from.timestamp || !to.timestamp) return true;
+
+  const hours = (new Date(to.timestamp).getTime() - new Date(from.timestamp).getTime()) / 3600000;
+  if (hours <= 0) return null;
+  return haversineDistance(from, to) / hours <= MAX_PLAUSIBLE_SPEED_KMH;
+}
+
+// Drop fixes whose implied speed from the last accepted fix is physically implausible. When the first
+// fixes are the jump (common on a GPS cold start), the correct track after them all looks implausible, so
+// a run of rejected fixes consistent with each other takes over once it outgrows what was accepted
+export function rejectOutliers(points: RoutePoint[]): RoutePoint[] {
+  if (points.length < 3) return points;
+
+  let accepted: RoutePoint[] = [points[0]];
+  let rejected: RoutePoint[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const point = points[i];
+    const step = isPlausibleStep(accepted[accepted.length - 1], point);
+    if (step === null) continue;
+    if (step) {
+      accepted.push(point);
+      rejected = [];
+      continue;
+    }
+
+    const run = rejected.length > 0 ? isPlausibleStep(rejected[rejected.length - 1], point) : false;
+    if (run === null) continue;
+    if (run) {
+      rejected.push(point);
+    } else {
+      rejected = [point];
+    }
+    if (rejected.length > accepted.length) {
+      accepted = rejected;
+      rejected = [];
+    }
+  }
+  return accepted;
+}
+
+// Centred moving average over latitude/longitude; endpoints are kept exact
+export function smoothTrack(points: RoutePoint[], window = SMOOTHING_WINDOW): RoutePoint[] {
+  const half = Math.floor(window / 2);
+  if (points.length <= 2 || half === 0) return points;
+
+  return points.map((point, index) => {
+    if (index === 0 || index === points.length - 1) return point;
+    const from = Math.max(0, index - half);
+    const to = Math.min(points.length - 1, index + half);
+    let latitude = 0;
+    let longitude = 0;
+    for (let i = from; i <= to; i++) {
+      latitude += points[i].latitude;
+      longitude += points[i].longitude;
+    }
+    const count = to - from + 1;
+    return { ...point, latitude: latitude / count, longitude: longitude / count };
+  });
+}
+
+// Douglas–Peucker simplification with a tolerance in metres
+export function simplifyTrack(points: RoutePoint[], toleranceMeters: number): RoutePoint[] {
+  if (points.length <= 2) return points;
+
+  // Project onto a local plane in metres; accurate enough at track scale
+  const originLat = (points[0].latitude * Math.PI) / 180;
+  const metersPerDegree = 111320;
+  const projected = points.map(p => ({
+    x: p.longitude * metersPerDegree * Math.cos(originLat),
+    y: p.latitude * metersPerDegree,
+  }));
+
+  const distanceToSegment = (p: number, a: number, b: number) => {
+    const { x, y } = projected[p];
+    const { x: x1, y: y1 } = projected[a];
+    const { x: x2, y: y2 } = projected[b];
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared));
+    return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+  };
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative rather than recursive so long tracks can't overflow the stack
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(i, start, end);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > toleranceMeters) {
+      keep[index] = true;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// Build the display polylines for every zoom level from a cleaned track
+export function buildSimplifiedRoute(points: RoutePoint[]): SimplifiedRoute {
+  const smoothed = smoothTrack(points);
+  const toPairs = (track: RoutePoint[]): [number, number][] =>
+    track.map(p => [Number(p.latitude.toFixed(6)), Number(p.longitude.toFixed(6))]);
+
+  return {
+    overview: toPairs(simplifyTrack(smoothed, SIMPLIFICATION_TOLERANCES.overview)),
+    regional: toPairs(simplifyTrack(smoothed, SIMPLIFICATION_TOLERANCES.regional)),
+    detail: toPairs(simplifyTrack(smoothed, SIMPLIFICATION_TOLERANCES.detail)),
+  };
+}
+
+// Validate, clean and simplify a raw track; throws if the coordinates don't match the schema
+export function processTrack(raw: unknown): ProcessedTrack {
+  const points = routeCoordinatesSchema.parse(raw);
+  const cleaned = rejectOutliers(points);
+  return { points: cleaned, simplifiedRoute: buildSimplifiedRoute(cleaned) };
+}
@@ -0,0 +1,106 @@
+import type { Convoy, DriveLog, FuelEntry, VehicleStats } from "@shared/schema";
+import { fuelEconomyTrend } from "./fuel-economy";
+
+// The drive log columns the stats need; route geometry is left out so it never gets loaded
+export type StatsDrive = Pick<
+  DriveLog,
+  'distance' | 'duration' | 'startTime' | 'endTime' | 'avgSpeed' | 'maxSpeed' | 'routeName' | 'startLocation' | 'endLocation'
+>;
+
+const MONTHS_CHARTED = 12;
+const TOP_ROUTES = 5;
+const RECENT_CONVOYS = 5;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Logged duration, or the time between start and end when only those were recorded
+function driveMinutes(drive: StatsDrive): number | null {
+  if (drive.duration !== null && drive.duration > 0) return drive.duration;
+  if (!drive.endTime) return null;
+  const minutes = (new Date(drive.endTime).getTime() - new Date(drive.startTime).getTime()) / 60000;
+  return minutes > 0 ? minutes : null;
+}
+
+// Drives are grouped by their named route, or by where they started and finished
+function routeName(drive: StatsDrive): string {
+  return drive.routeName?.trim() || `${drive.startLocation} → ${drive.endLocation}`;
+}
+
+function topRoutes(drives: StatsDrive[]): VehicleStats["topRoutes"] {
+  const routes = new Map<string, { name: string; driveCount: number; totalDistance: number }>();
+  for (const drive of drives) {
+    const name = routeName(drive);
+    const route = routes.get(name) || { name, driveCount: 0, totalDistance: 0 };
+    route.driveCount++;
+    route.totalDistance += Number(drive.distance);
+    routes.set(name, route);
+  }
+  return Array.from(routes.values())
+    .sort((a, b) => b.driveCount - a.driveCount || b.totalDistance - a.totalDistance)
+    .slice(0, TOP_ROUTES)
+    .map(route => ({ ...route, totalDistance: round(route.totalDistance, 1) }));
+}
+
+// Distance per calendar month over the last year, with empty months included so the chart has no gaps
+function monthlyDistance(drives: StatsDrive[], now: Date): VehicleStats["monthlyDistance"] {
+  const months: VehicleStats["monthlyDistance"] = [];
+  for (let offset = MONTHS_CHARTED - 1; offset >= 0; offset--) {
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - offset, 1));
+    months.push({ month: month.toISOString().slice(0, 7), distance: 0, drives: 0 });
+  }
+  const byMonth = new Map(months.map(bucket => [bucket.month, bucket]));
+  for (const drive of drives) {
+    const bucket = byMonth.get(new Date(drive.startTime).toISOString().slice(0, 7));
+    if (!bucket) continue;
+    bucket.distance += Number(drive.distance);
+    bucket.drives++;
+  }
+  return months.map(bucket => ({ ...bucket, distance: round(bucket.distance, 1) }));
+}
+
+// Summarise a vehicle's completed drives, fill-ups and convoys; convoys still to come don't count as attended
+export function computeVehicleStats(
+  drives: StatsDrive[],
+  fuelEntries: FuelEntry[],
+  convoys: Pick<Convoy, 'id' | 'title' | 'startDateTime'>[],
+  now = new Date(),
+): VehicleStats {
+  const totalDistance = drives.reduce((sum, drive) => sum + Number(drive.distance), 0);
+
+  let timedDistance = 0;
+  let totalMinutes = 0;
+  for (const drive of drives) {
+    const minutes = driveMinutes(drive);
+    if (minutes === null) continue;
+    timedDistance += Number(drive.distance);
+    totalMinutes += minutes;
+  }
+
+  const maxSpeeds = drives
+    .map(drive => (drive.maxSpeed === null ? null : Number(drive.maxSpeed)))
+    .filter((speed): speed is number => speed !== null && speed > 0);
+
+  const attended = convoys
+    .filter(convoy => new Date(convoy.startDateTime).getTime() <= now.getTime())
+    .sort((a, b) => new Date(b.startDateTime).getTime() - new Date(a.startDateTime).getTime());
+
+  return {
+    totalDistance: round(totalDistance, 1),
+    driveCount: drives.length,
+    totalDuration: Math.round(totalMinutes),
+    averageSpeed: totalMinutes > 0 ? round(timedDistance / (totalMinutes / 60), 1) : null,
+    maxSpeed: maxSpeeds.length > 0 ? round(Math.max(...maxSpeeds), 1) : null,
+    topRoutes: topRoutes(drives),
+    fuelEconomyTrend: fuelEconomyTrend(fuelEntries),
+    convoysAttended: attended.length,
+    recentConvoys: attended.slice(0, RECENT_CONVOYS).map(convoy => ({
+      id: convoy.id,
+      title: convoy.title,
+      startDateTime: new Date(convoy.startDateTime).toISOString(),
+    })),
+    monthlyDistance: monthlyDistance(drives, now),
+  };
+}
@@ -0,0 +1,329 @@
+import type { VinDecodeResult } from "@shared/schema";
+
+// Offline VIN decoding for 17-character VINs (ISO 3779, with the North American check digit and
+// model year rules). Everything comes from the reference tables below, so it works without network
+// access or an AI key. Coverage of models is deliberately partial: unknown models decode to make,
+// country and year only.
+
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+// Letter values used by the check digit; I, O and Q never appear in a VIN
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const CHECK_DIGIT_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 repeats every 30 years, starting from 1980 (and again from 2010)
+const MODEL_YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+
+const REGIONS: { from: string; to: string; region: string }[] = [
+  { from: "A", to: "H", region: "Africa" },
+  { from: "J", to: "R", region: "Asia" },
+  { from: "S", to: "Z", region: "Europe" },
+  { from: "1", to: "5", region: "North America" },
+  { from: "6", to: "7", region: "Oceania" },
+  { from: "8", to: "9", region: "South America" },
+];
+
+// Countries by the first two characters, as inclusive ranges of the second character
+const COUNTRIES: { prefix: string; from: string; to: string; country: string }[] = [
+  { prefix: "1", from: "A", to: "9", country: "United States" },
+  { prefix: "4", from: "A", to: "9", country: "United States" },
+  { prefix: "5", from: "A", to: "9", country: "United States" },
+  { prefix: "2", from: "A", to: "9", country: "Canada" },
+  { prefix: "3", from: "A", to: "W", country: "Mexico" },
+  { prefix: "J", from: "A", to: "9", country: "Japan" },
+  { prefix: "K", from: "L", to: "R", country: "South Korea" },
+  { prefix: "L", from: "A", to: "9", country: "China" },
+  { prefix: "M", from: "A", to: "E", country: "India" },
+  { prefix: "M", from: "L", to: "R", country: "Thailand" },
+  { prefix: "S", from: "A", to: "M", country: "United Kingdom" },
+  { prefix: "T", from: "J", to: "P", country: "Czech Republic" },
+  { prefix: "T", from: "R", to: "V", country: "Hungary" },
+  { prefix: "V", from: "F", to: "R", country: "France" },
+  { prefix: "V", from: "S", to: "W", country: "Spain" },
+  { prefix: "W", from: "A", to: "9", country: "Germany" },
+  { prefix: "Y", from: "A", to: "E", country: "Belgium" },
+  { prefix: "Y", from: "S", to: "W", country: "Sweden" },
+  { prefix: "Z", from: "A", to: "R", country: "Italy" },
+  { prefix: "6", from: "A", to: "W", country: "Australia" },
+  { prefix: "9", from: "A", to: "E", country: "Brazil" },
+];
+
+// World manufacturer identifiers (positions 1-3)
+const MANUFACTURERS: Record<string, { manufacturer: string; make: string }> = {
+  "19U": { manufacturer: "Honda of America", make: "Acura" },
+  "19X": { manufacturer: "Honda of America", make: "Honda" },
+  "1C3": { manufacturer: "FCA US", make: "Chrysler" },
+  "1C4": { manufacturer: "FCA US", make: "Jeep" },
+  "1C6": { manufacturer: "FCA US", make: "Ram" },
+  "1FA": { manufacturer: "Ford Motor Company", make: "Ford" },
+  "1FM": { manufacturer: "Ford Motor Company", make: "Ford" },
+  "1FT": { manufacturer: "Ford Motor Company", make: "Ford" },
+  "1G1": { manufacturer: "General Motors", make: "Chevrolet" },
+  "1G4": { manufacturer: "General Motors", make: "Buick" },
+  "1G6": { manufacturer: "General Motors", make: "Cadillac" },
+  "1GC": { manufacturer: "General Motors", make: "Chevrolet" },
+  "1GN": { manufacturer: "General Motors", make: "Chevrolet" },
+  "1GT": { manufacturer: "General Motors", make: "GMC" },
+  "1GY": { manufacturer: "General Motors", make: "Cadillac" },
+  "1HD": { manufacturer: "Harley-Davidson", make: "Harley-Davidson" },
+  "1HG": { manufacturer: "Honda of America", make: "Honda" },
+  "1J4": { manufacturer: "Chrysler", make: "Jeep" },
+  "1LN": { manufacturer: "Ford Motor Company", make: "Lincoln" },
+  "1N4": { manufacturer: "Nissan North America", make: "Nissan" },
+  "1N6": { manufacturer: "Nissan North America", make: "Nissan" },
+  "1VW": { manufacturer: "Volkswagen of America", make: "Volkswagen" },
+  "1ZV": { manufacturer: "AutoAlliance International", make: "Ford" },
+  "2C3": { manufacturer: "FCA Canada", make: "Dodge" },
+  "2G1": { manufacturer: "General Motors of Canada", make: "Chevrolet" },
+  "2HG": { manufacturer: "Honda of Canada", make: "Honda" },
+  "2HK": { manufacturer: "Honda of Canada", make: "Honda" },
+  "2T1": { manufacturer: "Toyota Motor Manufacturing Canada", make: "Toyota" },
+  "2T3": { manufacturer: "Toyota Motor Manufacturing Canada", make: "Toyota" },
+  "3FA": { manufacturer: "Ford of Mexico", make: "Ford" },
+  "3GC": { manufacturer: "General Motors de Mexico", make: "Chevrolet" },
+  "3GN": { manufacturer: "General Motors de Mexico", make: "Chevrolet" },
+  "3HG": { manufacturer: "Honda de Mexico", make: "Honda" },
+  "3MW": { manufacturer: "BMW de Mexico", make: "BMW" },
+  "3MZ": { manufacturer: "Mazda de Mexico", make: "Mazda" },
+  "3N1": { manufacturer: "Nissan Mexicana", make: "Nissan" },
+  "3VW": { manufacturer: "Volkswagen de Mexico", make: "Volkswagen" },
+  "4S3": { manufacturer: "Subaru of Indiana", make: "Subaru" },
+  "4S4": { manufacturer: "Subaru of Indiana", make: "Subaru" },
+  "4T1": { manufacturer: "Toyota Motor Manufacturing Kentucky", make: "Toyota" },
+  "4T3": { manufacturer: "Toyota Motor Manufacturing Kentucky", make: "Toyota" },
+  "4US": { manufacturer: "BMW Manufacturing", make: "BMW" },
+  "5FN": { manufacturer: "Honda Manufacturing of Alabama", make: "Honda" },
+  "5J6": { manufacturer: "Honda of America", make: "Honda" },
+  "5LM": { manufacturer: "Ford Motor Company", make: "Lincoln" },
+  "5N1": { manufacturer: "Nissan North America", make: "Nissan" },
+  "5NP": { manufacturer: "Hyundai Motor Manufacturing Alabama", make: "Hyundai" },
+  "5UX": { manufacturer: "BMW Manufacturing", make: "BMW" },
+  "5XY": { manufacturer: "Kia Georgia", make: "Kia" },
+  "5YF": { manufacturer: "Toyota Motor Manufacturing Mississippi", make: "Toyota" },
+  "5YJ": { manufacturer: "Tesla", make: "Tesla" },
+  "7FA": { manufacturer: "Honda Manufacturing of Indiana", make: "Honda" },
+  "7SA": { manufacturer: "Tesla", make: "Tesla" },
+  "JA3": { manufacturer: "Mitsubishi Motors", make: "Mitsubishi" },
+  "JA4": { manufacturer: "Mitsubishi Motors", make: "Mitsubishi" },
+  "JF1": { manufacturer: "Subaru Corporation", make: "Subaru" },
+  "JF2": { manufacturer: "Subaru Corporation", make: "Subaru" },
+  "JH4": { manufacturer: "Honda Motor Co.", make: "Acura" },
+  "JHM": { manufacturer: "Honda Motor Co.", make: "Honda" },
+  "JKA": { manufacturer: "Kawasaki", make: "Kawasaki" },
+  "JM1": { manufacturer: "Mazda Motor Corporation", make: "Mazda" },
+  "JM3": { manufacturer: "Mazda Motor Corporation", make: "Mazda" },
+  "JN1": { manufacturer: "Nissan Motor Co.", make: "Nissan" },
+  "JN8": { manufacturer: "Nissan Motor Co.", make: "Nissan" },
+  "JS1": { manufacturer: "Suzuki Motor Corporation", make: "Suzuki" },
+  "JT2": { manufacturer: "Toyota Motor Corporation", make: "Toyota" },
+  "JTD": { manufacturer: "Toyota Motor Corporation", make: "Toyota" },
+  "JTE": { manufacturer: "Toyota Motor Corporation", make: "Toyota" },
+  "JTH": { manufacturer: "Toyota Motor Corporation", make: "Lexus" },
+  "JTJ": { manufacturer: "Toyota Motor Corporation", make: "Lexus" },
+  "JTN": { manufacturer: "Toyota Motor Corporation", make: "Toyota" },
+  "JYA": { manufacturer: "Yamaha Motor", make: "Yamaha" },
+  "KM8": { manufacturer: "Hyundai Motor Company", make: "Hyundai" },
+  "KMH": { manufacturer: "Hyundai Motor Company", make: "Hyundai" },
+  "KNA": { manufacturer: "Kia Corporation", make: "Kia" },
+  "KND": { manufacturer: "Kia Corporation", make: "Kia" },
+  "LRW": { manufacturer: "Tesla Shanghai", make: "Tesla" },
+  "SAJ": { manufacturer: "Jaguar Land Rover", make: "Jaguar" },
+  "SAL": { manufacturer: "Jaguar Land Rover", make: "Land Rover" },
+  "SCC": { manufacturer: "Lotus Cars", make: "Lotus" },
+  "SCF": { manufacturer: "Aston Martin Lagonda", make: "Aston Martin" },
+  "SHH": { manufacturer: "Honda of the UK", make: "Honda" },
+  "SMT": { manufacturer: "Triumph Motorcycles", make: "Triumph" },
+  "VF1": { manufacturer: "Renault", make: "Renault" },
+  "VF3": { manufacturer: "Peugeot", make: "Peugeot" },
+  "VF7": { manufacturer: "Citroën", make: "Citroën" },
+  "VSS": { manufacturer: "SEAT", make: "SEAT" },
+  "WA1": { manufacturer: "Audi AG", make: "Audi" },
+  "WAU": { manufacturer: "Audi AG", make: "Audi" },
+  "WBA": { manufacturer: "BMW AG", make: "BMW" },
+  "WBS": { manufacturer: "BMW M GmbH", make: "BMW" },
+  "WBY": { manufacturer: "BMW AG", make: "BMW" },
+  "WDB": { manufacturer: "Mercedes-Benz AG", make: "Mercedes-Benz" },
+  "WDD": { manufacturer: "Mercedes-Benz AG", make: "Mercedes-Benz" },
+  "W1K": { manufacturer: "Mercedes-Benz AG", make: "Mercedes-Benz" },
+  "W1N": { manufacturer: "Mercedes-Benz AG", make: "Mercedes-Benz" },
+  "WF0": { manufacturer: "Ford-Werke", make: "Ford" },
+  "WMW": { manufacturer: "BMW AG", make: "MINI" },
+  "WP0": { manufacturer: "Porsche AG", make: "Porsche" },
+  "WP1": { manufacturer: "Porsche AG", make: "Porsche" },
+  "WUA": { manufacturer: "Audi Sport GmbH", make: "Audi" },
+  "WVG": { manufacturer: "Volkswagen AG", make: "Volkswagen" },
+  "WVW": { manufacturer: "Volkswagen AG", make: "Volkswagen" },
+  "WZ1": { manufacturer: "Magna Steyr", make: "Toyota" },
+  "YV1": { manufacturer: "Volvo Cars", make: "Volvo" },
+  "YV4": { manufacturer: "Volvo Cars", make: "Volvo" },
+  "ZAM": { manufacturer: "Maserati", make: "Maserati" },
+  "ZAR": { manufacturer: "Alfa Romeo", make: "Alfa Romeo" },
+  "ZDM": { manufacturer: "Ducati Motor", make: "Ducati" },
+  "ZFA": { manufacturer: "Fiat", make: "Fiat" },
+  "ZFF": { manufacturer: "Ferrari", make: "Ferrari" },
+  "ZHW": { manufacturer: "Lamborghini", make: "Lamborghini" },
+};
+
+// Models recognisable from the descriptor section, matched against the whole VIN. Engines and fuel
+// types are only listed where the model was sold with a single powertrain.
+const MODELS: { pattern: RegExp; model: string; make?: string; engine?: string; fuelType?: string }[] = [
+  { pattern: /^(5YJ|7SA|LRW)S/, model: "Model S", engine: "Electric", fuelType: "Electric" },
+  { pattern: /^(5YJ|7SA|LRW)X/, model: "Model X", engine: "Electric", fuelType: "Electric" },
+  { pattern: /^(5YJ|7SA|LRW)3/, model: "Model 3", engine: "Electric", fuelType: "Electric" },
+  { pattern: /^(5YJ|7SA|LRW)Y/, model: "Model Y", engine: "Electric", fuelType: "Electric" },
+  { pattern: /^1HGC[MPRV]/, model: "Accord" },
+  { pattern: /^(2HG|19X|SHH)F[BCEK]/, model: "Civic" },
+  { pattern: /^(5J6|2HK|7FA)R[MW]/, model: "CR-V" },
+  { pattern: /^5FNRL/, model: "Odyssey" },
+  { pattern: /^JHMAP/, model: "S2000", fuelType: "Gasoline" },
+  { pattern: /^19UNC1/, model: "NSX", fuelType: "Hybrid" },
+  { pattern: /^JM1NA/, model: "MX-5 Miata", fuelType: "Gasoline" },
+  { pattern: /^JM1NB/, model: "MX-5 Miata", fuelType: "Gasoline" },
+  { pattern: /^JM1NC/, model: "MX-5 Miata", engine: "2.0L I4", fuelType: "Gasoline" },
+  { pattern: /^JM1N[DF]/, model: "MX-5 Miata", fuelType: "Gasoline" },
+  { pattern: /^JM1FD/, model: "RX-7", engine: "1.3L Twin-Turbo Rotary", fuelType: "Gasoline" },
+  { pattern: /^JM1FE/, model: "RX-8", engine: "1.3L Rotary", fuelType: "Gasoline" },
+  { pattern: /^(JM1|3MZ)B[KLMNP]/, model: "Mazda3" },
+  { pattern: /^JM3K[EF]/, model: "CX-5" },
+  { pattern: /^JF1VA/, model: "WRX", engine: "2.0L Turbo H4", fuelType: "Gasoline" },
+  { pattern: /^JF1VB/, model: "WRX", engine: "2.4L Turbo H4", fuelType: "Gasoline" },
+  { pattern: /^JF1G[RV]/, model: "Impreza WRX", fuelType: "Gasoline" },
+  { pattern: /^JF1G[JPT]/, model: "Impreza" },
+  { pattern: /^JF1ZC/, model: "BRZ", engine: "2.0L H4", fuelType: "Gasoline" },
+  { pattern: /^JF1ZD/, model: "BRZ", engine: "2.4L H4", fuelType: "Gasoline" },
+  { pattern: /^JF1ZN/, model: "86", make: "Toyota", fuelType: "Gasoline" },
+  { pattern: /^JF2S[JK]/, model: "Forester" },
+  { pattern: /^4S4B[ST]/, model: "Outback" },
+  { pattern: /^4S3B[NW]/, model: "Legacy" },
+  { pattern: /^JN1AZ3/, model: "350Z", engine: "3.5L V6", fuelType: "Gasoline" },
+  { pattern: /^JN1AZ4/, model: "370Z", engine: "3.7L V6", fuelType: "Gasoline" },
+  { pattern: /^JN1AR5/, model: "GT-R", engine: "3.8L Twin-Turbo V6", fuelType: "Gasoline" },
+  { pattern: /^WZ1DB/, model: "GR Supra", fuelType: "Gasoline" },
+  { pattern: /^4T1[BG]/, model: "Camry" },
+  { pattern: /^5YF/, model: "Corolla" },
+  { pattern: /^(1FA6P8|1ZVBP8)/, model: "Mustang", fuelType: "Gasoline" },
+  { pattern: /^1FT[EF][WX]1/, model: "F-150" },
+  { pattern: /^1FM[DE]E5/, model: "Bronco", fuelType: "Gasoline" },
+  { pattern: /^1G1Y/, model: "Corvette", fuelType: "Gasoline" },
+  { pattern: /^[12]G1F/, model: "Camaro", fuelType: "Gasoline" },
+  { pattern: /^[13]GCUY/, model: "Silverado 1500" },
+  { pattern: /^2C3CDZ/, model: "Challenger", fuelType: "Gasoline" },
+  { pattern: /^2C3CDX/, model: "Charger", fuelType: "Gasoline" },
+  { pattern: /^1C4HJX/, model: "Wrangler" },
+  { pattern: /^(1C4[ABG]JW|1J4[BF]A)/, model: "Wrangler" },
+  { pattern: /^(WVW|3VW).{3}AU/, model: "Golf" },
+  { pattern: /^(WVW|3VW).{3}CD/, model: "Golf" },
+  { pattern: /^(WVW|3VW).{3}(1K|5K)/, model: "Golf" },
+];
+
+// Assembly plants (position 11) where the code is known for the manufacturer
+const PLANTS: { pattern: RegExp; plant: string }[] = [
+  { pattern: /^(5YJ|7SA).{7}F/, plant: "Fremont, California" },
+  { pattern: /^(5YJ|7SA).{7}A/, plant: "Austin, Texas" },
+  { pattern: /^(5YJ|7SA|LRW).{7}B/, plant: "Berlin, Germany" },
+  { pattern: /^LRW.{7}C/, plant: "Shanghai, China" },
+  { pattern: /^1FA6P8.{4}5/, plant: "Flat Rock, Michigan" },
+  { pattern: /^1G1Y.{6}5/, plant: "Bowling Green, Kentucky" },
+  { pattern: /^(1HG|5J6|19X|19U).{7}A/, plant: "Marysville, Ohio" },
+  { pattern: /^(1HG|5J6|19X).{7}L/, plant: "East Liberty, Ohio" },
+  { pattern: /^(2HG|2HK).{7}H/, plant: "Alliston, Ontario" },
+];
+
+// Uppercases and drops spaces and dashes, so pasted VINs decode as typed on the door sticker
+export function normalizeVin(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, "");
+}
+
+export function vinCheckDigit(vin: string): string {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const char = vin[i];
+    const value = /[0-9]/.test(char) ? Number(char) : TRANSLITERATION[char];
+    sum += value * CHECK_DIGIT_WEIGHTS[i];
+  }
+  const remainder = sum % 11;
+  return remainder === 10 ? "X" : String(remainder);
+}
+
+// A letter in position 7 marks the 2010+ cycle on North American VINs; otherwise take the most
+// recent cycle that isn't in the future
+export function decodeModelYear(vin: string, now: Date = new Date()): number | null {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) return null;
+
+  const early = 1980 + index;
+  const late = early + 30;
+  const latestPossible = now.getFullYear() + 1;
+  if (late > latestPossible) return early;
+  if (/[1-5]/.test(vin[0])) return /[A-Z]/.test(vin[6]) ? late : early;
+  return late;
+}
+
+function lookupRegion(vin: string): string {
+  return REGIONS.find(({ from, to }) => vin[0] >= from && vin[0] <= to)?.region ?? "Unknown";
+}
+
+function lookupCountry(vin: string): string | null {
+  // Second characters run A-Z then 1-9, so digits sort after letters here
+  const rank = (char: string) => (/[0-9]/.test(char) ? `Z${char}` : char);
+  const entry = COUNTRIES.find(({ prefix, from, to }) =>
+    vin[0] === prefix && rank(vin[1]) >= rank(from) && rank(vin[1]) <= rank(to)
+  );
+  return entry?.country ?? null;
+}
+
+export function decodeVin(input: string, now: Date = new Date()): VinDecodeResult {
+  const vin = normalizeVin(input);
+  if (vin.length !== 17) {
+    throw new Error("A VIN is 17 characters long");
+  }
+  if (!VIN_PATTERN.test(vin)) {
+    throw new Error("A VIN only uses digits and the letters A-Z except I, O and Q");
+  }
+
+  const region = lookupRegion(vin);
+  const warnings: string[] = [];
+  const checkDigitValid = vinCheckDigit(vin) === vin[8];
+  if (!checkDigitValid) {
+    // Only North American VINs are required to carry a check digit
+    if (region === "North America") {
+      throw new Error("The check digit doesn't match, so the VIN has probably been mistyped");
+    }
+    warnings.push("Check digit doesn't match. That's common outside North America, but double-check the VIN.");
+  }
+
+  const wmi = vin.slice(0, 3);
+  const manufacturer = MANUFACTURERS[wmi];
+  const model = MODELS.find(({ pattern }) => pattern.test(vin));
+  const plant = PLANTS.find(({ pattern }) => pattern.test(vin));
+  const year = decodeModelYear(vin, now);
+
+  if (!manufacturer) warnings.push("Manufacturer isn't in the bundled tables.");
+  else if (!model) warnings.push("Model isn't in the bundled tables; fill it in by hand.");
+  if (year === null) warnings.push("Position 10 doesn't hold a model year code.");
+  else if (region !== "North America" && year - 30 >= 1980) {
+    warnings.push(`Model year could also be ${year - 30}; the year code repeats every 30 years.`);
+  }
+
+  return {
+    vin,
+    wmi,
+    manufacturer: manufacturer?.manufacturer ?? null,
+    make: model?.make ?? manufacturer?.make ?? null,
+    model: model?.model ?? null,
+    year,
+    engine: model?.engine ?? null,
+    fuelType: model?.fuelType ?? null,
+    country: lookupCountry(vin),
+    region,
+    plantCode: vin[10],
+    plant: plant?.plant ?? null,
+    checkDigitValid,
+    warnings,
+  };
+}
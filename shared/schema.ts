@@ -5,13 +5,14 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   boolean,
   decimal,
   uuid,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -35,9 +36,10 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   username: varchar("username").unique(),
   bio: text("bio"),
-  totalMiles: integer("total_miles").default(0),
+  // Cached aggregates, kept in step with their source rows by server/aggregates.ts
+  totalMiles: integer("total_miles").default(0), // kilometres across completed drive logs
   totalConvoys: integer("total_convoys").default(0),
-  garageRating: decimal("garage_rating", { precision: 3, scale: 2 }).default("0.00"),
+  garageRating: integer("garage_rating").default(0), // garage votes received, all months
   followers: integer("followers").default(0),
   following: integer("following").default(0),
   createdAt: timestamp("created_at").defaultNow(),
@@ -56,6 +58,10 @@ export const vehicles = pgTable("vehicles", {
   horsepower: integer("horsepower"),
   transmission: varchar("transmission"),
   fuelType: varchar("fuel_type"),
+  vehicleClass: varchar("vehicle_class").default("car"), // car, sports car, suv, truck, motorcycle, classic
+  vin: varchar("vin", { length: 17 }),
+  odometer: decimal("odometer", { precision: 10, scale: 1 }), // in km, as last entered by the owner
+  odometerRecordedAt: timestamp("odometer_recorded_at"), // when `odometer` was read; drives after this add to it
   imageUrl: varchar("image_url"),
   description: text("description"),
   isPublic: boolean("is_public").default(true),
@@ -109,11 +115,21 @@ export const driveLogs = pgTable("drive_logs", {
   weatherConditions: varchar("weather_conditions"),
   roadConditions: varchar("road_conditions"),
   routeCoordinates: jsonb("route_coordinates"), // GPS coordinates array for the route
+  simplifiedRoute: jsonb("simplified_route"), // display polylines per zoom level, derived from routeCoordinates
+  totalAscent: decimal("total_ascent", { precision: 8, scale: 1 }), // in metres, derived from routeCoordinates
+  totalDescent: decimal("total_descent", { precision: 8, scale: 1 }), // in metres
+  maxElevation: decimal("max_elevation", { precision: 6, scale: 1 }), // in metres
+  minElevation: decimal("min_elevation", { precision: 6, scale: 1 }), // in metres
+  elevationProfile: jsonb("elevation_profile"), // downsampled distance/elevation pairs for charting
+  twistinessScore: integer("twistiness_score"), // 0-100, derived from routeCoordinates
+  bendCount: integer("bend_count"), // number of significant bends
+  curvyDistancePercent: decimal("curvy_distance_percent", { precision: 5, scale: 1 }), // share of distance spent in curves
   titleImageUrl: varchar("title_image_url"),
   totalPitstops: integer("total_pitstops").default(0),
   estimatedReadTime: integer("estimated_read_time"), // in minutes for AI blog
   notes: text("notes"),
   isPublic: boolean("is_public").default(true),
+  status: varchar("status").default("completed"), // recording, completed
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -153,8 +169,10 @@ export const convoys = pgTable("convoys", {
   roadAlert: varchar("road_alert"),
   difficulty: varchar("difficulty").default("easy"), // easy, moderate, hard
   vehicleTypes: text("vehicle_types").array(), // car, motorcycle, truck
-  status: varchar("status").default("open"), // open, full, cancelled, completed
+  status: varchar("status").default("open"), // one of CONVOY_STATUSES, moved only along CONVOY_STATUS_TRANSITIONS
   imageUrl: varchar("image_url"),
+  requiresInsurance: boolean("requires_insurance").default(false), // participants need insurance on file valid on the day
+  lastEventSequence: integer("last_event_sequence").notNull().default(0), // sequence of the latest convoyUpdates row
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -172,7 +190,18 @@ export const convoyParticipants = pgTable("convoy_participants", {
   currentLongitude: decimal("current_longitude", { precision: 11, scale: 8 }),
   lastLocationUpdate: timestamp("last_location_update"),
   isLocationSharing: boolean("is_location_sharing").default(false),
-});
+}, (table) => [uniqueIndex("UQ_convoy_participants_pair").on(table.convoyId, table.userId)]);
+
+// Every status change a convoy has been through, oldest first
+export const convoyStatusTransitions = pgTable("convoy_status_transitions", {
+  id: serial("id").primaryKey(),
+  convoyId: integer("convoy_id").notNull().references(() => convoys.id, { onDelete: "cascade" }),
+  fromStatus: varchar("from_status"), // null for the status a convoy was created in
+  toStatus: varchar("to_status").notNull(),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // null for automatic moves
+  reason: varchar("reason").notNull(), // created, manual, capacity, schedule
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_convoy_status_transitions_convoy").on(table.convoyId, table.createdAt)]);
 
 // Live convoy updates table for real-time coordination
 export const convoyUpdates = pgTable("convoy_updates", {
@@ -183,8 +212,21 @@ export const convoyUpdates = pgTable("convoy_updates", {
   data: jsonb("data"), // flexible data structure for different update types
   latitude: decimal("latitude", { precision: 10, scale: 8 }),
   longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  sequence: integer("sequence"), // per convoy, gap-free and increasing; null for location history, which isn't replayed
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [uniqueIndex("UQ_convoy_updates_sequence").on(table.convoyId, table.sequence)]);
+
+// Where each participant drove during a completed convoy, compacted from its location updates
+export const convoyTracks = pgTable("convoy_tracks", {
+  id: serial("id").primaryKey(),
+  convoyId: integer("convoy_id").notNull().references(() => convoys.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  points: jsonb("points").notNull(), // RoutePoint[] in time order
+  startedAt: timestamp("started_at"),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_convoy_tracks_participant").on(table.convoyId, table.userId)]);
 
 // Post likes table
 export const postLikes = pgTable("post_likes", {
@@ -214,23 +256,47 @@ export const savedPosts = pgTable("saved_posts", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Post impressions table; the ranked feed hides posts a member has already scrolled past
+export const postImpressions = pgTable(
+  "post_impressions",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    postId: integer("post_id").notNull().references(() => posts.id, { onDelete: "cascade" }),
+    seenAt: timestamp("seen_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("UQ_post_impressions_user_post").on(table.userId, table.postId)],
+);
+
 // Garage votes table
-export const garageVotes = pgTable("garage_votes", {
-  id: serial("id").primaryKey(),
-  voterId: varchar("voter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  garageOwnerId: varchar("garage_owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  month: integer("month").notNull(),
-  year: integer("year").notNull(),
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const garageVotes = pgTable(
+  "garage_votes",
+  {
+    id: serial("id").primaryKey(),
+    voterId: varchar("voter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    garageOwnerId: varchar("garage_owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    month: integer("month").notNull(),
+    year: integer("year").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  // One vote per voter for each garage each month
+  (table) => [uniqueIndex("UQ_garage_votes_monthly").on(table.voterId, table.garageOwnerId, table.month, table.year)],
+);
 
 // User follows table
-export const userFollows = pgTable("user_follows", {
-  id: serial("id").primaryKey(),
-  followerId: varchar("follower_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  followingId: varchar("following_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const userFollows = pgTable(
+  "user_follows",
+  {
+    id: serial("id").primaryKey(),
+    followerId: varchar("follower_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    followingId: varchar("following_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_user_follows_pair").on(table.followerId, table.followingId),
+    index("IDX_user_follows_following").on(table.followingId),
+  ],
+);
 
 // Weather alerts table
 export const weatherAlerts = pgTable("weather_alerts", {
@@ -246,6 +312,254 @@ export const weatherAlerts = pgTable("weather_alerts", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Privacy zones hide the parts of a user's shared tracks that fall inside them
+export const privacyZones = pgTable("privacy_zones", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+  radius: integer("radius").notNull().default(500), // in metres
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Named stretches of road between a start and an end gate
+export const segments = pgTable("segments", {
+  id: serial("id").primaryKey(),
+  creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  startLatitude: decimal("start_latitude", { precision: 10, scale: 8 }).notNull(),
+  startLongitude: decimal("start_longitude", { precision: 11, scale: 8 }).notNull(),
+  endLatitude: decimal("end_latitude", { precision: 10, scale: 8 }).notNull(),
+  endLongitude: decimal("end_longitude", { precision: 11, scale: 8 }).notNull(),
+  gateRadius: integer("gate_radius").notNull().default(30), // in metres
+  distance: decimal("distance", { precision: 8, scale: 3 }).notNull(), // in km, along the reference track
+  routeCoordinates: jsonb("route_coordinates"), // reference track between the gates, for display
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Timed passes through a segment, matched from drive log tracks
+export const segmentEfforts = pgTable(
+  "segment_efforts",
+  {
+    id: serial("id").primaryKey(),
+    segmentId: integer("segment_id").notNull().references(() => segments.id, { onDelete: "cascade" }),
+    driveLogId: integer("drive_log_id").notNull().references(() => driveLogs.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
+    vehicleClass: varchar("vehicle_class").notNull().default("other"), // vehicle's class when the effort was recorded
+    startTime: timestamp("start_time").notNull(),
+    endTime: timestamp("end_time").notNull(),
+    elapsedTime: integer("elapsed_time").notNull(), // in seconds
+    avgSpeed: decimal("avg_speed", { precision: 6, scale: 2 }).notNull(), // in km/h
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_segment_efforts_segment").on(table.segmentId, table.elapsedTime),
+    index("IDX_segment_efforts_drive_log").on(table.driveLogId),
+  ],
+);
+
+// Fill-ups recorded against a vehicle, the source for fuel economy and running costs
+export const fuelEntries = pgTable(
+  "fuel_entries",
+  {
+    id: serial("id").primaryKey(),
+    vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    driveLogId: integer("drive_log_id").references(() => driveLogs.id, { onDelete: "set null" }),
+    pitstopId: integer("pitstop_id").references(() => pitstops.id, { onDelete: "set null" }), // station the fill-up happened at
+    filledAt: timestamp("filled_at").notNull(),
+    odometer: decimal("odometer", { precision: 10, scale: 1 }).notNull(), // in km
+    volume: decimal("volume", { precision: 7, scale: 2 }).notNull(), // in litres
+    totalPrice: decimal("total_price", { precision: 9, scale: 2 }),
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+    isFullFill: boolean("is_full_fill").notNull().default(true), // partial fills can't close an economy interval
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_fuel_entries_vehicle").on(table.vehicleId, table.odometer),
+    index("IDX_fuel_entries_drive_log").on(table.driveLogId),
+  ],
+);
+
+// Work done on a vehicle
+export const serviceRecords = pgTable(
+  "service_records",
+  {
+    id: serial("id").primaryKey(),
+    vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    serviceType: varchar("service_type").notNull(), // oil change, tire rotation, brakes, ...
+    performedAt: timestamp("performed_at").notNull(),
+    odometer: decimal("odometer", { precision: 10, scale: 1 }), // in km
+    cost: decimal("cost", { precision: 9, scale: 2 }),
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+    shop: varchar("shop"),
+    notes: text("notes"),
+    receiptUrls: text("receipt_urls").array(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_service_records_vehicle").on(table.vehicleId, table.performedAt)],
+);
+
+// Recurring maintenance, due every `intervalKm` and/or `intervalMonths` after the last matching service
+export const maintenanceReminders = pgTable("maintenance_reminders", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  serviceType: varchar("service_type").notNull(), // matched against serviceRecords.serviceType
+  intervalKm: integer("interval_km"),
+  intervalMonths: integer("interval_months"),
+  startOdometer: decimal("start_odometer", { precision: 10, scale: 1 }), // counts from here until the first matching service
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const MODIFICATION_CATEGORIES = [
+  "engine",
+  "forced induction",
+  "intake",
+  "exhaust",
+  "fuel system",
+  "tuning",
+  "drivetrain",
+  "suspension",
+  "brakes",
+  "wheels & tires",
+  "aero",
+  "exterior",
+  "interior",
+  "electronics",
+  "other",
+] as const;
+
+// Aftermarket work on a vehicle, making up its build sheet
+export const vehicleModifications = pgTable(
+  "vehicle_modifications",
+  {
+    id: serial("id").primaryKey(),
+    vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    category: varchar("category").notNull(), // one of MODIFICATION_CATEGORIES
+    part: varchar("part").notNull(),
+    brand: varchar("brand"),
+    installedAt: timestamp("installed_at"),
+    cost: decimal("cost", { precision: 9, scale: 2 }),
+    currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+    installer: varchar("installer"), // shop name, or "self"
+    notes: text("notes"),
+    photoUrls: text("photo_urls").array(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_vehicle_modifications_vehicle").on(table.vehicleId, table.installedAt)],
+);
+
+// Measured performance: a dyno pull, a timed run, or both
+export const performanceRecords = pgTable(
+  "performance_records",
+  {
+    id: serial("id").primaryKey(),
+    vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    recordedAt: timestamp("recorded_at").notNull(),
+    horsepower: decimal("horsepower", { precision: 6, scale: 1 }), // dyno peak power, in hp
+    torque: decimal("torque", { precision: 6, scale: 1 }), // dyno peak torque, in Nm
+    zeroToHundred: decimal("zero_to_hundred", { precision: 5, scale: 2 }), // 0-100 km/h, in seconds
+    quarterMileTime: decimal("quarter_mile_time", { precision: 5, scale: 2 }), // in seconds
+    quarterMileSpeed: decimal("quarter_mile_speed", { precision: 5, scale: 1 }), // trap speed, in km/h
+    timeslipUrl: varchar("timeslip_url"),
+    notes: text("notes"), // dyno type, venue, conditions
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_performance_records_vehicle").on(table.vehicleId, table.recordedAt)],
+);
+
+// Vehicle photo gallery; the cover is whichever photo vehicles.imageUrl points at
+export const vehiclePhotos = pgTable(
+  "vehicle_photos",
+  {
+    id: serial("id").primaryKey(),
+    vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    url: varchar("url").notNull(),
+    caption: varchar("caption", { length: 200 }),
+    position: integer("position").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_vehicle_photos_vehicle").on(table.vehicleId, table.position)],
+);
+
+export const DOCUMENT_TYPES = [
+  "insurance",
+  "registration",
+  "inspection",
+  "tech card",
+  "other",
+] as const;
+
+// Paperwork kept against a vehicle. Files live in private storage and are only served to the owner.
+export const vehicleDocuments = pgTable(
+  "vehicle_documents",
+  {
+    id: serial("id").primaryKey(),
+    vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    type: varchar("type").notNull(), // one of DOCUMENT_TYPES
+    documentNumber: varchar("document_number"), // policy, plate or certificate number
+    issuer: varchar("issuer"), // insurer, licensing authority, inspection station, event
+    issuedAt: timestamp("issued_at"),
+    expiresAt: timestamp("expires_at"),
+    fileName: varchar("file_name"), // stored name in private uploads
+    originalName: varchar("original_name"),
+    mimeType: varchar("mime_type"),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_vehicle_documents_vehicle").on(table.vehicleId, table.type),
+    index("IDX_vehicle_documents_expiry").on(table.userId, table.expiresAt),
+  ],
+);
+
+// A vehicle handed from one member to another; nothing moves until the recipient accepts
+export const vehicleTransfers = pgTable(
+  "vehicle_transfers",
+  {
+    id: serial("id").primaryKey(),
+    vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+    fromUserId: varchar("from_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    toUserId: varchar("to_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    status: varchar("status").notNull().default("pending"), // pending, accepted, declined, cancelled
+    includeServiceHistory: boolean("include_service_history").notNull().default(true), // service records and reminders
+    includeBuildSheet: boolean("include_build_sheet").notNull().default(true), // modifications and performance records
+    message: text("message"),
+    createdAt: timestamp("created_at").defaultNow(),
+    respondedAt: timestamp("responded_at"),
+  },
+  (table) => [
+    index("IDX_vehicle_transfers_recipient").on(table.toUserId, table.status),
+    index("IDX_vehicle_transfers_vehicle").on(table.vehicleId, table.status),
+    // A vehicle can only be on offer to one person at a time
+    uniqueIndex("UQ_vehicle_transfers_pending").on(table.vehicleId).where(sql`${table.status} = 'pending'`),
+  ],
+);
+
+// Who has owned a vehicle and when; the current owner's row has no end date
+export const vehicleOwnerships = pgTable(
+  "vehicle_ownerships",
+  {
+    id: serial("id").primaryKey(),
+    vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at"),
+    transferId: integer("transfer_id").references(() => vehicleTransfers.id, { onDelete: "set null" }),
+  },
+  (table) => [index("IDX_vehicle_ownerships_vehicle").on(table.vehicleId, table.startedAt)],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   vehicles: many(vehicles),
@@ -260,6 +574,11 @@ export const usersRelations = relations(users, ({ many }) => ({
   garageVotesReceived: many(garageVotes, { relationName: "garageOwner" }),
   followers: many(userFollows, { relationName: "following" }),
   following: many(userFollows, { relationName: "follower" }),
+  privacyZones: many(privacyZones),
+  segmentEfforts: many(segmentEfforts),
+  fuelEntries: many(fuelEntries),
+  serviceRecords: many(serviceRecords),
+  maintenanceReminders: many(maintenanceReminders),
 }));
 
 export const vehiclesRelations = relations(vehicles, ({ one, many }) => ({
@@ -269,6 +588,15 @@ export const vehiclesRelations = relations(vehicles, ({ one, many }) => ({
   }),
   driveLogs: many(driveLogs),
   convoyParticipations: many(convoyParticipants),
+  fuelEntries: many(fuelEntries),
+  serviceRecords: many(serviceRecords),
+  maintenanceReminders: many(maintenanceReminders),
+  modifications: many(vehicleModifications),
+  performanceRecords: many(performanceRecords),
+  photos: many(vehiclePhotos),
+  documents: many(vehicleDocuments),
+  transfers: many(vehicleTransfers),
+  ownerships: many(vehicleOwnerships),
 }));
 
 export const postsRelations = relations(posts, ({ one, many }) => ({
@@ -300,6 +628,7 @@ export const driveLogsRelations = relations(driveLogs, ({ one, many }) => ({
   }),
   pitstops: many(pitstops),
   posts: many(posts),
+  fuelEntries: many(fuelEntries),
 }));
 
 export const pitstopsRelations = relations(pitstops, ({ one }) => ({
@@ -344,6 +673,28 @@ export const convoyUpdatesRelations = relations(convoyUpdates, ({ one }) => ({
   }),
 }));
 
+export const convoyStatusTransitionsRelations = relations(convoyStatusTransitions, ({ one }) => ({
+  convoy: one(convoys, {
+    fields: [convoyStatusTransitions.convoyId],
+    references: [convoys.id],
+  }),
+  actor: one(users, {
+    fields: [convoyStatusTransitions.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const convoyTracksRelations = relations(convoyTracks, ({ one }) => ({
+  convoy: one(convoys, {
+    fields: [convoyTracks.convoyId],
+    references: [convoys.id],
+  }),
+  user: one(users, {
+    fields: [convoyTracks.userId],
+    references: [users.id],
+  }),
+}));
+
 export const postLikesRelations = relations(postLikes, ({ one }) => ({
   post: one(posts, {
     fields: [postLikes.postId],
@@ -382,6 +733,17 @@ export const savedPostsRelations = relations(savedPosts, ({ one }) => ({
   }),
 }));
 
+export const postImpressionsRelations = relations(postImpressions, ({ one }) => ({
+  post: one(posts, {
+    fields: [postImpressions.postId],
+    references: [posts.id],
+  }),
+  user: one(users, {
+    fields: [postImpressions.userId],
+    references: [users.id],
+  }),
+}));
+
 export const garageVotesRelations = relations(garageVotes, ({ one }) => ({
   voter: one(users, {
     fields: [garageVotes.voterId],
@@ -408,11 +770,165 @@ export const userFollowsRelations = relations(userFollows, ({ one }) => ({
   }),
 }));
 
+export const privacyZonesRelations = relations(privacyZones, ({ one }) => ({
+  user: one(users, {
+    fields: [privacyZones.userId],
+    references: [users.id],
+  }),
+}));
+
+export const segmentsRelations = relations(segments, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [segments.creatorId],
+    references: [users.id],
+  }),
+  efforts: many(segmentEfforts),
+}));
+
+export const segmentEffortsRelations = relations(segmentEfforts, ({ one }) => ({
+  segment: one(segments, {
+    fields: [segmentEfforts.segmentId],
+    references: [segments.id],
+  }),
+  driveLog: one(driveLogs, {
+    fields: [segmentEfforts.driveLogId],
+    references: [driveLogs.id],
+  }),
+  user: one(users, {
+    fields: [segmentEfforts.userId],
+    references: [users.id],
+  }),
+  vehicle: one(vehicles, {
+    fields: [segmentEfforts.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const fuelEntriesRelations = relations(fuelEntries, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [fuelEntries.vehicleId],
+    references: [vehicles.id],
+  }),
+  user: one(users, {
+    fields: [fuelEntries.userId],
+    references: [users.id],
+  }),
+  driveLog: one(driveLogs, {
+    fields: [fuelEntries.driveLogId],
+    references: [driveLogs.id],
+  }),
+  pitstop: one(pitstops, {
+    fields: [fuelEntries.pitstopId],
+    references: [pitstops.id],
+  }),
+}));
+
+export const serviceRecordsRelations = relations(serviceRecords, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [serviceRecords.vehicleId],
+    references: [vehicles.id],
+  }),
+  user: one(users, {
+    fields: [serviceRecords.userId],
+    references: [users.id],
+  }),
+}));
+
+export const maintenanceRemindersRelations = relations(maintenanceReminders, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [maintenanceReminders.vehicleId],
+    references: [vehicles.id],
+  }),
+  user: one(users, {
+    fields: [maintenanceReminders.userId],
+    references: [users.id],
+  }),
+}));
+
+export const vehicleModificationsRelations = relations(vehicleModifications, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [vehicleModifications.vehicleId],
+    references: [vehicles.id],
+  }),
+  user: one(users, {
+    fields: [vehicleModifications.userId],
+    references: [users.id],
+  }),
+}));
+
+export const performanceRecordsRelations = relations(performanceRecords, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [performanceRecords.vehicleId],
+    references: [vehicles.id],
+  }),
+  user: one(users, {
+    fields: [performanceRecords.userId],
+    references: [users.id],
+  }),
+}));
+
+export const vehicleDocumentsRelations = relations(vehicleDocuments, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [vehicleDocuments.vehicleId],
+    references: [vehicles.id],
+  }),
+  user: one(users, {
+    fields: [vehicleDocuments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const vehicleTransfersRelations = relations(vehicleTransfers, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [vehicleTransfers.vehicleId],
+    references: [vehicles.id],
+  }),
+  fromUser: one(users, {
+    fields: [vehicleTransfers.fromUserId],
+    references: [users.id],
+  }),
+  toUser: one(users, {
+    fields: [vehicleTransfers.toUserId],
+    references: [users.id],
+  }),
+}));
+
+export const vehicleOwnershipsRelations = relations(vehicleOwnerships, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [vehicleOwnerships.vehicleId],
+    references: [vehicles.id],
+  }),
+  user: one(users, {
+    fields: [vehicleOwnerships.userId],
+    references: [users.id],
+  }),
+  transfer: one(vehicleTransfers, {
+    fields: [vehicleOwnerships.transferId],
+    references: [vehicleTransfers.id],
+  }),
+}));
+
+export const vehiclePhotosRelations = relations(vehiclePhotos, ({ one }) => ({
+  vehicle: one(vehicles, {
+    fields: [vehiclePhotos.vehicleId],
+    references: [vehicles.id],
+  }),
+  user: one(users, {
+    fields: [vehiclePhotos.userId],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 export const insertVehicleSchema = createInsertSchema(vehicles).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  vin: z.string().trim().toUpperCase()
+    .regex(/^([A-HJ-NPR-Z0-9]{17})?$/, "VIN must be 17 characters, without I, O or Q")
+    .transform((vin) => vin || null)
+    .nullish(),
 });
 
 export const insertPostSchema = createInsertSchema(posts).omit({
@@ -426,6 +942,15 @@ export const insertPostSchema = createInsertSchema(posts).omit({
 
 export const insertDriveLogSchema = createInsertSchema(driveLogs).omit({
   id: true,
+  simplifiedRoute: true,
+  totalAscent: true,
+  totalDescent: true,
+  maxElevation: true,
+  minElevation: true,
+  elevationProfile: true,
+  twistinessScore: true,
+  bendCount: true,
+  curvyDistancePercent: true,
   createdAt: true,
 }).extend({
   distance: z.union([
@@ -451,6 +976,7 @@ export const insertDriveLogSchema = createInsertSchema(driveLogs).omit({
 export const insertConvoySchema = createInsertSchema(convoys).omit({
   id: true,
   currentParticipants: true,
+  lastEventSequence: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -470,6 +996,8 @@ export const insertConvoySchema = createInsertSchema(convoys).omit({
     z.number(),
     z.undefined()
   ]).optional(),
+  // A convoy can be drafted and published later; every other status is reached through the lifecycle
+  status: z.enum(["draft", "open"]).optional(),
 });
 
 export const insertPitstopSchema = createInsertSchema(pitstops).omit({
@@ -484,6 +1012,122 @@ export const insertPostCommentSchema = createInsertSchema(postComments).omit({
   updatedAt: true,
 });
 
+export const insertSegmentSchema = createInsertSchema(segments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSegmentEffortSchema = createInsertSchema(segmentEfforts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPrivacyZoneSchema = createInsertSchema(privacyZones).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  latitude: z.coerce.number().min(-90).max(90).transform((num) => num.toFixed(8)),
+  longitude: z.coerce.number().min(-180).max(180).transform((num) => num.toFixed(8)),
+  radius: z.coerce.number().int().min(100).max(5000),
+});
+
+export const insertFuelEntrySchema = createInsertSchema(fuelEntries).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  filledAt: z.coerce.date(),
+  odometer: z.coerce.number().min(0).max(9999999).transform((num) => num.toFixed(1)),
+  volume: z.coerce.number().positive().max(9999).transform((num) => num.toFixed(2)),
+  totalPrice: z.coerce.number().min(0).max(9999999).transform((num) => num.toFixed(2)).nullish(),
+  currency: z.string().trim().toUpperCase().length(3).default("USD"),
+  driveLogId: z.coerce.number().int().nullish(),
+  pitstopId: z.coerce.number().int().nullish(),
+});
+
+export const insertServiceRecordSchema = createInsertSchema(serviceRecords).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  serviceType: z.string().trim().toLowerCase().min(1, "Service type is required").max(100),
+  performedAt: z.coerce.date(),
+  odometer: z.coerce.number().min(0).max(9999999).transform((num) => num.toFixed(1)).nullish(),
+  cost: z.coerce.number().min(0).max(9999999).transform((num) => num.toFixed(2)).nullish(),
+  currency: z.string().trim().toUpperCase().length(3).default("USD"),
+});
+
+export const insertMaintenanceReminderSchema = createInsertSchema(maintenanceReminders).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  serviceType: z.string().trim().toLowerCase().min(1, "Service type is required").max(100),
+  intervalKm: z.coerce.number().int().min(100).max(500000).nullish(),
+  intervalMonths: z.coerce.number().int().min(1).max(240).nullish(),
+  startOdometer: z.coerce.number().min(0).max(9999999).transform((num) => num.toFixed(1)).nullish(),
+}).refine((reminder) => reminder.intervalKm || reminder.intervalMonths, {
+  message: "Set a distance or a time interval",
+  path: ["intervalKm"],
+});
+
+export const insertVehicleModificationSchema = createInsertSchema(vehicleModifications).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  category: z.enum(MODIFICATION_CATEGORIES),
+  part: z.string().trim().min(1, "Part is required").max(200),
+  installedAt: z.coerce.date().nullish(),
+  cost: z.coerce.number().min(0).max(9999999).transform((num) => num.toFixed(2)).nullish(),
+  currency: z.string().trim().toUpperCase().length(3).default("USD"),
+});
+
+export const insertPerformanceRecordSchema = createInsertSchema(performanceRecords).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  recordedAt: z.coerce.date(),
+  horsepower: z.coerce.number().positive().max(5000).transform((num) => num.toFixed(1)).nullish(),
+  torque: z.coerce.number().positive().max(10000).transform((num) => num.toFixed(1)).nullish(),
+  zeroToHundred: z.coerce.number().positive().max(100).transform((num) => num.toFixed(2)).nullish(),
+  quarterMileTime: z.coerce.number().positive().max(100).transform((num) => num.toFixed(2)).nullish(),
+  quarterMileSpeed: z.coerce.number().positive().max(600).transform((num) => num.toFixed(1)).nullish(),
+}).refine((record) => record.horsepower || record.torque || record.zeroToHundred || record.quarterMileTime, {
+  message: "Record at least one result",
+  path: ["horsepower"],
+});
+
+export const insertVehicleDocumentSchema = createInsertSchema(vehicleDocuments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  type: z.enum(DOCUMENT_TYPES),
+  documentNumber: z.string().trim().max(100).nullish(),
+  issuer: z.string().trim().max(200).nullish(),
+  issuedAt: z.coerce.date().nullish(),
+  expiresAt: z.coerce.date().nullish(),
+}).refine((document) => !document.issuedAt || !document.expiresAt || document.expiresAt >= document.issuedAt, {
+  message: "Expiry date must be after the issue date",
+  path: ["expiresAt"],
+});
+
+export const createVehicleTransferSchema = z.object({
+  recipient: z.string().trim().min(1, "Enter the new owner's username or email"), // username or email
+  includeServiceHistory: z.boolean().default(true),
+  includeBuildSheet: z.boolean().default(true),
+  message: z.string().trim().max(500).nullish(),
+});
+
+export const markPostsSeenSchema = z.object({
+  postIds: z.array(z.number().int().positive()).min(1).max(100),
+});
+
+export const updateVehiclePhotoSchema = z.object({
+  caption: z.string().trim().max(200).nullable(),
+});
+
+export const reorderVehiclePhotosSchema = z.object({
+  photoIds: z.array(z.number().int().positive()).min(1),
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -491,11 +1135,13 @@ export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
 export type Vehicle = typeof vehicles.$inferSelect;
 export type InsertPost = z.infer<typeof insertPostSchema>;
 export type Post = typeof posts.$inferSelect;
+export type PostImpression = typeof postImpressions.$inferSelect;
 export type InsertDriveLog = z.infer<typeof insertDriveLogSchema>;
 export type DriveLog = typeof driveLogs.$inferSelect;
 export type InsertConvoy = z.infer<typeof insertConvoySchema>;
 export type Convoy = typeof convoys.$inferSelect;
 export type ConvoyParticipant = typeof convoyParticipants.$inferSelect;
+export type ConvoyStatusTransition = typeof convoyStatusTransitions.$inferSelect;
 export type PostComment = typeof postComments.$inferSelect;
 export type InsertPostComment = z.infer<typeof insertPostCommentSchema>;
 export type InsertPitstop = z.infer<typeof insertPitstopSchema>;
@@ -503,6 +1149,30 @@ export type Pitstop = typeof pitstops.$inferSelect;
 export type WeatherAlert = typeof weatherAlerts.$inferSelect;
 export type ConvoyUpdate = typeof convoyUpdates.$inferSelect;
 export type InsertConvoyUpdate = typeof convoyUpdates.$inferInsert;
+export type ConvoyTrack = typeof convoyTracks.$inferSelect;
+export type InsertPrivacyZone = z.infer<typeof insertPrivacyZoneSchema>;
+export type PrivacyZone = typeof privacyZones.$inferSelect;
+export type InsertSegment = z.infer<typeof insertSegmentSchema>;
+export type Segment = typeof segments.$inferSelect;
+export type InsertSegmentEffort = z.infer<typeof insertSegmentEffortSchema>;
+export type SegmentEffort = typeof segmentEfforts.$inferSelect;
+export type InsertFuelEntry = z.infer<typeof insertFuelEntrySchema>;
+export type FuelEntry = typeof fuelEntries.$inferSelect;
+export type InsertServiceRecord = z.infer<typeof insertServiceRecordSchema>;
+export type ServiceRecord = typeof serviceRecords.$inferSelect;
+export type InsertMaintenanceReminder = z.infer<typeof insertMaintenanceReminderSchema>;
+export type MaintenanceReminder = typeof maintenanceReminders.$inferSelect;
+export type InsertVehicleModification = z.infer<typeof insertVehicleModificationSchema>;
+export type VehicleModification = typeof vehicleModifications.$inferSelect;
+export type InsertPerformanceRecord = z.infer<typeof insertPerformanceRecordSchema>;
+export type PerformanceRecord = typeof performanceRecords.$inferSelect;
+export type VehiclePhoto = typeof vehiclePhotos.$inferSelect;
+export type InsertVehiclePhoto = typeof vehiclePhotos.$inferInsert;
+export type InsertVehicleDocument = z.infer<typeof insertVehicleDocumentSchema>;
+export type VehicleDocument = typeof vehicleDocuments.$inferSelect;
+export type VehicleTransfer = typeof vehicleTransfers.$inferSelect;
+export type InsertVehicleTransfer = typeof vehicleTransfers.$inferInsert;
+export type VehicleOwnership = typeof vehicleOwnerships.$inferSelect;
 
 // Pitstop location interface for Google Maps integration
 export interface PitstopLocation {
@@ -518,3 +1188,309 @@ export interface PitstopLocation {
   imageUrls?: string[];
   notes?: string;
 }
+
+// GPS track point stored in driveLogs.routeCoordinates
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+  timestamp?: string; // ISO 8601
+  elevation?: number; // metres above sea level
+}
+
+export const routePointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  timestamp: z.string().datetime({ offset: true }).optional(),
+  elevation: z.number().min(-500).max(9000).optional(),
+});
+
+export const routeCoordinatesSchema = z.array(routePointSchema);
+
+// Display polylines derived from routeCoordinates, as [latitude, longitude] pairs per zoom level
+export interface SimplifiedRoute {
+  overview: [number, number][];
+  regional: [number, number][];
+  detail: [number, number][];
+}
+
+// One sample of a drive's elevation profile: distance along the track (km) and altitude (m)
+export interface ElevationProfilePoint {
+  distance: number;
+  elevation: number;
+}
+
+// Map a drive's twistiness score onto the convoy difficulty scale
+export function twistinessDifficulty(score: number): "easy" | "moderate" | "hard" {
+  if (score >= 60) return "hard";
+  if (score >= 30) return "moderate";
+  return "easy";
+}
+
+export const CONVOY_STATUSES = ["draft", "open", "full", "checking_in", "in_progress", "completed", "cancelled"] as const;
+export type ConvoyStatus = typeof CONVOY_STATUSES[number];
+
+// Every move the convoy lifecycle allows. open and full follow the participant count, check-in opens
+// ahead of the start and the drive starts and finishes on schedule; organisers can also make the moves
+// in CONVOY_MANUAL_TRANSITIONS themselves
+export const CONVOY_STATUS_TRANSITIONS: Record<ConvoyStatus, readonly ConvoyStatus[]> = {
+  draft: ["open", "cancelled"],
+  open: ["full", "checking_in", "cancelled"],
+  full: ["open", "checking_in", "cancelled"],
+  checking_in: ["in_progress", "cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+// Whether a convoy is open or full is down to its participants, never the organiser
+export const CONVOY_MANUAL_TRANSITIONS: Record<ConvoyStatus, readonly ConvoyStatus[]> = {
+  draft: ["open", "cancelled"],
+  open: ["checking_in", "cancelled"],
+  full: ["checking_in", "cancelled"],
+  checking_in: ["in_progress", "cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+// Statuses in which a convoy takes new participants (capacity permitting), and in which it's on the road
+export const CONVOY_JOINABLE_STATUSES: readonly ConvoyStatus[] = ["open", "checking_in"];
+export const CONVOY_LIVE_STATUSES: readonly ConvoyStatus[] = ["checking_in", "in_progress"];
+
+export function isConvoyStatus(value: unknown): value is ConvoyStatus {
+  return typeof value === "string" && (CONVOY_STATUSES as readonly string[]).includes(value);
+}
+
+export const convoyStatusChangeSchema = z.object({
+  status: z.enum(CONVOY_STATUSES),
+});
+
+export const VEHICLE_CLASSES = ["car", "sports car", "suv", "truck", "motorcycle", "classic"] as const;
+
+// Fuel economy and running costs for a vehicle, derived from its fill-ups
+export interface FuelEconomySummary {
+  litersPer100Km: number | null; // over every full-to-full interval
+  mpg: number | null; // US gallons
+  recentLitersPer100Km: number | null; // over the last few intervals only
+  costPerKm: number | null; // in `currency`
+  currency: string | null; // currency of the latest priced fill-up; costs in other currencies are left out
+  totalDistance: number; // km covered by economy intervals
+  totalVolume: number; // litres across all fill-ups
+  monthlySpend: { month: string; currency: string; total: number }[]; // month as YYYY-MM
+}
+
+export const SERVICE_TYPES = [
+  "oil change",
+  "tire rotation",
+  "brake pads",
+  "brake fluid",
+  "air filter",
+  "coolant",
+  "transmission fluid",
+  "spark plugs",
+  "timing belt",
+  "inspection",
+] as const;
+
+// A maintenance reminder with where it stands against the vehicle's current odometer and today's date
+export interface MaintenanceReminderStatus {
+  reminder: MaintenanceReminder;
+  lastServiceAt: string | null; // ISO date of the last matching service record
+  dueOdometer: number | null; // km
+  dueDate: string | null; // ISO date
+  remainingKm: number | null; // negative once overdue
+  remainingDays: number | null; // negative once overdue
+  status: "ok" | "due" | "overdue";
+}
+
+// A vehicle's modifications and measured performance, as presented in the garage and publicly
+export interface BuildSheet {
+  stock: { engine: string | null; horsepower: number | null; transmission: string | null };
+  modifications: { category: string; items: VehicleModification[] }[]; // in MODIFICATION_CATEGORIES order
+  modificationCount: number;
+  totalCost: { currency: string; total: number }[]; // empty on public build sheets
+  performance: PerformanceRecord[]; // oldest first
+  powerHistory: { recordedAt: string; horsepower: number | null; torque: number | null; modificationsInstalled: number }[];
+  best: {
+    horsepower: number | null;
+    torque: number | null;
+    zeroToHundred: number | null;
+    quarterMileTime: number | null;
+    quarterMileSpeed: number | null;
+  };
+  powerGain: number | null; // latest dyno power over stock (or over the first dyno pull), in hp
+}
+
+// A document that has run out or is about to, for the garage page and expiry reminders
+export interface DocumentExpiry {
+  document: VehicleDocument;
+  vehicle: { id: number; make: string; model: string; year: number };
+  daysRemaining: number; // negative once expired
+  status: "expiring" | "expired";
+}
+
+// The public face of a member, as shown alongside transfers and ownership history
+export interface UserSummary {
+  id: string;
+  username: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  profileImageUrl: string | null;
+}
+
+// A pending transfer with enough context to show it to either side
+export interface VehicleTransferSummary {
+  transfer: VehicleTransfer;
+  vehicle: { id: number; make: string; model: string; year: number; imageUrl: string | null };
+  fromUser: UserSummary;
+  toUser: UserSummary;
+}
+
+// One stint in a vehicle's ownership timeline, oldest first
+export interface OwnershipPeriod {
+  user: UserSummary;
+  startedAt: string;
+  endedAt: string | null;
+  viaTransfer: boolean;
+}
+
+// A member in someone's follower or following list
+export interface FollowListEntry extends UserSummary {
+  followedAt: string;
+}
+
+// The parts of a public drive log shown in the following feed; the track itself stays on the drive log page
+export interface FeedDriveLog {
+  id: number;
+  userId: string;
+  title: string;
+  startLocation: string;
+  endLocation: string;
+  distance: string;
+  duration: number | null;
+  twistinessScore: number | null;
+  titleImageUrl: string | null;
+  startTime: string;
+}
+
+// One entry in the following feed, newest first by createdAt
+export type FollowingFeedItem =
+  | { type: "post"; createdAt: string; post: Post }
+  | { type: "drive"; createdAt: string; driveLog: FeedDriveLog }
+  | { type: "convoy"; createdAt: string; convoy: Convoy };
+
+// What the offline VIN decoder could work out; anything not in its reference tables is null
+export interface VinDecodeResult {
+  vin: string;
+  wmi: string; // world manufacturer identifier, positions 1-3
+  manufacturer: string | null;
+  make: string | null;
+  model: string | null;
+  year: number | null;
+  engine: string | null;
+  fuelType: string | null; // matches the garage form's fuel type options
+  country: string | null;
+  region: string;
+  plantCode: string; // position 11
+  plant: string | null;
+  checkDigitValid: boolean;
+  warnings: string[];
+}
+
+// Figures for one vehicle, drawn from the drives and convoys it was taken on
+export interface VehicleStats {
+  totalDistance: number; // km
+  driveCount: number;
+  totalDuration: number; // minutes behind the wheel
+  averageSpeed: number | null; // km/h, over drives with a known duration
+  maxSpeed: number | null; // km/h
+  topRoutes: { name: string; driveCount: number; totalDistance: number }[];
+  fuelEconomyTrend: { month: string; litersPer100Km: number }[]; // month as YYYY-MM
+  convoysAttended: number;
+  recentConvoys: { id: number; title: string; startDateTime: string }[];
+  monthlyDistance: { month: string; distance: number; drives: number }[]; // the last 12 months, oldest first
+}
+
+// One page of a cursor-paginated list; nextCursor is null on the last page
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+// Live convoy protocol spoken over /ws. Who sent a message is taken from the session on the server,
+// never from the message, so client messages carry no userId.
+// Messages and alerts are convoy events, numbered by convoyUpdates.sequence. Each socket receives a
+// convoy's events in sequence order and acks the highest it has handled; unacked events are sent again,
+// and rejoining with lastSequence replays whatever was missed while disconnected. Positions aren't
+// events: the server batches them into a locations message every few seconds, and a missed one is
+// simply superseded by the next
+const convoyIdSchema = z.number().int().positive();
+const sequenceSchema = z.number().int().nonnegative();
+const latitudeSchema = z.number().min(-90).max(90);
+const longitudeSchema = z.number().min(-180).max(180);
+
+export const convoyClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join_convoy"), convoyId: convoyIdSchema, lastSequence: sequenceSchema.optional() }),
+  z.object({ type: z.literal("ack"), convoyId: convoyIdSchema, sequence: sequenceSchema }),
+  z.object({
+    type: z.literal("location_update"),
+    convoyId: convoyIdSchema,
+    payload: z.object({ latitude: latitudeSchema, longitude: longitudeSchema }),
+  }),
+  z.object({
+    type: z.literal("convoy_message"),
+    convoyId: convoyIdSchema,
+    payload: z.object({ message: z.string().trim().min(1).max(1000) }),
+  }),
+  z.object({
+    type: z.literal("emergency_alert"),
+    convoyId: convoyIdSchema,
+    payload: z.object({
+      emergencyType: z.string().trim().min(1).max(50),
+      message: z.string().max(500),
+      latitude: latitudeSchema.optional(),
+      longitude: longitudeSchema.optional(),
+    }),
+  }),
+]);
+
+export const convoyServerMessageSchema = z.discriminatedUnion("type", [
+  // Reply to join_convoy: events after this sequence will follow
+  z.object({ type: z.literal("joined"), convoyId: convoyIdSchema, sequence: sequenceSchema }),
+  z.object({ type: z.literal("user_joined"), userId: z.string(), timestamp: z.string() }),
+  z.object({ type: z.literal("user_left"), userId: z.string(), timestamp: z.string() }),
+  z.object({
+    type: z.literal("locations"),
+    convoyId: convoyIdSchema,
+    locations: z.array(z.object({
+      userId: z.string(),
+      latitude: z.number(),
+      longitude: z.number(),
+      timestamp: z.string(),
+    })),
+  }),
+  z.object({
+    type: z.literal("convoy_message"),
+    convoyId: convoyIdSchema,
+    sequence: sequenceSchema,
+    userId: z.string(),
+    message: z.string(),
+    timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal("emergency_alert"),
+    convoyId: convoyIdSchema,
+    sequence: sequenceSchema,
+    userId: z.string(),
+    emergencyType: z.string(),
+    message: z.string(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+    timestamp: z.string(),
+  }),
+  z.object({ type: z.literal("error"), message: z.string() }),
+]);
+
+export type ConvoyClientMessage = z.infer<typeof convoyClientMessageSchema>;
+export type ConvoyServerMessage = z.infer<typeof convoyServerMessageSchema>;
+export type ConvoyEventMessage = Extract<ConvoyServerMessage, { sequence: number; userId: string }>;